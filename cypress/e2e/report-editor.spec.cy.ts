@@ -0,0 +1,128 @@
+describe('Report editor - edit, compare and rebuild', () => {
+  const reportId = 'report-e2e-1';
+  const reportTitle = 'Heritage Impact Statement - 12 Example Street';
+
+  const sections = [
+    {
+      id: 'section-e2e-1',
+      section_name: 'Site Description',
+      subsection_name: null,
+      status: 'completed',
+      generated_content: 'The site is a corner lot [1].',
+      edited_content: null,
+      edited_at: null,
+      error_message: null,
+      metadata: {}
+    },
+    {
+      id: 'section-e2e-2',
+      section_name: 'Heritage Impact',
+      subsection_name: null,
+      status: 'completed',
+      generated_content: 'The extension is not visible from the street [2].',
+      edited_content: 'The extension is barely visible from the street [2].',
+      edited_at: '2025-08-13T10:00:00Z',
+      error_message: null,
+      metadata: {}
+    }
+  ];
+
+  const reportMarkdown = [
+    `# ${reportTitle}`,
+    '',
+    '## Site Description',
+    '',
+    'The site is a corner lot [1].',
+    '',
+    '| Control | Value |',
+    '| --- | --- |',
+    '| Height of buildings | 8.5 m |'
+  ].join('\n');
+
+  beforeEach(() => {
+    cy.intercept('GET', '**/rest/v1/report_generations*', { fixture: 'completed-report.json' }).as('reports');
+    cy.intercept('GET', '**/storage/v1/object/reports/**', { body: reportMarkdown }).as('reportFile');
+    cy.intercept('GET', '**/rest/v1/report_sections*', (req) => {
+      // The editor asks for the section text; the viewer's source list for retrieval columns only
+      req.reply(String(req.query.select).includes('generated_content') ? sections : []);
+    }).as('sections');
+
+    cy.visit('/?sessionId=test-e2e-session');
+    cy.wait('@reports');
+    cy.contains('h4', reportTitle).click();
+    cy.wait('@reportFile');
+  });
+
+  it('should render markdown tables in the report viewer', () => {
+    cy.get('table').should('contain', 'Height of buildings').and('contain', '8.5 m');
+  });
+
+  it('should save a hand edit and rebuild the report', () => {
+    cy.intercept('POST', '**/rest/v1/rpc/save_report_section_edit', { body: true }).as('saveEdit');
+    cy.intercept('POST', '**/functions/v1/process-report-sections', { body: { success: true } }).as('rebuild');
+
+    cy.get('[data-testid="edit-report"]').click();
+    cy.get('[data-testid="report-editor"]').should('be.visible');
+    cy.get('[data-testid="report-section-editor"]').should('have.length', 2);
+    cy.get('[data-testid="save-report-edits"]').should('be.disabled');
+
+    cy.get('[data-testid="report-section-editor"]').first().within(() => {
+      cy.get('textarea').clear().type('The site is a large corner lot [1].');
+      cy.contains('Unsaved').should('be.visible');
+
+      // Word-level comparison with the AI draft
+      cy.contains('button', 'Compare').click();
+      cy.get('[data-testid="section-comparison"]').find('ins').should('contain', 'large');
+    });
+
+    cy.get('[data-testid="save-report-edits"]').should('not.be.disabled').click();
+
+    cy.wait('@saveEdit').its('request.body').should('deep.equal', {
+      target_section_id: 'section-e2e-1',
+      new_content: 'The site is a large corner lot [1].'
+    });
+    cy.wait('@rebuild').its('request.body').should('deep.equal', {
+      report_generation_id: reportId,
+      reassemble: true
+    });
+
+    cy.contains('Report updated').should('be.visible');
+    // The viewer reloads the rebuilt report file
+    cy.wait('@reportFile');
+  });
+
+  it('should discard an edit that is reverted to the AI draft', () => {
+    cy.intercept('POST', '**/rest/v1/rpc/save_report_section_edit', { body: true }).as('saveEdit');
+    cy.intercept('POST', '**/functions/v1/process-report-sections', { body: { success: true } }).as('rebuild');
+
+    cy.get('[data-testid="edit-report"]').click();
+
+    cy.get('[data-testid="report-section-editor"]').eq(1).within(() => {
+      cy.contains('Edited').should('be.visible');
+      cy.contains('button', 'Revert').click();
+    });
+
+    cy.get('[data-testid="save-report-edits"]').click();
+
+    cy.wait('@saveEdit').its('request.body').should('deep.equal', {
+      target_section_id: 'section-e2e-2',
+      new_content: null
+    });
+    cy.wait('@rebuild');
+  });
+
+  it('should keep the editor open when the rebuild fails', () => {
+    cy.intercept('POST', '**/rest/v1/rpc/save_report_section_edit', { body: true }).as('saveEdit');
+    cy.intercept('POST', '**/functions/v1/process-report-sections', {
+      body: { success: false, error: 'Report is still being generated' }
+    }).as('rebuild');
+
+    cy.get('[data-testid="edit-report"]').click();
+    cy.get('[data-testid="report-section-editor"]').first().find('textarea').clear().type('Edited text.');
+    cy.get('[data-testid="save-report-edits"]').click();
+
+    cy.wait('@rebuild');
+    cy.contains('Could not save changes').should('be.visible');
+    cy.get('[data-testid="report-editor"]').should('be.visible');
+  });
+});
@@ -0,0 +1,125 @@
+describe('Report export - letterheads, Word and PDF', () => {
+  const reportId = 'report-e2e-1';
+  const reportTitle = 'Heritage Impact Statement - 12 Example Street';
+
+  const councilLetterhead = {
+    id: 'letterhead-e2e-1',
+    name: 'Council letterhead',
+    organisation_name: 'Example Council',
+    address: '1 Town Hall Square, Example NSW 2000',
+    contact_details: null,
+    logo_path: null,
+    accent_color: '#1f3a5f',
+    header_text: null,
+    footer_text: null,
+    include_cover_page: true,
+    cover_note: null,
+    is_default: true
+  };
+
+  beforeEach(() => {
+    cy.intercept('GET', '**/rest/v1/report_generations*', { fixture: 'completed-report.json' }).as('reports');
+    cy.intercept('GET', '**/rest/v1/report_letterheads*', { body: [councilLetterhead] }).as('letterheads');
+    cy.intercept('GET', '**/rest/v1/report_sections*', { body: [] });
+    cy.intercept('GET', '**/storage/v1/object/reports/**', { body: `# ${reportTitle}\n\nThe site is a corner lot.` }).as('reportFile');
+
+    cy.visit('/?sessionId=test-e2e-session');
+    cy.wait('@reports');
+  });
+
+  it('should create a new default letterhead', () => {
+    cy.intercept('PATCH', '**/rest/v1/report_letterheads*', { statusCode: 204 }).as('clearDefault');
+    cy.intercept('POST', '**/rest/v1/report_letterheads*', {
+      statusCode: 201,
+      body: { ...councilLetterhead, id: 'letterhead-e2e-2', name: 'Consultancy letterhead', organisation_name: 'Example Planning Pty Ltd' }
+    }).as('createLetterhead');
+
+    cy.get('[data-testid="open-letterheads"]').click();
+    cy.get('[data-testid="letterheads-dialog"]').within(() => {
+      cy.contains('Council letterhead').should('be.visible');
+
+      cy.get('#letterhead-name').type('Consultancy letterhead');
+      cy.get('#letterhead-organisation_name').type('Example Planning Pty Ltd');
+      cy.get('#letterhead-default').click();
+      cy.contains('button', 'Create letterhead').click();
+    });
+
+    // A letterhead that doesn't exist yet has no id to leave out of the reset
+    cy.wait('@clearDefault').its('request.url')
+      .should('include', 'is_default=eq.true')
+      .and('not.include', 'id=neq');
+    cy.wait('@createLetterhead').its('request.body').should('include', {
+      name: 'Consultancy letterhead',
+      organisation_name: 'Example Planning Pty Ltd',
+      is_default: true
+    });
+
+    cy.contains('Letterhead saved').should('be.visible');
+  });
+
+  it('should export a PDF with the chosen letterhead', () => {
+    cy.intercept('POST', '**/functions/v1/export-report', {
+      body: { success: true, file_path: 'user-e2e/reports/report-e2e-1.pdf' }
+    }).as('exportReport');
+    cy.intercept('GET', '**/storage/v1/object/reports/user-e2e/reports/report-e2e-1.pdf', {
+      body: '%PDF-1.7',
+      headers: { 'content-type': 'application/pdf' }
+    }).as('pdfFile');
+
+    cy.contains('h4', reportTitle).click();
+    cy.wait('@reportFile');
+
+    cy.get('[title="Letterhead for Word and PDF"]').click();
+    cy.contains('[role="option"]', 'Council letterhead').click();
+
+    cy.contains('button', 'Download').click();
+    cy.contains('[role="menuitem"]', 'PDF (.pdf)').click();
+
+    cy.wait('@exportReport').its('request.body').should('deep.equal', {
+      report_generation_id: reportId,
+      format: 'pdf',
+      letterhead_id: 'letterhead-e2e-1'
+    });
+    cy.wait('@pdfFile');
+    cy.contains('Download started').should('be.visible');
+  });
+
+  it('should export Word with the default letterhead', () => {
+    cy.intercept('POST', '**/functions/v1/export-report', {
+      body: { success: true, file_path: 'user-e2e/reports/report-e2e-1.docx' }
+    }).as('exportReport');
+    cy.intercept('GET', '**/storage/v1/object/reports/user-e2e/reports/report-e2e-1.docx', {
+      body: 'PK',
+      headers: { 'content-type': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' }
+    }).as('docxFile');
+
+    cy.contains('h4', reportTitle).click();
+    cy.wait('@reportFile');
+
+    cy.contains('button', 'Download').click();
+    cy.contains('[role="menuitem"]', 'Word (.docx)').click();
+
+    cy.wait('@exportReport').its('request.body').should('deep.equal', {
+      report_generation_id: reportId,
+      format: 'docx',
+      letterhead_id: null
+    });
+    cy.wait('@docxFile');
+  });
+
+  it('should report a failed export', () => {
+    cy.intercept('POST', '**/functions/v1/export-report', {
+      body: { success: false, error: 'Only completed reports can be exported' }
+    }).as('exportReport');
+
+    cy.contains('h4', reportTitle).click();
+    cy.wait('@reportFile');
+
+    cy.contains('button', 'Download').click();
+    cy.contains('[role="menuitem"]', 'PDF (.pdf)').click();
+
+    cy.wait('@exportReport');
+    cy.contains('Download failed').should('be.visible');
+    cy.contains('Only completed reports can be exported').should('be.visible');
+  });
+});
@@ -4,6 +4,9 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Index from "./pages/Index";
 import Login from "./pages/Login";
+import Projects from "./pages/Projects";
+import ProjectOverview from "./pages/ProjectOverview";
+import Templates from "./pages/Templates";
 import NotFound from "./pages/NotFound";
 import { ComponentErrorBoundary as ErrorBoundary } from "@/components/ErrorBoundary";
 import { NetworkStatus } from "@/components/NetworkStatus";
@@ -17,6 +20,10 @@ const App = () => (
       <BrowserRouter>
         <Routes>
           <Route path="/" element={<Index />} />
+          <Route path="/projects" element={<Projects />} />
+          <Route path="/projects/:id" element={<Index />} />
+          <Route path="/projects/:id/overview" element={<ProjectOverview />} />
+          <Route path="/templates" element={<Templates />} />
           <Route path="/login" element={<Login />} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
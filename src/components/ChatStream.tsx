@@ -3,13 +3,15 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
-import { Send, AlertTriangle } from "lucide-react";
+import { Send, AlertTriangle, Square, ExternalLink, Loader2, FileText } from "lucide-react";
 import { useState, useEffect, useCallback, useRef } from "react";
+import { useQuery } from "@tanstack/react-query";
 import Lottie from "lottie-react";
-import { sendChat } from "@/lib/api";
+import { streamChatMessage, formatPages, getSessionSources, type ChatCitation } from "@/lib/api";
 import { useErrorHandler } from "@/hooks/useErrorHandler";
 import { ComponentErrorBoundary } from "@/components/ErrorBoundary";
 import { fetchCitation } from "@/lib/api";
+import { DocumentViewer } from "@/components/DocumentViewer";
 import { InlineError } from "@/components/ui/error-display";
 import { NetworkIndicator } from "@/components/NetworkStatus";
 import { supabase } from "@/lib/api";
@@ -35,17 +37,106 @@ interface Message {
   avatar?: string;
   metadata?: any;
   timestamp?: string;
+  // True while the reply is still being generated
+  streaming?: boolean;
 }
 
 interface ChatStreamProps {
   sessionId: string;
 }
 
+interface OpenDocument {
+  sourceId: string;
+  chunkId: string;
+  title: string;
+  page: number | null;
+}
+
+interface CitationChipProps {
+  number: string;
+  citation?: ChatCitation;
+  onOpenDocument?: (document: OpenDocument) => void;
+}
+
+/**
+ * A [n] chip; its popover loads the cited chunk when opened
+ */
+const CitationChip = ({ number, citation, onOpenDocument }: CitationChipProps) => {
+  const [open, setOpen] = useState(false);
+  const { data: details, isLoading } = useQuery({
+    queryKey: ["citation", citation?.chunk_id],
+    queryFn: () => fetchCitation(citation!.chunk_id),
+    enabled: open && !!citation,
+    staleTime: Infinity,
+  });
+
+  const title = details?.title || citation?.source_name || `Citation ${number}`;
+  const section = details?.section || citation?.section_title;
+  const startPage = details?.startPage ?? citation?.start_page ?? null;
+  const pages = formatPages(startPage, details?.endPage ?? citation?.end_page ?? null);
+  const excerpt = details?.excerpt || citation?.excerpt;
+  const sourceId = details?.sourceId || citation?.source_id;
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Badge 
+          variant="secondary" 
+          className="cursor-pointer mx-1 hover:bg-secondary/80"
+          data-testid="citation-chip"
+        >
+          [{number}]
+        </Badge>
+      </PopoverTrigger>
+      <PopoverContent className="w-80" data-testid="citation-popover">
+        <div className="text-sm space-y-2">
+          <div>
+            <p className="font-medium">[{number}] {title}</p>
+            {(section || pages) && (
+              <p className="text-xs text-muted-foreground">{[section, pages].filter(Boolean).join(" · ")}</p>
+            )}
+          </div>
+          {!citation ? (
+            <p className="text-muted-foreground">No source details are available for this citation.</p>
+          ) : isLoading && !excerpt ? (
+            <p className="text-muted-foreground flex items-center gap-2">
+              <Loader2 className="h-3 w-3 animate-spin" />
+              Loading citation details...
+            </p>
+          ) : (
+            <p className="text-muted-foreground max-h-40 overflow-auto whitespace-pre-wrap">
+              {excerpt && excerpt.length > 600 ? `${excerpt.slice(0, 600)}…` : excerpt}
+            </p>
+          )}
+          {citation && sourceId && onOpenDocument && (
+            <Button
+              size="sm"
+              variant="outline"
+              className="w-full h-7 text-xs"
+              onClick={() => {
+                setOpen(false);
+                onOpenDocument({ sourceId, chunkId: citation.chunk_id, title, page: startPage });
+              }}
+            >
+              <ExternalLink className="h-3 w-3 mr-1" />
+              Open in document
+            </Button>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
 /**
  * Bulletproof content renderer that safely handles any data type
  * Never throws runtime errors - always provides fallback rendering
  */
-const renderMessageContent = (content: unknown): JSX.Element => {
+const renderMessageContent = (
+  content: unknown,
+  citations: ChatCitation[] = [],
+  onOpenDocument?: (document: OpenDocument) => void
+): JSX.Element => {
   try {
     // Handle null/undefined
     if (content == null) {
@@ -67,27 +158,13 @@ const renderMessageContent = (content: unknown): JSX.Element => {
           {parts.map((part, index) => {
             if (index % 2 === 1) {
               // This is a citation number
-              const citationId = part;
               return (
-                <Popover key={index}>
-                  <PopoverTrigger asChild>
-                    <Badge 
-                      variant="secondary" 
-                      className="cursor-pointer mx-1 hover:bg-secondary/80"
-                      data-testid="citation-chip"
-                    >
-                      [{citationId}]
-                    </Badge>
-                  </PopoverTrigger>
-                  <PopoverContent className="w-80" data-testid="citation-popover">
-                    <div className="text-sm">
-                      <p className="font-medium">Citation {citationId}</p>
-                      <p className="text-muted-foreground mt-1">
-                        Loading citation details...
-                      </p>
-                    </div>
-                  </PopoverContent>
-                </Popover>
+                <CitationChip
+                  key={index}
+                  number={part}
+                  citation={citations.find(c => c.index === Number(part))}
+                  onOpenDocument={onOpenDocument}
+                />
               );
             }
             return <span key={index}>{part}</span>;
@@ -110,7 +187,7 @@ const renderMessageContent = (content: unknown): JSX.Element => {
               <div key={index} className="flex items-start gap-2">
                 <span className="text-xs text-muted-foreground mt-1">•</span>
                 <div className="flex-1">
-                  {renderMessageContent(item)}
+                  {renderMessageContent(item, citations, onOpenDocument)}
                 </div>
               </div>
             ))}
@@ -123,15 +200,15 @@ const renderMessageContent = (content: unknown): JSX.Element => {
       
       // Check for common response patterns from n8n
       if ('content' in obj && typeof obj.content === 'string') {
-        return renderMessageContent(obj.content);
+        return renderMessageContent(obj.content, citations, onOpenDocument);
       }
       
       if ('message' in obj && typeof obj.message === 'string') {
-        return renderMessageContent(obj.message);
+        return renderMessageContent(obj.message, citations, onOpenDocument);
       }
       
       if ('response' in obj && typeof obj.response === 'string') {
-        return renderMessageContent(obj.response);
+        return renderMessageContent(obj.response, citations, onOpenDocument);
       }
 
       // Render as formatted JSON for debugging
@@ -175,10 +252,11 @@ const renderMessageContent = (content: unknown): JSX.Element => {
 export const ChatStream = ({ sessionId }: ChatStreamProps) => {
   const [isLoading, setIsLoading] = useState(false);
   const [inputValue, setInputValue] = useState("");
-  const [citationData, setCitationData] = useState<Record<string, any>>({});
+  const [openDocument, setOpenDocument] = useState<OpenDocument | null>(null);
   const [chatError, setChatError] = useState<string>("");
   const { handleAsyncError } = useErrorHandler();
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const streamAbortRef = useRef<AbortController | null>(null);
   const [messages, setMessages] = useState<Message[]>([
     {
       id: "1",
@@ -189,6 +267,13 @@ export const ChatStream = ({ sessionId }: ChatStreamProps) => {
   ]);
   const thinkingAnimation = useThinkingAnimation();
 
+  // Kept current by the sources sidebar, which shares this query
+  const { data: groundingSources = [] } = useQuery({
+    queryKey: ["session_sources", sessionId],
+    queryFn: () => getSessionSources(sessionId),
+    enabled: !!sessionId,
+  });
+
   // Auto-scroll to bottom when new messages arrive
   const scrollToBottom = useCallback(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
@@ -271,15 +356,13 @@ export const ChatStream = ({ sessionId }: ChatStreamProps) => {
     };
   }, [sessionId]);
 
-  const handleCitationHover = async (citationId: string) => {
-    if (!citationData[citationId]) {
-      try {
-        const data = await fetchCitation(citationId);
-        setCitationData(prev => ({ ...prev, [citationId]: data }));
-      } catch (error) {
-        console.error('Failed to fetch citation:', error);
-      }
-    }
+  // Stop any reply still streaming when leaving the chat
+  useEffect(() => {
+    return () => streamAbortRef.current?.abort();
+  }, [sessionId]);
+
+  const updateMessage = (id: string, update: (message: Message) => Partial<Message>) => {
+    setMessages(m => m.map(msg => (msg.id === id ? { ...msg, ...update(msg) } : msg)));
   };
 
   const handleSend = async () => {
@@ -287,64 +370,71 @@ export const ChatStream = ({ sessionId }: ChatStreamProps) => {
     
     setChatError("");
     const messageContent = inputValue.trim();
-    const userMessage: Message = {
-      id: Date.now().toString(),
-      type: "user",
-      content: messageContent,
-      timestamp: new Date().toISOString()
-    };
-    
-    setMessages(m => [...m, userMessage]);
+    // Ids are shared with the saved rows so realtime inserts don't duplicate them
+    const userMessageId = crypto.randomUUID();
+    const assistantMessageId = crypto.randomUUID();
+
+    setMessages(m => [
+      ...m,
+      {
+        id: userMessageId,
+        type: "user",
+        content: messageContent,
+        timestamp: new Date().toISOString()
+      },
+      // Shows the thinking animation until the first token arrives
+      {
+        id: assistantMessageId,
+        type: "assistant",
+        content: "",
+        timestamp: new Date().toISOString(),
+        streaming: true
+      }
+    ]);
     setIsLoading(true);
     setInputValue('');
-    
-    // Add thinking message with animation
-    const thinkingMessage: Message = {
-      id: (Date.now() + 1).toString(),
-      type: "assistant",
-      content: "thinking",
-      timestamp: new Date().toISOString()
-    };
-    setMessages(m => [...m, thinkingMessage]);
+
+    const abortController = new AbortController();
+    streamAbortRef.current = abortController;
     
     try {
-      const res = await handleAsyncError(
-        () => sendChat(sessionId, messageContent),
+      const result = await handleAsyncError(
+        () => streamChatMessage(
+          sessionId,
+          messageContent,
+          {
+            onSources: (citations) => updateMessage(assistantMessageId, msg => ({ metadata: { ...msg.metadata, citations } })),
+            onToken: (text) => updateMessage(assistantMessageId, msg => ({ content: msg.content + text }))
+          },
+          { userMessageId, assistantMessageId, signal: abortController.signal }
+        ),
         { operation: 'send_chat_message', sessionId, messageLength: messageContent.length }
       );
-      
-      // Remove thinking message and add actual response
-      setMessages(m => {
-        const withoutThinking = m.slice(0, -1);
-        return [
-          ...withoutThinking,
-          { 
-            id: res.aiMessage.id, 
-            type: 'assistant', 
-            content: res.aiMessage.content,
-            timestamp: new Date().toISOString()
-          }
-        ];
-      });
+
+      // Cancelled before anything was generated: nothing was saved, so drop the placeholder
+      setMessages(m => m
+        .filter(msg => msg.id !== assistantMessageId || msg.content !== "")
+        .map(msg => (msg.id === assistantMessageId
+          ? { ...msg, streaming: false, metadata: { ...msg.metadata, usage: result?.usage, cancelled: !result || result.cancelled } }
+          : msg))
+      );
+      if (result?.error) setChatError(result.error);
     } catch (error) {
       setChatError(error.message || 'Failed to send message');
-      setMessages(m => {
-        const withoutThinking = m.slice(0, -1);
-        return [
-          ...withoutThinking,
-          {
-            id: Date.now().toString(),
-            type: "assistant",
-            content: "Sorry, I encountered an error processing your message. Please try again.",
-            timestamp: new Date().toISOString()
-          }
-        ];
-      });
+      updateMessage(assistantMessageId, msg => ({
+        streaming: false,
+        content: msg.content || "Sorry, I encountered an error processing your message. Please try again."
+      }));
     } finally {
+      if (streamAbortRef.current === abortController) streamAbortRef.current = null;
       setIsLoading(false);
     }
   };
 
+  const handleStop = () => {
+    streamAbortRef.current?.abort();
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -355,6 +445,28 @@ export const ChatStream = ({ sessionId }: ChatStreamProps) => {
   return (
     <ComponentErrorBoundary>
       <div className="flex-1 flex flex-col bg-background h-full">
+        {/* Grounding */}
+        <div className="border-b px-4 py-2 flex items-center gap-2 text-xs text-muted-foreground" data-testid="chat-grounding">
+          <FileText className="h-3.5 w-3.5 flex-shrink-0" />
+          <span className="flex-shrink-0">Answering from:</span>
+          {groundingSources.length === 0 ? (
+            <span>all documents in this notebook</span>
+          ) : (
+            <div className="flex flex-wrap gap-1 min-w-0">
+              {groundingSources.slice(0, 3).map((source) => (
+                <Badge key={source.id} variant="outline" className="text-xs font-normal max-w-[200px] truncate">
+                  {source.display_name}
+                </Badge>
+              ))}
+              {groundingSources.length > 3 && (
+                <Badge variant="outline" className="text-xs font-normal" title={groundingSources.slice(3).map((source) => source.display_name).join(", ")}>
+                  +{groundingSources.length - 3} more
+                </Badge>
+              )}
+            </div>
+          )}
+        </div>
+
         {/* Messages */}
         <div className="flex-1 overflow-auto p-4 space-y-4 mobile-scroll">
           {messages.map((message) => (
@@ -376,7 +488,7 @@ export const ChatStream = ({ sessionId }: ChatStreamProps) => {
                 }`}
               >
                 <div className="text-sm leading-relaxed">
-                  {message.content === "thinking" && message.type === 'assistant' ? (
+                  {message.streaming && !message.content ? (
                     <div className="flex items-center gap-2" data-testid="thinking-animation">
                       {thinkingAnimation ? (
                         <Lottie 
@@ -394,7 +506,7 @@ export const ChatStream = ({ sessionId }: ChatStreamProps) => {
                       <span className="text-muted-foreground">Town Planner Assistant is thinking...</span>
                     </div>
                   ) : (
-                    renderMessageContent(message.content)
+                    renderMessageContent(message.content, message.metadata?.citations, setOpenDocument)
                   )}
                 </div>
                 {message.timestamp && (
@@ -413,6 +525,15 @@ export const ChatStream = ({ sessionId }: ChatStreamProps) => {
           ))}
           <div ref={messagesEndRef} />
         </div>
+
+        <DocumentViewer
+          sourceId={openDocument?.sourceId ?? null}
+          chunkId={openDocument?.chunkId}
+          page={openDocument?.page}
+          title={openDocument?.title}
+          open={!!openDocument}
+          onOpenChange={(open) => !open && setOpenDocument(null)}
+        />
         
         {/* Input Area */}
         <div className="border-t p-4">
@@ -441,15 +562,28 @@ export const ChatStream = ({ sessionId }: ChatStreamProps) => {
               onKeyPress={handleKeyPress}
               disabled={isLoading}
             />
-            <Button 
-              size="sm" 
-              className="px-6" 
-              disabled={isLoading || !inputValue.trim()} 
-              onClick={handleSend}
-            >
-              <Send className="h-4 w-4 mr-2" />
-              Send
-            </Button>
+            {isLoading ? (
+              <Button
+                size="sm"
+                variant="outline"
+                className="px-6"
+                onClick={handleStop}
+                data-testid="stop-generation"
+              >
+                <Square className="h-4 w-4 mr-2" />
+                Stop
+              </Button>
+            ) : (
+              <Button 
+                size="sm" 
+                className="px-6" 
+                disabled={!inputValue.trim()} 
+                onClick={handleSend}
+              >
+                <Send className="h-4 w-4 mr-2" />
+                Send
+              </Button>
+            )}
           </div>
         </div>
       </div>
@@ -0,0 +1,230 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Loader2, FileText, Search, ChevronUp, ChevronDown, ExternalLink } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { formatPages, getSourceChunks, getSourceDocument } from "@/lib/api";
+
+interface DocumentViewerProps {
+  sourceId: string | null;
+  title?: string;
+  // The passage to open at and highlight
+  chunkId?: string | null;
+  // Page to open at; defaults to the passage's first page
+  page?: number | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// The first few words of a passage, for the PDF viewer's find-in-page
+const passagePhrase = (content: string) =>
+  content
+    .replace(/[#*_>|`[\]]/g, " ")
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 6)
+    .join(" ");
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const highlightMatches = (text: string, term: string) => {
+  if (!term) return text;
+  const parts = text.split(new RegExp(`(${escapeRegExp(term)})`, "gi"));
+  return parts.map((part, index) =>
+    index % 2 === 1 ? (
+      <mark key={index} className="bg-yellow-300 dark:bg-yellow-700 rounded-sm">
+        {part}
+      </mark>
+    ) : (
+      part
+    )
+  );
+};
+
+export const DocumentViewer = ({ sourceId, title, chunkId, page, open, onOpenChange }: DocumentViewerProps) => {
+  const chunkRefs = useRef<Record<string, HTMLDivElement | null>>({});
+  const [searchInput, setSearchInput] = useState("");
+  const [searchTerm, setSearchTerm] = useState("");
+  const [activeMatch, setActiveMatch] = useState(0);
+  const [tab, setTab] = useState("document");
+
+  const { data: sourceDocument, isLoading: isLoadingDocument } = useQuery({
+    queryKey: ["source_document", sourceId],
+    queryFn: () => getSourceDocument(sourceId!),
+    enabled: open && !!sourceId,
+    // Signed URLs last an hour
+    staleTime: 30 * 60 * 1000,
+  });
+
+  const { data: chunks, isLoading: isLoadingChunks, error } = useQuery({
+    queryKey: ["source_chunks", sourceId],
+    queryFn: () => getSourceChunks(sourceId!),
+    enabled: open && !!sourceId,
+  });
+
+  const isPdf = !!sourceDocument?.url && sourceDocument.mimeType === "application/pdf";
+  const target = chunks?.find((chunk) => chunk.id === chunkId);
+  const targetPage = page ?? target?.start_page ?? null;
+
+  // Start every opening from a clean search
+  useEffect(() => {
+    if (!open) return;
+    setSearchInput("");
+    setSearchTerm("");
+    setActiveMatch(0);
+  }, [open, sourceId, chunkId]);
+
+  // Show the original file when the browser can render it, otherwise the text
+  useEffect(() => {
+    if (open && sourceDocument) setTab(isPdf ? "document" : "text");
+  }, [open, sourceDocument, isPdf]);
+
+  const matches = useMemo(() => {
+    if (!searchTerm || !chunks) return [];
+    const term = searchTerm.toLowerCase();
+    return chunks.filter((chunk) => chunk.content.toLowerCase().includes(term)).map((chunk) => chunk.id);
+  }, [chunks, searchTerm]);
+
+  const scrollTo = matches[activeMatch] ?? (searchTerm ? null : chunkId);
+
+  useEffect(() => {
+    if (!open || tab !== "text" || !chunks || !scrollTo) return;
+    // Wait a frame so the dialog content is laid out before scrolling
+    const frame = requestAnimationFrame(() => {
+      chunkRefs.current[scrollTo]?.scrollIntoView({ block: "center" });
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [open, tab, chunks, scrollTo]);
+
+  // Built-in PDF viewers read the page and find-in-page term from the URL fragment
+  const pdfSrc = useMemo(() => {
+    if (!isPdf || !sourceDocument?.url) return null;
+    const params = new URLSearchParams();
+    const matchPage = searchTerm ? chunks?.find((chunk) => chunk.id === matches[activeMatch])?.start_page : null;
+    const openAt = matchPage ?? targetPage;
+    if (openAt) params.set("page", String(openAt));
+    const phrase = searchTerm || (target ? passagePhrase(target.content) : "");
+    if (phrase) params.set("search", phrase);
+    return `${sourceDocument.url}#${params.toString().replace(/\+/g, "%20")}`;
+  }, [isPdf, sourceDocument, searchTerm, chunks, matches, activeMatch, targetPage, target]);
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setSearchTerm(searchInput.trim());
+    setActiveMatch(0);
+  };
+
+  const stepMatch = (step: number) => {
+    if (matches.length === 0) return;
+    setActiveMatch((current) => (current + step + matches.length) % matches.length);
+  };
+
+  const isLoading = isLoadingDocument || isLoadingChunks;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-6xl h-[85vh] flex flex-col" data-testid="document-viewer">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 pr-8">
+            <FileText className="h-4 w-4 flex-shrink-0" />
+            <span className="truncate">{sourceDocument?.title || title || "Document"}</span>
+            {targetPage && <Badge variant="outline" className="text-xs">p. {targetPage}</Badge>}
+          </DialogTitle>
+          <DialogDescription className="sr-only">Source document with the cited passage highlighted</DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSearch} className="flex items-center gap-2">
+          <div className="relative flex-1">
+            <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+            <Input
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+              placeholder="Search in document..."
+              className="pl-8"
+              data-testid="document-search"
+            />
+          </div>
+          {searchTerm && (
+            <span className="text-xs text-muted-foreground whitespace-nowrap">
+              {matches.length === 0 ? "No matches" : `${activeMatch + 1} of ${matches.length} passages`}
+            </span>
+          )}
+          <Button type="button" size="sm" variant="ghost" onClick={() => stepMatch(-1)} disabled={matches.length < 2}>
+            <ChevronUp className="h-4 w-4" />
+          </Button>
+          <Button type="button" size="sm" variant="ghost" onClick={() => stepMatch(1)} disabled={matches.length < 2}>
+            <ChevronDown className="h-4 w-4" />
+          </Button>
+          {sourceDocument?.url && (
+            <Button type="button" size="sm" variant="outline" asChild>
+              <a href={sourceDocument.url} target="_blank" rel="noreferrer">
+                <ExternalLink className="h-4 w-4" />
+              </a>
+            </Button>
+          )}
+        </form>
+
+        {isLoading ? (
+          <div className="flex-1 flex items-center justify-center text-muted-foreground">
+            <Loader2 className="h-5 w-5 animate-spin" />
+          </div>
+        ) : (
+          <Tabs value={tab} onValueChange={setTab} className="flex-1 flex flex-col min-h-0">
+            <TabsList className="self-start">
+              <TabsTrigger value="document" disabled={!isPdf}>Document</TabsTrigger>
+              <TabsTrigger value="text">Extracted text</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="document" className="flex-1 min-h-0">
+              {pdfSrc && (
+                <iframe
+                  // Remount so the viewer re-reads the page and search fragment
+                  key={pdfSrc}
+                  src={pdfSrc}
+                  title={sourceDocument?.title || "Document"}
+                  className="w-full h-full rounded border"
+                  data-testid="pdf-frame"
+                />
+              )}
+            </TabsContent>
+
+            <TabsContent value="text" className="flex-1 min-h-0 overflow-auto pr-2">
+              {error && <p className="text-sm text-destructive">Could not load this document.</p>}
+              {chunks?.length === 0 && (
+                <p className="text-sm text-muted-foreground">This document has no extracted text yet.</p>
+              )}
+              {chunks?.map((chunk, index) => {
+                const isTarget = chunk.id === chunkId;
+                const isActiveMatch = chunk.id === matches[activeMatch];
+                const showSection = chunk.section_title && chunk.section_title !== chunks[index - 1]?.section_title;
+                const pages = formatPages(chunk.start_page, chunk.end_page);
+
+                return (
+                  <div key={chunk.id} ref={(el) => (chunkRefs.current[chunk.id] = el)}>
+                    {showSection && <h3 className="text-sm font-semibold mt-4 mb-2">{chunk.section_title}</h3>}
+                    <div
+                      className={`relative rounded p-2 text-sm leading-relaxed whitespace-pre-wrap ${
+                        isTarget ? "bg-yellow-100 dark:bg-yellow-900/30 ring-1 ring-yellow-400" : ""
+                      } ${isActiveMatch ? "ring-2 ring-primary" : ""}`}
+                      data-testid={isTarget ? "cited-passage" : undefined}
+                    >
+                      {pages && (
+                        <Badge variant="outline" className="float-right ml-2 text-xs">
+                          {pages}
+                        </Badge>
+                      )}
+                      {highlightMatches(chunk.content, searchTerm)}
+                    </div>
+                  </div>
+                );
+              })}
+            </TabsContent>
+          </Tabs>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,141 @@
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { RefreshCw, Loader2, AlertCircle } from "lucide-react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import {
+  EMBEDDING_MODEL_IDS,
+  getNotebookEmbeddingStatus,
+  getUserSettings,
+  startReEmbedding,
+  resumeReEmbedding
+} from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+
+interface EmbeddingMigrationBannerProps {
+  notebookId: string;
+}
+
+// A batch normally finishes well within this; no update for longer means the chain stopped
+const STALLED_AFTER_MS = 2 * 60 * 1000;
+
+export const EmbeddingMigrationBanner = ({ notebookId }: EmbeddingMigrationBannerProps) => {
+  const [isStarting, setIsStarting] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: settings } = useQuery({
+    queryKey: ["user_settings"],
+    queryFn: getUserSettings,
+  });
+
+  const { data: status } = useQuery({
+    queryKey: ["embedding_status", notebookId],
+    queryFn: () => getNotebookEmbeddingStatus(notebookId),
+    enabled: !!notebookId,
+    // Poll while a job is running so progress stays current
+    refetchInterval: (query) => {
+      const jobStatus = query.state.data?.latestJob?.status;
+      return jobStatus === "processing" || jobStatus === "pending" ? 3000 : false;
+    },
+  });
+
+  if (!status) return null;
+
+  const job = status.latestJob;
+  // Without an embedding provider of their own choosing the notebook keeps its model
+  const desiredProvider = settings?.embeddingProvider || "";
+  const desiredModel = EMBEDDING_MODEL_IDS[desiredProvider];
+  const isRunning = job && (job.status === "processing" || job.status === "pending");
+  const isFailed = job && job.status === "failed" && status.pendingEmbeddingModel === job.target_model;
+  const isStalled = isRunning && job.updated_at && Date.now() - new Date(job.updated_at).getTime() > STALLED_AFTER_MS;
+  const needsMigration = !isRunning && !isFailed && !!desiredModel && !!status.embeddingModel && desiredModel !== status.embeddingModel;
+
+  if (!isRunning && !isFailed && !needsMigration) return null;
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ["embedding_status", notebookId] });
+
+  const handleStart = async () => {
+    setIsStarting(true);
+    try {
+      await startReEmbedding(notebookId, desiredProvider);
+      toast({
+        title: "Re-embedding started",
+        description: "Search keeps using the current embeddings until all sources are re-embedded.",
+      });
+    } catch (error) {
+      toast({
+        title: "Could not start re-embedding",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setIsStarting(false);
+      refresh();
+    }
+  };
+
+  const handleResume = async () => {
+    if (!job) return;
+    setIsStarting(true);
+    try {
+      await resumeReEmbedding(job.id);
+    } catch (error) {
+      toast({
+        title: "Could not resume re-embedding",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setIsStarting(false);
+      refresh();
+    }
+  };
+
+  if (isRunning || isFailed) {
+    return (
+      <Alert variant={isFailed ? "destructive" : "default"}>
+        {isFailed ? <AlertCircle className="h-4 w-4" /> : <RefreshCw className="h-4 w-4 animate-spin" />}
+        <AlertDescription className="space-y-2">
+          <div className="text-xs">
+            {isFailed
+              ? `Re-embedding with ${job.target_model} failed: ${job.error_message || "unknown error"}`
+              : `Re-embedding sources with ${job.target_model}`}
+          </div>
+          <Progress value={job.progress} className="h-1" />
+          <div className="flex items-center justify-between text-xs text-muted-foreground">
+            <span>{job.current_step || `${job.progress}%`}</span>
+            {(isFailed || isStalled) && (
+              <Button size="sm" variant="outline" className="h-6 text-xs" onClick={handleResume} disabled={isStarting}>
+                {isStarting && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+                Resume
+              </Button>
+            )}
+          </div>
+          {status.embeddingModel && (
+            <div className="text-xs text-muted-foreground">
+              Search uses {status.embeddingModel} until this finishes.
+            </div>
+          )}
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  return (
+    <Alert>
+      <AlertCircle className="h-4 w-4" />
+      <AlertDescription className="space-y-2">
+        <div className="text-xs">
+          Sources were embedded with {status.embeddingModel}, but your settings use {desiredModel}.
+          Re-embed them to search with the new model.
+        </div>
+        <Button size="sm" variant="outline" className="h-6 text-xs" onClick={handleStart} disabled={isStarting}>
+          {isStarting && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+          Re-embed sources
+        </Button>
+      </AlertDescription>
+    </Alert>
+  );
+};
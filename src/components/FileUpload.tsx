@@ -1,8 +1,15 @@
 // src/components/FileUpload.tsx
 import { useState, useCallback } from 'react'
 import { Upload, File, X, Loader2, CheckCircle, AlertCircle } from 'lucide-react'
-import { uploadAndProcessFile, getProcessingJobStatus, subscribeToProcessingJob } from '../lib/api'
+import {
+  uploadAndProcessFile,
+  getProcessingJobStatus,
+  getSourceProcessingStatus,
+  subscribeToProcessingJob,
+  subscribeToSourceProcessing
+} from '../lib/api'
 import type { ProcessingJob } from '../lib/api'
+import { resolveSourceMimeType, SOURCE_FILE_EXTENSIONS } from '../lib/source-formats'
 
 interface FileUploadProps {
   notebookId: string
@@ -17,7 +24,7 @@ export function FileUpload({ notebookId, onUploadComplete }: FileUploadProps) {
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault()
     const droppedFiles = Array.from(e.dataTransfer.files).filter(
-      file => file.type === 'application/pdf'
+      file => resolveSourceMimeType(file) !== null
     )
     setFiles(prev => [...prev, ...droppedFiles])
   }, [])
@@ -39,20 +46,25 @@ export function FileUpload({ notebookId, onUploadComplete }: FileUploadProps) {
     for (const file of files) {
       try {
         const { uploadId, jobId } = await uploadAndProcessFile(file, notebookId)
-        
+        // Queued processing reports on its job, the n8n ingest workflow on the source
+        const key = jobId ?? uploadId
+
         // Subscribe to job updates
-        const subscription = subscribeToProcessingJob(jobId, (job) => {
-          setJobs(prev => ({ ...prev, [jobId]: job }))
+        const onUpdate = (job: ProcessingJob) => {
+          setJobs(prev => ({ ...prev, [key]: job }))
           
           if (job.status === 'completed' && onUploadComplete) {
             onUploadComplete(uploadId)
           }
-        })
+        }
+        const subscription = jobId
+          ? subscribeToProcessingJob(jobId, onUpdate)
+          : subscribeToSourceProcessing(uploadId, onUpdate)
 
         // Get initial status
-        const status = await getProcessingJobStatus(jobId)
+        const status = jobId ? await getProcessingJobStatus(jobId) : await getSourceProcessingStatus(uploadId)
         if (status) {
-          setJobs(prev => ({ ...prev, [jobId]: status }))
+          setJobs(prev => ({ ...prev, [key]: status }))
         }
       } catch (error) {
         console.error('Upload failed:', error)
@@ -95,11 +107,11 @@ export function FileUpload({ notebookId, onUploadComplete }: FileUploadProps) {
       >
         <Upload className="w-8 h-8 mx-auto mb-2 text-gray-400" />
         <p className="text-sm text-gray-600 mb-2">
-          Drag and drop PDF files here, or click to select
+          Drag and drop PDF, DOCX, HTML, TXT or MD files here, or click to select
         </p>
         <input
           type="file"
-          accept=".pdf"
+          accept={SOURCE_FILE_EXTENSIONS}
           multiple
           onChange={handleFileSelect}
           className="hidden"
@@ -163,7 +175,7 @@ export function FileUpload({ notebookId, onUploadComplete }: FileUploadProps) {
                 {getJobIcon(job.status)}
                 <div>
                   <p className="text-sm font-medium">
-                    {job.status === 'processing' ? 'Processing...' : job.status}
+                    {job.status === 'processing' ? job.current_step || 'Processing...' : job.status}
                   </p>
                   {job.error_message && (
                     <p className="text-xs text-red-600">{job.error_message}</p>
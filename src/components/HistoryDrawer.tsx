@@ -14,18 +14,20 @@ interface ChatSession {
 }
 
 interface HistoryDrawerProps {
+  notebookId?: string;
   onSessionSelect: (sessionId: string) => void;
 }
 
-export function HistoryDrawer({ onSessionSelect }: HistoryDrawerProps) {
+export function HistoryDrawer({ notebookId, onSessionSelect }: HistoryDrawerProps) {
   const [open, setOpen] = useState(false);
 
   const { data: sessions = [], isLoading } = useQuery({
-    queryKey: ["chat_sessions"],
+    queryKey: ["chat_sessions", notebookId],
     queryFn: async (): Promise<ChatSession[]> => {
       const { data, error } = await supabase
         .from("chat_sessions")
         .select("id, title, created_at, updated_at")
+        .eq("notebook_id", notebookId!)
         .order("updated_at", { ascending: false });
       
       if (error) throw error;
@@ -36,6 +38,7 @@ export function HistoryDrawer({ onSessionSelect }: HistoryDrawerProps) {
         updated_at: session.updated_at
       }));
     },
+    enabled: !!notebookId,
   });
 
   const handleSessionClick = (sessionId: string) => {
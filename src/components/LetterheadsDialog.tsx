@@ -0,0 +1,273 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { ImageIcon, Loader2, Plus, Star, Trash2 } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useToast } from "@/hooks/use-toast";
+import {
+  DEFAULT_LETTERHEAD_ACCENT,
+  deleteLetterhead,
+  getLetterheads,
+  saveLetterhead,
+  type Letterhead,
+  type LetterheadInput,
+} from "@/lib/api";
+
+interface LetterheadsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const TEXT_FIELDS: { key: keyof LetterheadInput; label: string; placeholder?: string }[] = [
+  { key: "organisation_name", label: "Organisation", placeholder: "Example Planning Pty Ltd" },
+  { key: "address", label: "Address", placeholder: "Level 2, 10 Example St, Sydney NSW 2000" },
+  { key: "contact_details", label: "Contact details", placeholder: "02 9000 0000 · hello@example.com.au" },
+  { key: "header_text", label: "Page header", placeholder: "Defaults to the organisation and report title" },
+  { key: "footer_text", label: "Page footer", placeholder: "Defaults to the report date" },
+];
+
+const toFormValues = (letterhead?: Letterhead | null): LetterheadInput => ({
+  name: letterhead?.name ?? "",
+  organisation_name: letterhead?.organisation_name ?? "",
+  address: letterhead?.address ?? "",
+  contact_details: letterhead?.contact_details ?? "",
+  accent_color: letterhead?.accent_color ?? DEFAULT_LETTERHEAD_ACCENT,
+  header_text: letterhead?.header_text ?? "",
+  footer_text: letterhead?.footer_text ?? "",
+  include_cover_page: letterhead?.include_cover_page ?? true,
+  cover_note: letterhead?.cover_note ?? "",
+  is_default: letterhead?.is_default ?? false,
+});
+
+// Letterhead templates applied to Word and PDF exports of reports
+export const LetterheadsDialog = ({ open, onOpenChange }: LetterheadsDialogProps) => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  // null while creating a new letterhead
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [values, setValues] = useState<LetterheadInput>(toFormValues());
+  const [logo, setLogo] = useState<File | null>(null);
+  const [removeLogo, setRemoveLogo] = useState(false);
+
+  const { data: letterheads = [], isLoading } = useQuery({
+    queryKey: ["report_letterheads"],
+    queryFn: getLetterheads,
+    enabled: open,
+  });
+
+  const selected = letterheads.find((letterhead) => letterhead.id === selectedId) ?? null;
+
+  useEffect(() => {
+    setValues(toFormValues(selected));
+    setLogo(null);
+    setRemoveLogo(false);
+  }, [selected]);
+
+  useEffect(() => {
+    if (!open) setSelectedId(null);
+  }, [open]);
+
+  const setField = <K extends keyof LetterheadInput>(key: K, value: LetterheadInput[K]) => {
+    setValues((current) => ({ ...current, [key]: value }));
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: () => {
+      // Blank text fields are stored as nulls
+      const cleaned = Object.fromEntries(
+        Object.entries(values).map(([key, value]) => [key, typeof value === "string" ? value.trim() || null : value])
+      ) as LetterheadInput;
+      return saveLetterhead({ ...cleaned, name: values.name.trim() }, { id: selectedId ?? undefined, logo, removeLogo });
+    },
+    onSuccess: (letterhead) => {
+      queryClient.invalidateQueries({ queryKey: ["report_letterheads"] });
+      setSelectedId(letterhead.id);
+      toast({ title: "Letterhead saved", description: letterhead.name });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not save letterhead", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteLetterhead,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["report_letterheads"] });
+      setSelectedId(null);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not delete letterhead", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const hasLogo = !!logo || (!!selected?.logo_path && !removeLogo);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl" data-testid="letterheads-dialog">
+        <DialogHeader>
+          <DialogTitle>Letterheads</DialogTitle>
+          <DialogDescription>
+            Cover page, letterhead, headers and footers used when reports are exported to Word or PDF.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-[200px_1fr] gap-4">
+          <div className="space-y-2 border-r pr-4">
+            <Button variant="outline" size="sm" className="w-full" onClick={() => setSelectedId(null)}>
+              <Plus className="h-4 w-4 mr-1" />
+              New letterhead
+            </Button>
+            {isLoading ? (
+              <Loader2 className="h-4 w-4 mx-auto animate-spin text-muted-foreground" />
+            ) : (
+              <ScrollArea className="max-h-[420px]">
+                <div className="space-y-1">
+                  {letterheads.map((letterhead) => (
+                    <button
+                      key={letterhead.id}
+                      type="button"
+                      onClick={() => setSelectedId(letterhead.id)}
+                      className={`w-full flex items-center gap-2 rounded-md px-2 py-1.5 text-left text-sm hover:bg-muted ${
+                        letterhead.id === selectedId ? "bg-muted font-medium" : ""
+                      }`}
+                    >
+                      <span
+                        className="h-3 w-3 rounded-full flex-shrink-0"
+                        style={{ backgroundColor: letterhead.accent_color ?? DEFAULT_LETTERHEAD_ACCENT }}
+                      />
+                      <span className="truncate flex-1">{letterhead.name}</span>
+                      {letterhead.is_default && <Star className="h-3 w-3 text-amber-500 fill-amber-500" />}
+                    </button>
+                  ))}
+                </div>
+              </ScrollArea>
+            )}
+          </div>
+
+          <form
+            className="space-y-3"
+            onSubmit={(e) => {
+              e.preventDefault();
+              saveMutation.mutate();
+            }}
+          >
+            <div className="grid grid-cols-[1fr_120px] gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="letterhead-name">Name</Label>
+                <Input
+                  id="letterhead-name"
+                  value={values.name}
+                  onChange={(e) => setField("name", e.target.value)}
+                  placeholder="e.g. Company letterhead"
+                  required
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="letterhead-accent">Accent colour</Label>
+                <Input
+                  id="letterhead-accent"
+                  type="color"
+                  value={values.accent_color ?? DEFAULT_LETTERHEAD_ACCENT}
+                  onChange={(e) => setField("accent_color", e.target.value)}
+                  className="h-10 p-1"
+                />
+              </div>
+            </div>
+
+            {TEXT_FIELDS.map(({ key, label, placeholder }) => (
+              <div key={key} className="space-y-1">
+                <Label htmlFor={`letterhead-${key}`}>{label}</Label>
+                <Input
+                  id={`letterhead-${key}`}
+                  value={(values[key] as string | null) ?? ""}
+                  onChange={(e) => setField(key, e.target.value)}
+                  placeholder={placeholder}
+                />
+              </div>
+            ))}
+
+            <div className="space-y-1">
+              <Label htmlFor="letterhead-logo">Logo (PNG or JPEG)</Label>
+              <div className="flex items-center gap-2">
+                <Input
+                  id="letterhead-logo"
+                  type="file"
+                  accept="image/png,image/jpeg"
+                  onChange={(e) => {
+                    setLogo(e.target.files?.[0] ?? null);
+                    setRemoveLogo(false);
+                  }}
+                />
+                {hasLogo && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => {
+                      setLogo(null);
+                      setRemoveLogo(true);
+                    }}
+                  >
+                    <ImageIcon className="h-4 w-4 mr-1" />
+                    Remove
+                  </Button>
+                )}
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <Label htmlFor="letterhead-cover">Cover page</Label>
+              <Switch
+                id="letterhead-cover"
+                checked={!!values.include_cover_page}
+                onCheckedChange={(checked) => setField("include_cover_page", checked)}
+              />
+            </div>
+            {values.include_cover_page && (
+              <Textarea
+                value={values.cover_note ?? ""}
+                onChange={(e) => setField("cover_note", e.target.value)}
+                placeholder="Note at the foot of the cover page, e.g. a disclaimer or copyright notice"
+                rows={2}
+              />
+            )}
+
+            <div className="flex items-center justify-between">
+              <Label htmlFor="letterhead-default">Use by default</Label>
+              <Switch
+                id="letterhead-default"
+                checked={!!values.is_default}
+                onCheckedChange={(checked) => setField("is_default", checked)}
+              />
+            </div>
+
+            <DialogFooter className="pt-2">
+              {selected && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  className="mr-auto text-destructive"
+                  onClick={() => deleteMutation.mutate(selected)}
+                  disabled={deleteMutation.isPending}
+                >
+                  <Trash2 className="h-4 w-4 mr-1" />
+                  Delete
+                </Button>
+              )}
+              <Button type="submit" disabled={saveMutation.isPending || !values.name.trim()}>
+                {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                {selected ? "Save changes" : "Create letterhead"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
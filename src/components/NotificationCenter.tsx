@@ -0,0 +1,139 @@
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useNavigate } from "react-router-dom";
+import { Bell, CheckCircle2, Loader2, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { useNotifications } from "@/hooks/useNotifications";
+import { getNotebooks, type AppNotification } from "@/lib/api";
+
+interface NotificationCenterProps {
+  notebookId?: string;
+}
+
+const KIND_ICONS = {
+  in_progress: <Loader2 className="h-4 w-4 text-muted-foreground animate-spin" />,
+  completed: <CheckCircle2 className="h-4 w-4 text-green-600" />,
+  failed: <XCircle className="h-4 w-4 text-destructive" />,
+};
+
+// Jobs in progress, finished ingestions and reports, and failures across the
+// user's projects, kept live by realtime
+export const NotificationCenter = ({ notebookId }: NotificationCenterProps) => {
+  const [open, setOpen] = useState(false);
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { inProgress, outcomes, unreadCount, isLoading, isRead, markRead, markAllRead } = useNotifications();
+
+  const { data: projects = [] } = useQuery({
+    queryKey: ["notebooks"],
+    queryFn: getNotebooks,
+  });
+
+  const projectName = (id: string | null) =>
+    id && id !== notebookId ? projects.find((project) => project.id === id)?.name : undefined;
+
+  const openNotification = (notification: AppNotification) => {
+    markRead([notification.id]);
+    if (!notification.notebookId) return;
+
+    // Stay in the current chat when the link is for this project
+    const params = new URLSearchParams();
+    const sessionId = new URLSearchParams(window.location.search).get("sessionId");
+    if (notification.notebookId === notebookId && sessionId) params.set("sessionId", sessionId);
+    if (notification.reportId) params.set("report", notification.reportId);
+    else if (notification.sourceId) params.set("source", notification.sourceId);
+
+    // The workspace lists may predate what the notification reports
+    queryClient.invalidateQueries({ queryKey: ["sources", notification.notebookId] });
+    queryClient.invalidateQueries({ queryKey: ["reports", notification.notebookId] });
+
+    setOpen(false);
+    navigate(`/projects/${notification.notebookId}?${params.toString()}`);
+  };
+
+  const renderNotification = (notification: AppNotification) => {
+    const unread = notification.kind !== "in_progress" && !isRead(notification.id);
+    const project = projectName(notification.notebookId);
+
+    return (
+      <button
+        key={notification.id}
+        className={`w-full flex items-start gap-3 p-3 text-left rounded-md hover:bg-muted/50 ${unread ? "bg-muted/30" : ""}`}
+        onClick={() => openNotification(notification)}
+        data-testid="notification-item"
+      >
+        <div className="mt-0.5 flex-shrink-0">{KIND_ICONS[notification.kind]}</div>
+        <div className="flex-1 min-w-0 space-y-1">
+          <div className="flex items-center justify-between gap-2">
+            <span className={`text-sm truncate ${unread ? "font-semibold" : "font-medium"}`}>{notification.title}</span>
+            {unread && <span className="h-2 w-2 rounded-full bg-primary flex-shrink-0" />}
+          </div>
+          {notification.description && (
+            <p className="text-xs text-muted-foreground line-clamp-2 break-words">{notification.description}</p>
+          )}
+          {notification.kind === "in_progress" && !!notification.progress && (
+            <Progress value={notification.progress} className="h-1.5" />
+          )}
+          <p className="text-xs text-muted-foreground">
+            {[project, new Date(notification.at).toLocaleString()].filter(Boolean).join(" · ")}
+          </p>
+        </div>
+      </button>
+    );
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className="relative" data-testid="notification-bell">
+          <Bell className="h-4 w-4" />
+          {unreadCount > 0 ? (
+            <Badge
+              variant="destructive"
+              className="absolute -top-1 -right-1 h-5 min-w-5 rounded-full px-1 flex items-center justify-center text-xs"
+            >
+              {unreadCount > 9 ? "9+" : unreadCount}
+            </Badge>
+          ) : (
+            inProgress.length > 0 && (
+              <span className="absolute top-1 right-1 h-2 w-2 rounded-full bg-primary animate-pulse" />
+            )
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0 bg-background border shadow-lg z-50">
+        <div className="flex items-center justify-between px-3 py-2 border-b">
+          <span className="text-sm font-semibold">Notifications</span>
+          <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={markAllRead} disabled={unreadCount === 0}>
+            Mark all read
+          </Button>
+        </div>
+        <div className="max-h-96 overflow-y-auto p-1">
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground text-center py-6">Loading...</p>
+          ) : inProgress.length === 0 && outcomes.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">Nothing new in the last 7 days.</p>
+          ) : (
+            <>
+              {inProgress.length > 0 && (
+                <>
+                  <p className="px-3 pt-2 pb-1 text-xs font-medium text-muted-foreground">In progress</p>
+                  {inProgress.map(renderNotification)}
+                </>
+              )}
+              {outcomes.length > 0 && (
+                <>
+                  <p className="px-3 pt-2 pb-1 text-xs font-medium text-muted-foreground">Recent</p>
+                  {outcomes.map(renderNotification)}
+                </>
+              )}
+            </>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -0,0 +1,186 @@
+import { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  PROJECT_STATUSES,
+  PROJECT_STATUS_LABELS,
+  PROJECT_TYPES,
+  PROJECT_TYPE_LABELS,
+  type Notebook,
+  type NotebookDetails,
+  type ProjectStatus,
+  type ProjectType,
+} from "@/lib/api";
+
+export interface ProjectFormValues extends NotebookDetails {
+  name: string;
+  project_type: ProjectType;
+  project_status: ProjectStatus;
+}
+
+interface ProjectFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Edits this project; creates a new one when absent
+  project?: Notebook | null;
+  onSubmit: (values: ProjectFormValues) => Promise<void>;
+}
+
+const DETAIL_FIELDS: { key: keyof NotebookDetails; label: string; placeholder?: string }[] = [
+  { key: "client_name", label: "Client" },
+  { key: "address", label: "Site address", placeholder: "12 Example St, Suburb" },
+  { key: "lot_details", label: "Lot / DP", placeholder: "Lot 1 DP 123456" },
+  { key: "council_area", label: "Council area" },
+  { key: "contact_email", label: "Contact email" },
+  { key: "contact_phone", label: "Contact phone" },
+];
+
+const toFormValues = (project?: Notebook | null): ProjectFormValues => ({
+  name: project?.name ?? "",
+  description: project?.description ?? "",
+  project_type: project?.project_type ?? "development",
+  project_status: project?.project_status ?? "active",
+  client_name: project?.client_name ?? "",
+  address: project?.address ?? "",
+  lot_details: project?.lot_details ?? "",
+  council_area: project?.council_area ?? "",
+  contact_email: project?.contact_email ?? "",
+  contact_phone: project?.contact_phone ?? "",
+});
+
+export const ProjectFormDialog = ({ open, onOpenChange, project, onSubmit }: ProjectFormDialogProps) => {
+  const [values, setValues] = useState<ProjectFormValues>(toFormValues(project));
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) setValues(toFormValues(project));
+  }, [open, project]);
+
+  const setField = (key: keyof ProjectFormValues, value: string) => {
+    setValues((current) => ({ ...current, [key]: value }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      // Blank details are stored as nulls
+      const details = Object.fromEntries(
+        DETAIL_FIELDS.map(({ key }) => [key, values[key]?.trim() || null])
+      ) as NotebookDetails;
+      await onSubmit({
+        ...values,
+        ...details,
+        name: values.name.trim(),
+        description: values.description?.trim() || null,
+      });
+      onOpenChange(false);
+    } catch {
+      // The caller reports the error; keep the form open to fix it
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl" data-testid="project-form">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>{project ? "Edit project" : "New project"}</DialogTitle>
+            <DialogDescription>
+              Each project has its own documents, chats and reports.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="project-name">Name</Label>
+            <Input
+              id="project-name"
+              value={values.name}
+              onChange={(e) => setField("name", e.target.value)}
+              placeholder="e.g. DA 2025/123 – 12 Example St"
+              maxLength={100}
+              required
+            />
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Type</Label>
+              <Select value={values.project_type} onValueChange={(value) => setField("project_type", value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PROJECT_TYPES.map((type) => (
+                    <SelectItem key={type} value={type}>
+                      {PROJECT_TYPE_LABELS[type]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {/* New projects start out active */}
+            {project && (
+              <div className="space-y-2">
+                <Label>Status</Label>
+                <Select value={values.project_status} onValueChange={(value) => setField("project_status", value)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PROJECT_STATUSES.map((status) => (
+                      <SelectItem key={status} value={status}>
+                        {PROJECT_STATUS_LABELS[status]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {DETAIL_FIELDS.map(({ key, label, placeholder }) => (
+              <div key={key} className="space-y-2">
+                <Label htmlFor={`project-${key}`}>{label}</Label>
+                <Input
+                  id={`project-${key}`}
+                  type={key === "contact_email" ? "email" : "text"}
+                  value={values[key] ?? ""}
+                  onChange={(e) => setField(key, e.target.value)}
+                  placeholder={placeholder}
+                />
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="project-description">Description</Label>
+            <Textarea
+              id="project-description"
+              value={values.description ?? ""}
+              onChange={(e) => setField("description", e.target.value)}
+              placeholder="What the proposal is and what the assessment needs to cover"
+              rows={3}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saving || !values.name.trim()}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {project ? "Save changes" : "Create project"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,66 @@
+import { useQuery } from "@tanstack/react-query";
+import { useNavigate } from "react-router-dom";
+import { Check, ChevronDown, FolderOpen, LayoutDashboard } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { getNotebooks } from "@/lib/api";
+
+interface ProjectSwitcherProps {
+  notebookId?: string;
+}
+
+// Current project, with a menu to jump to another one or manage them all
+export const ProjectSwitcher = ({ notebookId }: ProjectSwitcherProps) => {
+  const navigate = useNavigate();
+
+  const { data: projects = [] } = useQuery({
+    queryKey: ["notebooks"],
+    queryFn: getNotebooks,
+  });
+
+  const current = projects.find((project) => project.id === notebookId);
+  const openProjects = projects.filter((project) => project.project_status !== "archived");
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="sm" className="max-w-[220px] gap-2" data-testid="project-switcher">
+          <FolderOpen className="h-4 w-4 flex-shrink-0" />
+          <span className="truncate hidden md:inline">{current?.name ?? "Projects"}</span>
+          <ChevronDown className="h-3 w-3 flex-shrink-0 opacity-60" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start" className="w-64 bg-background border shadow-lg z-50">
+        <DropdownMenuLabel className="text-xs text-muted-foreground">Switch project</DropdownMenuLabel>
+        {openProjects.map((project) => (
+          <DropdownMenuItem
+            key={project.id}
+            onClick={() => navigate(`/projects/${project.id}`)}
+            className="cursor-pointer"
+          >
+            <Check className={`mr-2 h-4 w-4 ${project.id === notebookId ? "" : "invisible"}`} />
+            <span className="truncate">{project.name}</span>
+          </DropdownMenuItem>
+        ))}
+        <DropdownMenuSeparator />
+        {notebookId && (
+          <DropdownMenuItem onClick={() => navigate(`/projects/${notebookId}/overview`)} className="cursor-pointer">
+            <LayoutDashboard className="mr-2 h-4 w-4" />
+            Project overview
+          </DropdownMenuItem>
+        )}
+        <DropdownMenuItem onClick={() => navigate("/projects")} className="cursor-pointer">
+          <FolderOpen className="mr-2 h-4 w-4" />
+          All projects
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
@@ -0,0 +1,291 @@
+import { useEffect, useRef, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { AlertCircle, GitCompare, Loader2, Pencil, RotateCcw, Save, Sparkles } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useToast } from "@/hooks/use-toast";
+import {
+  currentSectionContent,
+  getReportSectionDrafts,
+  rebuildReport,
+  regenerateReportSection,
+  saveReportSectionEdit,
+  type ReportSectionDraft,
+} from "@/lib/api";
+import { diffText } from "@/lib/text-diff";
+
+interface ReportEditorProps {
+  report: { id: string; title: string } | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Called once the report file has been rebuilt from changed sections
+  onReportChanged: () => void;
+}
+
+const isBusy = (section: ReportSectionDraft) => section.status === "pending" || section.status === "processing";
+
+const sectionTitle = (section: ReportSectionDraft) =>
+  [section.section_name, section.subsection_name].filter(Boolean).join(" › ");
+
+// The AI draft against the text that will go into the report
+const DraftComparison = ({ draft, edited }: { draft: string; edited: string }) => (
+  <div className="rounded-md border bg-muted/20 p-3 text-sm leading-relaxed whitespace-pre-wrap" data-testid="section-comparison">
+    {diffText(draft, edited).map((part, index) =>
+      part.type === "same" ? (
+        <span key={index}>{part.text}</span>
+      ) : part.type === "added" ? (
+        <ins key={index} className="bg-green-100 text-green-900 no-underline">{part.text}</ins>
+      ) : (
+        <del key={index} className="bg-red-100 text-red-900">{part.text}</del>
+      )
+    )}
+  </div>
+);
+
+// Section-by-section editor for a finished report. Edits are saved to the
+// report's sections and the report file is rebuilt from them.
+export const ReportEditor = ({ report, open, onOpenChange, onReportChanged }: ReportEditorProps) => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  // Unsaved text by section id
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [comparing, setComparing] = useState<Set<string>>(new Set());
+  // The section whose regenerate form is open, and the guidance typed into it
+  const [regeneratingId, setRegeneratingId] = useState<string | null>(null);
+  const [guidance, setGuidance] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const queryKey = ["report_section_drafts", report?.id];
+  const { data: sections = [], isLoading, error } = useQuery({
+    queryKey,
+    queryFn: () => getReportSectionDrafts(report!.id),
+    enabled: open && !!report,
+    // Follow sections that are being redrafted
+    refetchInterval: (query) => (query.state.data?.some(isBusy) ? 3000 : false),
+  });
+
+  const redrafting = sections.some(isBusy);
+
+  // A redraft ends with the report being reassembled
+  const wasRedrafting = useRef(false);
+  useEffect(() => {
+    if (wasRedrafting.current && !redrafting) onReportChanged();
+    wasRedrafting.current = redrafting;
+  }, [redrafting, onReportChanged]);
+
+  useEffect(() => {
+    if (!open) {
+      setDrafts({});
+      setComparing(new Set());
+      setRegeneratingId(null);
+    }
+  }, [open]);
+
+  const textOf = (section: ReportSectionDraft) => drafts[section.id] ?? currentSectionContent(section);
+  const changed = sections.filter(
+    (section) => drafts[section.id] !== undefined && drafts[section.id] !== currentSectionContent(section)
+  );
+
+  const toggleCompare = (id: string) => {
+    setComparing((current) => {
+      const next = new Set(current);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next && changed.length > 0 && !confirm("Discard your unsaved changes to this report?")) return;
+    onOpenChange(next);
+  };
+
+  const handleSave = async () => {
+    if (!report) return;
+    setSaving(true);
+    try {
+      // Text matching the AI draft again clears the edit
+      for (const section of changed) {
+        const text = drafts[section.id];
+        await saveReportSectionEdit(section.id, text === section.generated_content ? null : text);
+      }
+      await rebuildReport(report.id);
+      setDrafts({});
+      await queryClient.invalidateQueries({ queryKey });
+      onReportChanged();
+      toast({ title: "Report updated", description: `${changed.length} section${changed.length === 1 ? "" : "s"} saved.` });
+    } catch (error) {
+      toast({ title: "Could not save changes", description: error.message, variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRegenerate = async (section: ReportSectionDraft) => {
+    if (!report) return;
+    try {
+      await regenerateReportSection(report.id, section.id, guidance.trim() || undefined);
+      setDrafts(({ [section.id]: _discarded, ...rest }) => rest);
+      setRegeneratingId(null);
+      setGuidance("");
+      await queryClient.invalidateQueries({ queryKey });
+      toast({ title: "Regenerating section", description: sectionTitle(section) });
+    } catch (error) {
+      toast({ title: "Could not regenerate section", description: error.message, variant: "destructive" });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[95vh] flex flex-col" data-testid="report-editor">
+        <DialogHeader>
+          <DialogTitle>Edit {report?.title}</DialogTitle>
+          <DialogDescription>
+            Change any section by hand or have it redrafted. Keep citation markers such as [2] next to the
+            statements they support; they are renumbered across the report when it is rebuilt.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="flex-1 -mx-6 px-6">
+          {isLoading ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : error ? (
+            <p className="py-12 text-center text-sm text-destructive">{error.message}</p>
+          ) : (
+            <div className="space-y-4 pb-2">
+              {sections.map((section) => {
+                const text = textOf(section);
+                const edited = text !== (section.generated_content ?? "");
+                const unsaved = changed.includes(section);
+
+                return (
+                  <div key={section.id} className="rounded-lg border p-4 space-y-3" data-testid="report-section-editor">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <h3 className={section.subsection_name ? "text-sm font-medium" : "font-semibold"}>
+                        {sectionTitle(section)}
+                      </h3>
+                      {edited && <Badge variant="secondary">Edited</Badge>}
+                      {unsaved && <Badge variant="outline">Unsaved</Badge>}
+                      {section.status === "failed" && <Badge variant="destructive">Failed</Badge>}
+
+                      {!isBusy(section) && (
+                        <div className="ml-auto flex gap-1">
+                          {section.status === "completed" && edited && (
+                            <>
+                              <Button variant="ghost" size="sm" onClick={() => toggleCompare(section.id)}>
+                                {comparing.has(section.id) ? (
+                                  <Pencil className="h-4 w-4 mr-1" />
+                                ) : (
+                                  <GitCompare className="h-4 w-4 mr-1" />
+                                )}
+                                {comparing.has(section.id) ? "Edit" : "Compare"}
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                title="Go back to the AI draft"
+                                onClick={() => setDrafts((current) => ({ ...current, [section.id]: section.generated_content ?? "" }))}
+                              >
+                                <RotateCcw className="h-4 w-4 mr-1" />
+                                Revert
+                              </Button>
+                            </>
+                          )}
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            disabled={redrafting || saving}
+                            onClick={() => {
+                              setRegeneratingId(regeneratingId === section.id ? null : section.id);
+                              setGuidance(section.guidance ?? "");
+                            }}
+                          >
+                            <Sparkles className="h-4 w-4 mr-1" />
+                            Regenerate
+                          </Button>
+                        </div>
+                      )}
+                    </div>
+
+                    {regeneratingId === section.id && (
+                      <div className="rounded-md bg-muted/40 p-3 space-y-2">
+                        <Textarea
+                          value={guidance}
+                          onChange={(e) => setGuidance(e.target.value)}
+                          placeholder="Anything the new draft should do differently, e.g. focus on the rear setback variation"
+                          rows={2}
+                        />
+                        <div className="flex items-center justify-between gap-2">
+                          <p className="text-xs text-muted-foreground">
+                            The new draft replaces this section's text{edited ? ", including your edits" : ""}.
+                          </p>
+                          <div className="flex gap-2">
+                            <Button variant="outline" size="sm" onClick={() => setRegeneratingId(null)}>
+                              Cancel
+                            </Button>
+                            <Button size="sm" onClick={() => handleRegenerate(section)}>
+                              Regenerate
+                            </Button>
+                          </div>
+                        </div>
+                      </div>
+                    )}
+
+                    {isBusy(section) ? (
+                      <div className="flex items-center gap-2 py-6 text-sm text-muted-foreground">
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                        Redrafting this section...
+                      </div>
+                    ) : section.status !== "completed" ? (
+                      <p className="flex items-start gap-2 text-sm text-destructive">
+                        <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                        {section.error_message || "This section was not generated."}
+                      </p>
+                    ) : comparing.has(section.id) && edited ? (
+                      <DraftComparison draft={section.generated_content ?? ""} edited={text} />
+                    ) : (
+                      <Textarea
+                        value={text}
+                        onChange={(e) => setDrafts((current) => ({ ...current, [section.id]: e.target.value }))}
+                        className="min-h-[180px] font-mono text-sm"
+                        disabled={saving}
+                      />
+                    )}
+
+                    {section.guidance && !isBusy(section) && (
+                      <p className="text-xs text-muted-foreground">Last redrafted with: {section.guidance}</p>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </ScrollArea>
+
+        <DialogFooter className="items-center gap-2 sm:justify-between">
+          <p className="text-xs text-muted-foreground">
+            {redrafting
+              ? "Sections are being redrafted; saving is available once they finish."
+              : changed.length > 0
+                ? `${changed.length} section${changed.length === 1 ? "" : "s"} with unsaved changes`
+                : "No unsaved changes"}
+          </p>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => handleOpenChange(false)} disabled={saving}>
+              Close
+            </Button>
+            <Button onClick={handleSave} disabled={saving || redrafting || changed.length === 0} data-testid="save-report-edits">
+              {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+              Save and rebuild report
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,11 +1,19 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useQuery } from "@tanstack/react-query";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { 
@@ -21,14 +29,41 @@ import {
   Eye, 
   X,
   Plus,
-  Settings
+  Settings,
+  RotateCcw,
+  Square,
+  Pencil
 } from "lucide-react";
-import { supabase } from "@/lib/api";
+import {
+  supabase,
+  getUserSettings,
+  toLLMConfig,
+  getReportSectionSources,
+  formatPages,
+  cancelReportGeneration,
+  resumeReportGeneration,
+  isReportStalled,
+  REPORT_STALL_MINUTES,
+  REPORT_FORMATS,
+  REPORT_FORMAT_LABELS,
+  downloadReport,
+  getLetterheads,
+  getReportTemplates,
+} from "@/lib/api";
+import type { SearchMode, ReportSectionSource, ReportFormat } from "@/lib/api";
+import { toTemplateInputs } from "@/lib/report-templates";
+import { markdownTablesToHtml } from "@/lib/report-markdown";
 import { useToast } from "@/hooks/use-toast";
 import { useErrorHandler } from "@/hooks/useErrorHandler";
 import { ComponentErrorBoundary } from "@/components/ErrorBoundary";
 import { LoadingWithError } from "@/components/ui/error-display";
 import { Progress } from "@/components/ui/progress";
+import { DocumentViewer } from "@/components/DocumentViewer";
+import { LetterheadsDialog } from "@/components/LetterheadsDialog";
+import { ReportEditor } from "@/components/ReportEditor";
+
+// Select value for "use my default letterhead"
+const DEFAULT_LETTERHEAD = "default";
 
 interface Report {
   id: string;
@@ -41,15 +76,11 @@ interface Report {
   file_size?: number;
   created_at: string;
   completed_at?: string;
+  updated_at?: string;
   progress: number;
-}
-
-interface ReportTemplate {
-  id: string;
-  name: string;
-  display_name: string;
-  description?: string;
-  category?: string;
+  error_message?: string | null;
+  letterhead_id?: string | null;
+  report_sections?: { status: string | null }[];
 }
 
 interface ReportsPanelProps {
@@ -68,20 +99,30 @@ export const ReportsPanel = ({ notebookId }: ReportsPanelProps) => {
     templateId: "",
     topic: "",
     address: "",
-    additionalContext: ""
+    additionalContext: "",
+    searchMode: "hybrid" as SearchMode,
+    letterheadId: DEFAULT_LETTERHEAD,
+    // Values for the template's required inputs, by key
+    inputs: {} as Record<string, string>
   });
   const [isGenerating, setIsGenerating] = useState(false);
+  const [viewingSource, setViewingSource] = useState<ReportSectionSource | null>(null);
+  const [showLetterheads, setShowLetterheads] = useState(false);
+  // Letterhead the open report is exported with
+  const [exportLetterheadId, setExportLetterheadId] = useState(DEFAULT_LETTERHEAD);
+  const [isEditing, setIsEditing] = useState(false);
   const { toast } = useToast();
   const { handleAsyncError } = useErrorHandler();
+  const navigate = useNavigate();
 
   // Reports Query
-  const { data: reports = [], isLoading, error, refetch } = useQuery({
+  const { data: reports = [], isLoading, isFetching, error, refetch } = useQuery({
     queryKey: ["reports", notebookId],
     queryFn: async (): Promise<Report[]> => {
       return handleAsyncError(async () => {
         const { data, error } = await supabase
           .from("report_generations")
-          .select("*")
+          .select("*, report_sections(status)")
           .eq("notebook_id", notebookId)
           .order("created_at", { ascending: false });
         
@@ -96,23 +137,34 @@ export const ReportsPanel = ({ notebookId }: ReportsPanelProps) => {
       return false;
     },
     retryDelay: (attemptIndex) => Math.min(1000 * 2 ** attemptIndex, 30000),
+    // Follow reports that are being generated
+    refetchInterval: (query) =>
+      query.state.data?.some((report) => report.status === 'pending' || report.status === 'processing') ? 5000 : false,
+  });
+
+  // Where each section of the open report drew its material from
+  const { data: sectionSources = [] } = useQuery({
+    queryKey: ["report_section_sources", selectedReport?.id],
+    queryFn: () => getReportSectionSources(selectedReport!.id),
+    enabled: !!selectedReport,
+  });
+
+  const { data: letterheads = [] } = useQuery({
+    queryKey: ["report_letterheads"],
+    queryFn: getLetterheads,
   });
 
   // Templates Query
   const { data: templates = [] } = useQuery({
     queryKey: ["report_templates"],
-    queryFn: async (): Promise<ReportTemplate[]> => {
-      const { data, error } = await supabase
-        .from("report_templates")
-        .select("id, name, display_name, description, category")
-        .eq("is_active", true)
-        .order("display_name");
-      
-      if (error) throw error;
-      return data || [];
-    },
+    queryFn: getReportTemplates,
   });
 
+  const requiredInputs = toTemplateInputs(
+    templates.find((template) => template.id === newReportForm.templateId)?.structure
+  );
+  const missingInputs = requiredInputs.filter((input) => !newReportForm.inputs[input.key]?.trim());
+
   const fetchReportContent = async (report: Report) => {
     if (!report.file_path) {
       setContentError("Report file path not available");
@@ -143,39 +195,55 @@ export const ReportsPanel = ({ notebookId }: ReportsPanelProps) => {
     }
   };
 
+  // The report file was rebuilt from edited or redrafted sections
+  const handleReportChanged = () => {
+    refetch();
+    if (selectedReport) fetchReportContent(selectedReport);
+  };
+
   const handleReportClick = async (report: Report) => {
     setSelectedReport(report);
+    setExportLetterheadId(report.letterhead_id ?? DEFAULT_LETTERHEAD);
     await fetchReportContent(report);
   };
 
-  const downloadReport = async (report: Report) => {
+  // Notifications link here with ?report=<id> to open that report
+  const openReport = useRef(handleReportClick);
+  openReport.current = handleReportClick;
+  const [searchParams, setSearchParams] = useSearchParams();
+  const linkedReportId = searchParams.get("report");
+  useEffect(() => {
+    // Wait for the refetch a notification starts so the report is current
+    if (!linkedReportId || isFetching) return;
+
+    const report = reports.find((r) => r.id === linkedReportId);
+    if (report) openReport.current(report);
+    // Read the live URL; the chat session is switched outside the router
+    const params = new URLSearchParams(window.location.search);
+    params.delete("report");
+    setSearchParams(params, { replace: true });
+  }, [linkedReportId, isFetching, reports, setSearchParams]);
+
+  // Word and PDF are rendered on demand with the report's letterhead
+  const handleDownload = async (report: Report, format: ReportFormat, letterheadId?: string) => {
     setIsDownloading(true);
     try {
       if (!report.file_path) {
         throw new Error("Report file not available for download");
       }
 
-      const { data, error } = await supabase.storage
-        .from('reports')
-        .download(report.file_path);
-      
-      if (error) throw error;
-
-      // Create download link
-      const blob = new Blob([data], { type: 'text/markdown' });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `${report.title.replace(/[^a-zA-Z0-9]/g, '_')}.md`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
+      await downloadReport(
+        report.id,
+        report.title,
+        format,
+        letterheadId === undefined ? undefined : letterheadId === DEFAULT_LETTERHEAD ? null : letterheadId
+      );
 
       toast({
         title: "Download started",
         description: `${report.title} is being downloaded.`,
       });
+      if (letterheadId !== undefined && format !== 'markdown') refetch();
     } catch (error) {
       console.error('Download failed:', error);
       toast({
@@ -188,11 +256,48 @@ export const ReportsPanel = ({ notebookId }: ReportsPanelProps) => {
     }
   };
 
+  const handleCancelReport = async (report: Report) => {
+    try {
+      await cancelReportGeneration(report.id);
+      toast({
+        title: "Report cancelled",
+        description: `${report.title} can be resumed later.`,
+      });
+      refetch();
+    } catch (error) {
+      toast({
+        title: "Could not cancel report",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Resumes an interrupted report or regenerates failed sections; completed sections are kept
+  const handleResumeReport = async (report: Report) => {
+    try {
+      await resumeReportGeneration(report.id);
+      toast({
+        title: report.status === 'completed' ? "Regenerating failed sections" : "Report generation resumed",
+        description: report.title,
+      });
+      refetch();
+    } catch (error) {
+      toast({
+        title: "Could not resume report",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  };
+
   const generateNewReport = async () => {
-    if (!newReportForm.templateId || !newReportForm.topic) {
+    if (!newReportForm.templateId || !newReportForm.topic || missingInputs.length > 0) {
       toast({
         title: "Missing information",
-        description: "Please select a template and enter a topic.",
+        description: missingInputs.length
+          ? `Please fill in ${missingInputs.map((input) => input.label).join(", ")}.`
+          : "Please select a template and enter a topic.",
         variant: "destructive",
       });
       return;
@@ -201,6 +306,7 @@ export const ReportsPanel = ({ notebookId }: ReportsPanelProps) => {
     setIsGenerating(true);
     
     try {
+      const settings = await getUserSettings();
       const { data, error } = await supabase.functions
         .invoke('generate-report', {
           body: {
@@ -209,9 +315,12 @@ export const ReportsPanel = ({ notebookId }: ReportsPanelProps) => {
             topic: newReportForm.topic,
             address: newReportForm.address || null,
             additional_context: newReportForm.additionalContext || null,
-            llm_provider: 'ollama',
-            llm_config: { model: 'qwen3:8b-q4_K_M' },
-            embedding_provider: 'ollama'
+            llm_provider: settings.provider,
+            llm_config: toLLMConfig(settings),
+            embedding_provider: settings.embeddingProvider || 'ollama',
+            search_mode: newReportForm.searchMode,
+            letterhead_id: newReportForm.letterheadId === DEFAULT_LETTERHEAD ? null : newReportForm.letterheadId,
+            inputs: Object.fromEntries(requiredInputs.map((input) => [input.key, newReportForm.inputs[input.key]?.trim()]))
           }
         });
 
@@ -227,7 +336,10 @@ export const ReportsPanel = ({ notebookId }: ReportsPanelProps) => {
         templateId: "",
         topic: "",
         address: "",
-        additionalContext: ""
+        additionalContext: "",
+        searchMode: "hybrid",
+        letterheadId: DEFAULT_LETTERHEAD,
+        inputs: {}
       });
 
       // Refresh reports list
@@ -245,7 +357,7 @@ export const ReportsPanel = ({ notebookId }: ReportsPanelProps) => {
   };
 
   const formatMarkdownToHtml = (markdown: string): string => {
-    return markdown
+    return markdownTablesToHtml(markdown)
       .replace(/^# (.*$)/gim, '<h1 class="text-3xl font-bold mb-6 text-gray-900 border-b-2 border-gray-200 pb-3">$1</h1>')
       .replace(/^## (.*$)/gim, '<h2 class="text-2xl font-semibold mb-4 text-gray-800 mt-8 border-b border-gray-200 pb-2">$1</h2>')
       .replace(/^### (.*$)/gim, '<h3 class="text-xl font-medium mb-3 text-gray-700 mt-6">$1</h3>')
@@ -257,7 +369,7 @@ export const ReportsPanel = ({ notebookId }: ReportsPanelProps) => {
       .replace(/^---$/gim, '<hr class="my-8 border-gray-300 border-t-2" />')
       .replace(/`([^`]+)`/g, '<code class="bg-gray-100 px-2 py-1 rounded text-sm font-mono text-gray-800">$1</code>')
       .replace(/\n\n/g, '</p><p class="mb-4 text-gray-700 leading-relaxed text-justify">')
-      .replace(/^(?!<h|<l|<p|<d|<c)(.+)$/gim, '<p class="mb-4 text-gray-700 leading-relaxed text-justify">$1</p>');
+      .replace(/^(?!<h|<l|<p|<d|<c|<t)(.+)$/gim, '<p class="mb-4 text-gray-700 leading-relaxed text-justify">$1</p>');
   };
 
   const getStatusColor = (status: string) => {
@@ -281,6 +393,15 @@ export const ReportsPanel = ({ notebookId }: ReportsPanelProps) => {
     return parseFloat((bytes / Math.pow(k, i)).toFixed(1)) + ' ' + sizes[i];
   };
 
+  const failedSectionCount = (report: Report) =>
+    report.report_sections?.filter((section) => section.status === 'failed').length ?? 0;
+
+  const canResume = (report: Report) =>
+    isReportStalled(report) ||
+    report.status === 'failed' ||
+    report.status === 'cancelled' ||
+    (report.status === 'completed' && failedSectionCount(report) > 0);
+
   const filteredReports = reports.filter(report =>
     report.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
     report.topic.toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -289,6 +410,7 @@ export const ReportsPanel = ({ notebookId }: ReportsPanelProps) => {
 
   const closeModal = () => {
     setSelectedReport(null);
+    setIsEditing(false);
     setReportContent("");
     setContentError("");
   };
@@ -299,15 +421,27 @@ export const ReportsPanel = ({ notebookId }: ReportsPanelProps) => {
         <div className="p-4 border-b">
           <div className="flex items-center justify-between mb-1">
             <h2 className="font-medium text-foreground">Reports</h2>
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={() => setShowNewReportDialog(true)}
-              className="h-8"
-            >
-              <Plus className="h-4 w-4 mr-1" />
-              New
-            </Button>
+            <div className="flex items-center gap-1">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setShowLetterheads(true)}
+                title="Letterheads"
+                className="h-8 w-8 p-0"
+                data-testid="open-letterheads"
+              >
+                <Settings className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setShowNewReportDialog(true)}
+                className="h-8"
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                New
+              </Button>
+            </div>
           </div>
           <p className="text-sm text-muted-foreground">Generate and manage planning reports.</p>
         </div>
@@ -371,18 +505,57 @@ export const ReportsPanel = ({ notebookId }: ReportsPanelProps) => {
                           <Badge variant={getStatusColor(report.status)} className="text-xs">
                             {report.status}
                           </Badge>
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            onClick={(e) => {
-                              e.stopPropagation();
-                              downloadReport(report);
-                            }}
-                            disabled={isDownloading || !report.file_path}
-                            className="h-6 w-6 p-0 opacity-0 group-hover:opacity-100 transition-opacity"
-                          >
-                            <Download className="h-3 w-3" />
-                          </Button>
+                          <DropdownMenu>
+                            <DropdownMenuTrigger asChild>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={(e) => e.stopPropagation()}
+                                disabled={isDownloading || !report.file_path}
+                                className="h-6 w-6 p-0 opacity-0 group-hover:opacity-100 transition-opacity"
+                                data-testid="download-report"
+                              >
+                                <Download className="h-3 w-3" />
+                              </Button>
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent align="end" onClick={(e) => e.stopPropagation()}>
+                              {REPORT_FORMATS.map((format) => (
+                                <DropdownMenuItem key={format} onClick={() => handleDownload(report, format)}>
+                                  {REPORT_FORMAT_LABELS[format]}
+                                </DropdownMenuItem>
+                              ))}
+                            </DropdownMenuContent>
+                          </DropdownMenu>
+                          {(report.status === 'pending' || report.status === 'processing') && !isReportStalled(report) && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                handleCancelReport(report);
+                              }}
+                              title="Cancel generation"
+                              className="h-6 w-6 p-0"
+                              data-testid="cancel-report"
+                            >
+                              <Square className="h-3 w-3" />
+                            </Button>
+                          )}
+                          {canResume(report) && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                handleResumeReport(report);
+                              }}
+                              title={report.status === 'completed' ? "Regenerate failed sections" : "Resume generation"}
+                              className="h-6 w-6 p-0"
+                              data-testid="resume-report"
+                            >
+                              <RotateCcw className="h-3 w-3" />
+                            </Button>
+                          )}
                         </div>
                       </div>
                       
@@ -407,6 +580,22 @@ export const ReportsPanel = ({ notebookId }: ReportsPanelProps) => {
                         )}
                       </div>
                       
+                      {isReportStalled(report) && (
+                        <p className="mt-2 text-xs text-destructive">
+                          No progress for {REPORT_STALL_MINUTES} minutes. Resume to continue from the unfinished sections.
+                        </p>
+                      )}
+
+                      {report.status === 'failed' && report.error_message && (
+                        <p className="mt-2 text-xs text-destructive line-clamp-2">{report.error_message}</p>
+                      )}
+
+                      {report.status === 'completed' && failedSectionCount(report) > 0 && (
+                        <p className="mt-2 text-xs text-destructive">
+                          {failedSectionCount(report)} section{failedSectionCount(report) === 1 ? '' : 's'} failed and {failedSectionCount(report) === 1 ? 'was' : 'were'} left out.
+                        </p>
+                      )}
+
                       {report.status === 'processing' && (
                         <div className="mt-3">
                           <div className="flex items-center justify-between text-xs text-muted-foreground mb-1">
@@ -433,7 +622,17 @@ export const ReportsPanel = ({ notebookId }: ReportsPanelProps) => {
             
             <div className="space-y-4">
               <div className="space-y-2">
-                <Label htmlFor="template">Report Template</Label>
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="template">Report Template</Label>
+                  <Button
+                    variant="link"
+                    size="sm"
+                    className="h-auto p-0 text-xs"
+                    onClick={() => navigate("/templates")}
+                  >
+                    Manage templates
+                  </Button>
+                </div>
                 <Select
                   value={newReportForm.templateId}
                   onValueChange={(value) => setNewReportForm(prev => ({ ...prev, templateId: value }))}
@@ -445,12 +644,28 @@ export const ReportsPanel = ({ notebookId }: ReportsPanelProps) => {
                     {templates.map((template) => (
                       <SelectItem key={template.id} value={template.id}>
                         {template.display_name}
+                        {template.created_by && ` (v${template.version_number})`}
                       </SelectItem>
                     ))}
                   </SelectContent>
                 </Select>
               </div>
 
+              {requiredInputs.map((input) => (
+                <div key={input.key} className="space-y-2">
+                  <Label htmlFor={`input-${input.key}`}>{input.label}</Label>
+                  <Input
+                    id={`input-${input.key}`}
+                    placeholder={input.description}
+                    value={newReportForm.inputs[input.key] ?? ""}
+                    onChange={(e) => setNewReportForm(prev => ({
+                      ...prev,
+                      inputs: { ...prev.inputs, [input.key]: e.target.value }
+                    }))}
+                  />
+                </div>
+              ))}
+
               <div className="space-y-2">
                 <Label htmlFor="topic">Project Topic</Label>
                 <Input
@@ -482,6 +697,42 @@ export const ReportsPanel = ({ notebookId }: ReportsPanelProps) => {
                 />
               </div>
 
+              <div className="space-y-2">
+                <Label htmlFor="search-mode">Source Retrieval</Label>
+                <Select
+                  value={newReportForm.searchMode}
+                  onValueChange={(value) => setNewReportForm(prev => ({ ...prev, searchMode: value as SearchMode }))}
+                >
+                  <SelectTrigger id="search-mode">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="hybrid">Hybrid (keywords + semantic)</SelectItem>
+                    <SelectItem value="vector">Semantic only</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="letterhead">Letterhead for Word and PDF</Label>
+                <Select
+                  value={newReportForm.letterheadId}
+                  onValueChange={(value) => setNewReportForm(prev => ({ ...prev, letterheadId: value }))}
+                >
+                  <SelectTrigger id="letterhead">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={DEFAULT_LETTERHEAD}>My default letterhead</SelectItem>
+                    {letterheads.map((letterhead) => (
+                      <SelectItem key={letterhead.id} value={letterhead.id}>
+                        {letterhead.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
               <div className="flex justify-end gap-2">
                 <Button
                   variant="outline"
@@ -492,7 +743,7 @@ export const ReportsPanel = ({ notebookId }: ReportsPanelProps) => {
                 </Button>
                 <Button
                   onClick={generateNewReport}
-                  disabled={isGenerating || !newReportForm.templateId || !newReportForm.topic}
+                  disabled={isGenerating || !newReportForm.templateId || !newReportForm.topic || missingInputs.length > 0}
                 >
                   {isGenerating ? (
                     <>
@@ -523,17 +774,55 @@ export const ReportsPanel = ({ notebookId }: ReportsPanelProps) => {
                   <Button
                     variant="outline"
                     size="sm"
-                    onClick={() => selectedReport && downloadReport(selectedReport)}
-                    disabled={isDownloading || !selectedReport?.file_path}
+                    onClick={() => setIsEditing(true)}
+                    disabled={selectedReport?.status !== 'completed'}
                     className="flex items-center gap-2"
+                    data-testid="edit-report"
                   >
-                    {isDownloading ? (
-                      <Loader2 className="h-4 w-4 animate-spin" />
-                    ) : (
-                      <Download className="h-4 w-4" />
-                    )}
-                    {isDownloading ? 'Downloading...' : 'Download'}
+                    <Pencil className="h-4 w-4" />
+                    Edit
                   </Button>
+                  <Select value={exportLetterheadId} onValueChange={setExportLetterheadId}>
+                    <SelectTrigger className="h-9 w-[180px]" title="Letterhead for Word and PDF">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={DEFAULT_LETTERHEAD}>Default letterhead</SelectItem>
+                      {letterheads.map((letterhead) => (
+                        <SelectItem key={letterhead.id} value={letterhead.id}>
+                          {letterhead.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={isDownloading || !selectedReport?.file_path}
+                        className="flex items-center gap-2"
+                      >
+                        {isDownloading ? (
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                        ) : (
+                          <Download className="h-4 w-4" />
+                        )}
+                        {isDownloading ? 'Downloading...' : 'Download'}
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      <DropdownMenuLabel className="text-xs text-muted-foreground">Download as</DropdownMenuLabel>
+                      {REPORT_FORMATS.map((format) => (
+                        <DropdownMenuItem
+                          key={format}
+                          onClick={() => selectedReport && handleDownload(selectedReport, format, exportLetterheadId)}
+                        >
+                          {REPORT_FORMAT_LABELS[format]}
+                        </DropdownMenuItem>
+                      ))}
+                    </DropdownMenuContent>
+                  </DropdownMenu>
                   <Button
                     variant="ghost"
                     size="sm"
@@ -642,6 +931,36 @@ export const ReportsPanel = ({ notebookId }: ReportsPanelProps) => {
                       />
                     </div>
                     
+                    {sectionSources.length > 0 && (
+                      <div className="mt-10 pt-6 border-t border-gray-200" data-testid="report-section-sources">
+                        <h2 className="text-lg font-semibold text-gray-900 mb-4">Sources by section</h2>
+                        <div className="space-y-4">
+                          {sectionSources.map((section) => (
+                            <div key={`${section.sectionName}-${section.subsectionName ?? ""}`}>
+                              <p className="text-sm font-medium text-gray-800">
+                                {[section.sectionName, section.subsectionName].filter(Boolean).join(" › ")}
+                              </p>
+                              <div className="flex flex-wrap gap-2 mt-2">
+                                {section.sources.map((source) => (
+                                  <Button
+                                    key={source.chunkId}
+                                    variant="outline"
+                                    size="sm"
+                                    className="h-7 text-xs"
+                                    title={source.score !== null ? `Relevance ${Math.round(source.score * 100)}%` : undefined}
+                                    onClick={() => setViewingSource(source)}
+                                  >
+                                    <FileText className="h-3 w-3 mr-1" />
+                                    {[source.title, formatPages(source.startPage, source.endPage)].filter(Boolean).join(", ")}
+                                  </Button>
+                                ))}
+                              </div>
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+                    
                     <div className="mt-12 pt-6 border-t border-gray-200 text-center text-sm text-gray-500">
                       <p>Generated by Town Planner Assistant</p>
                       <p>Report ID: {selectedReport?.id}</p>
@@ -653,6 +972,24 @@ export const ReportsPanel = ({ notebookId }: ReportsPanelProps) => {
           </DialogContent>
         </Dialog>
       </div>
+
+      <LetterheadsDialog open={showLetterheads} onOpenChange={setShowLetterheads} />
+
+      <ReportEditor
+        report={selectedReport}
+        open={isEditing && !!selectedReport}
+        onOpenChange={setIsEditing}
+        onReportChanged={handleReportChanged}
+      />
+
+      <DocumentViewer
+        sourceId={viewingSource?.sourceId ?? null}
+        chunkId={viewingSource?.chunkId}
+        title={viewingSource?.title}
+        page={viewingSource?.startPage}
+        open={!!viewingSource}
+        onOpenChange={(open) => !open && setViewingSource(null)}
+      />
     </ComponentErrorBoundary>
   );
 };
\ No newline at end of file
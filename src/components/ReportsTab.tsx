@@ -5,13 +5,15 @@ import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { FileText, Download, Search, Calendar, User, MapPin, Loader2, AlertCircle, RefreshCw, Eye, X } from "lucide-react";
+import { FileText, Download, Search, Calendar, User, MapPin, Loader2, AlertCircle, RefreshCw, Eye, X, Pencil } from "lucide-react";
 import { supabase } from "@/lib/api";
+import { markdownTablesToHtml } from "@/lib/report-markdown";
 import { useToast } from "@/hooks/use-toast";
 import { useErrorHandler } from "@/hooks/useErrorHandler";
 import { ComponentErrorBoundary } from "@/components/ErrorBoundary";
 import { LoadingWithError } from "@/components/ui/error-display";
 import { Progress } from "@/components/ui/progress";
+import { ReportEditor } from "@/components/ReportEditor";
 
 interface Report {
   id: string;
@@ -38,6 +40,7 @@ export const ReportsTab = ({ notebookId }: ReportsTabProps) => {
   const [isLoadingContent, setIsLoadingContent] = useState(false);
   const [contentError, setContentError] = useState<string>("");
   const [isDownloading, setIsDownloading] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
   const { toast } = useToast();
   const { handleAsyncError } = useErrorHandler();
 
@@ -95,6 +98,12 @@ export const ReportsTab = ({ notebookId }: ReportsTabProps) => {
     }
   };
 
+  // The report file was rebuilt from edited or redrafted sections
+  const handleReportChanged = () => {
+    refetch();
+    if (selectedReport) fetchReportContent(selectedReport);
+  };
+
   const handleReportClick = async (report: Report) => {
     setSelectedReport(report);
     await fetchReportContent(report);
@@ -142,7 +151,7 @@ export const ReportsTab = ({ notebookId }: ReportsTabProps) => {
 
   const formatMarkdownToHtml = (markdown: string): string => {
     // Enhanced markdown to HTML conversion with better styling
-    return markdown
+    return markdownTablesToHtml(markdown)
       .replace(/^# (.*$)/gim, '<h1 class="text-3xl font-bold mb-6 text-gray-900 border-b-2 border-gray-200 pb-3">$1</h1>')
       .replace(/^## (.*$)/gim, '<h2 class="text-2xl font-semibold mb-4 text-gray-800 mt-8 border-b border-gray-200 pb-2">$1</h2>')
       .replace(/^### (.*$)/gim, '<h3 class="text-xl font-medium mb-3 text-gray-700 mt-6">$1</h3>')
@@ -154,7 +163,7 @@ export const ReportsTab = ({ notebookId }: ReportsTabProps) => {
       .replace(/^---$/gim, '<hr class="my-8 border-gray-300 border-t-2" />')
       .replace(/`([^`]+)`/g, '<code class="bg-gray-100 px-2 py-1 rounded text-sm font-mono text-gray-800">$1</code>')
       .replace(/\n\n/g, '</p><p class="mb-4 text-gray-700 leading-relaxed text-justify">')
-      .replace(/^(?!<h|<l|<p|<d|<c)(.+)$/gim, '<p class="mb-4 text-gray-700 leading-relaxed text-justify">$1</p>')
+      .replace(/^(?!<h|<l|<p|<d|<c|<t)(.+)$/gim, '<p class="mb-4 text-gray-700 leading-relaxed text-justify">$1</p>')
       .replace(/<li class="ml-6 mb-2 text-gray-700">/g, '<ul class="mb-4"><li class="ml-6 mb-2 text-gray-700">')
       .replace(/<\/li>(?!\s*<li)/g, '</li></ul>')
       .replace(/<li class="ml-6 mb-2 text-gray-700 list-decimal">/g, '<ol class="mb-4 list-decimal"><li class="ml-6 mb-2 text-gray-700">')
@@ -190,6 +199,7 @@ export const ReportsTab = ({ notebookId }: ReportsTabProps) => {
 
   const closeModal = () => {
     setSelectedReport(null);
+    setIsEditing(false);
     setReportContent("");
     setContentError("");
   };
@@ -312,6 +322,17 @@ export const ReportsTab = ({ notebookId }: ReportsTabProps) => {
                   {selectedReport?.title}
                 </DialogTitle>
                 <div className="flex items-center gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setIsEditing(true)}
+                    disabled={selectedReport?.status !== 'completed'}
+                    className="flex items-center gap-2"
+                    data-testid="edit-report"
+                  >
+                    <Pencil className="h-4 w-4" />
+                    Edit
+                  </Button>
                   <Button
                     variant="outline"
                     size="sm"
@@ -449,6 +470,13 @@ export const ReportsTab = ({ notebookId }: ReportsTabProps) => {
           </DialogContent>
         </Dialog>
       </div>
+
+      <ReportEditor
+        report={selectedReport}
+        open={isEditing && !!selectedReport}
+        onOpenChange={setIsEditing}
+        onReportChanged={handleReportChanged}
+      />
     </ComponentErrorBoundary>
   );
 };
\ No newline at end of file
@@ -1,8 +1,9 @@
 // src/components/SettingsModal.tsx
 import { useState, useEffect } from 'react'
+import { useQueryClient } from '@tanstack/react-query'
 import { X, Loader2, Check, AlertCircle } from 'lucide-react'
 import { updateUserSettings, testLLMConnection, getUserSettings } from '../lib/api'
-import type { LLMSettings } from '../lib/api'
+import type { LLMSettings, LLMConnectionTestResult, SearchMode } from '../lib/api'
 
 interface SettingsModalProps {
   isOpen: boolean
@@ -14,11 +15,13 @@ export function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
     provider: 'ollama',
     model: '',
     temperature: 0.3,
-    embeddingProvider: 'ollama'
+    embeddingProvider: 'ollama',
+    searchMode: 'hybrid'
   })
   const [testing, setTesting] = useState<string | null>(null)
-  const [testResults, setTestResults] = useState<Record<string, boolean>>({})
+  const [testResults, setTestResults] = useState<Record<string, LLMConnectionTestResult>>({})
   const [saving, setSaving] = useState(false)
+  const queryClient = useQueryClient()
 
   useEffect(() => {
     if (isOpen) {
@@ -39,6 +42,8 @@ export function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
     setSaving(true)
     try {
       await updateUserSettings(settings)
+      // Lets the sources panel offer re-embedding when the embedding provider changed
+      queryClient.invalidateQueries({ queryKey: ['user_settings'] })
       onClose()
     } catch (error) {
       console.error('Failed to save settings:', error)
@@ -51,9 +56,9 @@ export function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
     setTesting(provider)
     try {
       const result = await testLLMConnection(provider, settings)
-      setTestResults({ ...testResults, [provider]: result.success })
+      setTestResults({ ...testResults, [provider]: result })
     } catch (error) {
-      setTestResults({ ...testResults, [provider]: false })
+      setTestResults({ ...testResults, [provider]: { success: false } })
     } finally {
       setTesting(null)
     }
@@ -75,6 +80,16 @@ export function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
       name: 'Google Gemini', 
       models: ['gemini-pro', 'gemini-1.5-pro', 'gemini-1.5-flash']
     },
+    { 
+      id: 'anthropic', 
+      name: 'Anthropic', 
+      models: ['claude-3-5-sonnet-latest', 'claude-3-5-haiku-latest', 'claude-3-opus-latest']
+    },
+    { 
+      id: 'openai-compatible', 
+      name: 'OpenAI-compatible server (vLLM, LM Studio, llama.cpp)', 
+      models: []
+    },
     { 
       id: 'llamacloud', 
       name: 'LlamaCloud (PDF Processing)', 
@@ -107,7 +122,8 @@ export function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
             </label>
             <select
               value={settings.provider}
-              onChange={(e) => setSettings({ ...settings, provider: e.target.value as any })}
+              // A model picked for one provider means nothing to another
+              onChange={(e) => setSettings({ ...settings, provider: e.target.value as LLMSettings['provider'], model: '' })}
               className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500"
             >
               {providers.map(provider => (
@@ -139,6 +155,39 @@ export function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
             </div>
           )}
 
+          {/* OpenAI-compatible server */}
+          {settings.provider === 'openai-compatible' && (
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium mb-2">
+                  Base URL
+                </label>
+                <input
+                  type="url"
+                  value={settings.baseUrl || ''}
+                  onChange={(e) => setSettings({ ...settings, baseUrl: e.target.value })}
+                  placeholder="http://gpu-box:8000/v1"
+                  className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500"
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  Must be reachable from the Supabase edge functions, and its host listed in OPENAI_COMPATIBLE_ALLOWED_HOSTS. Leave empty to use OPENAI_COMPATIBLE_BASE_URL, the only server sent OPENAI_COMPATIBLE_API_KEY.
+                </p>
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-2">
+                  Model
+                </label>
+                <input
+                  type="text"
+                  value={settings.model || ''}
+                  onChange={(e) => setSettings({ ...settings, model: e.target.value })}
+                  placeholder="Model name as served, e.g. meta-llama/Llama-3.1-8B-Instruct"
+                  className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+            </div>
+          )}
+
           {/* Temperature */}
           <div>
             <label className="block text-sm font-medium mb-2">
@@ -165,7 +214,7 @@ export function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
               Embedding Provider
             </label>
             <select
-              value={settings.embeddingProvider || settings.provider}
+              value={settings.embeddingProvider || 'ollama'}
               onChange={(e) => setSettings({ ...settings, embeddingProvider: e.target.value })}
               className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500"
             >
@@ -175,6 +224,24 @@ export function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
             </select>
           </div>
 
+          {/* Retrieval Mode */}
+          <div>
+            <label className="block text-sm font-medium mb-2">
+              Retrieval Mode
+            </label>
+            <select
+              value={settings.searchMode || 'vector'}
+              onChange={(e) => setSettings({ ...settings, searchMode: e.target.value as SearchMode })}
+              className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="hybrid">Hybrid (keywords + semantic)</option>
+              <option value="vector">Semantic only</option>
+            </select>
+            <p className="text-xs text-gray-500 mt-1">
+              Hybrid search matches clause numbers and zone codes (e.g. "cl 4.3(2A)", "R2") exactly
+            </p>
+          </div>
+
           {/* Connection Tests */}
           <div className="border-t pt-4">
             <h3 className="font-medium mb-3">Test Connections</h3>
@@ -182,20 +249,32 @@ export function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
               {providers.filter(p => p.id !== 'llamacloud').map(provider => (
                 <div key={provider.id} className="flex items-center justify-between">
                   <span className="text-sm">{provider.name}</span>
-                  <button
-                    onClick={() => testConnection(provider.id)}
-                    disabled={testing === provider.id}
-                    className="flex items-center gap-2 px-3 py-1 text-sm border rounded-lg hover:bg-gray-50 disabled:opacity-50"
-                  >
-                    {testing === provider.id ? (
-                      <Loader2 className="w-4 h-4 animate-spin" />
-                    ) : testResults[provider.id] === true ? (
-                      <Check className="w-4 h-4 text-green-500" />
-                    ) : testResults[provider.id] === false ? (
-                      <AlertCircle className="w-4 h-4 text-red-500" />
-                    ) : null}
-                    Test
-                  </button>
+                  <div className="flex items-center gap-2">
+                    {testing !== provider.id && testResults[provider.id] && (
+                      <span
+                        className={`text-xs max-w-xs truncate ${testResults[provider.id].success ? 'text-green-600' : 'text-red-600'}`}
+                        title={testResults[provider.id].error}
+                      >
+                        {testResults[provider.id].success
+                          ? `${testResults[provider.id].model} · ${testResults[provider.id].latencyMs}ms`
+                          : testResults[provider.id].error || 'Connection failed'}
+                      </span>
+                    )}
+                    <button
+                      onClick={() => testConnection(provider.id)}
+                      disabled={testing === provider.id}
+                      className="flex items-center gap-2 px-3 py-1 text-sm border rounded-lg hover:bg-gray-50 disabled:opacity-50"
+                    >
+                      {testing === provider.id ? (
+                        <Loader2 className="w-4 h-4 animate-spin" />
+                      ) : testResults[provider.id]?.success === true ? (
+                        <Check className="w-4 h-4 text-green-500" />
+                      ) : testResults[provider.id]?.success === false ? (
+                        <AlertCircle className="w-4 h-4 text-red-500" />
+                      ) : null}
+                      Test
+                    </button>
+                  </div>
                 </div>
               ))}
             </div>
@@ -214,6 +293,21 @@ export function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
             </div>
           )}
 
+          {settings.provider === 'anthropic' && (
+            <div className="border-t pt-4">
+              <h3 className="font-medium mb-3">Anthropic Settings</h3>
+              <p className="text-sm text-gray-600">
+                Requests are sent from the edge functions; set the API key as a Supabase secret.
+              </p>
+              <div className="mt-2 p-3 bg-gray-50 rounded-lg">
+                <code className="text-xs">supabase secrets set ANTHROPIC_API_KEY=sk-ant-...</code>
+              </div>
+              <p className="text-xs text-gray-500 mt-2">
+                Anthropic has no embedding models; choose a separate embedding provider above.
+              </p>
+            </div>
+          )}
+
           {/* Save Button */}
           <div className="flex justify-end gap-3 pt-4 border-t">
             <button
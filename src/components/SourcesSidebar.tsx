@@ -5,7 +5,8 @@ import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
 import { Upload, Search, CheckCircle, AlertCircle, Clock, RefreshCw, Loader2 } from "lucide-react";
 import { supabase } from "@/lib/api";
-import { uploadFile, deleteAllSources } from "@/lib/api";
+import { uploadFile, deleteAllSources, queueSourceProcessing } from "@/lib/api";
+import { SOURCE_FILE_TYPES, SOURCE_FILE_EXTENSIONS } from "@/lib/source-formats";
 import { useToast } from "@/hooks/use-toast";
 import { Progress } from "@/components/ui/progress";
 import { useDropzone } from "react-dropzone";
@@ -16,7 +17,8 @@ import { ErrorDisplay, FileUploadErrorDisplay } from "@/components/ui/error-disp
 import { Textarea } from "@/components/ui/textarea";
 import { Button } from "@/components/ui/button";
 import { useQueryClient } from "@tanstack/react-query";
-import { Trash2 } from "lucide-react";
+import { Trash2, Eye, RotateCcw } from "lucide-react";
+import { DocumentViewer } from "@/components/DocumentViewer";
 
 interface Source {
   id: string;
@@ -24,6 +26,7 @@ interface Source {
   file_size: number;
   file_path?: string;
   processing_status: string;
+  processing_error?: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -56,6 +59,7 @@ export const SourcesSidebar = ({ notebookId }: SourcesSidebarProps) => {
   const [isUploading, setIsUploading] = useState(false);
   const [isDeletingAll, setIsDeletingAll] = useState(false);
   const [uploadError, setUploadError] = useState<string>("");
+  const [viewingSource, setViewingSource] = useState<Source | null>(null);
   const { toast } = useToast();
   const { handleAsyncError } = useErrorHandler();
   const queryClient = useQueryClient();
@@ -81,6 +85,9 @@ export const SourcesSidebar = ({ notebookId }: SourcesSidebarProps) => {
       return false;
     },
     retryDelay: (attemptIndex) => Math.min(1000 * 2 ** attemptIndex, 30000),
+    // Follow queued documents until processing finishes
+    refetchInterval: (query) =>
+      query.state.data?.some((source) => ['pending', 'processing'].includes(source.processing_status)) ? 5000 : false,
   });
 
   const handleFileToggle = async (fileId: string, enabled: boolean) => {
@@ -205,16 +212,14 @@ export const SourcesSidebar = ({ notebookId }: SourcesSidebarProps) => {
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
-    accept: {
-      'application/pdf': ['.pdf']
-    },
+    accept: SOURCE_FILE_TYPES,
     multiple: true
   });
 
   const handleManualUpload = () => {
     const input = document.createElement('input');
     input.type = 'file';
-    input.accept = '.pdf';
+    input.accept = SOURCE_FILE_EXTENSIONS;
     input.multiple = true;
     input.onchange = (e) => {
       const files = Array.from((e.target as HTMLInputElement).files || []);
@@ -255,6 +260,23 @@ export const SourcesSidebar = ({ notebookId }: SourcesSidebarProps) => {
     }
   };
 
+  const handleRetryProcessing = async (source: Source) => {
+    try {
+      await queueSourceProcessing(source.id);
+      toast({
+        title: "Processing restarted",
+        description: `${source.display_name} has been queued again.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["sources", notebookId] });
+    } catch (error) {
+      toast({
+        title: "Could not restart processing",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  };
+
   const retryUpload = (fileId: string) => {
     setUploadProgress(prev => {
       const newProgress = { ...prev };
@@ -336,7 +358,7 @@ export const SourcesSidebar = ({ notebookId }: SourcesSidebarProps) => {
               )}
             </div>
           </div>
-          <p className="text-sm text-muted-foreground">Upload and select PDF documents.</p>
+          <p className="text-sm text-muted-foreground">Upload and select source documents.</p>
         </div>
         
         <div className="p-4 border-b space-y-4">
@@ -362,7 +384,7 @@ export const SourcesSidebar = ({ notebookId }: SourcesSidebarProps) => {
             />
           </div>
           
-          {/* Dropzone for PDF upload */}
+          {/* Dropzone for document upload */}
           <div 
             {...getRootProps()} 
             className={`border-2 border-dashed rounded-lg p-4 text-center cursor-pointer transition-colors ${
@@ -376,10 +398,10 @@ export const SourcesSidebar = ({ notebookId }: SourcesSidebarProps) => {
             {isUploading ? (
               <p className="text-sm text-muted-foreground">Uploading files...</p>
             ) : isDragActive ? (
-              <p className="text-sm text-muted-foreground">Drop PDFs here</p>
+              <p className="text-sm text-muted-foreground">Drop documents here</p>
             ) : (
               <p className="text-sm text-muted-foreground">
-                Drag & drop PDFs or click to browse
+                Drag & drop PDF, DOCX, HTML, TXT or MD files, or click to browse
               </p>
             )}
           </div>
@@ -488,11 +510,36 @@ export const SourcesSidebar = ({ notebookId }: SourcesSidebarProps) => {
                   <Badge variant="secondary" className="text-xs">
                     {formatFileSize(source.file_size)}
                   </Badge>
-                  <Badge variant={source.processing_status === 'completed' ? 'default' : 'outline'} className="text-xs">
+                  <Badge variant={source.processing_status === 'completed' ? 'default' : source.processing_status === 'failed' ? 'destructive' : 'outline'} className="text-xs">
                     {source.processing_status}
                   </Badge>
                 </div>
+                {source.processing_status === 'failed' && source.processing_error && (
+                  <p className="text-xs text-destructive mt-1 break-words">{source.processing_error}</p>
+                )}
               </div>
+              {source.processing_status === 'failed' && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 w-7 p-0 flex-shrink-0"
+                  onClick={() => handleRetryProcessing(source)}
+                  title="Re-run processing"
+                  data-testid="retry-source"
+                >
+                  <RotateCcw className="h-4 w-4" />
+                </Button>
+              )}
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 w-7 p-0 flex-shrink-0"
+                onClick={() => setViewingSource(source)}
+                title="View document"
+                data-testid="view-source"
+              >
+                <Eye className="h-4 w-4" />
+              </Button>
             </div>
           ))}
           {filteredSources.length === 0 && (
@@ -502,6 +549,13 @@ export const SourcesSidebar = ({ notebookId }: SourcesSidebarProps) => {
           )}
         </div>
       </div>
+
+      <DocumentViewer
+        sourceId={viewingSource?.id ?? null}
+        title={viewingSource?.display_name}
+        open={!!viewingSource}
+        onOpenChange={(open) => !open && setViewingSource(null)}
+      />
     </ComponentErrorBoundary>
   );
 };
\ No newline at end of file
@@ -0,0 +1,544 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import {
+  AlertCircle,
+  Archive,
+  ArrowDown,
+  ArrowUp,
+  ChevronDown,
+  ChevronRight,
+  Copy,
+  IndentDecrease,
+  IndentIncrease,
+  Loader2,
+  Plus,
+  Save,
+  Trash2,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  PROJECT_TYPES,
+  PROJECT_TYPE_LABELS,
+  getReportTemplateVersions,
+  type ReportTemplate,
+  type ReportTemplateInput,
+} from "@/lib/api";
+import {
+  ALL_SECTIONS,
+  MAX_TARGET_WORDS,
+  MIN_TARGET_WORDS,
+  SECTION_FORMATS,
+  SECTION_FORMAT_LABELS,
+  emptySection,
+  emptySubsection,
+  moveItem,
+  nestSection,
+  renameDependency,
+  toEditableSections,
+  toInputKey,
+  toTemplateInputs,
+  toTemplateStructure,
+  unnestSubsection,
+  validateTemplate,
+  type EditableSection,
+  type EditableSubsection,
+  type SectionFormat,
+  type TemplateInput,
+} from "@/lib/report-templates";
+
+interface TemplateEditorProps {
+  // Edits this template; starts a new one when null
+  template: ReportTemplate | null;
+  // Built-in templates and other users' templates can only be cloned
+  editable: boolean;
+  onSave: (values: ReportTemplateInput) => Promise<void>;
+  onClone: () => void;
+  onArchive: () => void;
+}
+
+interface SectionFieldsProps {
+  section: EditableSubsection;
+  // Headings of the other top-level sections this one can be written after
+  otherSections: string[];
+  disabled: boolean;
+  onChange: (changes: Partial<EditableSubsection>) => void;
+}
+
+// Retrieval and writing settings shared by sections and subsections
+const SectionFields = ({ section, otherSections, disabled, onChange }: SectionFieldsProps) => {
+  const dependsOn = section.depends_on ?? [];
+  const afterAll = dependsOn.includes(ALL_SECTIONS);
+
+  const toggleDependency = (name: string, checked: boolean) => {
+    const next = checked ? [...dependsOn, name] : dependsOn.filter((dep) => dep !== name);
+    onChange({ depends_on: next.length ? next : undefined });
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-[1fr_140px_140px] gap-3 pt-3">
+      <div className="space-y-1">
+        <Label className="text-xs">Full title</Label>
+        <Input
+          value={section.title}
+          onChange={(e) => onChange({ title: e.target.value })}
+          placeholder="Defaults to the heading"
+          disabled={disabled}
+        />
+      </div>
+      <div className="space-y-1">
+        <Label className="text-xs">Target words</Label>
+        <Input
+          type="number"
+          min={MIN_TARGET_WORDS}
+          max={MAX_TARGET_WORDS}
+          step={50}
+          value={section.target_words ?? ""}
+          onChange={(e) => onChange({ target_words: e.target.value ? Number(e.target.value) : undefined })}
+          placeholder="300-500"
+          disabled={disabled}
+        />
+      </div>
+      <div className="space-y-1">
+        <Label className="text-xs">Format</Label>
+        <Select
+          value={section.format ?? "prose"}
+          onValueChange={(format) => onChange({ format: format as SectionFormat })}
+          disabled={disabled}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SECTION_FORMATS.map((format) => (
+              <SelectItem key={format} value={format}>
+                {SECTION_FORMAT_LABELS[format]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-1 md:col-span-3">
+        <Label className="text-xs">Retrieval query</Label>
+        <Textarea
+          value={section.query ?? ""}
+          onChange={(e) => onChange({ query: e.target.value })}
+          placeholder="What to search the project's documents for, e.g. {address} heritage listing and statement of significance"
+          rows={2}
+          disabled={disabled}
+        />
+      </div>
+      <div className="space-y-1 md:col-span-3">
+        <Label className="text-xs">Writing instructions</Label>
+        <Textarea
+          value={section.instructions ?? ""}
+          onChange={(e) => onChange({ instructions: e.target.value })}
+          placeholder="e.g. Assess each proposed work against the conservation policies in the CMP"
+          rows={2}
+          disabled={disabled}
+        />
+      </div>
+      {otherSections.length > 0 && (
+        <div className="space-y-2 md:col-span-3">
+          <Label className="text-xs">Write after</Label>
+          <p className="text-xs text-muted-foreground">
+            These sections are written first and passed to this one, e.g. for a summary.
+          </p>
+          <div className="flex flex-wrap gap-x-4 gap-y-2">
+            <label className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={afterAll}
+                onCheckedChange={(checked) => onChange({ depends_on: checked ? [ALL_SECTIONS] : undefined })}
+                disabled={disabled}
+              />
+              All other sections
+            </label>
+            {!afterAll &&
+              otherSections.map((name) => (
+                <label key={name} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={dependsOn.includes(name)}
+                    onCheckedChange={(checked) => toggleDependency(name, !!checked)}
+                    disabled={disabled}
+                  />
+                  {name}
+                </label>
+              ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const TemplateEditor = ({ template, editable, onSave, onClone, onArchive }: TemplateEditorProps) => {
+  const [displayName, setDisplayName] = useState("");
+  const [description, setDescription] = useState("");
+  const [category, setCategory] = useState("general");
+  const [sections, setSections] = useState<EditableSection[]>([]);
+  const [inputs, setInputs] = useState<TemplateInput[]>([]);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  // The version whose contents are loaded into the form
+  const [loadedVersion, setLoadedVersion] = useState<ReportTemplate | null>(template);
+  const [saving, setSaving] = useState(false);
+  const [showErrors, setShowErrors] = useState(false);
+
+  const { data: versions = [] } = useQuery({
+    queryKey: ["report_template_versions", template?.family_id],
+    queryFn: () => getReportTemplateVersions(template!.family_id!),
+    enabled: !!template?.family_id,
+  });
+
+  useEffect(() => {
+    setLoadedVersion(template);
+  }, [template]);
+
+  useEffect(() => {
+    setDisplayName(loadedVersion?.display_name ?? "");
+    setDescription(loadedVersion?.description ?? "");
+    setCategory(loadedVersion?.category ?? "general");
+    setSections(loadedVersion ? toEditableSections(loadedVersion.structure) : [emptySection("Introduction")]);
+    setInputs(toTemplateInputs(loadedVersion?.structure));
+    setExpanded(new Set());
+    setShowErrors(false);
+  }, [loadedVersion]);
+
+  const errors = validateTemplate(displayName, sections, inputs);
+  const disabled = !editable || saving;
+
+  const toggle = (key: string) => {
+    setExpanded((current) => {
+      const next = new Set(current);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const updateSection = (index: number, changes: Partial<EditableSection>) => {
+    setSections((current) => current.map((section, i) => (i === index ? { ...section, ...changes } : section)));
+  };
+
+  const renameSection = (index: number, name: string) => {
+    setSections((current) => {
+      const previous = current[index].name.trim();
+      const renamed = current.map((section, i) => (i === index ? { ...section, name } : section));
+      return previous ? renameDependency(renamed, previous, name.trim()) : renamed;
+    });
+  };
+
+  // Dependencies are on top-level sections other than the one being edited
+  const otherSections = (index: number) =>
+    sections
+      .filter((_, i) => i !== index)
+      .map((section) => section.name.trim())
+      .filter(Boolean);
+
+  const updateSubsection = (index: number, subIndex: number, changes: Partial<EditableSubsection>) => {
+    updateSection(index, {
+      subsections: sections[index].subsections.map((subsection, i) =>
+        i === subIndex ? { ...subsection, ...changes } : subsection
+      ),
+    });
+  };
+
+  const updateInput = (index: number, changes: Partial<TemplateInput>) => {
+    setInputs((current) => current.map((input, i) => (i === index ? { ...input, ...changes } : input)));
+  };
+
+  const handleSave = async () => {
+    setShowErrors(true);
+    if (errors.length) return;
+
+    setSaving(true);
+    try {
+      await onSave({
+        display_name: displayName.trim(),
+        description: description.trim() || null,
+        category,
+        structure: toTemplateStructure(sections, inputs),
+      });
+    } catch {
+      // The caller reports the error; keep the edits so they can be saved again
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const latestVersion = versions[0]?.version_number ?? template?.version_number ?? 0;
+
+  return (
+    <div className="space-y-6" data-testid="template-editor">
+      <div className="flex flex-wrap items-center gap-2">
+        {template && (
+          <Badge variant="secondary">{template.created_by ? `Version ${template.version_number}` : "Built-in"}</Badge>
+        )}
+        {versions.length > 1 && (
+          <Select
+            value={loadedVersion?.id}
+            onValueChange={(id) => setLoadedVersion(versions.find((version) => version.id === id) ?? template)}
+          >
+            <SelectTrigger className="h-8 w-[220px]" data-testid="template-versions">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {versions.map((version) => (
+                <SelectItem key={version.id} value={version.id}>
+                  Version {version.version_number}
+                  {version.created_at && ` · ${new Date(version.created_at).toLocaleDateString()}`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        <div className="ml-auto flex gap-2">
+          {template && (
+            <Button variant="outline" size="sm" onClick={onClone} disabled={saving}>
+              <Copy className="h-4 w-4 mr-2" />
+              Clone
+            </Button>
+          )}
+          {template && editable && (
+            <Button variant="ghost" size="sm" onClick={onArchive} disabled={saving}>
+              <Archive className="h-4 w-4 mr-2" />
+              Archive
+            </Button>
+          )}
+          {editable && (
+            <Button size="sm" onClick={handleSave} disabled={saving} data-testid="save-template">
+              {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+              {template ? `Save as version ${latestVersion + 1}` : "Create template"}
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {!editable && (
+        <p className="text-sm text-muted-foreground">
+          Built-in templates can't be changed. Clone this one to make your own version of it.
+        </p>
+      )}
+      {editable && loadedVersion && template && loadedVersion.id !== template.id && (
+        <p className="text-sm text-muted-foreground">
+          Showing version {loadedVersion.version_number}. Saving makes it the current version again.
+        </p>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-[1fr_200px] gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="template-name">Name</Label>
+          <Input
+            id="template-name"
+            value={displayName}
+            onChange={(e) => setDisplayName(e.target.value)}
+            placeholder="e.g. Statement of Environmental Effects"
+            disabled={disabled}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Category</Label>
+          <Select value={category} onValueChange={setCategory} disabled={disabled}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PROJECT_TYPES.map((type) => (
+                <SelectItem key={type} value={type}>
+                  {PROJECT_TYPE_LABELS[type]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2 md:col-span-2">
+          <Label htmlFor="template-description">Description</Label>
+          <Textarea
+            id="template-description"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            placeholder="When to use this template"
+            rows={2}
+            disabled={disabled}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="font-medium">Sections</h3>
+            <p className="text-xs text-muted-foreground">
+              Queries can use {"{topic}"}, {"{address}"} and the keys of required inputs.
+            </p>
+          </div>
+          {editable && (
+            <Button variant="outline" size="sm" onClick={() => setSections((current) => [...current, emptySection()])}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add section
+            </Button>
+          )}
+        </div>
+
+        {sections.map((section, index) => (
+          <div key={section.key} className="rounded-lg border p-3" data-testid="template-section">
+            <div className="flex items-center gap-2">
+              <button type="button" onClick={() => toggle(section.key)} className="text-muted-foreground">
+                {expanded.has(section.key) ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+              </button>
+              <span className="text-sm text-muted-foreground w-6">{index + 1}.</span>
+              <Input
+                value={section.name}
+                onChange={(e) => renameSection(index, e.target.value)}
+                placeholder="Section heading"
+                className="h-8"
+                disabled={disabled}
+              />
+              {editable && (
+                <div className="flex flex-shrink-0">
+                  <Button variant="ghost" size="sm" className="h-8 w-8 p-0" title="Move up" disabled={index === 0}
+                    onClick={() => setSections((current) => moveItem(current, index, -1))}>
+                    <ArrowUp className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" className="h-8 w-8 p-0" title="Move down" disabled={index === sections.length - 1}
+                    onClick={() => setSections((current) => moveItem(current, index, 1))}>
+                    <ArrowDown className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" className="h-8 w-8 p-0" title="Make a subsection of the section above"
+                    disabled={index === 0 || section.subsections.length > 0}
+                    onClick={() => setSections((current) => nestSection(current, index))}>
+                    <IndentIncrease className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" className="h-8 w-8 p-0" title="Add subsection"
+                    onClick={() => updateSection(index, { subsections: [...section.subsections, emptySubsection()] })}>
+                    <Plus className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" className="h-8 w-8 p-0 text-destructive" title="Remove section"
+                    onClick={() => setSections((current) => current.filter((_, i) => i !== index))}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              )}
+            </div>
+
+            {expanded.has(section.key) && (
+              <SectionFields
+                section={section}
+                otherSections={otherSections(index)}
+                disabled={disabled}
+                onChange={(changes) => updateSection(index, changes)}
+              />
+            )}
+
+            {section.subsections.length > 0 && (
+              <div className="mt-3 ml-8 space-y-2">
+                {section.subsections.map((subsection, subIndex) => (
+                  <div key={subsection.key} className="rounded-md border bg-muted/30 p-2">
+                    <div className="flex items-center gap-2">
+                      <button type="button" onClick={() => toggle(subsection.key)} className="text-muted-foreground">
+                        {expanded.has(subsection.key) ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                      </button>
+                      <span className="text-xs text-muted-foreground w-8">{index + 1}.{subIndex + 1}</span>
+                      <Input
+                        value={subsection.name}
+                        onChange={(e) => updateSubsection(index, subIndex, { name: e.target.value })}
+                        placeholder="Subsection heading"
+                        className="h-8"
+                        disabled={disabled}
+                      />
+                      {editable && (
+                        <div className="flex flex-shrink-0">
+                          <Button variant="ghost" size="sm" className="h-8 w-8 p-0" title="Move up" disabled={subIndex === 0}
+                            onClick={() => updateSection(index, { subsections: moveItem(section.subsections, subIndex, -1) })}>
+                            <ArrowUp className="h-4 w-4" />
+                          </Button>
+                          <Button variant="ghost" size="sm" className="h-8 w-8 p-0" title="Move down"
+                            disabled={subIndex === section.subsections.length - 1}
+                            onClick={() => updateSection(index, { subsections: moveItem(section.subsections, subIndex, 1) })}>
+                            <ArrowDown className="h-4 w-4" />
+                          </Button>
+                          <Button variant="ghost" size="sm" className="h-8 w-8 p-0" title="Make a section of its own"
+                            onClick={() => setSections((current) => unnestSubsection(current, index, subIndex))}>
+                            <IndentDecrease className="h-4 w-4" />
+                          </Button>
+                          <Button variant="ghost" size="sm" className="h-8 w-8 p-0 text-destructive" title="Remove subsection"
+                            onClick={() => updateSection(index, { subsections: section.subsections.filter((_, i) => i !== subIndex) })}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      )}
+                    </div>
+                    {expanded.has(subsection.key) && (
+                      <SectionFields
+                        section={subsection}
+                        otherSections={otherSections(index)}
+                        disabled={disabled}
+                        onChange={(changes) => updateSubsection(index, subIndex, changes)}
+                      />
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="font-medium">Required inputs</h3>
+            <p className="text-xs text-muted-foreground">Asked for whenever a report is generated from this template.</p>
+          </div>
+          {editable && (
+            <Button variant="outline" size="sm" onClick={() => setInputs((current) => [...current, { key: "", label: "" }])}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add input
+            </Button>
+          )}
+        </div>
+
+        {inputs.map((input, index) => (
+          <div key={index} className="grid grid-cols-[1fr_1fr_auto] gap-2 items-start" data-testid="template-input">
+            <div>
+              <Input
+                value={input.label}
+                onChange={(e) => updateInput(index, { label: e.target.value, key: toInputKey(e.target.value) })}
+                placeholder="Label, e.g. Heritage listing number"
+                disabled={disabled}
+              />
+              {input.key && <p className="text-xs text-muted-foreground mt-1 font-mono">{`{${input.key}}`}</p>}
+            </div>
+            <Input
+              value={input.description ?? ""}
+              onChange={(e) => updateInput(index, { description: e.target.value })}
+              placeholder="Hint for the user (optional)"
+              disabled={disabled}
+            />
+            {editable && (
+              <Button variant="ghost" size="sm" className="h-10 w-10 p-0 text-destructive" title="Remove input"
+                onClick={() => setInputs((current) => current.filter((_, i) => i !== index))}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {showErrors && errors.length > 0 && (
+        <div className="rounded-md border border-destructive/50 p-3 text-sm text-destructive space-y-1" data-testid="template-errors">
+          {errors.map((error) => (
+            <p key={error} className="flex items-start gap-2">
+              <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+              {error}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
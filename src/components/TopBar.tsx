@@ -1,23 +1,24 @@
 import { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
-import { Badge } from "@/components/ui/badge";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
-import { Menu, Bell, User, Trash2, Settings } from "lucide-react";
+import { Menu, User, Trash2, Settings } from "lucide-react";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
 import { toast } from "sonner";
 import { HistoryDrawer } from "./HistoryDrawer";
+import { NotificationCenter } from "./NotificationCenter";
+import { ProjectSwitcher } from "./ProjectSwitcher";
 import { SettingsModal } from "./SettingsModal";
 import { useSettings } from "@/hooks/useSettings";
 
 interface TopBarProps {
+  notebookId?: string;
   onClearChats?: () => void;
   onSessionSelect?: (sessionId: string) => void;
 }
 
-export const TopBar = ({ onClearChats, onSessionSelect }: TopBarProps) => {
-  const [pendingJobs] = useState(2); // Mock pending jobs count
+export const TopBar = ({ notebookId, onClearChats, onSessionSelect }: TopBarProps) => {
   const [showSettings, setShowSettings] = useState(false);
   const [showHistory, setShowHistory] = useState(false);
   const { settings, updateSettings } = useSettings();
@@ -44,9 +45,10 @@ export const TopBar = ({ onClearChats, onSessionSelect }: TopBarProps) => {
 
   return (
     <div className="h-14 bg-background border-b flex items-center justify-between px-4 sticky top-0 z-40">
-      {/* Left - History Drawer */}
+      {/* Left - History Drawer & Project Switcher */}
       <div className="flex items-center gap-3">
-        <HistoryDrawer onSessionSelect={handleSessionSelect} />
+        <HistoryDrawer notebookId={notebookId} onSessionSelect={handleSessionSelect} />
+        <ProjectSwitcher notebookId={notebookId} />
       </div>
 
       {/* Center - Title */}
@@ -74,18 +76,8 @@ export const TopBar = ({ onClearChats, onSessionSelect }: TopBarProps) => {
           />
         </div>
 
-        {/* Bell Icon with Badge */}
-        <Button variant="ghost" size="sm" className="relative">
-          <Bell className="h-4 w-4" />
-          {pendingJobs > 0 && (
-            <Badge 
-              variant="destructive" 
-              className="absolute -top-1 -right-1 h-5 w-5 rounded-full p-0 flex items-center justify-center text-xs"
-            >
-              {pendingJobs}
-            </Badge>
-          )}
-        </Button>
+        {/* Notifications */}
+        <NotificationCenter notebookId={notebookId} />
 
         {/* Settings Gear Button */}
         <Button variant="ghost" size="sm" onClick={() => setShowSettings(true)}>
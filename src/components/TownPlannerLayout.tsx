@@ -69,6 +69,7 @@ export const TownPlannerLayout = ({ sessionId, notebookId = "default" }: TownPla
     <ComponentErrorBoundary>
       <div className="h-full flex flex-col bg-background overflow-hidden">
         <TopBar 
+          notebookId={notebookId}
           onSessionSelect={handleSessionSelect} 
           onClearChats={handleClearChats}
         />
@@ -1,5 +1,6 @@
 import { useState, useEffect } from "react";
 import { useQuery } from "@tanstack/react-query";
+import { useSearchParams } from "react-router-dom";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -22,10 +23,13 @@ import {
   MessageSquare,
   Calendar,
   User,
-  Trash2
+  Trash2,
+  Eye,
+  RotateCcw
 } from "lucide-react";
 import { supabase } from "@/lib/api";
-import { uploadFile, deleteAllSources } from "@/lib/api";
+import { uploadFile, deleteAllSources, getSessionSources, updateSessionSources, queueSourceProcessing } from "@/lib/api";
+import { SOURCE_FILE_TYPES } from "@/lib/source-formats";
 import { useToast } from "@/hooks/use-toast";
 import { useDropzone } from "react-dropzone";
 import { useErrorHandler } from "@/hooks/useErrorHandler";
@@ -36,6 +40,8 @@ import { Textarea } from "@/components/ui/textarea";
 import { useQueryClient } from "@tanstack/react-query";
 import { MapTab } from "./MapTab";
 import { PermitDrawer } from "./PermitDrawer";
+import { EmbeddingMigrationBanner } from "./EmbeddingMigrationBanner";
+import { DocumentViewer } from "./DocumentViewer";
 
 interface UnifiedSidebarProps {
   notebookId: string;
@@ -57,6 +63,7 @@ interface Source {
   file_size: number;
   file_path?: string;
   processing_status: string;
+  processing_error?: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -86,18 +93,20 @@ export const UnifiedSidebar = ({ notebookId, sessionId, onSessionSelect }: Unifi
   const [isUploading, setIsUploading] = useState(false);
   const [isDeletingAll, setIsDeletingAll] = useState(false);
   const [uploadError, setUploadError] = useState<string>("");
+  const [viewingSource, setViewingSource] = useState<Source | null>(null);
   const { toast } = useToast();
   const { handleAsyncError } = useErrorHandler();
   const queryClient = useQueryClient();
 
   // Chat Sessions Query
   const { data: sessions = [], isLoading: sessionsLoading } = useQuery({
-    queryKey: ["chat_sessions"],
+    queryKey: ["chat_sessions", notebookId],
     queryFn: async (): Promise<ChatSession[]> => {
       return handleAsyncError(async () => {
         const { data, error } = await supabase
           .from("chat_sessions")
           .select("id, title, created_at, updated_at, total_messages")
+          .eq("notebook_id", notebookId)
           .order("updated_at", { ascending: false });
         
         if (error) throw error;
@@ -112,8 +121,20 @@ export const UnifiedSidebar = ({ notebookId, sessionId, onSessionSelect }: Unifi
     },
   });
 
+  // Sources the current session is grounded in
+  const { data: sessionSources } = useQuery({
+    queryKey: ["session_sources", sessionId],
+    queryFn: () => getSessionSources(sessionId),
+    enabled: !!sessionId,
+  });
+
+  useEffect(() => {
+    if (!sessionSources) return;
+    setSelectedFiles(Object.fromEntries(sessionSources.map(source => [source.id, true])));
+  }, [sessionSources]);
+
   // Sources Query
-  const { data: sources = [], isLoading: sourcesLoading } = useQuery({
+  const { data: sources = [], isLoading: sourcesLoading, isFetching: sourcesFetching } = useQuery({
     queryKey: ["sources", notebookId],
     queryFn: async (): Promise<Source[]> => {
       return handleAsyncError(async () => {
@@ -134,8 +155,28 @@ export const UnifiedSidebar = ({ notebookId, sessionId, onSessionSelect }: Unifi
       return false;
     },
     retryDelay: (attemptIndex) => Math.min(1000 * 2 ** attemptIndex, 30000),
+    // Follow queued documents until processing finishes
+    refetchInterval: (query) =>
+      query.state.data?.some((source) => ['pending', 'processing'].includes(source.processing_status)) ? 5000 : false,
   });
 
+  // Notifications link here with ?source=<id> to open that document
+  const [searchParams, setSearchParams] = useSearchParams();
+  const linkedSourceId = searchParams.get("source");
+  useEffect(() => {
+    if (!linkedSourceId || sourcesFetching) return;
+
+    const source = sources.find((s) => s.id === linkedSourceId);
+    if (source) {
+      setActiveTab("sources");
+      setViewingSource(source);
+    }
+    // Read the live URL; the chat session is switched outside the router
+    const params = new URLSearchParams(window.location.search);
+    params.delete("source");
+    setSearchParams(params, { replace: true });
+  }, [linkedSourceId, sourcesFetching, sources, setSearchParams]);
+
   // File upload logic
   const simulateUploadProgress = (fileId: string, fileName: string): NodeJS.Timeout => {
     let progress = 0;
@@ -239,17 +280,27 @@ export const UnifiedSidebar = ({ notebookId, sessionId, onSessionSelect }: Unifi
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
-    accept: {
-      'application/pdf': ['.pdf']
-    },
+    accept: SOURCE_FILE_TYPES,
     multiple: true
   });
 
   const handleFileToggle = async (fileId: string, enabled: boolean) => {
-    setSelectedFiles(prev => ({
-      ...prev,
-      [fileId]: enabled
-    }));
+    const previous = selectedFiles;
+    const next = { ...selectedFiles, [fileId]: enabled };
+    setSelectedFiles(next);
+
+    // Persist on the session so retrieval only searches the checked sources
+    try {
+      await updateSessionSources(sessionId, Object.keys(next).filter(id => next[id]));
+      queryClient.invalidateQueries({ queryKey: ["session_sources", sessionId] });
+    } catch (error) {
+      setSelectedFiles(previous);
+      toast({
+        title: "Could not update chat sources",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    }
   };
 
   const handleClearAllSources = async () => {
@@ -282,6 +333,23 @@ export const UnifiedSidebar = ({ notebookId, sessionId, onSessionSelect }: Unifi
     }
   };
 
+  const handleRetryProcessing = async (source: Source) => {
+    try {
+      await queueSourceProcessing(source.id);
+      toast({
+        title: "Processing restarted",
+        description: `${source.display_name} has been queued again.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["sources", notebookId] });
+    } catch (error) {
+      toast({
+        title: "Could not restart processing",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  };
+
   const getStatusIcon = (status: string) => {
     switch (status) {
       case 'completed':
@@ -441,6 +509,8 @@ export const UnifiedSidebar = ({ notebookId, sessionId, onSessionSelect }: Unifi
                   )}
                 </div>
 
+                <EmbeddingMigrationBanner notebookId={notebookId} />
+
                 {uploadError && (
                   <FileUploadErrorDisplay
                     error={uploadError}
@@ -475,10 +545,10 @@ export const UnifiedSidebar = ({ notebookId, sessionId, onSessionSelect }: Unifi
                   {isUploading ? (
                     <p className="text-sm text-muted-foreground">Uploading files...</p>
                   ) : isDragActive ? (
-                    <p className="text-sm text-muted-foreground">Drop PDFs here</p>
+                    <p className="text-sm text-muted-foreground">Drop documents here</p>
                   ) : (
                     <p className="text-sm text-muted-foreground">
-                      Drag & drop PDFs or click to browse
+                      Drag & drop PDF, DOCX, HTML, TXT or MD files, or click to browse
                     </p>
                   )}
                 </div>
@@ -548,6 +618,10 @@ export const UnifiedSidebar = ({ notebookId, sessionId, onSessionSelect }: Unifi
                   </div>
                 )}
                 
+                <p className="text-xs text-muted-foreground">
+                  Chat answers from the checked documents, or from all of them when none are checked.
+                </p>
+                
                 <div className="relative">
                   <Search className="absolute left-2 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
                   <Input
@@ -584,11 +658,36 @@ export const UnifiedSidebar = ({ notebookId, sessionId, onSessionSelect }: Unifi
                             <Badge variant="secondary" className="text-xs">
                               {formatFileSize(source.file_size)}
                             </Badge>
-                            <Badge variant={source.processing_status === 'completed' ? 'default' : 'outline'} className="text-xs">
+                            <Badge variant={source.processing_status === 'completed' ? 'default' : source.processing_status === 'failed' ? 'destructive' : 'outline'} className="text-xs">
                               {source.processing_status}
                             </Badge>
                           </div>
+                          {source.processing_status === 'failed' && source.processing_error && (
+                            <p className="text-xs text-destructive mt-1 break-words">{source.processing_error}</p>
+                          )}
                         </div>
+                        {source.processing_status === 'failed' && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-7 w-7 p-0 flex-shrink-0"
+                            onClick={() => handleRetryProcessing(source)}
+                            title="Re-run processing"
+                            data-testid="retry-source"
+                          >
+                            <RotateCcw className="h-4 w-4" />
+                          </Button>
+                        )}
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-7 w-7 p-0 flex-shrink-0"
+                          onClick={() => setViewingSource(source)}
+                          title="View document"
+                          data-testid="view-source"
+                        >
+                          <Eye className="h-4 w-4" />
+                        </Button>
                       </div>
                     ))}
                     {filteredSources.length === 0 && (
@@ -629,6 +728,13 @@ export const UnifiedSidebar = ({ notebookId, sessionId, onSessionSelect }: Unifi
           </Tabs>
         </div>
       </div>
+
+      <DocumentViewer
+        sourceId={viewingSource?.id ?? null}
+        title={viewingSource?.display_name}
+        open={!!viewingSource}
+        onOpenChange={(open) => !open && setViewingSource(null)}
+      />
     </ComponentErrorBoundary>
   );
 };
\ No newline at end of file
@@ -0,0 +1,79 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { getNotifications, subscribeToNotifications } from '@/lib/api';
+import { useSession } from './useSession';
+
+// Read notification ids are remembered per user on this device
+const MAX_READ_IDS = 200;
+// Job steps arrive in bursts; refetch once they settle
+const REFRESH_DELAY_MS = 1000;
+
+const readIdsKey = (userId: string) => `notifications_read_${userId}`;
+
+function loadReadIds(userId: string): string[] {
+  try {
+    const stored = localStorage.getItem(readIdsKey(userId));
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error('Failed to parse read notifications:', error);
+    return [];
+  }
+}
+
+export function useNotifications() {
+  const { user } = useSession();
+  const userId = user?.id;
+  const queryClient = useQueryClient();
+  const [readIds, setReadIds] = useState<string[]>([]);
+  const refreshTimer = useRef<ReturnType<typeof setTimeout>>();
+
+  useEffect(() => {
+    setReadIds(userId ? loadReadIds(userId) : []);
+  }, [userId]);
+
+  const { data: notifications = [], isLoading } = useQuery({
+    queryKey: ['notifications', userId],
+    queryFn: getNotifications,
+    enabled: !!userId,
+  });
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const channel = subscribeToNotifications(userId, () => {
+      clearTimeout(refreshTimer.current);
+      refreshTimer.current = setTimeout(() => {
+        queryClient.invalidateQueries({ queryKey: ['notifications', userId] });
+      }, REFRESH_DELAY_MS);
+    });
+
+    return () => {
+      clearTimeout(refreshTimer.current);
+      channel.unsubscribe();
+    };
+  }, [userId, queryClient]);
+
+  const markRead = useCallback((ids: string[]) => {
+    if (!userId || ids.length === 0) return;
+    setReadIds(prev => {
+      const next = [...new Set([...ids, ...prev])].slice(0, MAX_READ_IDS);
+      localStorage.setItem(readIdsKey(userId), JSON.stringify(next));
+      return next;
+    });
+  }, [userId]);
+
+  const inProgress = notifications.filter(notification => notification.kind === 'in_progress');
+  // Work still running isn't news yet, so only outcomes count as unread
+  const outcomes = notifications.filter(notification => notification.kind !== 'in_progress');
+  const unread = outcomes.filter(notification => !readIds.includes(notification.id));
+
+  return {
+    inProgress,
+    outcomes,
+    unreadCount: unread.length,
+    isLoading,
+    isRead: (id: string) => readIds.includes(id),
+    markRead,
+    markAllRead: () => markRead(unread.map(notification => notification.id)),
+  };
+}
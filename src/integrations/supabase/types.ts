@@ -16,43 +16,55 @@ export type Database = {
     Tables: {
       chat_messages: {
         Row: {
-          chunks_used: Json | null
-          citations: Json | null
+          chunks_retrieved: string[] | null
+          completion_tokens: number | null
           content: string
           created_at: string | null
           id: string
-          message_type: string
-          model_used: string | null
-          processing_time_ms: number | null
+          llm_model: string | null
+          llm_provider: string | null
+          prompt_tokens: number | null
+          response_time_ms: number | null
+          retrieval_metadata: Json | null
+          role: string
           session_id: string | null
-          sources_used: Json | null
-          token_count: number | null
+          sources_cited: string[] | null
+          total_tokens: number | null
+          user_id: string | null
         }
         Insert: {
-          chunks_used?: Json | null
-          citations?: Json | null
+          chunks_retrieved?: string[] | null
+          completion_tokens?: number | null
           content: string
           created_at?: string | null
           id?: string
-          message_type: string
-          model_used?: string | null
-          processing_time_ms?: number | null
+          llm_model?: string | null
+          llm_provider?: string | null
+          prompt_tokens?: number | null
+          response_time_ms?: number | null
+          retrieval_metadata?: Json | null
+          role: string
           session_id?: string | null
-          sources_used?: Json | null
-          token_count?: number | null
+          sources_cited?: string[] | null
+          total_tokens?: number | null
+          user_id?: string | null
         }
         Update: {
-          chunks_used?: Json | null
-          citations?: Json | null
+          chunks_retrieved?: string[] | null
+          completion_tokens?: number | null
           content?: string
           created_at?: string | null
           id?: string
-          message_type?: string
-          model_used?: string | null
-          processing_time_ms?: number | null
+          llm_model?: string | null
+          llm_provider?: string | null
+          prompt_tokens?: number | null
+          response_time_ms?: number | null
+          retrieval_metadata?: Json | null
+          role?: string
           session_id?: string | null
-          sources_used?: Json | null
-          token_count?: number | null
+          sources_cited?: string[] | null
+          total_tokens?: number | null
+          user_id?: string | null
         }
         Relationships: [
           {
@@ -66,43 +78,51 @@ export type Database = {
       }
       chat_sessions: {
         Row: {
-          active_report_id: string | null
-          context_type: string | null
           created_at: string | null
           id: string
-          model_settings: Json | null
+          is_active: boolean | null
+          last_message_at: string | null
+          llm_config: Json | null
+          llm_model: string | null
+          llm_provider: string | null
           notebook_id: string | null
-          session_name: string | null
+          source_ids: string[] | null
+          title: string | null
+          total_messages: number | null
           updated_at: string | null
+          user_id: string | null
         }
         Insert: {
-          active_report_id?: string | null
-          context_type?: string | null
           created_at?: string | null
           id?: string
-          model_settings?: Json | null
+          is_active?: boolean | null
+          last_message_at?: string | null
+          llm_config?: Json | null
+          llm_model?: string | null
+          llm_provider?: string | null
           notebook_id?: string | null
-          session_name?: string | null
+          source_ids?: string[] | null
+          title?: string | null
+          total_messages?: number | null
           updated_at?: string | null
+          user_id?: string | null
         }
         Update: {
-          active_report_id?: string | null
-          context_type?: string | null
           created_at?: string | null
           id?: string
-          model_settings?: Json | null
+          is_active?: boolean | null
+          last_message_at?: string | null
+          llm_config?: Json | null
+          llm_model?: string | null
+          llm_provider?: string | null
           notebook_id?: string | null
-          session_name?: string | null
+          source_ids?: string[] | null
+          title?: string | null
+          total_messages?: number | null
           updated_at?: string | null
+          user_id?: string | null
         }
         Relationships: [
-          {
-            foreignKeyName: "chat_sessions_active_report_id_fkey"
-            columns: ["active_report_id"]
-            isOneToOne: false
-            referencedRelation: "report_generations"
-            referencedColumns: ["id"]
-          },
           {
             foreignKeyName: "chat_sessions_notebook_id_fkey"
             columns: ["notebook_id"]
@@ -181,18 +201,113 @@ export type Database = {
           },
         ]
       }
+      document_chunks: {
+        Row: {
+          char_count: number | null
+          chunk_index: number
+          chunk_type: string | null
+          content: string
+          content_hash: string | null
+          created_at: string | null
+          embedding_generated: boolean | null
+          embedding_generated_at: string | null
+          embedding_model: string | null
+          end_page: number | null
+          hierarchy_level: number | null
+          id: string
+          metadata: Json | null
+          notebook_id: string | null
+          parent_chunk_id: string | null
+          related_chunks: string[] | null
+          section_title: string | null
+          source_id: string | null
+          start_page: number | null
+          subsection_title: string | null
+          updated_at: string | null
+          word_count: number | null
+        }
+        Insert: {
+          char_count?: number | null
+          chunk_index: number
+          chunk_type?: string | null
+          content: string
+          content_hash?: string | null
+          created_at?: string | null
+          embedding_generated?: boolean | null
+          embedding_generated_at?: string | null
+          embedding_model?: string | null
+          end_page?: number | null
+          hierarchy_level?: number | null
+          id?: string
+          metadata?: Json | null
+          notebook_id?: string | null
+          parent_chunk_id?: string | null
+          related_chunks?: string[] | null
+          section_title?: string | null
+          source_id?: string | null
+          start_page?: number | null
+          subsection_title?: string | null
+          updated_at?: string | null
+          word_count?: number | null
+        }
+        Update: {
+          char_count?: number | null
+          chunk_index?: number
+          chunk_type?: string | null
+          content?: string
+          content_hash?: string | null
+          created_at?: string | null
+          embedding_generated?: boolean | null
+          embedding_generated_at?: string | null
+          embedding_model?: string | null
+          end_page?: number | null
+          hierarchy_level?: number | null
+          id?: string
+          metadata?: Json | null
+          notebook_id?: string | null
+          parent_chunk_id?: string | null
+          related_chunks?: string[] | null
+          section_title?: string | null
+          source_id?: string | null
+          start_page?: number | null
+          subsection_title?: string | null
+          updated_at?: string | null
+          word_count?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "document_chunks_notebook_id_fkey"
+            columns: ["notebook_id"]
+            isOneToOne: false
+            referencedRelation: "notebooks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "document_chunks_source_id_fkey"
+            columns: ["source_id"]
+            isOneToOne: false
+            referencedRelation: "sources"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       notebooks: {
         Row: {
           address: string | null
           client_name: string | null
           contact_email: string | null
           contact_phone: string | null
+          council_area: string | null
           created_at: string | null
+          description: string | null
+          embedding_model: string | null
           id: string
+          lot_details: string | null
           metadata: Json | null
+          name: string
+          pending_embedding_model: string | null
           project_status: string | null
           project_type: string | null
-          title: string
           updated_at: string | null
           user_id: string | null
         }
@@ -201,12 +316,17 @@ export type Database = {
           client_name?: string | null
           contact_email?: string | null
           contact_phone?: string | null
+          council_area?: string | null
           created_at?: string | null
+          description?: string | null
+          embedding_model?: string | null
           id?: string
+          lot_details?: string | null
           metadata?: Json | null
+          name: string
+          pending_embedding_model?: string | null
           project_status?: string | null
           project_type?: string | null
-          title: string
           updated_at?: string | null
           user_id?: string | null
         }
@@ -215,12 +335,17 @@ export type Database = {
           client_name?: string | null
           contact_email?: string | null
           contact_phone?: string | null
+          council_area?: string | null
           created_at?: string | null
+          description?: string | null
+          embedding_model?: string | null
           id?: string
+          lot_details?: string | null
           metadata?: Json | null
+          name?: string
+          pending_embedding_model?: string | null
           project_status?: string | null
           project_type?: string | null
-          title?: string
           updated_at?: string | null
           user_id?: string | null
         }
@@ -307,6 +432,93 @@ export type Database = {
           },
         ]
       }
+      processing_jobs: {
+        Row: {
+          completed_at: string | null
+          config: Json | null
+          created_at: string | null
+          current_step: string | null
+          error_details: Json | null
+          error_message: string | null
+          id: string
+          job_type: string
+          max_retries: number | null
+          notebook_id: string | null
+          progress: number | null
+          result: Json | null
+          retry_count: number | null
+          scheduled_at: string | null
+          source_id: string | null
+          started_at: string | null
+          status: string | null
+          step_log: Json | null
+          total_steps: number | null
+          updated_at: string | null
+          user_id: string | null
+        }
+        Insert: {
+          completed_at?: string | null
+          config?: Json | null
+          created_at?: string | null
+          current_step?: string | null
+          error_details?: Json | null
+          error_message?: string | null
+          id?: string
+          job_type: string
+          max_retries?: number | null
+          notebook_id?: string | null
+          progress?: number | null
+          result?: Json | null
+          retry_count?: number | null
+          scheduled_at?: string | null
+          source_id?: string | null
+          started_at?: string | null
+          status?: string | null
+          step_log?: Json | null
+          total_steps?: number | null
+          updated_at?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          completed_at?: string | null
+          config?: Json | null
+          created_at?: string | null
+          current_step?: string | null
+          error_details?: Json | null
+          error_message?: string | null
+          id?: string
+          job_type?: string
+          max_retries?: number | null
+          notebook_id?: string | null
+          progress?: number | null
+          result?: Json | null
+          retry_count?: number | null
+          scheduled_at?: string | null
+          source_id?: string | null
+          started_at?: string | null
+          status?: string | null
+          step_log?: Json | null
+          total_steps?: number | null
+          updated_at?: string | null
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "processing_jobs_notebook_id_fkey"
+            columns: ["notebook_id"]
+            isOneToOne: false
+            referencedRelation: "notebooks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "processing_jobs_source_id_fkey"
+            columns: ["source_id"]
+            isOneToOne: false
+            referencedRelation: "sources"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       report_generations: {
         Row: {
           additional_context: string | null
@@ -319,6 +531,11 @@ export type Database = {
           file_size: number | null
           generated_content: string | null
           id: string
+          letterhead_id: string | null
+          llm_config: Json | null
+          llm_model: string
+          llm_provider: string
+          metadata: Json | null
           notebook_id: string | null
           progress: number | null
           queries_generated: Json | null
@@ -326,8 +543,10 @@ export type Database = {
           started_at: string | null
           status: string | null
           template_id: string | null
+          title: string
           topic: string
           updated_at: string | null
+          user_id: string | null
         }
         Insert: {
           additional_context?: string | null
@@ -340,6 +559,11 @@ export type Database = {
           file_size?: number | null
           generated_content?: string | null
           id?: string
+          letterhead_id?: string | null
+          llm_config?: Json | null
+          llm_model: string
+          llm_provider: string
+          metadata?: Json | null
           notebook_id?: string | null
           progress?: number | null
           queries_generated?: Json | null
@@ -347,8 +571,10 @@ export type Database = {
           started_at?: string | null
           status?: string | null
           template_id?: string | null
+          title: string
           topic: string
           updated_at?: string | null
+          user_id?: string | null
         }
         Update: {
           additional_context?: string | null
@@ -361,6 +587,11 @@ export type Database = {
           file_size?: number | null
           generated_content?: string | null
           id?: string
+          letterhead_id?: string | null
+          llm_config?: Json | null
+          llm_model?: string
+          llm_provider?: string
+          metadata?: Json | null
           notebook_id?: string | null
           progress?: number | null
           queries_generated?: Json | null
@@ -368,10 +599,19 @@ export type Database = {
           started_at?: string | null
           status?: string | null
           template_id?: string | null
+          title?: string
           topic?: string
           updated_at?: string | null
+          user_id?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "report_generations_letterhead_id_fkey"
+            columns: ["letterhead_id"]
+            isOneToOne: false
+            referencedRelation: "report_letterheads"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "report_generations_notebook_id_fkey"
             columns: ["notebook_id"]
@@ -388,15 +628,74 @@ export type Database = {
           },
         ]
       }
+      report_letterheads: {
+        Row: {
+          accent_color: string | null
+          address: string | null
+          contact_details: string | null
+          cover_note: string | null
+          created_at: string | null
+          footer_text: string | null
+          header_text: string | null
+          id: string
+          include_cover_page: boolean | null
+          is_default: boolean | null
+          logo_path: string | null
+          name: string
+          organisation_name: string | null
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          accent_color?: string | null
+          address?: string | null
+          contact_details?: string | null
+          cover_note?: string | null
+          created_at?: string | null
+          footer_text?: string | null
+          header_text?: string | null
+          id?: string
+          include_cover_page?: boolean | null
+          is_default?: boolean | null
+          logo_path?: string | null
+          name: string
+          organisation_name?: string | null
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          accent_color?: string | null
+          address?: string | null
+          contact_details?: string | null
+          cover_note?: string | null
+          created_at?: string | null
+          footer_text?: string | null
+          header_text?: string | null
+          id?: string
+          include_cover_page?: boolean | null
+          is_default?: boolean | null
+          logo_path?: string | null
+          name?: string
+          organisation_name?: string | null
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
       report_sections: {
         Row: {
           chunks_retrieved: Json | null
           completed_at: string | null
           created_at: string | null
+          edited_at: string | null
+          edited_content: string | null
+          error_message: string | null
           generated_content: string | null
           id: string
+          metadata: Json | null
           query_used: string | null
           report_generation_id: string | null
+          retrieval_scores: number[] | null
           section_name: string
           section_order: number | null
           started_at: string | null
@@ -408,10 +707,15 @@ export type Database = {
           chunks_retrieved?: Json | null
           completed_at?: string | null
           created_at?: string | null
+          edited_at?: string | null
+          edited_content?: string | null
+          error_message?: string | null
           generated_content?: string | null
           id?: string
+          metadata?: Json | null
           query_used?: string | null
           report_generation_id?: string | null
+          retrieval_scores?: number[] | null
           section_name: string
           section_order?: number | null
           started_at?: string | null
@@ -423,10 +727,15 @@ export type Database = {
           chunks_retrieved?: Json | null
           completed_at?: string | null
           created_at?: string | null
+          edited_at?: string | null
+          edited_content?: string | null
+          error_message?: string | null
           generated_content?: string | null
           id?: string
+          metadata?: Json | null
           query_used?: string | null
           report_generation_id?: string | null
+          retrieval_scores?: number[] | null
           section_name?: string
           section_order?: number | null
           started_at?: string | null
@@ -447,42 +756,51 @@ export type Database = {
       report_templates: {
         Row: {
           category: string | null
+          cloned_from_id: string | null
           created_at: string | null
           created_by: string | null
           description: string | null
           display_name: string
+          family_id: string | null
           id: string
           is_active: boolean | null
           name: string
           structure: Json
           updated_at: string | null
           version: string | null
+          version_number: number
         }
         Insert: {
           category?: string | null
+          cloned_from_id?: string | null
           created_at?: string | null
           created_by?: string | null
           description?: string | null
           display_name: string
+          family_id?: string | null
           id?: string
           is_active?: boolean | null
           name: string
           structure: Json
           updated_at?: string | null
           version?: string | null
+          version_number?: number
         }
         Update: {
           category?: string | null
+          cloned_from_id?: string | null
           created_at?: string | null
           created_by?: string | null
           description?: string | null
           display_name?: string
+          family_id?: string | null
           id?: string
           is_active?: boolean | null
           name?: string
           structure?: Json
           updated_at?: string | null
           version?: string | null
+          version_number?: number
         }
         Relationships: []
       }
@@ -492,51 +810,78 @@ export type Database = {
           created_at: string | null
           display_name: string
           document_type: string | null
+          embedding_count: number | null
           error_message: string | null
           extracted_metadata: Json | null
           file_hash: string | null
+          file_name: string | null
           file_path: string | null
           file_size: number | null
+          file_url: string | null
           id: string
           metadata_extracted: boolean | null
+          mime_type: string | null
           notebook_id: string | null
+          page_count: number | null
           processed_at: string | null
+          processing_completed_at: string | null
+          processing_error: string | null
+          processing_started_at: string | null
           processing_status: string | null
           updated_at: string | null
+          user_id: string | null
         }
         Insert: {
           chunk_count?: number | null
           created_at?: string | null
           display_name: string
           document_type?: string | null
+          embedding_count?: number | null
           error_message?: string | null
           extracted_metadata?: Json | null
           file_hash?: string | null
+          file_name?: string | null
           file_path?: string | null
           file_size?: number | null
+          file_url?: string | null
           id?: string
           metadata_extracted?: boolean | null
+          mime_type?: string | null
           notebook_id?: string | null
+          page_count?: number | null
           processed_at?: string | null
+          processing_completed_at?: string | null
+          processing_error?: string | null
+          processing_started_at?: string | null
           processing_status?: string | null
           updated_at?: string | null
+          user_id?: string | null
         }
         Update: {
           chunk_count?: number | null
           created_at?: string | null
           display_name?: string
           document_type?: string | null
+          embedding_count?: number | null
           error_message?: string | null
           extracted_metadata?: Json | null
           file_hash?: string | null
+          file_name?: string | null
           file_path?: string | null
           file_size?: number | null
+          file_url?: string | null
           id?: string
           metadata_extracted?: boolean | null
+          mime_type?: string | null
           notebook_id?: string | null
+          page_count?: number | null
           processed_at?: string | null
+          processing_completed_at?: string | null
+          processing_error?: string | null
+          processing_started_at?: string | null
           processing_status?: string | null
           updated_at?: string | null
+          user_id?: string | null
         }
         Relationships: [
           {
@@ -550,13 +895,35 @@ export type Database = {
       }
     }
     Views: {
-      [_ in never]: never
+      v_document_stats: {
+        Row: {
+          cancelled_count: number | null
+          chunk_count: number | null
+          completed_count: number | null
+          embedded_chunk_count: number | null
+          embedding_count: number | null
+          embedding_model: string | null
+          failed_count: number | null
+          last_upload: string | null
+          notebook_id: string | null
+          notebook_name: string | null
+          pending_count: number | null
+          processing_count: number | null
+          source_count: number | null
+          total_file_size: number | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
       binary_quantize: {
         Args: { "": string } | { "": unknown }
         Returns: unknown
       }
+      cancel_report_generation: {
+        Args: { target_report_id: string }
+        Returns: boolean
+      }
       halfvec_avg: {
         Args: { "": number[] }
         Returns: unknown
@@ -609,6 +976,35 @@ export type Database = {
         Args: { "": string } | { "": unknown } | { "": unknown }
         Returns: string
       }
+      save_report_section_edit: {
+        Args: { target_section_id: string; new_content: string | null }
+        Returns: boolean
+      }
+      save_report_template_version: {
+        Args: {
+          base_template_id: string
+          new_display_name: string
+          new_description: string | null
+          new_category: string | null
+          new_structure: Json
+        }
+        Returns: {
+          category: string | null
+          cloned_from_id: string | null
+          created_at: string | null
+          created_by: string | null
+          description: string | null
+          display_name: string
+          family_id: string | null
+          id: string
+          is_active: boolean | null
+          name: string
+          structure: Json
+          updated_at: string | null
+          version: string | null
+          version_number: number
+        }
+      }
       sparsevec_out: {
         Args: { "": unknown }
         Returns: unknown
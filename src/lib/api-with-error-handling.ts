@@ -1,5 +1,5 @@
 // Enhanced API functions with comprehensive error handling
-import { supabase } from './api';
+import { supabase, getUserSettings, toLLMConfig, queueSourceProcessing, type LLMSettings, type NotebookDetails } from './api';
 import { 
   ErrorHandler, 
   RetryHandler, 
@@ -8,9 +8,10 @@ import {
   NetworkMonitor,
   validateRequired,
   validateFileSize,
-  validateFileType,
   validateEmail
 } from './error-handling';
+import { validateSourceFile, SUPPORTED_SOURCE_FORMATS_LABEL } from './source-formats';
+import { hashFile, assertNotDuplicateSource } from './file-hash';
 
 // Enhanced file upload with error handling and offline support
 export async function uploadFileWithErrorHandling(
@@ -23,7 +24,7 @@ export async function uploadFileWithErrorHandling(
     validateRequired(file, 'File');
     validateRequired(notebookId, 'Notebook ID');
     validateFileSize(file, 50); // 50MB limit
-    validateFileType(file, ['application/pdf']);
+    const mimeType = validateSourceFile(file);
 
     // Check if offline
     if (!NetworkMonitor.getInstance().isOnlineStatus()) {
@@ -43,12 +44,17 @@ export async function uploadFileWithErrorHandling(
       };
     }
 
+    const fileHash = await hashFile(file);
+
     // Attempt upload with retry logic
     return await RetryHandler.withRetry(
       async () => {
         const { data: { user }, error: userError } = await supabase.auth.getUser();
         if (userError || !user) throw new Error('Authentication required');
 
+        // Reject files already uploaded to this notebook
+        await assertNotDuplicateSource(notebookId, fileHash);
+
         // Sanitize file name
         const sanitizedFileName = file.name
           .replace(/[\[\]]/g, '_')
@@ -59,7 +65,7 @@ export async function uploadFileWithErrorHandling(
         // Upload to storage with progress tracking
         const { data: uploadData, error: uploadError } = await supabase.storage
           .from('sources')
-          .upload(fileName, file);
+          .upload(fileName, file, { contentType: mimeType });
 
         if (uploadError) {
           // Enhance error message based on error type
@@ -67,7 +73,7 @@ export async function uploadFileWithErrorHandling(
             throw new Error('File size exceeds the 50MB limit');
           }
           if (uploadError.message?.includes('type')) {
-            throw new Error('Invalid file type. Only PDF files are supported');
+            throw new Error(`Invalid file type. Supported formats: ${SUPPORTED_SOURCE_FORMATS_LABEL}`);
           }
           throw uploadError;
         }
@@ -82,7 +88,8 @@ export async function uploadFileWithErrorHandling(
             file_name: sanitizedFileName,
             display_name: file.name.replace(/\.[^/.]+$/, ''),
             file_size: file.size,
-            mime_type: file.type,
+            mime_type: mimeType,
+            file_hash: fileHash,
             processing_status: 'pending',
             metadata_extracted: false,
             extracted_metadata: userQuery ? { user_query: userQuery } : {}
@@ -92,23 +99,30 @@ export async function uploadFileWithErrorHandling(
 
         if (sourceError) throw sourceError;
 
-        // Trigger processing with fallback
+        // Queue processing with fallback. The source stays pending and can be
+        // re-run from the sources list if this fails
+        let jobId: string | null = null;
         try {
-          await supabase.functions.invoke('trigger-n8n', {
-            body: {
-              webhook_type: 'ingest',
-              webhook_url: import.meta.env.VITE_N8N_INGEST_URL,
-              payload: {
-                source_id: source.id,
-                file_path: uploadData.path,
-                notebook_id: notebookId,
-                user_query: userQuery,
-                file_name: file.name,
-                file_size: file.size,
-                user_id: user.id
+          if (import.meta.env.VITE_USE_N8N_INGEST === 'true') {
+            await supabase.functions.invoke('trigger-n8n', {
+              body: {
+                webhook_type: 'ingest',
+                webhook_url: import.meta.env.VITE_N8N_INGEST_URL,
+                payload: {
+                  source_id: source.id,
+                  file_path: uploadData.path,
+                  notebook_id: notebookId,
+                  user_query: userQuery,
+                  file_name: file.name,
+                  file_size: file.size,
+                  mime_type: mimeType,
+                  user_id: user.id
+                }
               }
-            }
-          });
+            });
+          } else {
+            jobId = await queueSourceProcessing(source.id);
+          }
         } catch (processingError) {
           console.warn('Processing trigger failed, file uploaded but not processed:', processingError);
           // Don't throw here - file is uploaded successfully
@@ -119,6 +133,7 @@ export async function uploadFileWithErrorHandling(
           display_name: source.display_name,
           file_size: source.file_size,
           processing_status: source.processing_status,
+          job_id: jobId,
           created_at: source.created_at,
           updated_at: source.updated_at
         };
@@ -130,7 +145,8 @@ export async function uploadFileWithErrorHandling(
           // Don't retry validation errors or auth errors
           return !error.message?.includes('Authentication') && 
                  !error.message?.includes('Invalid file') &&
-                 !error.message?.includes('size exceeds');
+                 !error.message?.includes('size exceeds') &&
+                 !error.message?.includes('already been uploaded');
         }
       }
     );
@@ -177,54 +193,30 @@ export async function sendChatWithErrorHandling(
       async () => {
         return await RetryHandler.withRetry(
           async () => {
-            const { data: { user }, error: userError } = await supabase.auth.getUser();
-            if (userError || !user) throw new Error('Authentication required');
+            const settings = await getUserSettings();
 
-            // Store user message
-            const { data: userMessage, error: messageError } = await supabase
-              .from('chat_messages')
-              .insert({
+            if (import.meta.env.VITE_USE_N8N_CHAT === 'true') {
+              return await sendChatViaN8n(sessionId, message, settings);
+            }
+
+            // Native RAG chat: retrieval, generation and saving both messages
+            const { data, error } = await supabase.functions.invoke('chat', {
+              body: {
                 session_id: sessionId,
-                user_id: user.id,
-                role: 'user',
-                content: message,
-              })
-              .select()
-              .single();
-
-            if (messageError) throw messageError;
-
-            // Get session context
-            const { data: session } = await supabase
-              .from('chat_sessions')
-              .select('*')
-              .eq('id', sessionId)
-              .single();
-
-            // Call AI service
-            const { data: chatResponse, error: chatError } = await supabase.functions
-              .invoke('trigger-n8n', {
-                body: {
-                  webhook_type: 'chat',
-                  webhook_url: import.meta.env.VITE_N8N_CHAT_WEBHOOK,
-                  payload: {
-                    session_id: sessionId,
-                    message: message,
-                    user_id: user.id,
-                    notebook_id: session?.notebook_id,
-                    timestamp: new Date().toISOString()
-                  }
-                }
-              });
+                message,
+                llm_provider: settings.provider,
+                llm_config: toLLMConfig(settings),
+                embedding_provider: settings.embeddingProvider || 'ollama',
+                search_mode: settings.searchMode || 'hybrid'
+              }
+            });
 
-            if (chatError) throw chatError;
+            if (error) throw error;
+            if (!data?.success) throw new Error(data?.error || 'Chat failed');
 
             return {
-              userMessage: { id: userMessage.id, content: message },
-              aiMessage: { 
-                id: Date.now().toString(), 
-                content: chatResponse?.response || 'Processing your message...' 
-              }
+              userMessage: { id: data.user_message_id, content: message },
+              aiMessage: { id: data.message_id, content: data.response }
             };
           },
           {
@@ -262,6 +254,66 @@ export async function sendChatWithErrorHandling(
   }
 }
 
+// Optional n8n integration (VITE_USE_N8N_CHAT=true). The question is saved
+// here; the hhlm-chat workflow answers, saves its reply to chat_messages and
+// responds with the saved row, so the reply has a single writer
+async function sendChatViaN8n(sessionId: string, message: string, settings: LLMSettings) {
+  const { data: { user }, error: userError } = await supabase.auth.getUser();
+  if (userError || !user) throw new Error('Authentication required');
+
+  const { data: userMessage, error: messageError } = await supabase
+    .from('chat_messages')
+    .insert({
+      session_id: sessionId,
+      user_id: user.id,
+      role: 'user',
+      content: message,
+    })
+    .select()
+    .single();
+
+  if (messageError) throw messageError;
+
+  const { data: session } = await supabase
+    .from('chat_sessions')
+    .select('*')
+    .eq('id', sessionId)
+    .single();
+
+  const { data: chatResponse, error: chatError } = await supabase.functions
+    .invoke('trigger-n8n', {
+      body: {
+        webhook_type: 'chat',
+        webhook_url: import.meta.env.VITE_N8N_CHAT_WEBHOOK,
+        payload: {
+          session_id: sessionId,
+          message: message,
+          user_id: user.id,
+          notebook_id: session?.notebook_id,
+          source_ids: session?.source_ids || [],
+          search_mode: settings.searchMode || 'vector',
+          llm_provider: settings.provider,
+          llm_config: toLLMConfig(settings),
+          timestamp: new Date().toISOString()
+        }
+      }
+    });
+
+  if (chatError) throw chatError;
+
+  // PostgREST returns the inserted row in an array. Without it the reply is
+  // still being written and shows up with the session's messages
+  const reply = [chatResponse?.response].flat()[0] as { id?: string; content?: string } | undefined;
+
+  return {
+    userMessage: { id: userMessage.id, content: message },
+    aiMessage: {
+      id: reply?.id ?? `pending-${Date.now()}`,
+      content: reply?.content || 'Processing your message...'
+    }
+  };
+}
+
 // Fallback response generator for when AI services are unavailable
 function generateFallbackResponse(message: string): string {
   const lowerMessage = message.toLowerCase();
@@ -341,7 +393,8 @@ export async function updateUserSettingsWithErrorHandling(settings: any) {
 // Enhanced notebook creation with validation
 export async function createNotebookWithErrorHandling(
   name: string,
-  projectType: string = 'general'
+  projectType: string = 'general',
+  details: NotebookDetails = {}
 ) {
   try {
     validateRequired(name, 'Notebook name');
@@ -358,6 +411,7 @@ export async function createNotebookWithErrorHandling(
         const { data, error } = await supabase
           .from('notebooks')
           .insert({
+            ...details,
             user_id: user.id,
             name: name.trim(),
             project_type: projectType
@@ -1,5 +1,5 @@
 import { createClient } from '@supabase/supabase-js'
-import type { Database } from '@/integrations/supabase/types'
+import type { Database, Json } from '@/integrations/supabase/types'
 import { 
   uploadFileWithErrorHandling,
   sendChatWithErrorHandling,
@@ -7,6 +7,9 @@ import {
   createNotebookWithErrorHandling,
   fetchWithErrorHandling
 } from './api-with-error-handling'
+import { validateSourceFile } from './source-formats'
+import { hashFile, assertNotDuplicateSource } from './file-hash'
+import type { TemplateStructure } from './report-templates'
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY
@@ -22,17 +25,40 @@ export interface ChatMessage {
 
 export interface ProcessingJob {
   id: string
-  status: 'pending' | 'processing' | 'completed' | 'failed'
+  status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled'
   progress: number
   error_message?: string
+  job_type?: string
+  current_step?: string | null
+  retry_count?: number
+  max_retries?: number
+  // When a pending job (e.g. a retry) will next run
+  scheduled_at?: string | null
 }
 
+// 'vector' ranks chunks by embedding similarity only; 'hybrid' fuses it with
+// keyword ranking so clause numbers and zone codes match exactly
+export type SearchMode = 'vector' | 'hybrid'
+
 export interface LLMSettings {
-  provider: 'ollama' | 'openai' | 'gemini' | 'llamacloud'
+  provider: 'ollama' | 'openai' | 'gemini' | 'anthropic' | 'openai-compatible' | 'llamacloud'
   model?: string
   temperature?: number
   maxTokens?: number
+  // Server URL for the 'openai-compatible' provider, e.g. http://gpu-box:8000/v1
+  baseUrl?: string
   embeddingProvider?: string
+  searchMode?: SearchMode
+}
+
+// The llm_config edge functions expect (see supabase/functions/_shared/llm.ts)
+export function toLLMConfig(settings: LLMSettings) {
+  return {
+    model: settings.model || undefined,
+    temperature: settings.temperature,
+    max_tokens: settings.maxTokens,
+    base_url: settings.provider === 'openai-compatible' ? settings.baseUrl || undefined : undefined
+  }
 }
 
 // Get current user settings
@@ -56,26 +82,53 @@ export async function uploadFile(file: File, notebookId: string, userQuery?: str
   return await uploadFileWithErrorHandling(file, notebookId, userQuery)
 }
 
-async function uploadAndProcessFile(
+// Queue an uploaded source for processing (extract, chunk, embed, discover
+// metadata) by the process-jobs edge function. A failed source is re-run from
+// the stored file. Returns the pdf_processing job id.
+export async function queueSourceProcessing(sourceId: string): Promise<string> {
+  const settings = await getUserSettings()
+
+  const { data, error } = await supabase.functions.invoke('process-jobs', {
+    body: {
+      source_id: sourceId,
+      llm_provider: settings.provider,
+      llm_config: toLLMConfig(settings),
+      embedding_provider: settings.embeddingProvider || 'ollama'
+    }
+  })
+
+  if (error) throw error
+  if (!data?.success) throw new Error(data?.error || 'Failed to queue document processing')
+  return data.job_id
+}
+
+export async function uploadAndProcessFile(
   file: File,
   notebookId: string,
   userQuery?: string
-): Promise<{ uploadId: string; jobId: string }> {
+): Promise<{ uploadId: string; jobId: string | null }> {
   try {
     // 1. Get current user
     const { data: { user }, error: userError } = await supabase.auth.getUser()
     if (userError || !user) throw new Error('Not authenticated')
 
-    // 2. Sanitize file name to remove special characters
+    // 2. Reject formats the ingest pipeline cannot extract
+    const mimeType = validateSourceFile(file)
+
+    // 3. Reject files already uploaded to this notebook
+    const fileHash = await hashFile(file)
+    await assertNotDuplicateSource(notebookId, fileHash)
+
+    // 4. Sanitize file name to remove special characters
     const sanitizedFileName = file.name.replace(/[\[\]]/g, '_').replace(/[^a-zA-Z0-9._-]/g, '_')
     const fileName = `${user.id}/${Date.now()}-${sanitizedFileName}`
     const { data: uploadData, error: uploadError } = await supabase.storage
       .from('sources')
-      .upload(fileName, file)
+      .upload(fileName, file, { contentType: mimeType })
 
     if (uploadError) throw uploadError
 
-    // 3. Create source record in database
+    // 5. Create source record in database
     const { data: source, error: sourceError } = await supabase
       .from('sources')
       .insert({
@@ -85,7 +138,8 @@ async function uploadAndProcessFile(
         file_name: sanitizedFileName,
         display_name: file.name.replace(/\.[^/.]+$/, ''),
         file_size: file.size,
-        mime_type: file.type,
+        mime_type: mimeType,
+        file_hash: fileHash,
         processing_status: 'pending',
         metadata_extracted: false
       })
@@ -94,7 +148,7 @@ async function uploadAndProcessFile(
 
     if (sourceError) throw sourceError
 
-    // 4. Store user query if provided
+    // 6. Store user query if provided
     if (userQuery) {
       // Store user query in source metadata for now
       await supabase
@@ -105,8 +159,15 @@ async function uploadAndProcessFile(
         .eq('id', source.id)
     }
 
-    // 5. Call edge function to trigger n8n ingest webhook with explicit URL
-    const { data: processingResult, error: processingError } = await supabase.functions
+    // 7. Queue processing, or hand the file to the n8n ingest workflow
+    if (import.meta.env.VITE_USE_N8N_INGEST !== 'true') {
+      return {
+        uploadId: source.id,
+        jobId: await queueSourceProcessing(source.id)
+      }
+    }
+
+    const { error: processingError } = await supabase.functions
       .invoke('trigger-n8n', {
         body: {
           webhook_type: 'ingest',
@@ -118,6 +179,7 @@ async function uploadAndProcessFile(
             user_query: userQuery,
             file_name: file.name,
             file_size: file.size,
+            mime_type: mimeType,
             user_id: user.id
           }
         }
@@ -128,9 +190,10 @@ async function uploadAndProcessFile(
       // Don't throw here - file is uploaded, just processing failed
     }
 
+    // n8n has no processing job; follow the source with getSourceProcessingStatus
     return {
       uploadId: source.id,
-      jobId: source.id // Using source ID as job ID for simplicity
+      jobId: null
     }
   } catch (error) {
     console.error('Upload error:', error)
@@ -138,25 +201,73 @@ async function uploadAndProcessFile(
   }
 }
 
+const PROCESSING_JOB_COLUMNS = 'id, job_type, status, progress, current_step, error_message, retry_count, max_retries, scheduled_at'
+
+type ProcessingJobRow = Pick<
+  Database['public']['Tables']['processing_jobs']['Row'],
+  'id' | 'job_type' | 'status' | 'progress' | 'current_step' | 'error_message' | 'retry_count' | 'max_retries' | 'scheduled_at'
+>
+
 // Monitor processing job status
 export async function getProcessingJobStatus(jobId: string): Promise<ProcessingJob | null> {
   const { data, error } = await supabase
-    .from('sources')
-    .select('id, processing_status, error_message')
+    .from('processing_jobs')
+    .select(PROCESSING_JOB_COLUMNS)
     .eq('id', jobId)
-    .single()
+    .maybeSingle()
 
   if (error) {
     console.error('Error fetching job status:', error)
     return null
   }
 
+  return data ? toProcessingJob(data) : null
+}
+
+function toProcessingJob(job: ProcessingJobRow): ProcessingJob {
+  return {
+    id: job.id,
+    job_type: job.job_type,
+    status: job.status as ProcessingJob['status'],
+    progress: job.progress ?? 0,
+    current_step: job.current_step,
+    error_message: job.error_message ?? undefined,
+    retry_count: job.retry_count ?? 0,
+    max_retries: job.max_retries ?? 0,
+    scheduled_at: job.scheduled_at
+  }
+}
+
+const SOURCE_STATUS_COLUMNS = 'id, processing_status, processing_error'
+
+type SourceStatusRow = Pick<
+  Database['public']['Tables']['sources']['Row'],
+  'id' | 'processing_status' | 'processing_error'
+>
+
+// Processing run by the n8n ingest workflow, which only reports on the source
+export async function getSourceProcessingStatus(sourceId: string): Promise<ProcessingJob | null> {
+  const { data, error } = await supabase
+    .from('sources')
+    .select(SOURCE_STATUS_COLUMNS)
+    .eq('id', sourceId)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error fetching source status:', error)
+    return null
+  }
+
+  return data ? sourceToProcessingJob(data) : null
+}
+
+function sourceToProcessingJob(source: SourceStatusRow): ProcessingJob {
+  const status = (source.processing_status ?? 'pending') as ProcessingJob['status']
   return {
-    id: data.id,
-    status: data.processing_status as any,
-    progress: data.processing_status === 'completed' ? 100 : 
-              data.processing_status === 'processing' ? 50 : 0,
-    error_message: data.error_message
+    id: source.id,
+    status,
+    progress: status === 'completed' ? 100 : 0,
+    error_message: source.processing_error ?? undefined
   }
 }
 
@@ -188,51 +299,55 @@ export async function createChatSession(
   return data.id
 }
 
+export interface SessionSource {
+  id: string
+  display_name: string
+}
+
+// The sources a session's answers are retrieved from. An empty list means
+// every source in the notebook.
+export async function getSessionSources(sessionId: string): Promise<SessionSource[]> {
+  const { data: session, error } = await supabase
+    .from('chat_sessions')
+    .select('source_ids')
+    .eq('id', sessionId)
+    .single()
+
+  if (error) throw error
+
+  const sourceIds = session.source_ids || []
+  if (sourceIds.length === 0) return []
+
+  const { data: sources, error: sourcesError } = await supabase
+    .from('sources')
+    .select('id, display_name')
+    .in('id', sourceIds)
+
+  if (sourcesError) throw sourcesError
+  return sources || []
+}
+
+export async function updateSessionSources(sessionId: string, sourceIds: string[]): Promise<void> {
+  const { error } = await supabase
+    .from('chat_sessions')
+    .update({ source_ids: sourceIds })
+    .eq('id', sessionId)
+
+  if (error) throw error
+}
+
 export async function sendChatMessage(
   sessionId: string,
   message: string
 ): Promise<ChatMessage> {
   try {
-    const { data: { user }, error: userError } = await supabase.auth.getUser()
-    if (userError || !user) throw new Error('Not authenticated')
-
-    // Store user message first
-    const { data: userMessage, error: messageError } = await supabase
-      .from('chat_messages')
-      .insert({
-        session_id: sessionId,
-        user_id: user.id,
-        role: 'user',
-        content: message
-      })
-      .select()
-      .single()
-
-    if (messageError) throw messageError
-
-    // Call the enhanced chat handler
+    // Both messages are saved by whichever chat backend answers
     const result = await sendChatWithErrorHandling(sessionId, message)
-    
-    // Store assistant response
-    const { data: assistantMessage, error: assistantError } = await supabase
-      .from('chat_messages')
-      .insert({
-        session_id: sessionId,
-        user_id: user.id,
-        role: 'assistant',
-        content: result.aiMessage.content,
-        llm_provider: 'ollama', // Default provider
-        llm_model: 'qwen3:8b-q4_K_M'
-      })
-      .select()
-      .single()
-
-    if (assistantError) throw assistantError
 
     return {
       role: 'assistant',
       content: result.aiMessage.content,
-      metadata: assistantMessage
+      metadata: { id: result.aiMessage.id, user_message_id: result.userMessage.id }
     }
   } catch (error) {
     console.error('Chat message error:', error)
@@ -240,6 +355,120 @@ export async function sendChatMessage(
   }
 }
 
+// A numbered excerpt the streamed reply can cite as [n]
+export interface ChatCitation {
+  index: number
+  chunk_id: string
+  source_id: string | null
+  source_name: string | null
+  location: string | null
+  section_title: string | null
+  start_page: number | null
+  end_page: number | null
+  excerpt?: string
+}
+
+export interface ChatStreamResult {
+  message_id: string
+  provider: string
+  model: string | null
+  usage: { prompt_tokens: number; completion_tokens: number; total_tokens: number }
+  cancelled: boolean
+  // Set when generation failed part way; the partial reply was still saved
+  error?: string
+}
+
+export interface ChatStreamHandlers {
+  onSources?: (citations: ChatCitation[]) => void
+  onToken: (text: string) => void
+}
+
+function parseServerSentEvent(raw: string): { event: string; data: unknown } {
+  let event = 'message'
+  const data: string[] = []
+
+  for (const line of raw.split('\n')) {
+    if (line.startsWith('event:')) event = line.slice(6).trim()
+    else if (line.startsWith('data:')) data.push(line.slice(5).trim())
+  }
+
+  return { event, data: data.length > 0 ? JSON.parse(data.join('\n')) : null }
+}
+
+// Send a message through the chat-stream edge function and hand the reply to
+// `handlers` as it is generated. Both messages are saved by the function under
+// the given ids, so realtime inserts can be matched to what is already shown.
+// Aborting `signal` stops generation and resolves with null.
+export async function streamChatMessage(
+  sessionId: string,
+  message: string,
+  handlers: ChatStreamHandlers,
+  options: { userMessageId?: string; assistantMessageId?: string; signal?: AbortSignal } = {}
+): Promise<ChatStreamResult | null> {
+  const { data: { session } } = await supabase.auth.getSession()
+  if (!session) throw new Error('Not authenticated')
+
+  const settings = await getUserSettings()
+
+  try {
+    const response = await fetch(`${supabaseUrl}/functions/v1/chat-stream`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${session.access_token}`,
+        'apikey': supabaseAnonKey,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        session_id: sessionId,
+        message,
+        user_message_id: options.userMessageId,
+        assistant_message_id: options.assistantMessageId,
+        llm_provider: settings.provider,
+        llm_config: toLLMConfig(settings),
+        embedding_provider: settings.embeddingProvider || 'ollama',
+        search_mode: settings.searchMode || 'hybrid'
+      }),
+      signal: options.signal
+    })
+
+    if (!response.ok || !response.body) {
+      const body = await response.json().catch(() => null)
+      throw new Error(body?.error || `Chat request failed (${response.status})`)
+    }
+
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader()
+    let buffer = ''
+
+    while (true) {
+      const { value, done } = await reader.read()
+      if (done) break
+      buffer += value
+
+      let boundary: number
+      while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+        const { event, data } = parseServerSentEvent(buffer.slice(0, boundary))
+        buffer = buffer.slice(boundary + 2)
+
+        if (event === 'sources') {
+          handlers.onSources?.((data as { citations: ChatCitation[] }).citations)
+        } else if (event === 'token') {
+          handlers.onToken((data as { text: string }).text)
+        } else if (event === 'error') {
+          throw new Error((data as { message: string }).message)
+        } else if (event === 'done') {
+          return data as ChatStreamResult
+        }
+      }
+    }
+
+    throw new Error('Chat stream ended unexpectedly')
+  } catch (error) {
+    if (options.signal?.aborted) return null
+    console.error('Chat stream error:', error)
+    throw error
+  }
+}
+
 // =====================================================
 // Source Management
 // =====================================================
@@ -290,41 +519,215 @@ export async function deleteAllSources(notebookId: string): Promise<void> {
 // Citation Management
 // =====================================================
 
-export async function fetchCitation(citationId: string): Promise<{ title: string; excerpt: string }> {
-  // Mock implementation for now - replace with actual API call when backend is ready
+export interface CitationDetails {
+  chunkId: string
+  sourceId: string | null
+  title: string
+  section: string | null
+  startPage: number | null
+  endPage: number | null
+  excerpt: string
+}
+
+// Format a page range, e.g. "p. 37" or "pp. 37–38"
+export function formatPages(startPage: number | null, endPage: number | null): string | null {
+  if (!startPage) return null
+  return endPage && endPage !== startPage ? `pp. ${startPage}–${endPage}` : `p. ${startPage}`
+}
+
+// Look up the chunk a citation points at (an id from chat_messages.chunks_retrieved)
+export async function fetchCitation(chunkId: string): Promise<CitationDetails> {
+  const { data, error } = await supabase
+    .from('document_chunks')
+    .select('id, source_id, content, section_title, subsection_title, start_page, end_page, sources(display_name)')
+    .eq('id', chunkId)
+    .single()
+
+  if (error) throw error
+
+  const source = data.sources as { display_name: string | null } | null
+
+  return {
+    chunkId: data.id,
+    sourceId: data.source_id,
+    title: source?.display_name || 'Untitled source',
+    section: [data.section_title, data.subsection_title].filter(Boolean).join(' › ') || null,
+    startPage: data.start_page,
+    endPage: data.end_page,
+    excerpt: data.content
+  }
+}
+
+export interface SourceChunk {
+  id: string
+  chunk_index: number
+  content: string
+  section_title: string | null
+  start_page: number | null
+  end_page: number | null
+}
+
+export interface SourceDocument {
+  id: string
+  title: string
+  mimeType: string | null
+  pageCount: number | null
+  // Short-lived signed URL to the original file in the sources bucket
+  url: string | null
+}
+
+export async function getSourceDocument(sourceId: string): Promise<SourceDocument> {
+  const { data: source, error } = await supabase
+    .from('sources')
+    .select('id, display_name, file_url, mime_type, page_count')
+    .eq('id', sourceId)
+    .single()
+
+  if (error) throw error
+
+  let url: string | null = null
+  if (source.file_url) {
+    const { data: signed, error: signError } = await supabase.storage
+      .from('sources')
+      .createSignedUrl(source.file_url, 60 * 60)
+
+    if (signError) console.error('Failed to sign source URL:', signError)
+    url = signed?.signedUrl ?? null
+  }
+
   return {
-    title: `Citation ${citationId}`,
-    excerpt: `This is a sample excerpt for citation ${citationId}. In a real implementation, this would fetch actual citation data from the backend.`
+    id: source.id,
+    title: source.display_name,
+    mimeType: source.mime_type,
+    pageCount: source.page_count,
+    url
   }
 }
 
+// A source's text in reading order, for the document viewer
+export async function getSourceChunks(sourceId: string): Promise<SourceChunk[]> {
+  const { data, error } = await supabase
+    .from('document_chunks')
+    .select('id, chunk_index, content, section_title, start_page, end_page')
+    .eq('source_id', sourceId)
+    .order('chunk_index', { ascending: true })
+
+  if (error) throw error
+  return data || []
+}
+
 // =====================================================
 // Notebook Management
 // =====================================================
 
+export const PROJECT_TYPES = ['general', 'heritage', 'development', 'planning', 'environmental'] as const
+export const PROJECT_STATUSES = ['active', 'on_hold', 'completed', 'archived'] as const
+
+export type ProjectType = typeof PROJECT_TYPES[number]
+export type ProjectStatus = typeof PROJECT_STATUSES[number]
+
+export const PROJECT_TYPE_LABELS: Record<ProjectType, string> = {
+  general: 'General',
+  heritage: 'Heritage',
+  development: 'Development application',
+  planning: 'Planning proposal',
+  environmental: 'Environmental'
+}
+
+export const PROJECT_STATUS_LABELS: Record<ProjectStatus, string> = {
+  active: 'Active',
+  on_hold: 'On hold',
+  completed: 'Completed',
+  archived: 'Archived'
+}
+
+// The planning details recorded against a notebook (one per project or application)
+export interface NotebookDetails {
+  description?: string | null
+  client_name?: string | null
+  address?: string | null
+  lot_details?: string | null
+  council_area?: string | null
+  contact_email?: string | null
+  contact_phone?: string | null
+}
+
+export interface Notebook extends NotebookDetails {
+  id: string
+  name: string
+  project_type: ProjectType | null
+  project_status: ProjectStatus | null
+  created_at: string | null
+  updated_at: string | null
+}
+
+const NOTEBOOK_COLUMNS = 'id, name, description, client_name, project_type, project_status, address, lot_details, council_area, contact_email, contact_phone, created_at, updated_at'
+
 export async function createNotebook(
   name: string,
-  projectType: string = 'general'
+  projectType: string = 'general',
+  details: NotebookDetails = {}
 ): Promise<string> {
-  return await createNotebookWithErrorHandling(name, projectType)
+  return await createNotebookWithErrorHandling(name, projectType, details)
 }
 
-export async function getNotebooks() {
+// Most recently worked on first
+export async function getNotebooks(): Promise<Notebook[]> {
   return await fetchWithErrorHandling(
     async () => {
       const { data, error } = await supabase
         .from('notebooks')
-        .select('*')
-        .order('created_at', { ascending: false })
+        .select(NOTEBOOK_COLUMNS)
+        .order('updated_at', { ascending: false })
       
       if (error) throw error
-      return data
+      return (data || []) as Notebook[]
     },
     'notebooks',
     [] // fallback to empty array
   )
 }
 
+export async function getNotebook(notebookId: string): Promise<Notebook> {
+  const { data, error } = await supabase
+    .from('notebooks')
+    .select(NOTEBOOK_COLUMNS)
+    .eq('id', notebookId)
+    .single()
+
+  if (error) throw error
+  return data as Notebook
+}
+
+export async function updateNotebook(
+  notebookId: string,
+  updates: NotebookDetails & { name?: string; project_type?: ProjectType; project_status?: ProjectStatus }
+) {
+  if (updates.name !== undefined && !updates.name.trim()) {
+    throw new Error('Notebook name is required')
+  }
+
+  const { error } = await supabase
+    .from('notebooks')
+    .update({
+      ...updates,
+      ...(updates.name !== undefined ? { name: updates.name.trim() } : {}),
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', notebookId)
+
+  if (error) {
+    if (error.code === '23505') throw new Error('A notebook with this name already exists')
+    throw error
+  }
+}
+
+// Archived projects keep their documents, chats and reports; they're just
+// hidden from the switcher until restored
+export async function archiveNotebook(notebookId: string, archived = true) {
+  await updateNotebook(notebookId, { project_status: archived ? 'archived' : 'active' })
+}
+
 export async function getDefaultNotebook(): Promise<string> {
   const { data: { user }, error: userError } = await supabase.auth.getUser()
   if (userError || !user) throw new Error('Not authenticated')
@@ -345,6 +748,369 @@ export async function getDefaultNotebook(): Promise<string> {
   return await createNotebook('Default Notebook', 'general')
 }
 
+// =====================================================
+// Project Overview
+// =====================================================
+
+export interface DocumentStats {
+  source_count: number
+  pending_count: number
+  processing_count: number
+  completed_count: number
+  failed_count: number
+  cancelled_count: number
+  chunk_count: number
+  embedding_count: number
+  // Chunks retrieval can find, i.e. embedded with the notebook's active model
+  embedded_chunk_count: number
+  total_file_size: number
+  last_upload: string | null
+  embedding_model: string | null
+}
+
+export interface FailedSource {
+  id: string
+  name: string
+  processing_error: string | null
+  updated_at: string | null
+}
+
+export interface RecentReport {
+  id: string
+  title: string
+  status: string | null
+  progress: number | null
+  created_at: string | null
+  completed_at: string | null
+}
+
+export interface ChatActivity {
+  session_count: number
+  message_count: number
+  last_message_at: string | null
+  recent_sessions: { id: string; title: string; total_messages: number; last_message_at: string | null }[]
+}
+
+// 'processing' until every uploaded document is parsed and embedded
+export type CorpusReadiness = 'empty' | 'processing' | 'failed' | 'ready'
+
+export interface ProjectOverview {
+  stats: DocumentStats
+  readiness: CorpusReadiness
+  failedSources: FailedSource[]
+  recentReports: RecentReport[]
+  chatActivity: ChatActivity
+}
+
+export function getCorpusReadiness(stats: DocumentStats): CorpusReadiness {
+  if (stats.source_count === 0) return 'empty'
+  if (stats.pending_count + stats.processing_count > 0) return 'processing'
+  if (stats.completed_count === 0) return 'failed'
+  if (stats.embedded_chunk_count < stats.chunk_count) return 'processing'
+  return 'ready'
+}
+
+export async function getProjectOverview(notebookId: string): Promise<ProjectOverview> {
+  const [statsResult, failedResult, reportsResult, sessionsResult] = await Promise.all([
+    supabase
+      .from('v_document_stats')
+      .select('*')
+      .eq('notebook_id', notebookId)
+      .maybeSingle(),
+    supabase
+      .from('sources')
+      .select('id, display_name, file_name, processing_error, updated_at')
+      .eq('notebook_id', notebookId)
+      .eq('processing_status', 'failed')
+      .order('updated_at', { ascending: false }),
+    supabase
+      .from('report_generations')
+      .select('id, title, status, progress, created_at, completed_at')
+      .eq('notebook_id', notebookId)
+      .order('created_at', { ascending: false })
+      .limit(5),
+    supabase
+      .from('chat_sessions')
+      .select('id, title, total_messages, last_message_at')
+      .eq('notebook_id', notebookId)
+      .order('last_message_at', { ascending: false, nullsFirst: false })
+  ])
+
+  for (const result of [statsResult, failedResult, reportsResult, sessionsResult]) {
+    if (result.error) throw result.error
+  }
+
+  const row = statsResult.data
+  const stats: DocumentStats = {
+    source_count: row?.source_count ?? 0,
+    pending_count: row?.pending_count ?? 0,
+    processing_count: row?.processing_count ?? 0,
+    completed_count: row?.completed_count ?? 0,
+    failed_count: row?.failed_count ?? 0,
+    cancelled_count: row?.cancelled_count ?? 0,
+    chunk_count: row?.chunk_count ?? 0,
+    embedding_count: row?.embedding_count ?? 0,
+    embedded_chunk_count: row?.embedded_chunk_count ?? 0,
+    total_file_size: row?.total_file_size ?? 0,
+    last_upload: row?.last_upload ?? null,
+    embedding_model: row?.embedding_model ?? null
+  }
+
+  const sessions = sessionsResult.data || []
+
+  return {
+    stats,
+    readiness: getCorpusReadiness(stats),
+    failedSources: (failedResult.data || []).map(source => ({
+      id: source.id,
+      name: source.display_name || source.file_name,
+      processing_error: source.processing_error,
+      updated_at: source.updated_at
+    })),
+    recentReports: reportsResult.data || [],
+    chatActivity: {
+      session_count: sessions.length,
+      message_count: sessions.reduce((total, session) => total + (session.total_messages || 0), 0),
+      last_message_at: sessions[0]?.last_message_at ?? null,
+      recent_sessions: sessions
+        .filter(session => session.total_messages)
+        .slice(0, 5)
+        .map(session => ({
+          id: session.id,
+          title: session.title || 'Untitled Session',
+          total_messages: session.total_messages || 0,
+          last_message_at: session.last_message_at
+        }))
+    }
+  }
+}
+
+// =====================================================
+// Notifications
+// =====================================================
+
+export type NotificationKind = 'in_progress' | 'completed' | 'failed'
+
+export interface AppNotification {
+  // Includes the status, so a new outcome for the same row is unread again
+  id: string
+  kind: NotificationKind
+  title: string
+  description: string | null
+  at: string
+  notebookId: string | null
+  progress?: number | null
+  // Opened in the project workspace via ?source= or ?report=
+  sourceId?: string
+  reportId?: string
+}
+
+// How far back finished work is reported
+const NOTIFICATION_WINDOW_DAYS = 7
+const NOTIFICATION_LIMIT = 20
+
+const JOB_TITLES: Record<string, { running: string; failed: string }> = {
+  pdf_processing: { running: 'Processing document', failed: 'Document processing failed' },
+  embedding_generation: { running: 'Embedding passages', failed: 'Embedding failed' },
+  metadata_extraction: { running: 'Extracting metadata', failed: 'Metadata extraction failed' },
+  re_embedding: { running: 'Re-embedding project', failed: 'Re-embedding failed' }
+}
+
+export async function getNotifications(): Promise<AppNotification[]> {
+  const since = new Date(Date.now() - NOTIFICATION_WINDOW_DAYS * 24 * 60 * 60 * 1000).toISOString()
+
+  const [jobsResult, sourcesResult, reportsResult] = await Promise.all([
+    supabase
+      .from('processing_jobs')
+      .select('id, job_type, status, progress, current_step, error_message, source_id, notebook_id, updated_at, sources(display_name, file_name)')
+      .in('job_type', Object.keys(JOB_TITLES))
+      .or(`status.in.(pending,processing),and(status.eq.failed,updated_at.gte.${since})`)
+      .order('updated_at', { ascending: false })
+      .limit(NOTIFICATION_LIMIT),
+    supabase
+      .from('sources')
+      .select('id, display_name, file_name, notebook_id, processing_status, processing_error, updated_at')
+      .in('processing_status', ['completed', 'failed'])
+      .gte('updated_at', since)
+      .order('updated_at', { ascending: false })
+      .limit(NOTIFICATION_LIMIT),
+    supabase
+      .from('report_generations')
+      .select('id, title, notebook_id, status, progress, error_message, updated_at')
+      .or(`status.in.(pending,processing),updated_at.gte.${since}`)
+      .order('updated_at', { ascending: false })
+      .limit(NOTIFICATION_LIMIT)
+  ])
+
+  for (const result of [jobsResult, sourcesResult, reportsResult]) {
+    if (result.error) throw result.error
+  }
+
+  const notifications: AppNotification[] = []
+
+  for (const job of jobsResult.data || []) {
+    // A failed pdf_processing job is reported through its source
+    if (job.status === 'failed' && job.job_type === 'pdf_processing') continue
+
+    const titles = JOB_TITLES[job.job_type]
+    const sourceName = job.sources?.display_name || job.sources?.file_name
+    const failed = job.status === 'failed'
+    notifications.push({
+      id: `job:${job.id}:${job.status}`,
+      kind: failed ? 'failed' : 'in_progress',
+      title: failed ? titles.failed : titles.running,
+      description: [sourceName, failed ? job.error_message : job.current_step].filter(Boolean).join(' · ') || null,
+      at: job.updated_at || since,
+      notebookId: job.notebook_id,
+      progress: failed ? null : job.progress,
+      sourceId: job.source_id ?? undefined
+    })
+  }
+
+  for (const source of sourcesResult.data || []) {
+    const failed = source.processing_status === 'failed'
+    notifications.push({
+      id: `source:${source.id}:${source.processing_status}`,
+      kind: failed ? 'failed' : 'completed',
+      title: failed ? 'Document failed' : 'Document processed',
+      description: [source.display_name || source.file_name, failed ? source.processing_error : null]
+        .filter(Boolean)
+        .join(' · '),
+      at: source.updated_at || since,
+      notebookId: source.notebook_id,
+      sourceId: source.id
+    })
+  }
+
+  for (const report of reportsResult.data || []) {
+    const kind: NotificationKind | null =
+      report.status === 'completed' ? 'completed'
+        : report.status === 'failed' ? 'failed'
+        : report.status === 'pending' || report.status === 'processing' ? 'in_progress'
+        : null
+    if (!kind) continue
+
+    notifications.push({
+      id: `report:${report.id}:${report.status}`,
+      kind,
+      title: kind === 'completed' ? 'Report ready' : kind === 'failed' ? 'Report failed' : 'Generating report',
+      description: [report.title, kind === 'failed' ? report.error_message : null].filter(Boolean).join(' · '),
+      at: report.updated_at || since,
+      notebookId: report.notebook_id,
+      progress: kind === 'in_progress' ? report.progress : null,
+      reportId: report.id
+    })
+  }
+
+  return notifications.sort((a, b) => b.at.localeCompare(a.at))
+}
+
+// Calls onChange whenever one of the user's jobs, sources or reports changes
+export function subscribeToNotifications(userId: string, onChange: () => void) {
+  const channel = supabase.channel(`notifications-${userId}`)
+
+  for (const table of ['processing_jobs', 'sources', 'report_generations']) {
+    channel.on(
+      'postgres_changes',
+      { event: '*', schema: 'public', table, filter: `user_id=eq.${userId}` },
+      onChange
+    )
+  }
+
+  return channel.subscribe()
+}
+
+// =====================================================
+// Embedding Management
+// =====================================================
+
+// Embedding models are stored as `${provider}-${model}` (see generate-embeddings)
+export const EMBEDDING_MODEL_IDS: Record<string, string> = {
+  ollama: 'ollama-nomic-embed-text',
+  openai: 'openai-text-embedding-3-small',
+  gemini: 'gemini-embedding-001'
+}
+
+export interface ReEmbeddingJob {
+  id: string
+  status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled'
+  progress: number
+  current_step: string | null
+  error_message: string | null
+  target_model: string
+  previous_model: string | null
+  updated_at: string | null
+}
+
+export interface NotebookEmbeddingStatus {
+  embeddingModel: string | null
+  pendingEmbeddingModel: string | null
+  latestJob: ReEmbeddingJob | null
+}
+
+// The model a notebook searches with, and the most recent re-embedding job
+export async function getNotebookEmbeddingStatus(notebookId: string): Promise<NotebookEmbeddingStatus> {
+  const { data: notebook, error: notebookError } = await supabase
+    .from('notebooks')
+    .select('embedding_model, pending_embedding_model')
+    .eq('id', notebookId)
+    .single()
+
+  if (notebookError) throw notebookError
+
+  const { data: jobs, error: jobsError } = await supabase
+    .from('processing_jobs')
+    .select('id, status, progress, current_step, error_message, config, updated_at')
+    .eq('notebook_id', notebookId)
+    .eq('job_type', 're_embedding')
+    .order('created_at', { ascending: false })
+    .limit(1)
+
+  if (jobsError) throw jobsError
+
+  const job = jobs?.[0]
+  const config = (job?.config || {}) as { target_model?: string; previous_model?: string | null }
+
+  return {
+    embeddingModel: notebook.embedding_model,
+    pendingEmbeddingModel: notebook.pending_embedding_model,
+    latestJob: job
+      ? {
+          id: job.id,
+          status: (job.status || 'pending') as ReEmbeddingJob['status'],
+          progress: job.progress || 0,
+          current_step: job.current_step,
+          error_message: job.error_message,
+          target_model: config.target_model || '',
+          previous_model: config.previous_model ?? null,
+          updated_at: job.updated_at
+        }
+      : null
+  }
+}
+
+// Re-embed every chunk in the notebook with the given provider's model.
+// Retrieval keeps using the current vectors until the job completes.
+export async function startReEmbedding(notebookId: string, embeddingProvider: string): Promise<string | null> {
+  const { data, error } = await supabase.functions.invoke('re-embed-notebook', {
+    body: { notebook_id: notebookId, embedding_provider: embeddingProvider }
+  })
+
+  if (error) throw error
+  if (!data?.success) throw new Error(data?.error || 'Failed to start re-embedding')
+  return data.job_id
+}
+
+// Continue a job whose batch chain stopped (failed or interrupted)
+export async function resumeReEmbedding(jobId: string): Promise<void> {
+  const { data, error } = await supabase.functions.invoke('re-embed-notebook', {
+    body: { job_id: jobId }
+  })
+
+  if (error) throw error
+  if (!data?.success) throw new Error(data?.error || 'Failed to resume re-embedding')
+}
+
 // =====================================================
 // Real-time Subscriptions
 // =====================================================
@@ -360,19 +1126,29 @@ export function subscribeToProcessingJob(
       {
         event: 'UPDATE',
         schema: 'public',
-        table: 'sources',
+        table: 'processing_jobs',
         filter: `id=eq.${jobId}`
       },
-      (payload) => {
-        const source = payload.new as any
-        onUpdate({
-          id: source.id,
-          status: source.processing_status,
-          progress: source.processing_status === 'completed' ? 100 : 
-                   source.processing_status === 'processing' ? 50 : 0,
-          error_message: source.error_message
-        })
-      }
+      (payload) => onUpdate(toProcessingJob(payload.new as ProcessingJobRow))
+    )
+    .subscribe()
+}
+
+export function subscribeToSourceProcessing(
+  sourceId: string,
+  onUpdate: (job: ProcessingJob) => void
+) {
+  return supabase
+    .channel(`source-${sourceId}`)
+    .on(
+      'postgres_changes',
+      {
+        event: 'UPDATE',
+        schema: 'public',
+        table: 'sources',
+        filter: `id=eq.${sourceId}`
+      },
+      (payload) => onUpdate(sourceToProcessingJob(payload.new as SourceStatusRow))
     )
     .subscribe()
 }
@@ -542,6 +1318,67 @@ export async function getReportsByNotebook(notebookId: string) {
   )
 }
 
+export interface ReportSectionSource {
+  chunkId: string
+  sourceId: string
+  title: string
+  section: string | null
+  startPage: number | null
+  endPage: number | null
+  // How closely the excerpt matched the section's query
+  score: number | null
+}
+
+export interface ReportSectionSources {
+  sectionName: string
+  subsectionName: string | null
+  sources: ReportSectionSource[]
+}
+
+// The chunks each section of a report was drafted from, in section order
+export async function getReportSectionSources(reportId: string): Promise<ReportSectionSources[]> {
+  const { data: sections, error } = await supabase
+    .from('report_sections')
+    .select('section_name, subsection_name, section_order, chunks_retrieved, retrieval_scores')
+    .eq('report_generation_id', reportId)
+    .order('section_order', { ascending: true })
+
+  if (error) throw error
+
+  const chunkIdsBySection = (sections || []).map(section => (section.chunks_retrieved as string[] | null) || [])
+  const chunkIds = [...new Set(chunkIdsBySection.flat())]
+  if (chunkIds.length === 0) return []
+
+  const { data: chunks, error: chunksError } = await supabase
+    .from('document_chunks')
+    .select('id, source_id, section_title, start_page, end_page, sources(display_name)')
+    .in('id', chunkIds)
+
+  if (chunksError) throw chunksError
+
+  const chunksById = new Map((chunks || []).map(chunk => [chunk.id, chunk]))
+
+  return (sections || [])
+    .map((section, i) => ({
+      sectionName: section.section_name,
+      subsectionName: section.subsection_name,
+      sources: chunkIdsBySection[i].flatMap((id, position) => {
+        const chunk = chunksById.get(id)
+        if (!chunk?.source_id) return []
+        return [{
+          chunkId: chunk.id,
+          sourceId: chunk.source_id,
+          title: (chunk.sources as { display_name: string | null } | null)?.display_name || 'Untitled source',
+          section: chunk.section_title,
+          startPage: chunk.start_page,
+          endPage: chunk.end_page,
+          score: section.retrieval_scores?.[position] ?? null
+        }]
+      })
+    }))
+    .filter(section => section.sources.length > 0)
+}
+
 export async function downloadReportAsMarkdown(reportId: string, title: string): Promise<void> {
   try {
     const { data: report, error: reportError } = await supabase
@@ -575,19 +1412,407 @@ export async function downloadReportAsMarkdown(reportId: string, title: string):
   }
 }
 
+// A report still 'processing' with no progress for this long has lost its
+// edge function (e.g. to a timeout) and can be resumed
+export const REPORT_STALL_MINUTES = 10
+
+export function isReportStalled(report: { status: string | null; updated_at?: string | null }): boolean {
+  if (report.status !== 'processing' || !report.updated_at) return false
+  return Date.now() - new Date(report.updated_at).getTime() > REPORT_STALL_MINUTES * 60 * 1000
+}
+
+// Stops a pending or processing report before its next section
+export async function cancelReportGeneration(reportId: string): Promise<void> {
+  const { data, error } = await supabase.rpc('cancel_report_generation', { target_report_id: reportId })
+
+  if (error) throw error
+  if (!data) throw new Error('Report is no longer being generated')
+}
+
+// Resumes a stalled, failed or cancelled report, or regenerates a finished
+// report's failed sections. Sections that already completed are kept.
+export async function resumeReportGeneration(reportId: string): Promise<void> {
+  const { data, error } = await supabase.functions.invoke('process-report-sections', {
+    body: { report_generation_id: reportId, retry_failed: true }
+  })
+
+  if (error) throw error
+  if (!data?.success) throw new Error(data?.error || 'Failed to resume report generation')
+}
+
+// =====================================================
+// Report Editing
+// =====================================================
+
+// A section of a finished report as the editor shows it. The AI draft stays
+// in generated_content; the user's own text, if any, is in edited_content.
+export interface ReportSectionDraft {
+  id: string
+  section_name: string
+  subsection_name: string | null
+  status: string | null
+  generated_content: string | null
+  edited_content: string | null
+  edited_at: string | null
+  error_message: string | null
+  // What the user asked for when the section was last redrafted
+  guidance: string | null
+}
+
+export async function getReportSectionDrafts(reportId: string): Promise<ReportSectionDraft[]> {
+  const { data, error } = await supabase
+    .from('report_sections')
+    .select('id, section_name, subsection_name, status, generated_content, edited_content, edited_at, error_message, metadata')
+    .eq('report_generation_id', reportId)
+    .order('section_order', { ascending: true })
+
+  if (error) throw error
+
+  return (data || []).map(({ metadata, ...section }) => ({
+    ...section,
+    guidance: (metadata as { guidance?: string } | null)?.guidance ?? null
+  }))
+}
+
+// The text the section contributes to the report
+export function currentSectionContent(section: ReportSectionDraft): string {
+  return section.edited_content ?? section.generated_content ?? ''
+}
+
+// Saves a hand edit of a section; null discards it and goes back to the AI draft.
+// Call rebuildReport afterwards so the report file picks it up.
+export async function saveReportSectionEdit(sectionId: string, content: string | null): Promise<void> {
+  const { data, error } = await supabase.rpc('save_report_section_edit', {
+    target_section_id: sectionId,
+    new_content: content
+  })
+
+  if (error) throw error
+  if (!data) throw new Error('This section can no longer be edited')
+}
+
+// Reassembles the report's Markdown file from its sections' current text
+export async function rebuildReport(reportId: string): Promise<void> {
+  const { data, error } = await supabase.functions.invoke('process-report-sections', {
+    body: { report_generation_id: reportId, reassemble: true }
+  })
+
+  if (error) throw error
+  if (!data?.success) throw new Error(data?.error || 'Failed to rebuild report')
+}
+
+// Redrafts one section, with optional extra direction, replacing any hand
+// edits. The report is 'processing' until the section is done and the report
+// has been reassembled.
+export async function regenerateReportSection(reportId: string, sectionId: string, guidance?: string): Promise<void> {
+  const { data, error } = await supabase.functions.invoke('process-report-sections', {
+    body: { report_generation_id: reportId, section_id: sectionId, guidance }
+  })
+
+  if (error) throw error
+  if (!data?.success) throw new Error(data?.error || 'Failed to regenerate section')
+}
+
+// =====================================================
+// Report Templates
+// =====================================================
+
+// Each saved edit of a template is a new version in its family; only the
+// latest version is active. Built-in templates have no created_by.
+export interface ReportTemplate {
+  id: string
+  family_id: string | null
+  name: string
+  display_name: string
+  description: string | null
+  category: string | null
+  structure: Json
+  version_number: number
+  cloned_from_id: string | null
+  created_by: string | null
+  is_active: boolean | null
+  created_at: string | null
+}
+
+export interface ReportTemplateInput {
+  display_name: string
+  description: string | null
+  category: string | null
+  structure: TemplateStructure
+}
+
+const REPORT_TEMPLATE_COLUMNS = 'id, family_id, name, display_name, description, category, structure, version_number, cloned_from_id, created_by, is_active, created_at'
+
+export async function getReportTemplates(): Promise<ReportTemplate[]> {
+  const { data, error } = await supabase
+    .from('report_templates')
+    .select(REPORT_TEMPLATE_COLUMNS)
+    .eq('is_active', true)
+    .order('display_name')
+
+  if (error) throw error
+  return data || []
+}
+
+// Every version of a template, newest first
+export async function getReportTemplateVersions(familyId: string): Promise<ReportTemplate[]> {
+  const { data, error } = await supabase
+    .from('report_templates')
+    .select(REPORT_TEMPLATE_COLUMNS)
+    .eq('family_id', familyId)
+    .order('version_number', { ascending: false })
+
+  if (error) throw error
+  return data || []
+}
+
+async function insertReportTemplate(values: ReportTemplateInput, clonedFromId: string | null): Promise<ReportTemplate> {
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) throw new Error('User not authenticated')
+
+  const { data, error } = await supabase
+    .from('report_templates')
+    .insert({
+      name: values.display_name,
+      display_name: values.display_name,
+      description: values.description,
+      category: values.category,
+      structure: values.structure as unknown as Json,
+      created_by: user.id,
+      cloned_from_id: clonedFromId,
+      version_number: 1,
+      is_active: true
+    })
+    .select(REPORT_TEMPLATE_COLUMNS)
+    .single()
+
+  if (error) throw error
+  return data
+}
+
+export async function createReportTemplate(values: ReportTemplateInput): Promise<ReportTemplate> {
+  return insertReportTemplate(values, null)
+}
+
+// Saves an edit as the template's next version. Reports made from earlier
+// versions keep referring to them.
+export async function saveReportTemplateVersion(templateId: string, values: ReportTemplateInput): Promise<ReportTemplate> {
+  const { data, error } = await supabase.rpc('save_report_template_version', {
+    base_template_id: templateId,
+    new_display_name: values.display_name,
+    new_description: values.description,
+    new_category: values.category,
+    new_structure: values.structure as unknown as Json
+  })
+
+  if (error) throw error
+  return data
+}
+
+// Copies any template (including built-in ones) into a new template of the user's own
+export async function cloneReportTemplate(template: ReportTemplate, displayName?: string): Promise<ReportTemplate> {
+  return insertReportTemplate({
+    display_name: displayName || `${template.display_name} (copy)`,
+    description: template.description,
+    category: template.category,
+    structure: template.structure as unknown as TemplateStructure
+  }, template.id)
+}
+
+// Hides a template from the template list; reports made from it are unaffected
+export async function archiveReportTemplate(template: ReportTemplate): Promise<void> {
+  const { error } = await supabase
+    .from('report_templates')
+    .update({ is_active: false })
+    .eq('family_id', template.family_id ?? template.id)
+
+  if (error) throw error
+}
+
+// =====================================================
+// Report Export
+// =====================================================
+
+export const REPORT_FORMATS = ['markdown', 'docx', 'pdf'] as const
+
+export type ReportFormat = typeof REPORT_FORMATS[number]
+
+export const REPORT_FORMAT_LABELS: Record<ReportFormat, string> = {
+  markdown: 'Markdown (.md)',
+  docx: 'Word (.docx)',
+  pdf: 'PDF (.pdf)'
+}
+
+const REPORT_FORMAT_EXTENSIONS: Record<ReportFormat, string> = {
+  markdown: 'md',
+  docx: 'docx',
+  pdf: 'pdf'
+}
+
+export const DEFAULT_LETTERHEAD_ACCENT = '#1f3a5f'
+
+export interface Letterhead {
+  id: string
+  name: string
+  organisation_name: string | null
+  address: string | null
+  contact_details: string | null
+  logo_path: string | null
+  accent_color: string | null
+  header_text: string | null
+  footer_text: string | null
+  include_cover_page: boolean | null
+  cover_note: string | null
+  is_default: boolean | null
+}
+
+export type LetterheadInput = Omit<Letterhead, 'id' | 'logo_path'>
+
+export async function getLetterheads(): Promise<Letterhead[]> {
+  const { data, error } = await supabase
+    .from('report_letterheads')
+    .select('*')
+    .order('name')
+
+  if (error) throw error
+  return data || []
+}
+
+// Creates or updates a letterhead, uploading a new logo when one is given.
+// Making it the default clears the user's previous default first.
+export async function saveLetterhead(
+  values: LetterheadInput,
+  options: { id?: string; logo?: File | null; removeLogo?: boolean } = {}
+): Promise<Letterhead> {
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) throw new Error('User not authenticated')
+
+  const changes: Partial<Letterhead> = { ...values }
+  if (options.logo) {
+    // Logos sit in the user's folder of the reports bucket, where export-report can read them
+    const extension = options.logo.type === 'image/png' ? 'png' : 'jpg'
+    const logoPath = `${user.id}/letterheads/${crypto.randomUUID()}.${extension}`
+    const { error: uploadError } = await supabase.storage
+      .from('reports')
+      .upload(logoPath, options.logo, { contentType: options.logo.type })
+
+    if (uploadError) throw uploadError
+    changes.logo_path = logoPath
+  } else if (options.removeLogo) {
+    changes.logo_path = null
+  }
+
+  if (values.is_default) {
+    let clearDefault = supabase
+      .from('report_letterheads')
+      .update({ is_default: false })
+      .eq('user_id', user.id)
+      .eq('is_default', true)
+    if (options.id) clearDefault = clearDefault.neq('id', options.id)
+
+    const { error: defaultError } = await clearDefault
+    if (defaultError) throw defaultError
+  }
+
+  const { data, error } = options.id
+    ? await supabase.from('report_letterheads').update(changes).eq('id', options.id).select().single()
+    : await supabase.from('report_letterheads').insert({ ...changes, name: values.name, user_id: user.id }).select().single()
+
+  if (error) throw error
+  return data
+}
+
+export async function deleteLetterhead(letterhead: Letterhead): Promise<void> {
+  const { error } = await supabase
+    .from('report_letterheads')
+    .delete()
+    .eq('id', letterhead.id)
+
+  if (error) throw error
+
+  if (letterhead.logo_path) {
+    await supabase.storage.from('reports').remove([letterhead.logo_path])
+  }
+}
+
+// Renders a completed report as DOCX or PDF and returns the stored file's path.
+// Passing a letterhead (or null for the default) also makes it the report's letterhead.
+export async function exportReport(
+  reportId: string,
+  format: Exclude<ReportFormat, 'markdown'>,
+  letterheadId?: string | null
+): Promise<string> {
+  const { data, error } = await supabase.functions.invoke('export-report', {
+    body: { report_generation_id: reportId, format, letterhead_id: letterheadId }
+  })
+
+  if (error) throw error
+  if (!data?.success) throw new Error(data?.error || 'Failed to export report')
+  return data.file_path
+}
+
+// Downloads a report in any format; Word and PDF are rendered fresh so they
+// reflect the report's current sections and letterhead
+export async function downloadReport(
+  reportId: string,
+  title: string,
+  format: ReportFormat,
+  letterheadId?: string | null
+): Promise<void> {
+  if (format === 'markdown') return downloadReportAsMarkdown(reportId, title)
+
+  const filePath = await exportReport(reportId, format, letterheadId)
+  const { data, error } = await supabase.storage
+    .from('reports')
+    .download(filePath)
+
+  if (error) throw error
+
+  const url = URL.createObjectURL(data)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = `${title.replace(/[^a-zA-Z0-9]/g, '_')}.${REPORT_FORMAT_EXTENSIONS[format]}`
+  document.body.appendChild(a)
+  a.click()
+  document.body.removeChild(a)
+  URL.revokeObjectURL(url)
+}
+
 // =====================================================
 // LLM Connection Testing
 // =====================================================
 
-export async function testLLMConnection(provider: string, settings: LLMSettings): Promise<{ success: boolean }> {
+export interface LLMConnectionTestResult {
+  success: boolean
+  model?: string
+  latencyMs?: number
+  error?: string
+}
+
+// Sends a one-line prompt to the provider from the edge runtime, where the API
+// keys live. The selected model and base URL are only used for the provider
+// they were chosen for.
+export async function testLLMConnection(provider: string, settings: LLMSettings): Promise<LLMConnectionTestResult> {
   try {
-    // For now, return true as a placeholder
-    // This can be expanded to actually test the connection
-    console.log('Testing LLM connection with provider:', provider, 'settings:', settings)
-    return { success: true }
+    const { data, error } = await supabase.functions.invoke('test-llm-connection', {
+      body: {
+        provider,
+        model: provider === settings.provider ? settings.model || undefined : undefined,
+        base_url: provider === 'openai-compatible' ? settings.baseUrl || undefined : undefined
+      }
+    })
+
+    if (error) throw error
+
+    return {
+      success: !!data?.success,
+      model: data?.model,
+      latencyMs: data?.latency_ms,
+      error: data?.error
+    }
   } catch (error) {
     console.error('LLM connection test failed:', error)
-    return { success: false }
+    return { success: false, error: error instanceof Error ? error.message : 'Connection test failed' }
   }
 }
 
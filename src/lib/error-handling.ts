@@ -364,11 +364,14 @@ export class ErrorHandler {
   }
 
   private static getFileUploadErrorMessage(error: any): string {
+    if (error.message?.includes('already been uploaded')) {
+      return error.message;
+    }
     if (error.message?.includes('size')) {
       return 'File is too large. Please choose a smaller file (max 50MB).';
     }
     if (error.message?.includes('type') || error.message?.includes('format')) {
-      return 'Invalid file format. Please upload a PDF file.';
+      return 'Invalid file format. Please upload a PDF, DOCX, HTML, TXT or Markdown file.';
     }
     if (error.message?.includes('network')) {
       return 'Upload failed due to connection issues. Please try again.';
@@ -0,0 +1,33 @@
+// Content hashing used to detect duplicate source uploads
+import { supabase } from './api'
+import { ValidationError } from './error-handling'
+
+// Hex-encoded SHA-256 of the file contents
+export async function hashFile(file: File): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer())
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('')
+}
+
+// Reject a file whose contents already exist as a source in the notebook.
+// Failed uploads don't count so the same file can be uploaded again.
+export async function assertNotDuplicateSource(notebookId: string, fileHash: string): Promise<void> {
+  const { data: existing, error } = await supabase
+    .from('sources')
+    .select('id, display_name, processing_status')
+    .eq('notebook_id', notebookId)
+    .eq('file_hash', fileHash)
+    .neq('processing_status', 'failed')
+    .limit(1)
+
+  if (error) throw error
+
+  if (existing && existing.length > 0) {
+    throw new ValidationError(
+      `This file has already been uploaded to this notebook as "${existing[0].display_name}"`,
+      'file',
+      'DUPLICATE_FILE'
+    )
+  }
+}
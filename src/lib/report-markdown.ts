@@ -0,0 +1,46 @@
+// Markdown tables in report text (e.g. a template section with the "table"
+// format), turned into one line of HTML so the report viewers' line-based
+// formatting leaves them alone
+
+const isTableLine = (line: string) => line.trim().startsWith('|')
+
+// The |---|:---:| line under the header
+const isSeparator = (line: string) => /^\|[\s:|-]+$/.test(line.trim())
+
+function cells(line: string) {
+  return line.trim().replace(/^\|/, '').replace(/\|$/, '').split('|').map(cell => cell.trim())
+}
+
+function tableHtml(lines: string[]) {
+  const [header, ...rows] = lines.filter(line => !isSeparator(line)).map(cells)
+  const headerCells = header
+    .map(cell => `<th class="border border-gray-300 bg-gray-50 px-3 py-2 text-left font-semibold text-gray-900">${cell}</th>`)
+    .join('')
+  const bodyRows = rows
+    .map(row => `<tr>${header.map((_, i) => `<td class="border border-gray-300 px-3 py-2 align-top text-gray-700">${row[i] ?? ''}</td>`).join('')}</tr>`)
+    .join('')
+
+  return `<table class="mb-4 w-full border-collapse text-sm"><thead><tr>${headerCells}</tr></thead><tbody>${bodyRows}</tbody></table>`
+}
+
+export function markdownTablesToHtml(markdown: string) {
+  const output: string[] = []
+  let table: string[] = []
+
+  const flush = () => {
+    if (table.length) output.push(tableHtml(table))
+    table = []
+  }
+
+  for (const line of markdown.split('\n')) {
+    if (isTableLine(line)) {
+      table.push(line)
+    } else {
+      flush()
+      output.push(line)
+    }
+  }
+  flush()
+
+  return output.join('\n')
+}
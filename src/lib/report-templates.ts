@@ -0,0 +1,262 @@
+// Shape of report_templates.structure and helpers for editing it.
+// generate-report turns each section and subsection into a report_sections
+// row; section names become the report's headings.
+
+export const SECTION_FORMATS = ['prose', 'table', 'bullets'] as const
+
+export type SectionFormat = typeof SECTION_FORMATS[number]
+
+export const SECTION_FORMAT_LABELS: Record<SectionFormat, string> = {
+  prose: 'Prose',
+  table: 'Table',
+  bullets: 'Bullet list'
+}
+
+// In depends_on, every section that doesn't itself depend on all the others
+// (so an Executive Summary and a Conclusion can both use it)
+export const ALL_SECTIONS = '*'
+
+export interface TemplateSubsection {
+  name: string
+  title: string
+  // Retrieval query; may use {topic}, {address} and required input keys
+  query?: string
+  // Extra writing instructions for this section's prompt
+  instructions?: string
+  target_words?: number
+  format?: SectionFormat
+  // Names of top-level sections (with their subsections) that are written
+  // first and given to this section's prompt, or [ALL_SECTIONS]
+  depends_on?: string[]
+}
+
+export interface TemplateSection extends TemplateSubsection {
+  order: number
+  subsections: TemplateSubsection[]
+}
+
+// Details the user must give when generating a report from the template,
+// e.g. the heritage item's listing number
+export interface TemplateInput {
+  key: string
+  label: string
+  description?: string
+}
+
+export interface TemplateStructure {
+  sections: TemplateSection[]
+  required_inputs?: TemplateInput[]
+}
+
+export const MIN_TARGET_WORDS = 50
+export const MAX_TARGET_WORDS = 5000
+
+// Editor state: every section carries a stable key for React while it is
+// reordered and nested
+export interface EditableSubsection extends TemplateSubsection {
+  key: string
+}
+
+export interface EditableSection extends TemplateSubsection {
+  key: string
+  subsections: EditableSubsection[]
+}
+
+const newKey = () => crypto.randomUUID()
+
+export function emptySection(name = ''): EditableSection {
+  return { key: newKey(), name, title: '', subsections: [] }
+}
+
+export function emptySubsection(name = ''): EditableSubsection {
+  return { key: newKey(), name, title: '' }
+}
+
+function readText(value: unknown) {
+  return typeof value === 'string' && value.trim() ? value : undefined
+}
+
+function readWords(value: unknown) {
+  const words = Number(value)
+  return Number.isFinite(words) && words > 0 ? Math.round(words) : undefined
+}
+
+function toEditableSubsection(value: Record<string, unknown>): EditableSubsection {
+  return {
+    key: newKey(),
+    name: String(value.name ?? ''),
+    title: String(value.title ?? ''),
+    query: readText(value.query),
+    instructions: readText(value.instructions),
+    target_words: readWords(value.target_words),
+    format: SECTION_FORMATS.includes(value.format as SectionFormat) ? value.format as SectionFormat : undefined,
+    depends_on: Array.isArray(value.depends_on) && value.depends_on.length
+      ? value.depends_on.map(String)
+      : undefined
+  }
+}
+
+// Reads a stored structure, tolerating the seeded templates' sparser JSON
+export function toEditableSections(structure: unknown): EditableSection[] {
+  const sections = (structure as { sections?: Record<string, unknown>[] } | null)?.sections ?? []
+
+  return [...sections]
+    .sort((a, b) => Number(a.order ?? 0) - Number(b.order ?? 0))
+    .map(section => ({
+      ...toEditableSubsection(section),
+      subsections: ((section.subsections as Record<string, unknown>[] | undefined) ?? []).map(toEditableSubsection)
+    }))
+}
+
+export function toTemplateInputs(structure: unknown): TemplateInput[] {
+  const inputs = (structure as { required_inputs?: TemplateInput[] } | null)?.required_inputs
+  return Array.isArray(inputs) ? inputs.filter(input => input?.key && input?.label) : []
+}
+
+function cleanSubsection(section: TemplateSubsection): TemplateSubsection {
+  const { name, title, query, instructions, target_words, format, depends_on } = section
+  return {
+    name: name.trim(),
+    // The title is what retrieval searches for; it defaults to the heading
+    title: title.trim() || name.trim(),
+    ...(query?.trim() && { query: query.trim() }),
+    ...(instructions?.trim() && { instructions: instructions.trim() }),
+    ...(target_words && { target_words }),
+    ...(format && format !== 'prose' && { format }),
+    ...(depends_on?.length && { depends_on })
+  }
+}
+
+export function toTemplateStructure(sections: EditableSection[], inputs: TemplateInput[]): TemplateStructure {
+  return {
+    sections: sections.map((section, index) => ({
+      ...cleanSubsection(section),
+      order: index + 1,
+      subsections: section.subsections.map(cleanSubsection)
+    })),
+    ...(inputs.length && {
+      required_inputs: inputs.map(input => ({
+        key: input.key,
+        label: input.label.trim(),
+        ...(input.description?.trim() && { description: input.description.trim() })
+      }))
+    })
+  }
+}
+
+// "Heritage listing number" -> "heritage_listing_number"
+export function toInputKey(label: string) {
+  return label.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '')
+}
+
+// Problems that would stop the template producing a sensible report
+export function validateTemplate(name: string, sections: EditableSection[], inputs: TemplateInput[]): string[] {
+  const errors: string[] = []
+
+  if (!name.trim()) errors.push('Give the template a name.')
+  if (sections.length === 0) errors.push('Add at least one section.')
+
+  const checkWords = (section: TemplateSubsection, label: string) => {
+    if (section.target_words && (section.target_words < MIN_TARGET_WORDS || section.target_words > MAX_TARGET_WORDS)) {
+      errors.push(`${label}: target length must be between ${MIN_TARGET_WORDS} and ${MAX_TARGET_WORDS} words.`)
+    }
+  }
+
+  // Report sections are matched by name, so names must be unique at each level
+  const sectionNames = new Set<string>()
+  sections.forEach((section, index) => {
+    const label = section.name.trim() || `Section ${index + 1}`
+    if (!section.name.trim()) errors.push(`Section ${index + 1} needs a heading.`)
+    else if (sectionNames.has(section.name.trim().toLowerCase())) errors.push(`There is more than one "${label}" section.`)
+    sectionNames.add(section.name.trim().toLowerCase())
+    checkWords(section, label)
+
+    const subsectionNames = new Set<string>()
+    section.subsections.forEach((subsection, subIndex) => {
+      const subLabel = `${label} › ${subsection.name.trim() || `Subsection ${subIndex + 1}`}`
+      if (!subsection.name.trim()) errors.push(`${label}: subsection ${subIndex + 1} needs a heading.`)
+      else if (subsectionNames.has(subsection.name.trim().toLowerCase())) errors.push(`${label} has more than one "${subsection.name.trim()}" subsection.`)
+      subsectionNames.add(subsection.name.trim().toLowerCase())
+      checkWords(subsection, subLabel)
+    })
+  })
+
+  // Dependencies must name other sections and can't go round in a circle
+  const dependsOn = (section: EditableSection) => [section, ...section.subsections].flatMap(item => item.depends_on ?? [])
+  const onAll = new Set(sections.filter(section => dependsOn(section).includes(ALL_SECTIONS)).map(section => section.name.trim()))
+  const dependencies = new Map<string, string[]>()
+  sections.forEach(section => {
+    const own = section.name.trim()
+    const named = dependsOn(section).filter(dep => dep !== ALL_SECTIONS)
+    named.forEach(dep => {
+      if (dep === own) errors.push(`"${own}" can't depend on itself.`)
+      else if (!sections.some(other => other.name.trim() === dep)) errors.push(`"${own}" depends on a missing section "${dep}".`)
+    })
+    const all = onAll.has(own) ? sections.map(other => other.name.trim()).filter(other => !onAll.has(other)) : []
+    dependencies.set(own, [...named, ...all].filter(dep => dep !== own))
+  })
+
+  const visiting = new Set<string>()
+  const visited = new Set<string>()
+  const findCycle = (name: string): boolean => {
+    if (visiting.has(name)) return true
+    if (visited.has(name)) return false
+    visiting.add(name)
+    const cyclic = (dependencies.get(name) ?? []).some(findCycle)
+    visiting.delete(name)
+    visited.add(name)
+    return cyclic
+  }
+  const cyclic = [...dependencies.keys()].find(findCycle)
+  if (cyclic) errors.push(`Section dependencies go round in a circle through "${cyclic}".`)
+
+  const inputKeys = new Set<string>()
+  inputs.forEach((input, index) => {
+    if (!input.label.trim() || !input.key) errors.push(`Required input ${index + 1} needs a label.`)
+    else if (inputKeys.has(input.key)) errors.push(`There is more than one "${input.label.trim()}" input.`)
+    inputKeys.add(input.key)
+  })
+
+  return errors
+}
+
+// Moves the item at index one place up (-1) or down (1)
+export function moveItem<T>(items: T[], index: number, direction: -1 | 1): T[] {
+  const target = index + direction
+  if (target < 0 || target >= items.length) return items
+  const next = [...items]
+  ;[next[index], next[target]] = [next[target], next[index]]
+  return next
+}
+
+// Makes a section a subsection of the section above it. Only sections
+// without subsections of their own can be nested, as reports go two levels deep.
+export function nestSection(sections: EditableSection[], index: number): EditableSection[] {
+  const section = sections[index]
+  if (index === 0 || section.subsections.length > 0) return sections
+
+  const { subsections: _subsections, ...subsection } = section
+  return sections
+    .map((current, i) => (i === index - 1 ? { ...current, subsections: [...current.subsections, subsection] } : current))
+    .filter((_, i) => i !== index)
+}
+
+// Turns a subsection into a section placed straight after its parent
+export function unnestSubsection(sections: EditableSection[], sectionIndex: number, subIndex: number): EditableSection[] {
+  const parent = sections[sectionIndex]
+  const promoted: EditableSection = { ...parent.subsections[subIndex], subsections: [] }
+  const next = [...sections]
+  next[sectionIndex] = { ...parent, subsections: parent.subsections.filter((_, i) => i !== subIndex) }
+  next.splice(sectionIndex + 1, 0, promoted)
+  return next
+}
+
+// Keeps other sections' dependencies pointing at a section when its heading changes
+export function renameDependency(sections: EditableSection[], from: string, to: string): EditableSection[] {
+  const rename = <T extends TemplateSubsection>(item: T): T =>
+    item.depends_on?.includes(from)
+      ? { ...item, depends_on: item.depends_on.map(dep => (dep === from ? to : dep)) }
+      : item
+
+  return sections.map(section => ({ ...rename(section), subsections: section.subsections.map(rename) }))
+}
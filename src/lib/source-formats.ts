@@ -0,0 +1,38 @@
+// Document formats accepted as notebook sources
+import { ValidationError } from './error-handling'
+
+export const SOURCE_FILE_TYPES: Record<string, string[]> = {
+  'application/pdf': ['.pdf'],
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': ['.docx'],
+  'text/html': ['.html', '.htm'],
+  'text/plain': ['.txt'],
+  'text/markdown': ['.md', '.markdown']
+}
+
+// Comma-separated list for <input accept>
+export const SOURCE_FILE_EXTENSIONS = Object.values(SOURCE_FILE_TYPES).flat().join(',')
+
+export const SUPPORTED_SOURCE_FORMATS_LABEL = 'PDF, DOCX, HTML, TXT, MD'
+
+// Browsers often report markdown (and sometimes text) files with an empty
+// type, so fall back to the extension before rejecting a file
+export function resolveSourceMimeType(file: File): string | null {
+  const mimeType = file.type.split(';')[0].trim().toLowerCase()
+  if (SOURCE_FILE_TYPES[mimeType]) return mimeType
+
+  const extension = `.${file.name.split('.').pop()?.toLowerCase() || ''}`
+  const match = Object.entries(SOURCE_FILE_TYPES).find(([, extensions]) => extensions.includes(extension))
+  return match ? match[0] : null
+}
+
+export function validateSourceFile(file: File): string {
+  const mimeType = resolveSourceMimeType(file)
+  if (!mimeType) {
+    throw new ValidationError(
+      `Invalid file type. Supported formats: ${SUPPORTED_SOURCE_FORMATS_LABEL}`,
+      'file',
+      'INVALID_FILE_TYPE'
+    )
+  }
+  return mimeType
+}
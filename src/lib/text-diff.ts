@@ -0,0 +1,65 @@
+// Word-level comparison of two versions of a text, e.g. a report section's
+// AI draft and the user's edit of it
+
+export interface DiffPart {
+  text: string
+  type: 'same' | 'added' | 'removed'
+}
+
+// Longer texts are compared line by line instead, and past that shown as a
+// straight replacement, to keep the comparison table small
+const MAX_CELLS = 4_000_000
+
+const words = (text: string) => text.split(/(\s+)/).filter(Boolean)
+const lines = (text: string) => text.split(/(\n+)/).filter(Boolean)
+
+function push(parts: DiffPart[], text: string, type: DiffPart['type']) {
+  const last = parts[parts.length - 1]
+  if (last?.type === type) last.text += text
+  else parts.push({ text, type })
+}
+
+export function diffText(before: string, after: string): DiffPart[] {
+  let a = words(before)
+  let b = words(after)
+  if (a.length * b.length > MAX_CELLS) {
+    a = lines(before)
+    b = lines(after)
+  }
+  if (a.length * b.length > MAX_CELLS) {
+    return [
+      { text: before, type: 'removed' as const },
+      { text: after, type: 'added' as const }
+    ].filter(part => part.text)
+  }
+
+  // Longest common subsequence lengths of every pair of suffixes
+  const width = b.length + 1
+  const common = new Uint32Array((a.length + 1) * width)
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      common[i * width + j] = a[i] === b[j]
+        ? common[(i + 1) * width + j + 1] + 1
+        : Math.max(common[(i + 1) * width + j], common[i * width + j + 1])
+    }
+  }
+
+  const parts: DiffPart[] = []
+  let i = 0
+  let j = 0
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push(parts, a[i], 'same')
+      i++
+      j++
+    } else if (common[(i + 1) * width + j] >= common[i * width + j + 1]) {
+      push(parts, a[i++], 'removed')
+    } else {
+      push(parts, b[j++], 'added')
+    }
+  }
+  while (i < a.length) push(parts, a[i++], 'removed')
+  while (j < b.length) push(parts, b[j++], 'added')
+
+  return parts
+}
@@ -1,7 +1,7 @@
 import { useState, useEffect } from "react";
-import { useSearchParams, useNavigate } from "react-router-dom";
+import { useSearchParams, useNavigate, useParams } from "react-router-dom";
 import { v4 as uuidv4 } from "uuid";
-import { getDefaultNotebook, createChatSession } from "@/lib/api";
+import { supabase, getDefaultNotebook, getNotebook, createChatSession } from "@/lib/api";
 import { useSession } from "@/hooks/useSession";
 import { TownPlannerLayout } from "@/components/TownPlannerLayout";
 import { ComponentErrorBoundary } from "@/components/ErrorBoundary";
@@ -9,6 +9,8 @@ import { useErrorHandler } from "@/hooks/useErrorHandler";
 import { LoadingWithError } from "@/components/ui/error-display";
 
 const Index = () => {
+  // Set on /projects/:id; the root route opens the default notebook
+  const { id: projectId } = useParams<{ id: string }>();
   const [searchParams, setSearchParams] = useSearchParams();
   const { user, loading, initialized } = useSession();
   const [sessionId, setSessionId] = useState<string>("");
@@ -29,16 +31,23 @@ const Index = () => {
   }, [initialized, loading, user, navigate]);
 
   useEffect(() => {
+    // Keep deep links (?source=, ?report=) when a session is created
+    const withSessionId = (newSessionId: string) => {
+      const params = new URLSearchParams(searchParams);
+      params.set("sessionId", newSessionId);
+      return params;
+    };
+
     const initializeApp = async () => {
       try {
         setInitializationError("");
         
         // Initialize notebook
-        const defaultNotebook = await handleAsyncError(
-          () => getDefaultNotebook(),
-          { operation: 'initialize_notebook' }
+        const currentNotebookId = await handleAsyncError(
+          async () => projectId ? (await getNotebook(projectId)).id : getDefaultNotebook(),
+          { operation: 'initialize_notebook', projectId }
         );
-        setNotebookId(defaultNotebook);
+        setNotebookId(currentNotebookId);
         
         // Handle session initialization with recovery
         const currentSessionId = searchParams.get("sessionId");
@@ -47,11 +56,12 @@ const Index = () => {
           try {
             const { data: sessionExists, error: sessionError } = await supabase
               .from('chat_sessions')
-              .select('id')
+              .select('id, notebook_id')
               .eq('id', currentSessionId)
               .single();
 
-            if (sessionError || !sessionExists) {
+            // A session from another project doesn't belong in this one
+            if (sessionError || !sessionExists || sessionExists.notebook_id !== currentNotebookId) {
               console.log('Session not found, creating new one');
               throw new Error('Session not found');
             }
@@ -60,20 +70,20 @@ const Index = () => {
           } catch (sessionError) {
             // Create new session if current one is invalid
             const newSessionId = await handleAsyncError(
-              () => createChatSession(defaultNotebook),
+              () => createChatSession(currentNotebookId),
               { operation: 'create_chat_session_recovery' }
             );
             setSessionId(newSessionId);
-            setSearchParams({ sessionId: newSessionId });
+            setSearchParams(withSessionId(newSessionId));
           }
         } else {
           // Create new session
           const newSessionId = await handleAsyncError(
-            () => createChatSession(defaultNotebook),
+            () => createChatSession(currentNotebookId),
             { operation: 'create_chat_session' }
           );
           setSessionId(newSessionId);
-          setSearchParams({ sessionId: newSessionId });
+          setSearchParams(withSessionId(newSessionId));
         }
       } catch (error) {
         console.error("Failed to initialize app:", error);
@@ -85,7 +95,7 @@ const Index = () => {
     if (initialized && !loading && user) {
       initializeApp();
     }
-  }, [initialized, loading, user, searchParams, setSearchParams, handleAsyncError]);
+  }, [initialized, loading, user, projectId, searchParams, setSearchParams, handleAsyncError]);
 
   // Show loading state while authentication is in progress
   if (loading || !initialized) {
@@ -111,7 +121,8 @@ const Index = () => {
 
   return (
     <ComponentErrorBoundary>
-      <TownPlannerLayout sessionId={sessionId} notebookId={notebookId} />
+      {/* Remount when switching projects so nothing carries over from the last one */}
+      <TownPlannerLayout key={notebookId} sessionId={sessionId} notebookId={notebookId} />
     </ComponentErrorBoundary>
   );
 };
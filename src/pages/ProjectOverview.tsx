@@ -0,0 +1,331 @@
+import { useEffect } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  AlertTriangle,
+  ArrowLeft,
+  CheckCircle2,
+  FileText,
+  FolderOpen,
+  Loader2,
+  MessageSquare,
+  RotateCcw,
+  Upload,
+  XCircle,
+} from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { LoadingWithError } from "@/components/ui/error-display";
+import { useSession } from "@/hooks/useSession";
+import { useToast } from "@/hooks/use-toast";
+import {
+  PROJECT_STATUS_LABELS,
+  PROJECT_TYPE_LABELS,
+  getNotebook,
+  getProjectOverview,
+  queueSourceProcessing,
+  type CorpusReadiness,
+  type DocumentStats,
+  type FailedSource,
+} from "@/lib/api";
+
+const formatFileSize = (bytes: number) => {
+  if (bytes === 0) return "0 B";
+  const k = 1024;
+  const sizes = ["B", "KB", "MB", "GB"];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(1)) + " " + sizes[i];
+};
+
+const formatDate = (date: string | null) => (date ? new Date(date).toLocaleString() : "Never");
+
+const READINESS: Record<CorpusReadiness, { title: string; icon: typeof CheckCircle2; variant: "default" | "destructive" }> = {
+  empty: { title: "No documents yet", icon: Upload, variant: "default" },
+  processing: { title: "Documents are still processing", icon: Loader2, variant: "default" },
+  failed: { title: "No documents could be processed", icon: XCircle, variant: "destructive" },
+  ready: { title: "Ready to query", icon: CheckCircle2, variant: "default" },
+};
+
+const readinessDescription = (readiness: CorpusReadiness, stats: DocumentStats) => {
+  switch (readiness) {
+    case "empty":
+      return "Upload the planning controls and application documents to start asking questions.";
+    case "processing":
+      return `${stats.completed_count} of ${stats.source_count} documents processed and ${stats.embedded_chunk_count} of ${stats.chunk_count} passages searchable. Answers will only draw on what's finished.`;
+    case "failed":
+      return "Every upload failed. Check the errors below and re-run processing.";
+    case "ready":
+      return stats.failed_count > 0
+        ? `All ${stats.chunk_count} passages from ${stats.completed_count} documents are searchable, but ${stats.failed_count} failed and won't be used.`
+        : `All ${stats.chunk_count} passages from ${stats.completed_count} documents are searchable.`;
+  }
+};
+
+const STATUS_ROWS: { key: keyof DocumentStats; label: string; variant: "default" | "secondary" | "destructive" | "outline" }[] = [
+  { key: "completed_count", label: "Completed", variant: "default" },
+  { key: "processing_count", label: "Processing", variant: "secondary" },
+  { key: "pending_count", label: "Pending", variant: "outline" },
+  { key: "failed_count", label: "Failed", variant: "destructive" },
+  { key: "cancelled_count", label: "Cancelled", variant: "outline" },
+];
+
+const getStatusColor = (status: string | null) => {
+  switch (status) {
+    case "completed":
+      return "default";
+    case "processing":
+      return "secondary";
+    case "failed":
+      return "destructive";
+    default:
+      return "outline";
+  }
+};
+
+const ProjectOverview = () => {
+  const { id } = useParams<{ id: string }>();
+  const { user, loading, initialized } = useSession();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (initialized && !loading && !user) {
+      navigate("/login", { state: { from: { pathname: window.location.pathname } }, replace: true });
+    }
+  }, [initialized, loading, user, navigate]);
+
+  const { data: project } = useQuery({
+    queryKey: ["notebook", id],
+    queryFn: () => getNotebook(id!),
+    enabled: !!user && !!id,
+  });
+
+  const { data: overview, isLoading, error, refetch } = useQuery({
+    queryKey: ["project_overview", id],
+    queryFn: () => getProjectOverview(id!),
+    enabled: !!user && !!id,
+    // Keep the counts moving while documents are being processed
+    refetchInterval: (query) => (query.state.data?.readiness === "processing" ? 5000 : false),
+  });
+
+  const handleRetry = async (source: FailedSource) => {
+    try {
+      await queueSourceProcessing(source.id);
+      toast({ title: "Processing restarted", description: source.name });
+      queryClient.invalidateQueries({ queryKey: ["project_overview", id] });
+      queryClient.invalidateQueries({ queryKey: ["sources", id] });
+    } catch (error) {
+      toast({ title: "Could not restart processing", description: error.message, variant: "destructive" });
+    }
+  };
+
+  if (loading || !initialized || !user) {
+    return <LoadingWithError isLoading={true} fallbackMessage="Initializing authentication...">{null}</LoadingWithError>;
+  }
+
+  const workspacePath = `/projects/${id}`;
+  const readiness = overview ? READINESS[overview.readiness] : null;
+  const ReadinessIcon = readiness?.icon;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="h-14 border-b flex items-center justify-between px-4 gap-2">
+        <div className="flex items-center gap-2 min-w-0">
+          <Button variant="ghost" size="sm" onClick={() => navigate("/projects")}>
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+          <h1 className="text-lg font-semibold text-foreground truncate">{project?.name ?? "Project overview"}</h1>
+          {project?.project_status && project.project_status !== "active" && (
+            <Badge variant="secondary" className="text-xs">
+              {PROJECT_STATUS_LABELS[project.project_status]}
+            </Badge>
+          )}
+        </div>
+        <Button onClick={() => navigate(workspacePath)}>
+          <FolderOpen className="h-4 w-4 mr-2" />
+          Open workspace
+        </Button>
+      </div>
+
+      <div className="max-w-5xl mx-auto p-4 space-y-4" data-testid="project-overview">
+        {project && (
+          <p className="text-sm text-muted-foreground">
+            {[
+              project.project_type && PROJECT_TYPE_LABELS[project.project_type],
+              project.client_name,
+              project.address,
+              project.lot_details,
+              project.council_area,
+            ]
+              .filter(Boolean)
+              .join(" · ")}
+          </p>
+        )}
+
+        <LoadingWithError isLoading={isLoading} error={error} retry={refetch} fallbackMessage="Could not load project overview">
+          {overview && readiness && ReadinessIcon && (
+            <>
+              <Alert variant={readiness.variant} data-testid="corpus-readiness">
+                <ReadinessIcon className={`h-4 w-4 ${overview.readiness === "processing" ? "animate-spin" : ""}`} />
+                <AlertTitle>{readiness.title}</AlertTitle>
+                <AlertDescription>{readinessDescription(overview.readiness, overview.stats)}</AlertDescription>
+              </Alert>
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <Card>
+                  <CardHeader className="pb-2">
+                    <CardDescription>Documents</CardDescription>
+                    <CardTitle className="text-2xl">{overview.stats.source_count}</CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-2">
+                    <div className="flex flex-wrap gap-1">
+                      {STATUS_ROWS.filter(({ key }) => overview.stats[key]).map(({ key, label, variant }) => (
+                        <Badge key={key} variant={variant} className="text-xs">
+                          {overview.stats[key]} {label.toLowerCase()}
+                        </Badge>
+                      ))}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {formatFileSize(overview.stats.total_file_size)} · last upload {formatDate(overview.stats.last_upload)}
+                    </p>
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardHeader className="pb-2">
+                    <CardDescription>Searchable passages</CardDescription>
+                    <CardTitle className="text-2xl">
+                      {overview.stats.embedded_chunk_count}
+                      <span className="text-base font-normal text-muted-foreground"> / {overview.stats.chunk_count}</span>
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-2">
+                    <Progress
+                      value={
+                        overview.stats.chunk_count
+                          ? (overview.stats.embedded_chunk_count / overview.stats.chunk_count) * 100
+                          : 0
+                      }
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      {overview.stats.embedding_count} embeddings
+                      {overview.stats.embedding_model && ` · ${overview.stats.embedding_model}`}
+                    </p>
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardHeader className="pb-2">
+                    <CardDescription>Chat activity</CardDescription>
+                    <CardTitle className="text-2xl">{overview.chatActivity.message_count}</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <p className="text-xs text-muted-foreground">
+                      messages in {overview.chatActivity.session_count} chats · last{" "}
+                      {formatDate(overview.chatActivity.last_message_at)}
+                    </p>
+                  </CardContent>
+                </Card>
+              </div>
+
+              {overview.failedSources.length > 0 && (
+                <Card data-testid="failed-sources">
+                  <CardHeader>
+                    <CardTitle className="text-base flex items-center gap-2">
+                      <AlertTriangle className="h-4 w-4 text-destructive" />
+                      Failed documents
+                    </CardTitle>
+                    <CardDescription>These weren't processed and won't be used in answers or reports.</CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-3">
+                    {overview.failedSources.map((source) => (
+                      <div key={source.id} className="border rounded-lg p-3">
+                        <div className="flex items-center justify-between gap-2">
+                          <span className="font-medium text-sm truncate">{source.name}</span>
+                          <div className="flex items-center gap-2 flex-shrink-0">
+                            <span className="text-xs text-muted-foreground">{formatDate(source.updated_at)}</span>
+                            <Button size="sm" variant="outline" onClick={() => handleRetry(source)} data-testid="retry-source">
+                              <RotateCcw className="h-4 w-4 mr-2" />
+                              Re-run
+                            </Button>
+                          </div>
+                        </div>
+                        <p className="text-xs text-destructive mt-1 break-words">
+                          {source.processing_error || "No error message was recorded."}
+                        </p>
+                      </div>
+                    ))}
+                  </CardContent>
+                </Card>
+              )}
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-base flex items-center gap-2">
+                      <FileText className="h-4 w-4" />
+                      Recent reports
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-2">
+                    {overview.recentReports.length === 0 ? (
+                      <p className="text-sm text-muted-foreground">No reports generated yet.</p>
+                    ) : (
+                      overview.recentReports.map((report) => (
+                        <div key={report.id} className="flex items-center justify-between gap-2 text-sm">
+                          <div className="min-w-0">
+                            <div className="truncate">{report.title}</div>
+                            <div className="text-xs text-muted-foreground">{formatDate(report.created_at)}</div>
+                          </div>
+                          <Badge variant={getStatusColor(report.status)} className="text-xs flex-shrink-0">
+                            {report.status === "processing" ? `${report.progress ?? 0}%` : report.status}
+                          </Badge>
+                        </div>
+                      ))
+                    )}
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-base flex items-center gap-2">
+                      <MessageSquare className="h-4 w-4" />
+                      Recent chats
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-1">
+                    {overview.chatActivity.recent_sessions.length === 0 ? (
+                      <p className="text-sm text-muted-foreground">No questions asked yet.</p>
+                    ) : (
+                      overview.chatActivity.recent_sessions.map((session) => (
+                        <button
+                          key={session.id}
+                          className="w-full flex items-center justify-between gap-2 text-sm text-left rounded p-1 hover:bg-muted/50"
+                          onClick={() => navigate(`${workspacePath}?sessionId=${session.id}`)}
+                        >
+                          <div className="min-w-0">
+                            <div className="truncate">{session.title}</div>
+                            <div className="text-xs text-muted-foreground">{formatDate(session.last_message_at)}</div>
+                          </div>
+                          <span className="text-xs text-muted-foreground flex-shrink-0">
+                            {session.total_messages} messages
+                          </span>
+                        </button>
+                      ))
+                    )}
+                  </CardContent>
+                </Card>
+              </div>
+            </>
+          )}
+        </LoadingWithError>
+      </div>
+    </div>
+  );
+};
+
+export default ProjectOverview;
@@ -0,0 +1,222 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Archive, ArchiveRestore, Building2, FileText, FolderOpen, LayoutDashboard, MapPin, Pencil, Plus, Search } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { LoadingWithError } from "@/components/ui/error-display";
+import { ProjectFormDialog, type ProjectFormValues } from "@/components/ProjectFormDialog";
+import { useSession } from "@/hooks/useSession";
+import { useToast } from "@/hooks/use-toast";
+import {
+  PROJECT_STATUS_LABELS,
+  PROJECT_TYPE_LABELS,
+  archiveNotebook,
+  createNotebook,
+  getNotebooks,
+  updateNotebook,
+  type Notebook,
+} from "@/lib/api";
+
+const Projects = () => {
+  const { user, loading, initialized } = useSession();
+  const [view, setView] = useState<"open" | "archived">("open");
+  const [searchTerm, setSearchTerm] = useState("");
+  const [formOpen, setFormOpen] = useState(false);
+  const [editing, setEditing] = useState<Notebook | null>(null);
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (initialized && !loading && !user) {
+      navigate("/login", { state: { from: { pathname: "/projects" } }, replace: true });
+    }
+  }, [initialized, loading, user, navigate]);
+
+  const { data: projects = [], isLoading, error, refetch } = useQuery({
+    queryKey: ["notebooks"],
+    queryFn: getNotebooks,
+    enabled: !!user,
+  });
+
+  const term = searchTerm.trim().toLowerCase();
+  const visible = projects.filter((project) => {
+    if ((project.project_status === "archived") !== (view === "archived")) return false;
+    if (!term) return true;
+    return [project.name, project.client_name, project.address, project.lot_details, project.council_area]
+      .some((value) => value?.toLowerCase().includes(term));
+  });
+
+  const openForm = (project: Notebook | null) => {
+    setEditing(project);
+    setFormOpen(true);
+  };
+
+  const handleSubmit = async (values: ProjectFormValues) => {
+    const { name, project_type, ...details } = values;
+    try {
+      if (editing) {
+        await updateNotebook(editing.id, values);
+        toast({ title: "Project updated", description: name });
+      } else {
+        const projectId = await createNotebook(name, project_type, details);
+        navigate(`/projects/${projectId}`);
+      }
+      queryClient.invalidateQueries({ queryKey: ["notebooks"] });
+    } catch (error) {
+      toast({
+        title: editing ? "Could not update project" : "Could not create project",
+        description: error.message,
+        variant: "destructive",
+      });
+      throw error;
+    }
+  };
+
+  const handleArchive = async (project: Notebook, archived: boolean) => {
+    try {
+      await archiveNotebook(project.id, archived);
+      queryClient.invalidateQueries({ queryKey: ["notebooks"] });
+      toast({ title: archived ? "Project archived" : "Project restored", description: project.name });
+    } catch (error) {
+      toast({ title: "Could not update project", description: error.message, variant: "destructive" });
+    }
+  };
+
+  if (loading || !initialized || !user) {
+    return <LoadingWithError isLoading={true} fallbackMessage="Initializing authentication...">{null}</LoadingWithError>;
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="h-14 border-b flex items-center justify-between px-4">
+        <div className="flex items-center gap-2">
+          <span className="text-xl">🏙️</span>
+          <h1 className="text-lg font-semibold text-foreground">Projects</h1>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" onClick={() => navigate("/templates")}>
+            <FileText className="h-4 w-4 mr-2" />
+            Report templates
+          </Button>
+          <Button onClick={() => openForm(null)} data-testid="new-project">
+            <Plus className="h-4 w-4 mr-2" />
+            New project
+          </Button>
+        </div>
+      </div>
+
+      <div className="max-w-5xl mx-auto p-4 space-y-4">
+        <div className="flex flex-col sm:flex-row gap-2 sm:items-center sm:justify-between">
+          <Tabs value={view} onValueChange={(value) => setView(value as "open" | "archived")}>
+            <TabsList>
+              <TabsTrigger value="open">Current</TabsTrigger>
+              <TabsTrigger value="archived">Archived</TabsTrigger>
+            </TabsList>
+          </Tabs>
+          <div className="relative sm:w-72">
+            <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+            <Input
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              placeholder="Search name, client, address..."
+              className="pl-8"
+            />
+          </div>
+        </div>
+
+        <LoadingWithError isLoading={isLoading} error={error} retry={refetch} fallbackMessage="Could not load projects">
+          {visible.length === 0 ? (
+            <div className="text-center py-16 text-muted-foreground">
+              <FolderOpen className="h-8 w-8 mx-auto mb-2" />
+              <p className="text-sm">
+                {term ? "No projects match your search." : view === "archived" ? "No archived projects." : "No projects yet."}
+              </p>
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4" data-testid="project-list">
+              {visible.map((project) => (
+                <Card key={project.id} className="flex flex-col">
+                  <CardHeader className="pb-2">
+                    <div className="flex items-start justify-between gap-2">
+                      <CardTitle className="text-base leading-snug">{project.name}</CardTitle>
+                      {project.project_status && project.project_status !== "active" && (
+                        <Badge variant="secondary" className="text-xs flex-shrink-0">
+                          {PROJECT_STATUS_LABELS[project.project_status]}
+                        </Badge>
+                      )}
+                    </div>
+                    <CardDescription>
+                      {[project.project_type && PROJECT_TYPE_LABELS[project.project_type], project.client_name]
+                        .filter(Boolean)
+                        .join(" · ")}
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="flex-1 space-y-1 text-sm text-muted-foreground">
+                    {(project.address || project.lot_details) && (
+                      <div className="flex items-center gap-2">
+                        <MapPin className="h-3.5 w-3.5 flex-shrink-0" />
+                        <span className="truncate">
+                          {[project.address, project.lot_details].filter(Boolean).join(" – ")}
+                        </span>
+                      </div>
+                    )}
+                    {project.council_area && (
+                      <div className="flex items-center gap-2">
+                        <Building2 className="h-3.5 w-3.5 flex-shrink-0" />
+                        <span className="truncate">{project.council_area}</span>
+                      </div>
+                    )}
+                    {project.updated_at && (
+                      <p className="text-xs">Updated {new Date(project.updated_at).toLocaleDateString()}</p>
+                    )}
+                  </CardContent>
+                  <CardFooter className="gap-2 flex-wrap">
+                    <Button size="sm" onClick={() => navigate(`/projects/${project.id}`)}>
+                      <FolderOpen className="h-4 w-4 mr-2" />
+                      Open
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => navigate(`/projects/${project.id}/overview`)}>
+                      <LayoutDashboard className="h-4 w-4 mr-2" />
+                      Overview
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => openForm(project)}>
+                      <Pencil className="h-4 w-4 mr-2" />
+                      Edit
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="ml-auto"
+                      onClick={() => handleArchive(project, project.project_status !== "archived")}
+                    >
+                      {project.project_status === "archived" ? (
+                        <>
+                          <ArchiveRestore className="h-4 w-4 mr-2" />
+                          Restore
+                        </>
+                      ) : (
+                        <>
+                          <Archive className="h-4 w-4 mr-2" />
+                          Archive
+                        </>
+                      )}
+                    </Button>
+                  </CardFooter>
+                </Card>
+              ))}
+            </div>
+          )}
+        </LoadingWithError>
+      </div>
+
+      <ProjectFormDialog open={formOpen} onOpenChange={setFormOpen} project={editing} onSubmit={handleSubmit} />
+    </div>
+  );
+};
+
+export default Projects;
@@ -0,0 +1,174 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { ArrowLeft, FileText, Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { LoadingWithError } from "@/components/ui/error-display";
+import { TemplateEditor } from "@/components/TemplateEditor";
+import { useSession } from "@/hooks/useSession";
+import { useToast } from "@/hooks/use-toast";
+import {
+  PROJECT_TYPE_LABELS,
+  archiveReportTemplate,
+  cloneReportTemplate,
+  createReportTemplate,
+  getReportTemplates,
+  saveReportTemplateVersion,
+  type ProjectType,
+  type ReportTemplate,
+  type ReportTemplateInput,
+} from "@/lib/api";
+
+// "new" while a template is being created
+type Selection = ReportTemplate | "new" | null;
+
+const Templates = () => {
+  const { user, loading, initialized } = useSession();
+  const [selection, setSelection] = useState<Selection>(null);
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (initialized && !loading && !user) {
+      navigate("/login", { state: { from: { pathname: "/templates" } }, replace: true });
+    }
+  }, [initialized, loading, user, navigate]);
+
+  const { data: templates = [], isLoading, error, refetch } = useQuery({
+    queryKey: ["report_templates"],
+    queryFn: getReportTemplates,
+    enabled: !!user,
+  });
+
+  const selected = selection === "new" ? null : selection;
+  const own = templates.filter((template) => template.created_by === user?.id);
+  const builtIn = templates.filter((template) => !template.created_by);
+
+  const refresh = (template: ReportTemplate) => {
+    queryClient.invalidateQueries({ queryKey: ["report_templates"] });
+    queryClient.invalidateQueries({ queryKey: ["report_template_versions", template.family_id] });
+    setSelection(template);
+  };
+
+  const handleSave = async (values: ReportTemplateInput) => {
+    try {
+      const saved = selected
+        ? await saveReportTemplateVersion(selected.id, values)
+        : await createReportTemplate(values);
+      refresh(saved);
+      toast({
+        title: selected ? `Saved version ${saved.version_number}` : "Template created",
+        description: saved.display_name,
+      });
+    } catch (error) {
+      toast({ title: "Could not save template", description: error.message, variant: "destructive" });
+      throw error;
+    }
+  };
+
+  const handleClone = async () => {
+    if (!selected) return;
+    try {
+      const clone = await cloneReportTemplate(selected);
+      refresh(clone);
+      toast({ title: "Template cloned", description: clone.display_name });
+    } catch (error) {
+      toast({ title: "Could not clone template", description: error.message, variant: "destructive" });
+    }
+  };
+
+  const handleArchive = async () => {
+    if (!selected) return;
+    try {
+      await archiveReportTemplate(selected);
+      queryClient.invalidateQueries({ queryKey: ["report_templates"] });
+      setSelection(null);
+      toast({ title: "Template archived", description: selected.display_name });
+    } catch (error) {
+      toast({ title: "Could not archive template", description: error.message, variant: "destructive" });
+    }
+  };
+
+  if (loading || !initialized || !user) {
+    return <LoadingWithError isLoading={true} fallbackMessage="Initializing authentication...">{null}</LoadingWithError>;
+  }
+
+  const renderList = (title: string, items: ReportTemplate[]) =>
+    items.length > 0 && (
+      <div className="space-y-1">
+        <p className="px-2 text-xs font-medium uppercase text-muted-foreground">{title}</p>
+        {items.map((template) => (
+          <button
+            key={template.id}
+            type="button"
+            onClick={() => setSelection(template)}
+            className={`w-full rounded-md px-2 py-2 text-left hover:bg-muted ${
+              selected?.id === template.id ? "bg-muted" : ""
+            }`}
+          >
+            <div className="flex items-center gap-2">
+              <FileText className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+              <span className="truncate text-sm font-medium">{template.display_name}</span>
+              {template.created_by && (
+                <Badge variant="outline" className="ml-auto text-xs">v{template.version_number}</Badge>
+              )}
+            </div>
+            {template.category && (
+              <p className="ml-6 text-xs text-muted-foreground">
+                {PROJECT_TYPE_LABELS[template.category as ProjectType] ?? template.category}
+              </p>
+            )}
+          </button>
+        ))}
+      </div>
+    );
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="h-14 border-b flex items-center justify-between px-4">
+        <div className="flex items-center gap-2">
+          <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => navigate(-1)} title="Back">
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+          <h1 className="text-lg font-semibold text-foreground">Report templates</h1>
+        </div>
+        <Button onClick={() => setSelection("new")} data-testid="new-template">
+          <Plus className="h-4 w-4 mr-2" />
+          New template
+        </Button>
+      </div>
+
+      <div className="max-w-6xl mx-auto p-4 grid grid-cols-1 md:grid-cols-[260px_1fr] gap-6">
+        <LoadingWithError isLoading={isLoading} error={error} retry={refetch} fallbackMessage="Could not load templates">
+          <ScrollArea className="md:h-[calc(100vh-7rem)]">
+            <div className="space-y-4 pr-2" data-testid="template-list">
+              {renderList("My templates", own)}
+              {renderList("Built-in", builtIn)}
+            </div>
+          </ScrollArea>
+        </LoadingWithError>
+
+        {selection ? (
+          <TemplateEditor
+            key={selected?.id ?? "new"}
+            template={selected}
+            editable={!selected || selected.created_by === user.id}
+            onSave={handleSave}
+            onClone={handleClone}
+            onArchive={handleArchive}
+          />
+        ) : (
+          <div className="text-center py-16 text-muted-foreground">
+            <FileText className="h-8 w-8 mx-auto mb-2" />
+            <p className="text-sm">Choose a template to view or edit it, or start a new one.</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Templates;
@@ -0,0 +1,108 @@
+// =====================================================
+// Shared report citation helpers
+// File: supabase/functions/_shared/citations.ts
+// =====================================================
+//
+// Sections cite the excerpts they were drafted from as [1], [2], ... where
+// n is the excerpt's position in the section's chunks_retrieved. When a
+// report is assembled the markers are renumbered across the whole report,
+// in order of first citation, and each cited chunk gets one entry in the
+// references list.
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+// [2] or [2, 5] or [2-4]
+const CITATION_PATTERN = /\[(\d+(?:\s*[-–,]\s*\d+)*)\]/g
+
+export interface CitedSection {
+  generated_content: string | null
+  chunks_retrieved: string[] | null
+}
+
+export interface Reference {
+  number: number
+  chunk_id: string
+  source_name: string | null
+  section_title: string | null
+  start_page: number | null
+  end_page: number | null
+}
+
+function markerNumbers(marker: string) {
+  const numbers: number[] = []
+  for (const part of marker.split(',')) {
+    const [from, to] = part.split(/[-–]/).map(n => parseInt(n.trim(), 10))
+    for (let n = from; n <= (to ?? from) && n - from < 50; n++) numbers.push(n)
+  }
+  return numbers
+}
+
+// Rewrites each section's local markers to report-wide reference numbers.
+// Markers that don't match a retrieved excerpt are dropped.
+export function numberCitations<T extends CitedSection>(sections: T[]) {
+  const numbersByChunk = new Map<string, number>()
+
+  const contents = sections.map(section => {
+    if (!section.generated_content) return section.generated_content
+    const chunkIds = section.chunks_retrieved || []
+
+    return section.generated_content.replace(CITATION_PATTERN, (_marker, inner: string) => {
+      const numbers = markerNumbers(inner)
+        .map(n => chunkIds[n - 1])
+        .filter(Boolean)
+        .map(chunkId => {
+          if (!numbersByChunk.has(chunkId)) numbersByChunk.set(chunkId, numbersByChunk.size + 1)
+          return numbersByChunk.get(chunkId)!
+        })
+
+      const unique = [...new Set(numbers)].sort((a, b) => a - b)
+      return unique.length ? `[${unique.join(', ')}]` : ''
+    })
+  })
+
+  return { contents, citedChunkIds: [...numbersByChunk.keys()] }
+}
+
+// Section text without its markers, e.g. when one section is given to the
+// prompt of another that has its own excerpts
+export function stripCitations(content: string) {
+  return content.replace(CITATION_PATTERN, '').replace(/ +([.,;:])/g, '$1')
+}
+
+// Looks up where each cited chunk came from, in reference number order
+export async function loadReferences(supabase: SupabaseClient, citedChunkIds: string[]): Promise<Reference[]> {
+  if (!citedChunkIds.length) return []
+
+  const { data, error } = await supabase
+    .from('document_chunks')
+    .select('id, section_title, start_page, end_page, sources(display_name)')
+    .in('id', citedChunkIds)
+
+  if (error) throw error
+
+  const chunksById = new Map((data || []).map(chunk => [chunk.id, chunk]))
+  return citedChunkIds.map((chunkId, index) => {
+    const chunk = chunksById.get(chunkId)
+    return {
+      number: index + 1,
+      chunk_id: chunkId,
+      source_name: (chunk?.sources as { display_name: string | null } | null)?.display_name ?? null,
+      section_title: chunk?.section_title ?? null,
+      start_page: chunk?.start_page ?? null,
+      end_page: chunk?.end_page ?? null
+    }
+  })
+}
+
+// e.g. "DCP Part 4, pp. 37–38, 4.2 Setbacks"
+export function formatReference(reference: Reference) {
+  const pages = !reference.start_page
+    ? null
+    : reference.end_page && reference.end_page !== reference.start_page
+      ? `pp. ${reference.start_page}–${reference.end_page}`
+      : `p. ${reference.start_page}`
+
+  return [reference.source_name || 'Source document (since removed)', pages, reference.section_title]
+    .filter(Boolean)
+    .join(', ')
+}
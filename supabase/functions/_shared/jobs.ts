@@ -0,0 +1,39 @@
+// =====================================================
+// Shared processing job helpers
+// File: supabase/functions/_shared/jobs.ts
+// =====================================================
+//
+// Used by functions that run processing_jobs: call sibling functions with
+// the service role and record each step a job goes through.
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+export function functionUrl(name: string) {
+  return `${Deno.env.get('SUPABASE_URL')}/functions/v1/${name}`
+}
+
+export function serviceHeaders() {
+  return {
+    'Authorization': `Bearer ${Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')}`,
+    'Content-Type': 'application/json',
+  }
+}
+
+// Set the job's current step (and progress) and append it to its step log.
+// Recording is best effort; a job never fails because of it.
+export async function recordJobStep(
+  supabase: SupabaseClient,
+  jobId: string | null | undefined,
+  step: string,
+  progress?: number
+) {
+  if (!jobId) return
+
+  const { error } = await supabase.rpc('record_processing_job_step', {
+    target_job_id: jobId,
+    step,
+    step_progress: progress ?? null
+  })
+
+  if (error) console.error(`Failed to record step "${step}" for job ${jobId}:`, error)
+}
@@ -0,0 +1,754 @@
+// =====================================================
+// Shared LLM providers
+// File: supabase/functions/_shared/llm.ts
+// =====================================================
+//
+// Every edge function talks to chat and embedding models through this module.
+// Providers live in the PROVIDERS registry below: adding one means adding an
+// entry there (and to the fallback order if it should be tried automatically).
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant'
+  content: string
+}
+
+export interface TokenUsage {
+  prompt_tokens: number
+  completion_tokens: number
+  total_tokens: number
+}
+
+export interface ChatOptions {
+  model?: string
+  temperature?: number
+  max_tokens?: number
+  top_p?: number
+  // Per attempt (for streams, the longest wait between tokens); a timed-out
+  // attempt is retried like any other transient failure
+  timeout_ms?: number
+  retries?: number
+  // Try the other configured providers when the requested one is unavailable or fails
+  fallback?: boolean
+  // Server URL for the openai-compatible provider (overrides OPENAI_COMPATIBLE_BASE_URL)
+  base_url?: string
+  // Lets the caller cancel the request (e.g. when a streaming client disconnects)
+  signal?: AbortSignal
+}
+
+// Receives each piece of text as a streaming provider produces it
+export type TokenHandler = (text: string) => void
+
+export interface ChatResult {
+  content: string
+  provider: string
+  model: string
+  usage: TokenUsage
+}
+
+export interface EmbeddingOptions {
+  timeout_ms?: number
+  retries?: number
+}
+
+export interface EmbeddingResult {
+  embedding: number[]
+  provider: string
+  // `${provider}-${model}`, the value stored in chunk_embeddings.embedding_model
+  embedding_model: string
+  usage: TokenUsage
+}
+
+interface ProviderCallResult<T> {
+  value: T
+  usage: TokenUsage
+}
+
+interface LLMProvider {
+  chatModel: string
+  // What has to be set for isAvailable(), for error messages
+  configuredBy: string
+  isAvailable: (options?: ChatOptions) => boolean
+  // Streams through onToken when it is given, otherwise returns the whole reply
+  chat: (
+    messages: ChatMessage[],
+    model: string,
+    options: ChatOptions,
+    signal: AbortSignal,
+    onToken?: TokenHandler
+  ) => Promise<ProviderCallResult<string>>
+  // Chat-only providers leave these out
+  embeddingModelId?: string
+  embed?: (text: string, signal: AbortSignal) => Promise<ProviderCallResult<number[]>>
+}
+
+export class LLMProviderError extends Error {
+  constructor(
+    message: string,
+    public provider: string,
+    public status?: number,
+    public retryable: boolean = false
+  ) {
+    super(message)
+    this.name = 'LLMProviderError'
+  }
+}
+
+export const DEFAULT_TEMPERATURE = 0.3
+export const DEFAULT_MAX_TOKENS = 2000
+const DEFAULT_CHAT_TIMEOUT_MS = 120_000
+const DEFAULT_EMBED_TIMEOUT_MS = 30_000
+const DEFAULT_RETRIES = 2
+const RETRY_BASE_DELAY_MS = 500
+
+// Order in which providers are tried when falling back; LLM_FALLBACK_ORDER
+// (comma separated) overrides it per deployment
+const DEFAULT_FALLBACK_ORDER = ['ollama', 'openai', 'gemini', 'anthropic', 'openai-compatible']
+
+const ANTHROPIC_VERSION = '2023-06-01'
+
+// Anthropic wants the conversation to open with a user turn and to alternate
+// roles. A window of chat history can start with a reply or hold two turns in
+// a row (e.g. a question whose answer failed), so leading replies are dropped
+// and consecutive turns of the same role merged.
+function anthropicMessages(messages: ChatMessage[]): ChatMessage[] {
+  const turns: ChatMessage[] = []
+  for (const message of messages) {
+    if (message.role === 'system') continue
+    if (turns.length === 0 && message.role === 'assistant') continue
+
+    const previous = turns[turns.length - 1]
+    if (previous?.role === message.role) {
+      turns[turns.length - 1] = { role: message.role, content: `${previous.content}\n\n${message.content}` }
+    } else {
+      turns.push({ role: message.role, content: message.content })
+    }
+  }
+  return turns
+}
+
+function ollamaBaseUrl() {
+  return Deno.env.get('OLLAMA_BASE_URL') || 'http://localhost:11434'
+}
+
+function configuredOpenAICompatibleBaseUrl() {
+  return (Deno.env.get('OPENAI_COMPATIBLE_BASE_URL') || '').replace(/\/+$/, '')
+}
+
+// A base URL from settings is only used for an http(s) server whose host (with
+// any port, e.g. gpu-box:8000) is listed in OPENAI_COMPATIBLE_ALLOWED_HOSTS, so
+// callers can't point the functions at anything else on their network
+function rejectedBaseUrlReason(baseUrl: string): string | null {
+  let url: URL
+  try {
+    url = new URL(baseUrl)
+  } catch {
+    return `Invalid OpenAI-compatible base URL: ${baseUrl}`
+  }
+
+  const allowedHosts = (Deno.env.get('OPENAI_COMPATIBLE_ALLOWED_HOSTS') || '')
+    .split(',')
+    .map(host => host.trim().toLowerCase())
+    .filter(Boolean)
+  if (!['http:', 'https:'].includes(url.protocol) || !allowedHosts.includes(url.host.toLowerCase())) {
+    return `${url.host || baseUrl} is not an allowed OpenAI-compatible server; add it to OPENAI_COMPATIBLE_ALLOWED_HOSTS`
+  }
+  return null
+}
+
+function openAICompatibleBaseUrl(options?: ChatOptions) {
+  const configured = configuredOpenAICompatibleBaseUrl()
+  const requested = (options?.base_url || '').trim().replace(/\/+$/, '')
+  if (!requested || requested === configured) return configured
+
+  const rejectedReason = rejectedBaseUrlReason(requested)
+  if (rejectedReason) throw new LLMProviderError(rejectedReason, 'openai-compatible')
+  return requested
+}
+
+// OPENAI_COMPATIBLE_API_KEY belongs to OPENAI_COMPATIBLE_BASE_URL and is never
+// sent to a server named in settings
+function openAICompatibleApiKey(baseUrl: string) {
+  return baseUrl === configuredOpenAICompatibleBaseUrl() ? Deno.env.get('OPENAI_COMPATIBLE_API_KEY') : undefined
+}
+
+// Rough count for providers that don't report usage (about four characters per token)
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4)
+}
+
+function usageOf(promptTokens: number, completionTokens: number): TokenUsage {
+  return {
+    prompt_tokens: promptTokens,
+    completion_tokens: completionTokens,
+    total_tokens: promptTokens + completionTokens
+  }
+}
+
+function promptText(messages: ChatMessage[]) {
+  return messages.map(m => m.content).join('\n')
+}
+
+async function post(provider: string, url: string, body: unknown, signal: AbortSignal, headers: Record<string, string> = {}) {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+    signal
+  })
+
+  if (!response.ok) {
+    const detail = await response.text().catch(() => '')
+    throw new LLMProviderError(
+      `${provider} API error: ${response.status}${detail ? ` ${detail.slice(0, 200)}` : ''}`,
+      provider,
+      response.status,
+      response.status === 429 || response.status >= 500
+    )
+  }
+
+  return response
+}
+
+async function postJson(provider: string, url: string, body: unknown, signal: AbortSignal, headers: Record<string, string> = {}) {
+  const response = await post(provider, url, body, signal, headers)
+  return await response.json()
+}
+
+// Non-empty lines of a streamed response body (NDJSON or server-sent events)
+async function* streamLines(
+  provider: string,
+  url: string,
+  body: unknown,
+  signal: AbortSignal,
+  headers: Record<string, string> = {}
+): AsyncGenerator<string> {
+  const response = await post(provider, url, body, signal, headers)
+  if (!response.body) throw new LLMProviderError(`${provider} returned an empty stream`, provider)
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader()
+  let buffer = ''
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+      buffer += value
+      const lines = buffer.split('\n')
+      buffer = lines.pop() ?? ''
+      for (const line of lines) {
+        if (line.trim()) yield line.trim()
+      }
+    }
+    if (buffer.trim()) yield buffer.trim()
+  } finally {
+    reader.releaseLock()
+  }
+}
+
+// JSON payloads of the `data:` lines of a server-sent event stream
+async function* streamEvents<T>(
+  provider: string,
+  url: string,
+  body: unknown,
+  signal: AbortSignal,
+  headers: Record<string, string> = {}
+): AsyncGenerator<T> {
+  for await (const line of streamLines(provider, url, body, signal, headers)) {
+    if (!line.startsWith('data:')) continue
+    const data = line.slice(5).trim()
+    if (data === '[DONE]') return
+    yield JSON.parse(data) as T
+  }
+}
+
+// Chat Completions request shared by OpenAI and servers that implement its API
+async function openAIChat(
+  provider: string,
+  baseUrl: string,
+  apiKey: string | undefined,
+  messages: ChatMessage[],
+  model: string,
+  options: ChatOptions,
+  signal: AbortSignal,
+  onToken?: TokenHandler
+): Promise<ProviderCallResult<string>> {
+  const url = `${baseUrl}/chat/completions`
+  const headers: Record<string, string> = apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}
+  const body = {
+    model,
+    messages,
+    temperature: options.temperature ?? DEFAULT_TEMPERATURE,
+    top_p: options.top_p,
+    max_tokens: options.max_tokens ?? DEFAULT_MAX_TOKENS
+  }
+
+  let content = ''
+  let reported: { prompt_tokens?: number, completion_tokens?: number } | null = null
+
+  if (onToken) {
+    const events = streamEvents<{
+      choices?: { delta?: { content?: string } }[]
+      usage?: { prompt_tokens?: number, completion_tokens?: number }
+    }>(provider, url, { ...body, stream: true, stream_options: { include_usage: true } }, signal, headers)
+    for await (const event of events) {
+      const text = event.choices?.[0]?.delta?.content
+      if (text) {
+        content += text
+        onToken(text)
+      }
+      if (event.usage) reported = event.usage
+    }
+  } else {
+    const data = await postJson(provider, url, body, signal, headers)
+    content = data.choices?.[0]?.message?.content ?? ''
+    reported = data.usage ?? null
+  }
+
+  return {
+    value: content,
+    // Local servers don't always report usage
+    usage: reported
+      ? usageOf(reported.prompt_tokens ?? 0, reported.completion_tokens ?? 0)
+      : usageOf(estimateTokens(promptText(messages)), estimateTokens(content))
+  }
+}
+
+const PROVIDERS: Record<string, LLMProvider> = {
+  ollama: {
+    chatModel: 'qwen3:8b-q4_K_M',
+    configuredBy: 'OLLAMA_BASE_URL',
+    embeddingModelId: 'ollama-nomic-embed-text',
+    isAvailable: () => !!Deno.env.get('OLLAMA_BASE_URL'),
+    chat: async (messages, model, options, signal, onToken) => {
+      const url = `${ollamaBaseUrl()}/api/chat`
+      const body = {
+        model,
+        messages,
+        stream: !!onToken,
+        options: {
+          temperature: options.temperature ?? DEFAULT_TEMPERATURE,
+          top_p: options.top_p ?? 0.9,
+          num_predict: options.max_tokens ?? DEFAULT_MAX_TOKENS
+        }
+      }
+
+      let content = ''
+      let final: { prompt_eval_count?: number, eval_count?: number } = {}
+
+      if (onToken) {
+        // Newline-delimited JSON; the last object (done: true) carries the counts
+        for await (const line of streamLines('Ollama', url, body, signal)) {
+          const data = JSON.parse(line)
+          const text = data.message?.content
+          if (text) {
+            content += text
+            onToken(text)
+          }
+          if (data.done) final = data
+        }
+      } else {
+        final = await postJson('Ollama', url, body, signal)
+        content = (final as { message?: { content?: string } }).message?.content ?? ''
+      }
+
+      return {
+        value: content,
+        usage: usageOf(
+          final.prompt_eval_count ?? estimateTokens(promptText(messages)),
+          final.eval_count ?? estimateTokens(content)
+        )
+      }
+    },
+    embed: async (text, signal) => {
+      const data = await postJson('Ollama', `${ollamaBaseUrl()}/api/embeddings`, {
+        model: 'nomic-embed-text:latest',
+        prompt: text
+      }, signal)
+      return { value: data.embedding, usage: usageOf(estimateTokens(text), 0) }
+    }
+  },
+  openai: {
+    chatModel: 'gpt-4',
+    configuredBy: 'OPENAI_API_KEY',
+    embeddingModelId: 'openai-text-embedding-3-small',
+    isAvailable: () => !!Deno.env.get('OPENAI_API_KEY'),
+    chat: (messages, model, options, signal, onToken) =>
+      openAIChat('OpenAI', 'https://api.openai.com/v1', Deno.env.get('OPENAI_API_KEY'), messages, model, options, signal, onToken),
+    embed: async (text, signal) => {
+      const data = await postJson('OpenAI', 'https://api.openai.com/v1/embeddings', {
+        model: 'text-embedding-3-small',
+        input: text
+      }, signal, { 'Authorization': `Bearer ${Deno.env.get('OPENAI_API_KEY')}` })
+      return { value: data.data[0].embedding, usage: usageOf(data.usage?.prompt_tokens ?? estimateTokens(text), 0) }
+    }
+  },
+  gemini: {
+    chatModel: 'gemini-pro',
+    configuredBy: 'GEMINI_API_KEY',
+    embeddingModelId: 'gemini-embedding-001',
+    isAvailable: () => !!Deno.env.get('GEMINI_API_KEY'),
+    chat: async (messages, model, options, signal, onToken) => {
+      const system = messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n')
+      const baseUrl = `https://generativelanguage.googleapis.com/v1beta/models/${model}`
+      const key = Deno.env.get('GEMINI_API_KEY')
+      const body = {
+        ...(system ? { systemInstruction: { parts: [{ text: system }] } } : {}),
+        contents: messages
+          .filter(m => m.role !== 'system')
+          .map(m => ({ role: m.role === 'assistant' ? 'model' : 'user', parts: [{ text: m.content }] })),
+        generationConfig: {
+          temperature: options.temperature ?? DEFAULT_TEMPERATURE,
+          topP: options.top_p ?? 0.9,
+          maxOutputTokens: options.max_tokens ?? DEFAULT_MAX_TOKENS
+        }
+      }
+
+      let content = ''
+      let reported: { promptTokenCount?: number, candidatesTokenCount?: number } = {}
+
+      if (onToken) {
+        for await (const event of streamEvents<{
+          candidates?: { content?: { parts?: { text?: string }[] } }[]
+          usageMetadata?: { promptTokenCount?: number, candidatesTokenCount?: number }
+        }>('Gemini', `${baseUrl}:streamGenerateContent?alt=sse&key=${key}`, body, signal)) {
+          const text = event.candidates?.[0]?.content?.parts?.[0]?.text
+          if (text) {
+            content += text
+            onToken(text)
+          }
+          // Each event repeats the running totals
+          if (event.usageMetadata) reported = event.usageMetadata
+        }
+      } else {
+        const data = await postJson('Gemini', `${baseUrl}:generateContent?key=${key}`, body, signal)
+        content = data.candidates?.[0]?.content?.parts?.[0]?.text ?? ''
+        reported = data.usageMetadata ?? {}
+      }
+
+      return {
+        value: content,
+        usage: usageOf(reported.promptTokenCount ?? 0, reported.candidatesTokenCount ?? 0)
+      }
+    },
+    embed: async (text, signal) => {
+      const data = await postJson(
+        'Gemini',
+        `https://generativelanguage.googleapis.com/v1beta/models/embedding-001:embedContent?key=${Deno.env.get('GEMINI_API_KEY')}`,
+        {
+          model: 'models/embedding-001',
+          content: { parts: [{ text }] }
+        },
+        signal
+      )
+      return { value: data.embedding.values, usage: usageOf(estimateTokens(text), 0) }
+    }
+  },
+  anthropic: {
+    chatModel: 'claude-3-5-sonnet-latest',
+    configuredBy: 'ANTHROPIC_API_KEY',
+    isAvailable: () => !!Deno.env.get('ANTHROPIC_API_KEY'),
+    chat: async (messages, model, options, signal, onToken) => {
+      const system = messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n')
+      const url = 'https://api.anthropic.com/v1/messages'
+      const headers = {
+        'x-api-key': Deno.env.get('ANTHROPIC_API_KEY') ?? '',
+        'anthropic-version': ANTHROPIC_VERSION
+      }
+      const body = {
+        model,
+        ...(system ? { system } : {}),
+        messages: anthropicMessages(messages),
+        temperature: options.temperature ?? DEFAULT_TEMPERATURE,
+        top_p: options.top_p,
+        max_tokens: options.max_tokens ?? DEFAULT_MAX_TOKENS
+      }
+
+      let content = ''
+      let inputTokens = 0
+      let outputTokens = 0
+
+      if (onToken) {
+        for await (const event of streamEvents<{
+          type: string
+          message?: { usage?: { input_tokens?: number } }
+          delta?: { type?: string, text?: string }
+          usage?: { output_tokens?: number }
+          error?: { type?: string, message?: string }
+        }>('Anthropic', url, { ...body, stream: true }, signal, headers)) {
+          if (event.type === 'message_start') {
+            inputTokens = event.message?.usage?.input_tokens ?? 0
+          } else if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta' && event.delta.text) {
+            content += event.delta.text
+            onToken(event.delta.text)
+          } else if (event.type === 'message_delta') {
+            outputTokens = event.usage?.output_tokens ?? outputTokens
+          } else if (event.type === 'error') {
+            throw new LLMProviderError(`Anthropic stream error: ${event.error?.message}`, 'Anthropic', undefined, event.error?.type === 'overloaded_error')
+          }
+        }
+      } else {
+        const data = await postJson('Anthropic', url, body, signal, headers)
+        content = (data.content ?? [])
+          .filter((block: { type: string }) => block.type === 'text')
+          .map((block: { text: string }) => block.text)
+          .join('')
+        inputTokens = data.usage?.input_tokens ?? 0
+        outputTokens = data.usage?.output_tokens ?? 0
+      }
+
+      return { value: content, usage: usageOf(inputTokens, outputTokens) }
+    }
+  },
+  // Any server speaking the OpenAI Chat Completions API (vLLM, LM Studio,
+  // llama.cpp server, ...). The base URL includes the version path, e.g.
+  // http://gpu-box:8000/v1
+  'openai-compatible': {
+    get chatModel() {
+      return Deno.env.get('OPENAI_COMPATIBLE_MODEL') || 'default'
+    },
+    configuredBy: 'OPENAI_COMPATIBLE_BASE_URL (or a base URL in settings)',
+    // Throws for a base URL that isn't allowed, so the reason can be reported
+    isAvailable: (options) => !!openAICompatibleBaseUrl(options),
+    chat: (messages, model, options, signal, onToken) => {
+      const baseUrl = openAICompatibleBaseUrl(options)
+      return openAIChat(
+        'OpenAI-compatible server',
+        baseUrl,
+        openAICompatibleApiKey(baseUrl),
+        messages,
+        model,
+        options,
+        signal,
+        onToken
+      )
+    }
+  }
+}
+
+function getProvider(name: string): LLMProvider {
+  const provider = PROVIDERS[name]
+  if (!provider) throw new LLMProviderError(`Unsupported LLM provider: ${name}`, name)
+  return provider
+}
+
+export function isSupportedProvider(name: string): boolean {
+  return name in PROVIDERS
+}
+
+export function isProviderAvailable(name: string, options?: ChatOptions): boolean {
+  return getProviderUnavailableReason(name, options) === null
+}
+
+// Why a provider can't be used, or null when it can
+export function getProviderUnavailableReason(name: string, options?: ChatOptions): string | null {
+  const provider = PROVIDERS[name]
+  if (!provider) return `Unsupported LLM provider: ${name}`
+  try {
+    return provider.isAvailable(options) ? null : `${name} is not configured; set ${provider.configuredBy}`
+  } catch (error) {
+    return error.message
+  }
+}
+
+export function getFallbackOrder(): string[] {
+  const configured = Deno.env.get('LLM_FALLBACK_ORDER')
+  const order = configured ? configured.split(',').map(name => name.trim()) : DEFAULT_FALLBACK_ORDER
+  return order.filter(isSupportedProvider)
+}
+
+export function getDefaultChatModel(provider: string): string {
+  return getProvider(provider).chatModel
+}
+
+// Embedding models are identified as `${provider}-${model}`, e.g. 'ollama-nomic-embed-text'
+export function getEmbeddingModelId(provider: string): string {
+  const { embeddingModelId } = getProvider(provider)
+  if (!embeddingModelId) throw new LLMProviderError(`${provider} does not provide embeddings`, provider)
+  return embeddingModelId
+}
+
+export function getProviderFromModelId(modelId: string): string {
+  const match = Object.entries(PROVIDERS).find(([, provider]) => provider.embeddingModelId === modelId)
+  return match ? match[0] : modelId.split('-')[0]
+}
+
+function isRetryable(error: unknown): boolean {
+  if (error instanceof LLMProviderError) return error.retryable
+  // Network failures and aborted (timed out) requests
+  return error instanceof TypeError || (error instanceof DOMException && error.name === 'AbortError')
+}
+
+interface RetryOptions {
+  timeoutMs: number
+  retries: number
+  // Aborting it stops the call without further attempts
+  signal?: AbortSignal
+  // Checked before retrying, e.g. to not repeat output already streamed
+  canRetry?: () => boolean
+}
+
+// Run one provider call with a timeout, retrying transient failures with
+// exponential backoff. The call can push the timeout back with keepAlive(),
+// so a stream only times out when it stalls.
+async function withRetries<T>(
+  provider: string,
+  call: (signal: AbortSignal, keepAlive: () => void) => Promise<T>,
+  { timeoutMs, retries, signal: callerSignal, canRetry = () => true }: RetryOptions
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    if (callerSignal?.aborted) throw new DOMException(`${provider} request cancelled`, 'AbortError')
+
+    const controller = new AbortController()
+    let timer = setTimeout(() => controller.abort(), timeoutMs)
+    const keepAlive = () => {
+      clearTimeout(timer)
+      timer = setTimeout(() => controller.abort(), timeoutMs)
+    }
+    const cancel = () => controller.abort()
+    callerSignal?.addEventListener('abort', cancel)
+
+    try {
+      return await call(controller.signal, keepAlive)
+    } catch (error) {
+      if (callerSignal?.aborted) throw error
+      const timedOut = controller.signal.aborted
+      if (attempt >= retries || !isRetryable(error) || !canRetry()) {
+        if (timedOut) throw new LLMProviderError(`${provider} request timed out after ${timeoutMs}ms`, provider, undefined, true)
+        throw error
+      }
+      const delay = RETRY_BASE_DELAY_MS * 2 ** attempt
+      console.warn(`${provider} request failed (attempt ${attempt + 1}), retrying in ${delay}ms:`, error)
+      await new Promise(resolve => setTimeout(resolve, delay))
+    } finally {
+      clearTimeout(timer)
+      callerSignal?.removeEventListener('abort', cancel)
+    }
+  }
+}
+
+// Chat completion with the requested provider. When it isn't configured or
+// keeps failing, the remaining providers are tried in fallback order.
+export async function chat(
+  messages: ChatMessage[],
+  provider: string = 'ollama',
+  options: ChatOptions = {}
+): Promise<ChatResult> {
+  return await runChat(messages, provider, options)
+}
+
+// Like chat(), but hands each piece of the reply to onToken as it arrives.
+// Retries and fallbacks only happen before the first token; a failure after
+// that is thrown so the caller can keep or discard the partial reply.
+export async function streamChat(
+  messages: ChatMessage[],
+  provider: string,
+  onToken: TokenHandler,
+  options: ChatOptions = {}
+): Promise<ChatResult> {
+  return await runChat(messages, provider, options, onToken)
+}
+
+async function runChat(
+  messages: ChatMessage[],
+  provider: string,
+  options: ChatOptions,
+  onToken?: TokenHandler
+): Promise<ChatResult> {
+  let streamed = false
+  const candidates = options.fallback === false
+    ? [provider]
+    : [provider, ...getFallbackOrder().filter(name => name !== provider)]
+
+  let lastError: unknown = null
+
+  for (const name of candidates) {
+    // Providers that only parse documents (e.g. llamacloud) have no chat model.
+    // A base URL that isn't allowed throws here: it's reported to the caller
+    // rather than quietly answered by another provider
+    if (candidates.length > 1 && !PROVIDERS[name]?.isAvailable(options)) {
+      console.warn(`Provider ${name} not available, trying fallbacks...`)
+      continue
+    }
+    const adapter = getProvider(name)
+
+    // A model override only makes sense for the provider it was chosen for
+    const model = name === provider && options.model ? options.model : adapter.chatModel
+
+    try {
+      const { value, usage } = await withRetries(
+        name,
+        (signal, keepAlive) => adapter.chat(messages, model, options, signal, onToken && (text => {
+          streamed = true
+          keepAlive()
+          onToken(text)
+        })),
+        {
+          timeoutMs: options.timeout_ms ?? DEFAULT_CHAT_TIMEOUT_MS,
+          retries: options.retries ?? DEFAULT_RETRIES,
+          signal: options.signal,
+          canRetry: () => !streamed
+        }
+      )
+      if (name !== provider) console.log(`Used fallback provider: ${name}`)
+      return { content: value, provider: name, model, usage }
+    } catch (error) {
+      console.error(`Error with provider ${name}:`, error)
+      if (streamed || options.signal?.aborted) throw error
+      lastError = error
+    }
+  }
+
+  throw lastError ?? new LLMProviderError('No LLM providers available. Please configure at least one provider.', provider)
+}
+
+// Single-prompt convenience wrapper around chat()
+export async function generateText(
+  prompt: string,
+  provider: string = 'ollama',
+  options: ChatOptions & { system?: string } = {}
+): Promise<ChatResult> {
+  const messages: ChatMessage[] = options.system
+    ? [{ role: 'system', content: options.system }, { role: 'user', content: prompt }]
+    : [{ role: 'user', content: prompt }]
+  return await chat(messages, provider, options)
+}
+
+// Embeddings never fall back to another provider: vectors from different
+// models can't be compared, so a notebook must stay on one model
+export async function generateEmbedding(
+  text: string,
+  provider: string = 'ollama',
+  options: EmbeddingOptions = {}
+): Promise<EmbeddingResult> {
+  const { embed, embeddingModelId } = getProvider(provider)
+  if (!embed || !embeddingModelId) throw new LLMProviderError(`${provider} does not provide embeddings`, provider)
+
+  const { value, usage } = await withRetries(
+    provider,
+    signal => embed(text, signal),
+    {
+      timeoutMs: options.timeout_ms ?? DEFAULT_EMBED_TIMEOUT_MS,
+      retries: options.retries ?? DEFAULT_RETRIES
+    }
+  )
+
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new LLMProviderError(`${provider} returned an empty embedding`, provider)
+  }
+
+  return { embedding: value, provider, embedding_model: embeddingModelId, usage }
+}
+
+// Running total of token usage across the calls made by one invocation
+export function createUsageTracker() {
+  const total = usageOf(0, 0)
+  return {
+    add(usage: TokenUsage) {
+      total.prompt_tokens += usage.prompt_tokens
+      total.completion_tokens += usage.completion_tokens
+      total.total_tokens += usage.total_tokens
+    },
+    get total(): TokenUsage {
+      return { ...total }
+    }
+  }
+}
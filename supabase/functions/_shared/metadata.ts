@@ -0,0 +1,134 @@
+// =====================================================
+// Shared document metadata discovery
+// File: supabase/functions/_shared/metadata.ts
+// =====================================================
+//
+// Used by process-pdf-with-metadata and by process-jobs' metadata_extraction
+// jobs to pull planning fields (client, address, ...) out of a document.
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { generateText } from './llm.ts'
+
+// A metadata_schema row: a field discovered in earlier documents
+export interface MetadataSchemaField {
+  id: string
+  field_name: string
+  field_type: 'text' | 'date' | 'number' | 'boolean' | 'array' | 'object'
+  field_category: string | null
+  field_description: string | null
+  display_name: string | null
+  occurrence_count: number | null
+}
+
+// Simplified metadata discovery with fallback
+export async function discoverMetadataFields(content: string, existingSchema: MetadataSchemaField[], llmProvider: string) {
+  try {
+    const prompt = `Extract key metadata from this document. Return a simple JSON object:
+
+Document excerpt:
+${content.substring(0, 4000)}
+
+Return ONLY this JSON structure:
+{
+  "discovered_fields": [
+    {
+      "field_name": "client_name",
+      "value": "extracted value",
+      "confidence": 0.8
+    }
+  ]
+}`
+
+    const { content: response } = await generateText(prompt, llmProvider, { temperature: 0.1 })
+    
+    // Try to parse JSON response
+    const jsonMatch = response.match(/\{[\s\S]*\}/)
+    if (jsonMatch) {
+      return JSON.parse(jsonMatch[0])
+    }
+    
+    // Fallback if JSON parsing fails
+    return {
+      discovered_fields: [
+        {
+          field_name: "document_title",
+          value: "Processed Document",
+          confidence: 0.5
+        }
+      ]
+    }
+  } catch (error) {
+    console.error('Metadata discovery failed:', error)
+    // Return minimal fallback
+    return {
+      discovered_fields: [
+        {
+          field_name: "document_title", 
+          value: "Document",
+          confidence: 0.3
+        }
+      ]
+    }
+  }
+}
+
+// Discover a document's metadata and store it as the source's pdf_metadata
+// record. Discovery falls back to a placeholder field rather than failing.
+export async function extractDocumentMetadata(
+  supabase: SupabaseClient,
+  sourceId: string,
+  notebookId: string,
+  content: string,
+  llmProvider: string
+): Promise<{ pdfMetadataId: string | null; discoveredFields: number }> {
+  // Get existing metadata schema
+  const { data: metadataSchema } = await supabase
+    .from('metadata_schema')
+    .select('*')
+    .order('occurrence_count', { ascending: false })
+
+  // Discover metadata fields with error handling
+  let discoveryResult
+  try {
+    discoveryResult = await discoverMetadataFields(
+      content,
+      metadataSchema || [],
+      llmProvider
+    )
+  } catch (metadataError) {
+    console.error('Metadata discovery failed:', metadataError)
+    discoveryResult = {
+      discovered_fields: [
+        {
+          field_name: "document_title",
+          value: "Processed Document",
+          confidence: 0.5
+        }
+      ]
+    }
+  }
+
+  // Create PDF metadata record
+  const { data: pdfMetadata, error: pdfMetadataError } = await supabase
+    .from('pdf_metadata')
+    .insert({
+      source_id: sourceId,
+      notebook_id: notebookId,
+      extraction_method: 'ai',
+      extraction_model: llmProvider,
+      confidence_score: 0.7,
+      raw_metadata: discoveryResult
+    })
+    .select()
+    .single()
+
+  if (pdfMetadataError) {
+    console.error('PDF metadata creation failed:', pdfMetadataError)
+    // Continue without metadata
+  }
+
+  return {
+    pdfMetadataId: pdfMetadata?.id ?? null,
+    discoveredFields: discoveryResult.discovered_fields?.length || 0
+  }
+}
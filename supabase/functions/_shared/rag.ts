@@ -0,0 +1,298 @@
+// =====================================================
+// Shared retrieval-augmented chat helpers
+// File: supabase/functions/_shared/rag.ts
+// =====================================================
+//
+// Used by the chat and chat-stream functions: retrieve numbered excerpts for
+// a question from the session's sources, build the grounded prompt, and save
+// the reply with what it cited and what it cost.
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { ChatMessage, TokenUsage, generateEmbedding, getEmbeddingModelId, getProviderFromModelId } from './llm.ts'
+
+export const HISTORY_LIMIT = 10
+export const CONTEXT_CHUNKS = 6
+export const SIMILARITY_THRESHOLD = 0.5
+
+export type SearchMode = 'vector' | 'hybrid'
+
+export interface ChatSession {
+  id: string
+  notebook_id: string | null
+  source_ids: string[] | null
+}
+
+// A retrieved excerpt, numbered so the reply can cite it as [n]
+export interface Citation {
+  index: number
+  chunk_id: string
+  source_id: string | null
+  source_name: string | null
+  location: string | null
+  section_title: string | null
+  start_page: number | null
+  end_page: number | null
+  similarity: number | null
+  content: string
+}
+
+interface ChunkLocation {
+  id: string
+  source_id: string | null
+  section_title: string | null
+  start_page: number | null
+  end_page: number | null
+  sources: { display_name: string | null } | null
+}
+
+interface MatchRow {
+  chunk_id: string
+  content: string
+  similarity: number | null
+}
+
+// Format where a chunk came from, e.g. "DCP Part 4 – Setbacks, p. 37"
+function formatLocation(chunk: ChunkLocation) {
+  const label = [chunk.sources?.display_name, chunk.section_title].filter(Boolean).join(' – ')
+  if (!chunk.start_page) return label || null
+  const pages = chunk.end_page && chunk.end_page !== chunk.start_page
+    ? `pp. ${chunk.start_page}–${chunk.end_page}`
+    : `p. ${chunk.start_page}`
+  return label ? `${label}, ${pages}` : pages
+}
+
+export async function loadSession(supabase: SupabaseClient, sessionId: string, userId: string): Promise<ChatSession> {
+  const { data: session, error } = await supabase
+    .from('chat_sessions')
+    .select('id, notebook_id, source_ids')
+    .eq('id', sessionId)
+    .eq('user_id', userId)
+    .single()
+
+  if (error || !session) throw new Error(`Chat session ${sessionId} not found`)
+  return session as ChatSession
+}
+
+// The session's latest turns, oldest first
+export async function loadHistory(supabase: SupabaseClient, sessionId: string): Promise<ChatMessage[]> {
+  const { data } = await supabase
+    .from('chat_messages')
+    .select('role, content')
+    .eq('session_id', sessionId)
+    .in('role', ['user', 'assistant'])
+    .order('created_at', { ascending: false })
+    .limit(HISTORY_LIMIT)
+
+  return ((data || []) as ChatMessage[]).reverse()
+}
+
+// Find the excerpts most relevant to the question within the session's
+// notebook, limited to the session's sources when it has any
+export async function retrieveCitations(
+  supabase: SupabaseClient,
+  session: ChatSession,
+  question: string,
+  embeddingProvider: string,
+  searchMode: SearchMode = 'hybrid'
+): Promise<Citation[]> {
+  if (!session.notebook_id) return []
+
+  // Embed with the model the notebook's vectors were made with
+  const { data: notebook } = await supabase
+    .from('notebooks')
+    .select('embedding_model')
+    .eq('id', session.notebook_id)
+    .single()
+
+  const embeddingModel = notebook?.embedding_model || getEmbeddingModelId(embeddingProvider)
+
+  let embeddingStr: string | null = null
+  try {
+    const { embedding } = await generateEmbedding(question, getProviderFromModelId(embeddingModel))
+    embeddingStr = `[${embedding.join(',')}]`
+  } catch (error) {
+    // Hybrid search can still rank by keywords without the embedding
+    if (searchMode !== 'hybrid') throw error
+    console.error('Question embedding failed, using keyword ranking only:', error)
+  }
+
+  const sourceIds = session.source_ids?.length ? session.source_ids : null
+  const { data: matches, error: searchError } = searchMode === 'hybrid'
+    ? await supabase.rpc('hybrid_search', {
+      query_text: question,
+      query_embedding: embeddingStr,
+      match_count: CONTEXT_CHUNKS,
+      filter_notebook_id: session.notebook_id,
+      filter_source_ids: sourceIds,
+      similarity_threshold: SIMILARITY_THRESHOLD,
+      filter_embedding_model: embeddingModel
+    })
+    : await supabase.rpc('match_embeddings', {
+      query_embedding: embeddingStr,
+      match_count: CONTEXT_CHUNKS,
+      filter_notebook_id: session.notebook_id,
+      filter_source_ids: sourceIds,
+      similarity_threshold: SIMILARITY_THRESHOLD,
+      filter_embedding_model: embeddingModel
+    })
+
+  if (searchError) throw searchError
+
+  const rows = (matches || []) as MatchRow[]
+  if (rows.length === 0) return []
+
+  const { data: locations } = await supabase
+    .from('document_chunks')
+    .select(`
+      id,
+      source_id,
+      section_title,
+      start_page,
+      end_page,
+      sources (
+        display_name
+      )
+    `)
+    .in('id', rows.map(row => row.chunk_id))
+
+  const locationsByChunk: Record<string, ChunkLocation> = {}
+  for (const chunk of (locations || []) as ChunkLocation[]) {
+    locationsByChunk[chunk.id] = chunk
+  }
+
+  return rows.map((row, i) => {
+    const location = locationsByChunk[row.chunk_id]
+    return {
+      index: i + 1,
+      chunk_id: row.chunk_id,
+      source_id: location?.source_id ?? null,
+      source_name: location?.sources?.display_name ?? null,
+      location: location ? formatLocation(location) : null,
+      section_title: location?.section_title ?? null,
+      start_page: location?.start_page ?? null,
+      end_page: location?.end_page ?? null,
+      similarity: row.similarity ?? null,
+      content: row.content
+    }
+  })
+}
+
+export function buildSystemPrompt(citations: Citation[]) {
+  const excerpts = citations
+    .map(c => `[${c.index}]${c.location ? ` (${c.location})` : ''}\n${c.content}`)
+    .join('\n\n---\n\n')
+
+  return `You are a professional town planning assistant helping with planning controls, permits and development applications.
+
+${excerpts
+    ? `Answer using the numbered excerpts from the user's documents below. Cite the excerpts you rely on inline by number, e.g. [1] or [2][3]. If they don't answer the question, say so before answering from general planning knowledge, and don't cite anything for that part.
+
+Excerpts:
+${excerpts}`
+    : 'No documents matched this question. Answer from general planning knowledge and say that no source documents were found.'}`
+}
+
+export function buildMessages(citations: Citation[], history: ChatMessage[], question: string): ChatMessage[] {
+  return [
+    { role: 'system', content: buildSystemPrompt(citations) },
+    ...history,
+    { role: 'user', content: question }
+  ]
+}
+
+// Citations without the excerpt text, as sent to clients and stored with the reply
+export function summarizeCitations(citations: Citation[], excerptLength = 0) {
+  return citations.map(({ content, ...citation }) => (
+    excerptLength > 0 ? { ...citation, excerpt: content.slice(0, excerptLength) } : citation
+  ))
+}
+
+export async function saveUserMessage(
+  supabase: SupabaseClient,
+  session: ChatSession,
+  userId: string,
+  content: string,
+  id?: string
+) {
+  const { data, error } = await supabase
+    .from('chat_messages')
+    .insert({
+      ...(id ? { id } : {}),
+      session_id: session.id,
+      user_id: userId,
+      role: 'user',
+      content
+    })
+    .select('id')
+    .single()
+
+  if (error) throw error
+  return data.id as string
+}
+
+export interface ChatReply {
+  id?: string
+  content: string
+  citations: Citation[]
+  searchMode: SearchMode
+  provider: string
+  model: string | null
+  usage: TokenUsage
+  responseTimeMs: number
+  // Extra retrieval_metadata, e.g. { cancelled: true }
+  metadata?: Record<string, unknown>
+}
+
+// Save the assistant's reply and bump the session's counters. Only sources
+// the reply actually cites count as sources_cited.
+export async function saveAssistantReply(
+  supabase: SupabaseClient,
+  session: ChatSession,
+  userId: string,
+  reply: ChatReply
+) {
+  const citedIndexes = new Set([...reply.content.matchAll(/\[(\d+)\]/g)].map(match => Number(match[1])))
+  const sourcesCited = [...new Set(
+    reply.citations
+      .filter(c => citedIndexes.has(c.index) && c.source_id)
+      .map(c => c.source_id as string)
+  )]
+
+  const { data, error } = await supabase
+    .from('chat_messages')
+    .insert({
+      ...(reply.id ? { id: reply.id } : {}),
+      session_id: session.id,
+      user_id: userId,
+      role: 'assistant',
+      content: reply.content,
+      chunks_retrieved: reply.citations.map(c => c.chunk_id),
+      sources_cited: sourcesCited,
+      retrieval_metadata: {
+        search_mode: reply.searchMode,
+        citations: summarizeCitations(reply.citations),
+        ...reply.metadata
+      },
+      llm_provider: reply.provider,
+      llm_model: reply.model,
+      prompt_tokens: reply.usage.prompt_tokens,
+      completion_tokens: reply.usage.completion_tokens,
+      total_tokens: reply.usage.total_tokens,
+      response_time_ms: reply.responseTimeMs
+    })
+    .select('id')
+    .single()
+
+  if (error) throw error
+
+  await touchSession(supabase, session)
+  return data.id as string
+}
+
+// total_messages is kept by the update_chat_session_stats trigger on chat_messages
+export async function touchSession(supabase: SupabaseClient, session: ChatSession) {
+  await supabase
+    .from('chat_sessions')
+    .update({ last_message_at: new Date().toISOString() })
+    .eq('id', session.id)
+}
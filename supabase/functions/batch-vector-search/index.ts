@@ -5,66 +5,13 @@
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { generateEmbedding, getEmbeddingModelId, getProviderFromModelId } from '../_shared/llm.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
-// Generate embeddings based on provider
-async function generateEmbedding(text: string, provider: string = 'ollama') {
-  switch (provider) {
-    case 'ollama':
-      const ollamaUrl = `${Deno.env.get('OLLAMA_BASE_URL') || 'http://localhost:11434'}/api/embeddings`
-      const ollamaResponse = await fetch(ollamaUrl, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          model: 'nomic-embed-text:latest',
-          prompt: text
-        })
-      })
-      if (!ollamaResponse.ok) throw new Error('Ollama embedding failed')
-      const ollamaData = await ollamaResponse.json()
-      return ollamaData.embedding
-
-    case 'openai':
-      const openaiResponse = await fetch('https://api.openai.com/v1/embeddings', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${Deno.env.get('OPENAI_API_KEY')}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          model: 'text-embedding-3-small',
-          input: text
-        })
-      })
-      if (!openaiResponse.ok) throw new Error('OpenAI embedding failed')
-      const openaiData = await openaiResponse.json()
-      return openaiData.data[0].embedding
-
-    case 'gemini':
-      const geminiResponse = await fetch(
-        `https://generativelanguage.googleapis.com/v1beta/models/embedding-001:embedContent?key=${Deno.env.get('GEMINI_API_KEY')}`,
-        {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            model: 'models/embedding-001',
-            content: { parts: [{ text }] }
-          })
-        }
-      )
-      if (!geminiResponse.ok) throw new Error('Gemini embedding failed')
-      const geminiData = await geminiResponse.json()
-      return geminiData.embedding.values
-
-    default:
-      throw new Error(`Unsupported embedding provider: ${provider}`)
-  }
-}
-
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response('ok', { headers: corsHeaders })
@@ -82,19 +29,42 @@ serve(async (req) => {
       source_ids = null,
       top_k = 10,
       similarity_threshold = 0.7,
-      embedding_provider = 'ollama'
+      embedding_provider: requestedProvider = 'ollama',
+      // 'vector' (cosine only) or 'hybrid' (keyword + cosine, rank-fused)
+      search_mode = 'vector'
     } = await req.json()
 
     if (!queries || !Array.isArray(queries)) {
       throw new Error('Queries array is required')
     }
 
-    console.log(`Performing batch search with ${queries.length} queries using ${embedding_provider}`)
+    if (search_mode !== 'vector' && search_mode !== 'hybrid') {
+      throw new Error(`Unsupported search mode: ${search_mode}`)
+    }
+
+    // Queries must be embedded with the model the notebook's vectors were made
+    // with; comparing vectors from different models is meaningless
+    let embedding_provider = requestedProvider
+    let embeddingModel = getEmbeddingModelId(requestedProvider)
+    if (notebook_id) {
+      const { data: notebook } = await supabase
+        .from('notebooks')
+        .select('embedding_model')
+        .eq('id', notebook_id)
+        .single()
+
+      if (notebook?.embedding_model) {
+        embeddingModel = notebook.embedding_model
+        embedding_provider = getProviderFromModelId(embeddingModel)
+      }
+    }
+
+    console.log(`Performing ${search_mode} batch search with ${queries.length} queries using ${embedding_provider}`)
 
     // Generate embeddings for all queries
     const embeddingPromises = queries.map(async (query: string) => {
       try {
-        const embedding = await generateEmbedding(query, embedding_provider)
+        const { embedding } = await generateEmbedding(query, embedding_provider)
         return { query, embedding, error: null }
       } catch (error) {
         console.error(`Embedding generation failed for query "${query}":`, error)
@@ -108,22 +78,34 @@ serve(async (req) => {
     const searchResults = []
     
     for (const { query, embedding, error } of queryEmbeddings) {
-      if (error || !embedding) {
+      // Hybrid mode can still rank by keywords when the query embedding fails
+      if ((error || !embedding) && search_mode !== 'hybrid') {
         searchResults.push({ query, results: [], error })
         continue
       }
 
       // Convert embedding to PostgreSQL vector format
-      const embeddingStr = `[${embedding.join(',')}]`
+      const embeddingStr = embedding ? `[${embedding.join(',')}]` : null
       
-      // Call the match_embeddings function
-      const { data, error: searchError } = await supabase.rpc('match_embeddings', {
-        query_embedding: embeddingStr,
-        match_count: top_k,
-        filter_notebook_id: notebook_id,
-        filter_source_ids: source_ids,
-        similarity_threshold: similarity_threshold
-      })
+      // Cosine similarity via match_embeddings, or rank fusion via hybrid_search
+      const { data, error: searchError } = search_mode === 'hybrid'
+        ? await supabase.rpc('hybrid_search', {
+          query_text: query,
+          query_embedding: embeddingStr,
+          match_count: top_k,
+          filter_notebook_id: notebook_id,
+          filter_source_ids: source_ids,
+          similarity_threshold: similarity_threshold,
+          filter_embedding_model: embeddingModel
+        })
+        : await supabase.rpc('match_embeddings', {
+          query_embedding: embeddingStr,
+          match_count: top_k,
+          filter_notebook_id: notebook_id,
+          filter_source_ids: source_ids,
+          similarity_threshold: similarity_threshold,
+          filter_embedding_model: embeddingModel
+        })
 
       if (searchError) {
         console.error(`Search error for query "${query}":`, searchError)
@@ -140,7 +122,9 @@ serve(async (req) => {
         success: true,
         results: searchResults,
         total_queries: queries.length,
-        embedding_provider: embedding_provider
+        embedding_provider: embedding_provider,
+        embedding_model: embeddingModel,
+        search_mode
       }),
       {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -164,6 +148,27 @@ serve(async (req) => {
   }
 })
 
+interface ChunkLocation {
+  id: string
+  source_id: string | null
+  section_title: string | null
+  subsection_title: string | null
+  start_page: number | null
+  end_page: number | null
+  chunk_type: string | null
+  sources: { display_name: string | null } | null
+}
+
+// Format where a chunk came from, e.g. "DCP Part 4, p. 37"
+function formatChunkLocation(chunk: ChunkLocation) {
+  const label = [chunk.sources?.display_name, chunk.section_title].filter(Boolean).join(' – ')
+  if (!chunk.start_page) return label
+  const pages = chunk.end_page && chunk.end_page !== chunk.start_page
+    ? `pp. ${chunk.start_page}–${chunk.end_page}`
+    : `p. ${chunk.start_page}`
+  return label ? `${label}, ${pages}` : pages
+}
+
 // Enhance search results with additional metadata
 async function enhanceSearchResults(results: any[], supabase: any) {
   if (!results.length) return results
@@ -183,6 +188,28 @@ async function enhanceSearchResults(results: any[], supabase: any) {
     `)
     .in('chunk_id', chunkIds)
 
+  // Get the document position of each chunk for citations
+  const { data: locations } = await supabase
+    .from('document_chunks')
+    .select(`
+      id,
+      source_id,
+      section_title,
+      subsection_title,
+      start_page,
+      end_page,
+      chunk_type,
+      sources (
+        display_name
+      )
+    `)
+    .in('id', chunkIds)
+
+  const locationsByChunk: Record<string, ChunkLocation> = {}
+  for (const chunk of (locations || []) as ChunkLocation[]) {
+    locationsByChunk[chunk.id] = chunk
+  }
+
   // Group associations by chunk
   const associationsByChunk = associations?.reduce((acc: any, assoc: any) => {
     if (!acc[assoc.chunk_id]) acc[assoc.chunk_id] = []
@@ -194,9 +221,19 @@ async function enhanceSearchResults(results: any[], supabase: any) {
   }, {}) || {}
 
   // Enhance results
-  return results.map(result => ({
-    ...result,
-    metadata_fields: associationsByChunk[result.chunk_id] || []
-  }))
+  return results.map(result => {
+    const location = locationsByChunk[result.chunk_id]
+    return {
+      ...result,
+      source_id: location?.source_id ?? null,
+      source_name: location?.sources?.display_name ?? null,
+      section_title: location?.section_title ?? null,
+      subsection_title: location?.subsection_title ?? null,
+      start_page: location?.start_page ?? null,
+      end_page: location?.end_page ?? null,
+      chunk_type: location?.chunk_type ?? 'text',
+      location: location ? formatChunkLocation(location) : null,
+      metadata_fields: associationsByChunk[result.chunk_id] || []
+    }
+  })
 }
-
@@ -0,0 +1,193 @@
+// =====================================================
+// Edge Function: chat-stream
+// File: supabase/functions/chat-stream/index.ts
+// =====================================================
+//
+// Answers a chat message with retrieval-augmented generation and streams the
+// reply as server-sent events:
+//   event: sources  { citations }                  numbered excerpts the reply can cite
+//   event: token    { text }                       each piece of the reply
+//   event: done     { message_id, usage, ... }     the reply was saved
+//   event: error    { message }
+// Closing the connection cancels generation; whatever was produced so far is
+// saved and marked as cancelled.
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { ChatResult, estimateTokens, streamChat } from '../_shared/llm.ts'
+import {
+  Citation,
+  buildMessages,
+  loadHistory,
+  loadSession,
+  retrieveCitations,
+  saveAssistantReply,
+  saveUserMessage,
+  summarizeCitations,
+  touchSession
+} from '../_shared/rag.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    const {
+      session_id,
+      message,
+      // Client-generated so the rows it shows optimistically match what realtime delivers
+      user_message_id,
+      assistant_message_id,
+      llm_provider = 'ollama',
+      llm_config = {},
+      embedding_provider = 'ollama',
+      search_mode = 'hybrid'
+    } = await req.json()
+
+    if (!session_id || !message?.trim()) {
+      throw new Error('Missing required parameters: session_id, message')
+    }
+
+    const authHeader = req.headers.get('authorization')
+    const token = authHeader?.replace('Bearer ', '')
+    const { data: { user }, error: userError } = await supabase.auth.getUser(token!)
+
+    if (userError || !user) throw new Error('Unauthorized')
+
+    const session = await loadSession(supabase, session_id, user.id)
+    const history = await loadHistory(supabase, session_id)
+
+    await saveUserMessage(supabase, session, user.id, message, UUID_PATTERN.test(user_message_id ?? '') ? user_message_id : undefined)
+
+    const assistantMessageId = UUID_PATTERN.test(assistant_message_id ?? '') ? assistant_message_id : crypto.randomUUID()
+    const startedAt = Date.now()
+    const abort = new AbortController()
+    const encoder = new TextEncoder()
+
+    const body = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        let closed = false
+        const send = (event: string, data: unknown) => {
+          if (closed || abort.signal.aborted) return
+          try {
+            controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`))
+          } catch {
+            closed = true
+          }
+        }
+
+        let content = ''
+        let result: ChatResult | null = null
+        let failure: string | null = null
+
+        const citations = await retrieveCitations(supabase, session, message, embedding_provider, search_mode)
+          .catch(error => {
+            console.error('Retrieval failed:', error)
+            return [] as Citation[]
+          })
+
+        send('sources', { citations: summarizeCitations(citations, 500) })
+
+        const messages = buildMessages(citations, history, message)
+
+        try {
+          result = await streamChat(messages, llm_provider, text => {
+            content += text
+            send('token', { text })
+          }, { ...llm_config, signal: abort.signal })
+        } catch (error) {
+          if (!abort.signal.aborted) {
+            console.error('Chat generation failed:', error)
+            failure = error.message
+          }
+        }
+
+        const cancelled = abort.signal.aborted
+        const usage = result?.usage ?? {
+          prompt_tokens: estimateTokens(messages.map(m => m.content).join('\n')),
+          completion_tokens: estimateTokens(content),
+          total_tokens: 0
+        }
+        usage.total_tokens = usage.prompt_tokens + usage.completion_tokens
+
+        // Keep partial replies; a reply that never started has nothing to keep
+        if (content) {
+          try {
+            await saveAssistantReply(supabase, session, user.id, {
+              id: assistantMessageId,
+              content,
+              citations,
+              searchMode: search_mode,
+              provider: result?.provider ?? llm_provider,
+              model: result?.model ?? llm_config.model ?? null,
+              usage,
+              responseTimeMs: Date.now() - startedAt,
+              metadata: { cancelled, ...(failure ? { error: failure } : {}) }
+            })
+          } catch (saveError) {
+            console.error('Failed to save assistant message:', saveError)
+            failure = failure ?? saveError.message
+          }
+        } else {
+          await touchSession(supabase, session)
+        }
+
+        if (failure && !content) {
+          send('error', { message: failure })
+        } else {
+          send('done', {
+            message_id: assistantMessageId,
+            provider: result?.provider ?? llm_provider,
+            model: result?.model ?? null,
+            usage,
+            cancelled,
+            ...(failure ? { error: failure } : {})
+          })
+        }
+
+        if (!closed && !abort.signal.aborted) controller.close()
+      },
+      // The client went away (or pressed stop): stop generating
+      cancel() {
+        abort.abort()
+      }
+    })
+
+    return new Response(body, {
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+      },
+      status: 200,
+    })
+
+  } catch (error) {
+    console.error('Error in chat stream:', error)
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error.message
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: error.message === 'Unauthorized' ? 401 : 500,
+      }
+    )
+  }
+})
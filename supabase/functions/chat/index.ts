@@ -0,0 +1,117 @@
+// =====================================================
+// Edge Function: chat
+// File: supabase/functions/chat/index.ts
+// =====================================================
+//
+// Answers a chat message with retrieval-augmented generation in one request:
+// embeds the question, retrieves excerpts from the session's sources, and asks
+// the configured provider with the conversation so far. Both messages are
+// saved. chat-stream does the same but streams the reply.
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { chat } from '../_shared/llm.ts'
+import {
+  Citation,
+  buildMessages,
+  loadHistory,
+  loadSession,
+  retrieveCitations,
+  saveAssistantReply,
+  saveUserMessage,
+  summarizeCitations
+} from '../_shared/rag.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    const {
+      session_id,
+      message,
+      llm_provider = 'ollama',
+      llm_config = {},
+      embedding_provider = 'ollama',
+      search_mode = 'hybrid'
+    } = await req.json()
+
+    if (!session_id || !message?.trim()) {
+      throw new Error('Missing required parameters: session_id, message')
+    }
+
+    const authHeader = req.headers.get('authorization')
+    const token = authHeader?.replace('Bearer ', '')
+    const { data: { user }, error: userError } = await supabase.auth.getUser(token!)
+
+    if (userError || !user) throw new Error('Unauthorized')
+
+    const session = await loadSession(supabase, session_id, user.id)
+    const history = await loadHistory(supabase, session_id)
+    const startedAt = Date.now()
+
+    // A retrieval failure still gets an (ungrounded) answer
+    const citations = await retrieveCitations(supabase, session, message, embedding_provider, search_mode)
+      .catch(error => {
+        console.error('Retrieval failed:', error)
+        return [] as Citation[]
+      })
+
+    const result = await chat(buildMessages(citations, history, message), llm_provider, llm_config)
+
+    // Saved only once answered, so a client retrying a failed request doesn't repeat it
+    const userMessageId = await saveUserMessage(supabase, session, user.id, message)
+
+    const assistantMessageId = await saveAssistantReply(supabase, session, user.id, {
+      content: result.content,
+      citations,
+      searchMode: search_mode,
+      provider: result.provider,
+      model: result.model,
+      usage: result.usage,
+      responseTimeMs: Date.now() - startedAt
+    })
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        user_message_id: userMessageId,
+        message_id: assistantMessageId,
+        response: result.content,
+        citations: summarizeCitations(citations, 500),
+        provider: result.provider,
+        model: result.model,
+        usage: result.usage
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200,
+      }
+    )
+
+  } catch (error) {
+    console.error('Error in chat:', error)
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error.message
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: error.message === 'Unauthorized' ? 401 : 500,
+      }
+    )
+  }
+})
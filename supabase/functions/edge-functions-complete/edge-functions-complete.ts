@@ -5,66 +5,13 @@
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { generateEmbedding } from '../_shared/llm.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
-// Generate embeddings based on provider
-async function generateEmbedding(text: string, provider: string = 'ollama') {
-  switch (provider) {
-    case 'ollama':
-      const ollamaUrl = `${Deno.env.get('OLLAMA_BASE_URL') || 'http://localhost:11434'}/api/embeddings`
-      const ollamaResponse = await fetch(ollamaUrl, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          model: 'nomic-embed-text:latest',
-          prompt: text
-        })
-      })
-      if (!ollamaResponse.ok) throw new Error('Ollama embedding failed')
-      const ollamaData = await ollamaResponse.json()
-      return ollamaData.embedding
-
-    case 'openai':
-      const openaiResponse = await fetch('https://api.openai.com/v1/embeddings', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${Deno.env.get('OPENAI_API_KEY')}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          model: 'text-embedding-3-small',
-          input: text
-        })
-      })
-      if (!openaiResponse.ok) throw new Error('OpenAI embedding failed')
-      const openaiData = await openaiResponse.json()
-      return openaiData.data[0].embedding
-
-    case 'gemini':
-      const geminiResponse = await fetch(
-        `https://generativelanguage.googleapis.com/v1beta/models/embedding-001:embedContent?key=${Deno.env.get('GEMINI_API_KEY')}`,
-        {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            model: 'models/embedding-001',
-            content: { parts: [{ text }] }
-          })
-        }
-      )
-      if (!geminiResponse.ok) throw new Error('Gemini embedding failed')
-      const geminiData = await geminiResponse.json()
-      return geminiData.embedding.values
-
-    default:
-      throw new Error(`Unsupported embedding provider: ${provider}`)
-  }
-}
-
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response('ok', { headers: corsHeaders })
@@ -94,7 +41,7 @@ serve(async (req) => {
     // Generate embeddings for all queries
     const embeddingPromises = queries.map(async (query: string) => {
       try {
-        const embedding = await generateEmbedding(query, embedding_provider)
+        const { embedding } = await generateEmbedding(query, embedding_provider)
         return { query, embedding, error: null }
       } catch (error) {
         console.error(`Embedding generation failed for query "${query}":`, error)
@@ -376,89 +323,14 @@ serve(async (req) => {
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { generateText } from '../_shared/llm.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
-// Multi-LLM content generation
-async function generateSectionContent(prompt: string, provider: string, config: any = {}) {
-  switch (provider) {
-    case 'ollama':
-      const ollamaResponse = await fetch(
-        `${Deno.env.get('OLLAMA_BASE_URL') || 'http://localhost:11434'}/api/generate`,
-        {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            model: config.model || 'qwen3:8b-q4_K_M',
-            prompt: prompt,
-            stream: false,
-            options: {
-              temperature: config.temperature || 0.3,
-              top_p: 0.9,
-              num_predict: config.max_tokens || 2000
-            }
-          })
-        }
-      )
-      if (!ollamaResponse.ok) throw new Error('Ollama generation failed')
-      const ollamaData = await ollamaResponse.json()
-      return ollamaData.response
-
-    case 'openai':
-      const openaiResponse = await fetch('https://api.openai.com/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${Deno.env.get('OPENAI_API_KEY')}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          model: config.model || 'gpt-4',
-          messages: [
-            {
-              role: 'system',
-              content: 'You are a professional town planning consultant writing detailed, accurate reports.'
-            },
-            { role: 'user', content: prompt }
-          ],
-          temperature: config.temperature || 0.3,
-          max_tokens: config.max_tokens || 2000
-        })
-      })
-      if (!openaiResponse.ok) throw new Error('OpenAI generation failed')
-      const openaiData = await openaiResponse.json()
-      return openaiData.choices[0].message.content
-
-    case 'gemini':
-      const geminiResponse = await fetch(
-        `https://generativelanguage.googleapis.com/v1beta/models/${config.model || 'gemini-pro'}:generateContent?key=${Deno.env.get('GEMINI_API_KEY')}`,
-        {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            contents: [{
-              parts: [{
-                text: prompt
-              }]
-            }],
-            generationConfig: {
-              temperature: config.temperature || 0.3,
-              topP: 0.9,
-              maxOutputTokens: config.max_tokens || 2000
-            }
-          })
-        }
-      )
-      if (!geminiResponse.ok) throw new Error('Gemini generation failed')
-      const geminiData = await geminiResponse.json()
-      return geminiData.candidates[0].content.parts[0].text
-
-    default:
-      throw new Error(`Unsupported LLM provider: ${provider}`)
-  }
-}
+const SYSTEM_PROMPT = 'You are a professional town planning consultant writing detailed, accurate reports.'
 
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
@@ -562,7 +434,7 @@ Write a professional, detailed section for this planning report. The content sho
 
 Write the section content now:`
 
-        const generatedContent = await generateSectionContent(prompt, llm_provider, llm_config)
+        const { content: generatedContent } = await generateText(prompt, llm_provider, { ...llm_config, system: SYSTEM_PROMPT })
 
         // Store generated content
         const { error: updateError } = await supabase
@@ -740,6 +612,7 @@ Write the section content now:`
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { generateEmbedding, getEmbeddingModelId } from '../_shared/llm.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -785,7 +658,7 @@ serve(async (req) => {
     for (const chunk of chunks) {
       try {
         // Generate embedding
-        const embedding = await generateEmbedding(chunk.content, embedding_provider)
+        const { embedding } = await generateEmbedding(chunk.content, embedding_provider)
         
         // Store embedding
         const { error: embedError } = await supabase
@@ -794,7 +667,7 @@ serve(async (req) => {
             chunk_id: chunk.id,
             notebook_id: chunk.notebook_id,
             embedding: `[${embedding.join(',')}]`,
-            embedding_model: `${embedding_provider}-${getModelName(embedding_provider)}`,
+            embedding_model: getEmbeddingModelId(embedding_provider),
             embedding_dimension: embedding.length,
             metadata: {
               section_title: chunk.section_title,
@@ -809,7 +682,7 @@ serve(async (req) => {
           .from('document_chunks')
           .update({
             embedding_generated: true,
-            embedding_model: `${embedding_provider}-${getModelName(embedding_provider)}`,
+            embedding_model: getEmbeddingModelId(embedding_provider),
             embedding_generated_at: new Date().toISOString()
           })
           .eq('id', chunk.id)
@@ -860,67 +733,3 @@ serve(async (req) => {
     )
   }
 })
-
-function getModelName(provider: string): string {
-  switch (provider) {
-    case 'ollama': return 'nomic-embed-text'
-    case 'openai': return 'text-embedding-3-small'
-    case 'gemini': return 'embedding-001'
-    default: return 'unknown'
-  }
-}
-
-// Reuse the generateEmbedding function from batch-vector-search
-async function generateEmbedding(text: string, provider: string = 'ollama') {
-  // Implementation same as in batch-vector-search
-  switch (provider) {
-    case 'ollama':
-      const ollamaUrl = `${Deno.env.get('OLLAMA_BASE_URL') || 'http://localhost:11434'}/api/embeddings`
-      const ollamaResponse = await fetch(ollamaUrl, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          model: 'nomic-embed-text:latest',
-          prompt: text
-        })
-      })
-      if (!ollamaResponse.ok) throw new Error('Ollama embedding failed')
-      const ollamaData = await ollamaResponse.json()
-      return ollamaData.embedding
-
-    case 'openai':
-      const openaiResponse = await fetch('https://api.openai.com/v1/embeddings', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${Deno.env.get('OPENAI_API_KEY')}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          model: 'text-embedding-3-small',
-          input: text
-        })
-      })
-      if (!openaiResponse.ok) throw new Error('OpenAI embedding failed')
-      const openaiData = await openaiResponse.json()
-      return openaiData.data[0].embedding
-
-    case 'gemini':
-      const geminiResponse = await fetch(
-        `https://generativelanguage.googleapis.com/v1beta/models/embedding-001:embedContent?key=${Deno.env.get('GEMINI_API_KEY')}`,
-        {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            model: 'models/embedding-001',
-            content: { parts: [{ text }] }
-          })
-        }
-      )
-      if (!geminiResponse.ok) throw new Error('Gemini embedding failed')
-      const geminiData = await geminiResponse.json()
-      return geminiData.embedding.values
-
-    default:
-      throw new Error(`Unsupported embedding provider: ${provider}`)
-  }
-}
\ No newline at end of file
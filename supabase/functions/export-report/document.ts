@@ -0,0 +1,273 @@
+// Format-neutral model of an assembled report, built from its completed
+// report_sections, that the DOCX and PDF renderers lay out
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { formatReference, loadReferences, numberCitations } from '../_shared/citations.ts'
+
+export interface Run {
+  text: string
+  bold?: boolean
+  italic?: boolean
+}
+
+export type Block =
+  | { type: 'paragraph'; runs: Run[] }
+  | { type: 'bullet'; runs: Run[] }
+  | { type: 'numbered'; marker: string; runs: Run[] }
+  // A heading the LLM wrote inside a section's text
+  | { type: 'heading'; text: string }
+  // A Markdown table: rows of cells, the first row being the header
+  | { type: 'table'; rows: Run[][][] }
+
+export interface DocumentSection {
+  // "2" for a section, "2.1" for one of its subsections
+  number: string
+  title: string
+  level: 1 | 2
+  blocks: Block[]
+}
+
+export interface Letterhead {
+  organisation_name: string | null
+  address: string | null
+  contact_details: string | null
+  accent_color: string
+  header_text: string | null
+  footer_text: string | null
+  include_cover_page: boolean
+  cover_note: string | null
+  logo: { bytes: Uint8Array; type: 'png' | 'jpg' } | null
+}
+
+export interface ReportDocument {
+  title: string
+  topic: string
+  address: string | null
+  clientName: string | null
+  councilArea: string | null
+  date: string
+  letterhead: Letterhead
+  sections: DocumentSection[]
+}
+
+const DEFAULT_ACCENT_COLOR = '#1f3a5f'
+
+// Bold (**text**) and italic (*text* or _text_); inline code loses its backticks
+export function parseInline(text: string): Run[] {
+  const runs: Run[] = []
+  const pattern = /\*\*(.+?)\*\*|\*(.+?)\*|_(.+?)_/g
+  let last = 0
+  let match: RegExpExecArray | null
+
+  const plain = text.replace(/`([^`]+)`/g, '$1')
+  while ((match = pattern.exec(plain)) !== null) {
+    if (match.index > last) runs.push({ text: plain.slice(last, match.index) })
+    if (match[1]) runs.push({ text: match[1], bold: true })
+    else runs.push({ text: match[2] ?? match[3], italic: true })
+    last = match.index + match[0].length
+  }
+  if (last < plain.length) runs.push({ text: plain.slice(last) })
+
+  return runs.filter(run => run.text.length > 0)
+}
+
+// "| a | b |" -> ['a', 'b']
+function tableCells(line: string) {
+  return line.replace(/^\|/, '').replace(/\|$/, '').split('|').map(cell => cell.trim())
+}
+
+// Paragraphs, bullet and numbered lists, tables and headings; anything else is text
+export function parseBlocks(markdown: string): Block[] {
+  const blocks: Block[] = []
+  let paragraph: string[] = []
+  let table: string[][] = []
+
+  const flush = () => {
+    if (paragraph.length) blocks.push({ type: 'paragraph', runs: parseInline(paragraph.join(' ')) })
+    paragraph = []
+  }
+
+  // Rows are padded or cut to the header's number of columns
+  const flushTable = () => {
+    if (table.length) {
+      const columns = table[0].length
+      blocks.push({
+        type: 'table',
+        rows: table.map(row => Array.from({ length: columns }, (_, i) => parseInline(row[i] ?? '')))
+      })
+    }
+    table = []
+  }
+
+  for (const rawLine of markdown.replace(/\r\n/g, '\n').split('\n')) {
+    const line = rawLine.trim()
+    let match: RegExpMatchArray | null
+
+    if (!line.startsWith('|')) flushTable()
+
+    if (line.startsWith('|')) {
+      flush()
+      // Skip the |---|:---:| line under the header
+      if (!/^\|[\s:|-]+$/.test(line)) table.push(tableCells(line))
+    } else if (!line || /^(-{3,}|\*{3,})$/.test(line)) {
+      flush()
+    } else if ((match = line.match(/^#{1,6}\s+(.*)$/))) {
+      flush()
+      blocks.push({ type: 'heading', text: match[1].replace(/\*\*/g, '') })
+    } else if ((match = line.match(/^[-*•]\s+(.*)$/))) {
+      flush()
+      blocks.push({ type: 'bullet', runs: parseInline(match[1]) })
+    } else if ((match = line.match(/^(\d+[.)])\s+(.*)$/))) {
+      flush()
+      blocks.push({ type: 'numbered', marker: match[1], runs: parseInline(match[2]) })
+    } else {
+      paragraph.push(line)
+    }
+  }
+  flush()
+  flushTable()
+
+  return blocks
+}
+
+export function plainText(runs: Run[]) {
+  return runs.map(run => run.text).join('')
+}
+
+// Numbers sections 1, 2, ... and their subsections 1.1, 1.2, ... in report
+// order. Sections without generated content are left out.
+export function buildSections(rows: {
+  section_name: string
+  subsection_name: string | null
+  generated_content: string | null
+}[]): DocumentSection[] {
+  const sections: DocumentSection[] = []
+  let current: string | null = null
+  let sectionNumber = 0
+  let subsectionNumber = 0
+
+  for (const row of rows) {
+    if (!row.generated_content && row.subsection_name) continue
+
+    if (row.section_name !== current) {
+      const hasContent = rows.some(r => r.section_name === row.section_name && r.generated_content)
+      if (!hasContent) continue
+
+      current = row.section_name
+      sectionNumber++
+      subsectionNumber = 0
+      sections.push({ number: `${sectionNumber}`, title: row.section_name, level: 1, blocks: [] })
+    }
+
+    if (!row.subsection_name) {
+      sections[sections.length - 1].blocks = parseBlocks(row.generated_content || '')
+    } else {
+      subsectionNumber++
+      sections.push({
+        number: `${sectionNumber}.${subsectionNumber}`,
+        title: row.subsection_name,
+        level: 2,
+        blocks: parseBlocks(row.generated_content || '')
+      })
+    }
+  }
+
+  return sections
+}
+
+async function loadLetterhead(supabase: SupabaseClient, userId: string, letterheadId: string | null): Promise<Letterhead> {
+  // The report's letterhead, or the user's default
+  let query = supabase.from('report_letterheads').select('*').eq('user_id', userId)
+  query = letterheadId ? query.eq('id', letterheadId) : query.eq('is_default', true)
+  const { data: row } = await query.maybeSingle()
+
+  let logo: Letterhead['logo'] = null
+  if (row?.logo_path) {
+    const { data: file, error } = await supabase.storage.from('reports').download(row.logo_path)
+    if (error) {
+      console.error('Failed to load letterhead logo:', error)
+    } else {
+      logo = {
+        bytes: new Uint8Array(await file.arrayBuffer()),
+        type: /\.png$/i.test(row.logo_path) ? 'png' : 'jpg'
+      }
+    }
+  }
+
+  return {
+    organisation_name: row?.organisation_name ?? null,
+    address: row?.address ?? null,
+    contact_details: row?.contact_details ?? null,
+    accent_color: row?.accent_color || DEFAULT_ACCENT_COLOR,
+    header_text: row?.header_text ?? null,
+    footer_text: row?.footer_text ?? null,
+    include_cover_page: row?.include_cover_page ?? true,
+    cover_note: row?.cover_note ?? null,
+    logo
+  }
+}
+
+export async function loadReportDocument(supabase: SupabaseClient, reportGen: {
+  id: string
+  user_id: string
+  notebook_id: string | null
+  title: string
+  topic: string
+  address: string | null
+  completed_at: string | null
+  letterhead_id: string | null
+}): Promise<ReportDocument> {
+  const [sectionsResult, notebookResult, letterhead] = await Promise.all([
+    supabase
+      .from('report_sections')
+      .select('section_name, subsection_name, generated_content, edited_content, chunks_retrieved, status')
+      .eq('report_generation_id', reportGen.id)
+      .order('section_order'),
+    supabase
+      .from('notebooks')
+      .select('client_name, council_area')
+      .eq('id', reportGen.notebook_id)
+      .maybeSingle(),
+    loadLetterhead(supabase, reportGen.user_id, reportGen.letterhead_id)
+  ])
+
+  if (sectionsResult.error) throw sectionsResult.error
+
+  // A section's hand-edited text takes the place of its AI draft
+  const completed = (sectionsResult.data || [])
+    .filter(row => row.status === 'completed')
+    .map(row => ({ ...row, generated_content: row.edited_content ?? row.generated_content }))
+  const { contents, citedChunkIds } = numberCitations(completed)
+  const sections = buildSections(completed.map((row, i) => ({ ...row, generated_content: contents[i] })))
+  if (sections.length === 0) throw new Error('The report has no completed sections to export')
+
+  // The references list closes the report, numbered like the other sections
+  const references = await loadReferences(supabase, citedChunkIds)
+  if (references.length) {
+    sections.push({
+      number: `${sections.filter(section => section.level === 1).length + 1}`,
+      title: 'References',
+      level: 1,
+      blocks: references.map(reference => ({
+        type: 'numbered',
+        marker: `[${reference.number}]`,
+        runs: [{ text: formatReference(reference) }]
+      }))
+    })
+  }
+
+  return {
+    title: reportGen.title,
+    topic: reportGen.topic,
+    address: reportGen.address,
+    clientName: notebookResult.data?.client_name ?? null,
+    councilArea: notebookResult.data?.council_area ?? null,
+    date: new Date(reportGen.completed_at || Date.now()).toLocaleDateString('en-AU', {
+      day: 'numeric',
+      month: 'long',
+      year: 'numeric'
+    }),
+    letterhead,
+    sections
+  }
+}
@@ -0,0 +1,178 @@
+// Renders a ReportDocument as a Word document: cover page, letterhead,
+// headers and footers with page numbers, a table of contents Word fills in
+// on open, and numbered headings
+
+import {
+  AlignmentType,
+  BorderStyle,
+  Document,
+  Footer,
+  Header,
+  HeadingLevel,
+  ImageRun,
+  Packer,
+  PageNumber,
+  Paragraph,
+  Table,
+  TableCell,
+  TableOfContents,
+  TableRow,
+  TextRun,
+  WidthType,
+} from 'https://esm.sh/docx@8.5.0'
+import { Block, ReportDocument, Run } from './document.ts'
+
+const FONT = 'Calibri'
+
+function textRuns(runs: Run[]) {
+  return runs.map(run => new TextRun({ text: run.text, bold: run.bold, italics: run.italic }))
+}
+
+function blockContent(block: Block): (Paragraph | Table)[] {
+  switch (block.type) {
+    case 'heading':
+      return [new Paragraph({ heading: HeadingLevel.HEADING_3, children: [new TextRun(block.text)] })]
+    case 'bullet':
+      return [new Paragraph({ bullet: { level: 0 }, children: textRuns(block.runs) })]
+    case 'numbered':
+      return [new Paragraph({
+        indent: { left: 720, hanging: 360 },
+        children: [new TextRun(`${block.marker}\t`), ...textRuns(block.runs)]
+      })]
+    case 'table':
+      return [
+        new Table({
+          width: { size: 100, type: WidthType.PERCENTAGE },
+          rows: block.rows.map((row, index) => new TableRow({
+            // The header row repeats when the table runs onto another page
+            tableHeader: index === 0,
+            children: row.map(cell => new TableCell({
+              shading: index === 0 ? { fill: 'EEEEEE' } : undefined,
+              margins: { top: 60, bottom: 60, left: 100, right: 100 },
+              children: [new Paragraph({
+                children: textRuns(index === 0 ? cell.map(run => ({ ...run, bold: true })) : cell)
+              })]
+            }))
+          }))
+        }),
+        new Paragraph({ spacing: { after: 160 }, children: [] })
+      ]
+    default:
+      return [new Paragraph({ spacing: { after: 160 }, alignment: AlignmentType.JUSTIFIED, children: textRuns(block.runs) })]
+  }
+}
+
+function letterheadParagraphs(doc: ReportDocument, accent: string) {
+  const { letterhead } = doc
+  const paragraphs: Paragraph[] = []
+
+  if (letterhead.logo) {
+    paragraphs.push(new Paragraph({
+      children: [new ImageRun({ data: letterhead.logo.bytes, transformation: { width: 160, height: 60 } })]
+    }))
+  }
+  if (letterhead.organisation_name) {
+    paragraphs.push(new Paragraph({
+      children: [new TextRun({ text: letterhead.organisation_name, bold: true, size: 28, color: accent })]
+    }))
+  }
+  for (const line of [letterhead.address, letterhead.contact_details]) {
+    if (line) {
+      paragraphs.push(new Paragraph({ children: [new TextRun({ text: line, size: 18, color: '666666' })] }))
+    }
+  }
+
+  return paragraphs
+}
+
+function coverPage(doc: ReportDocument, accent: string) {
+  const details = [
+    doc.address && `Site: ${doc.address}`,
+    doc.councilArea && `Council: ${doc.councilArea}`,
+    doc.clientName && `Prepared for: ${doc.clientName}`,
+    doc.letterhead.organisation_name && `Prepared by: ${doc.letterhead.organisation_name}`,
+    `Date: ${doc.date}`
+  ].filter(Boolean) as string[]
+
+  return [
+    ...letterheadParagraphs(doc, accent),
+    new Paragraph({ spacing: { before: 2400 }, children: [] }),
+    new Paragraph({
+      border: { bottom: { style: BorderStyle.SINGLE, size: 12, color: accent, space: 8 } },
+      children: [new TextRun({ text: doc.title, bold: true, size: 56, color: accent })]
+    }),
+    new Paragraph({ spacing: { after: 600 }, children: [new TextRun({ text: doc.topic, size: 28, color: '444444' })] }),
+    ...details.map(line => new Paragraph({ spacing: { after: 80 }, children: [new TextRun({ text: line, size: 22 })] })),
+    ...(doc.letterhead.cover_note
+      ? [new Paragraph({ spacing: { before: 1200 }, children: [new TextRun({ text: doc.letterhead.cover_note, italics: true, size: 18, color: '666666' })] })]
+      : [])
+  ]
+}
+
+export async function renderDocx(doc: ReportDocument): Promise<Uint8Array> {
+  const accent = doc.letterhead.accent_color.replace('#', '')
+  const headerText = doc.letterhead.header_text || [doc.letterhead.organisation_name, doc.title].filter(Boolean).join(' | ')
+
+  const body: (Paragraph | Table)[] = []
+  for (const section of doc.sections) {
+    body.push(new Paragraph({
+      heading: section.level === 1 ? HeadingLevel.HEADING_1 : HeadingLevel.HEADING_2,
+      // Each top-level section starts on a new page
+      pageBreakBefore: section.level === 1,
+      children: [new TextRun(`${section.number}  ${section.title}`)]
+    }))
+    body.push(...section.blocks.flatMap(blockContent))
+  }
+
+  const document = new Document({
+    creator: doc.letterhead.organisation_name || 'Town Planner',
+    title: doc.title,
+    // Word asks to update fields on open, which fills in the table of contents
+    features: { updateFields: true },
+    styles: {
+      default: { document: { run: { font: FONT, size: 22 } } },
+      paragraphStyles: [
+        { id: 'Heading1', name: 'Heading 1', basedOn: 'Normal', next: 'Normal', run: { bold: true, size: 32, color: accent }, paragraph: { spacing: { before: 240, after: 160 } } },
+        { id: 'Heading2', name: 'Heading 2', basedOn: 'Normal', next: 'Normal', run: { bold: true, size: 26, color: accent }, paragraph: { spacing: { before: 200, after: 120 } } },
+        { id: 'Heading3', name: 'Heading 3', basedOn: 'Normal', next: 'Normal', run: { bold: true, size: 22 }, paragraph: { spacing: { before: 160, after: 80 } } }
+      ]
+    },
+    sections: [{
+      // The cover page gets its own (empty) header and footer
+      properties: { titlePage: doc.letterhead.include_cover_page },
+      headers: {
+        first: new Header({ children: [] }),
+        default: new Header({
+          children: [new Paragraph({
+            alignment: AlignmentType.RIGHT,
+            border: { bottom: { style: BorderStyle.SINGLE, size: 6, color: accent, space: 4 } },
+            children: [new TextRun({ text: headerText, size: 16, color: '666666' })]
+          })]
+        })
+      },
+      footers: {
+        first: new Footer({ children: [] }),
+        default: new Footer({
+          children: [new Paragraph({
+            tabStops: [{ type: 'right', position: 9000 }],
+            children: [
+              new TextRun({ text: doc.letterhead.footer_text || doc.date, size: 16, color: '666666' }),
+              new TextRun({ children: ['\tPage ', PageNumber.CURRENT, ' of ', PageNumber.TOTAL_PAGES], size: 16, color: '666666' })
+            ]
+          })]
+        })
+      },
+      children: [
+        ...(doc.letterhead.include_cover_page ? coverPage(doc, accent) : letterheadParagraphs(doc, accent)),
+        new Paragraph({
+          pageBreakBefore: doc.letterhead.include_cover_page,
+          children: [new TextRun({ text: 'Table of Contents', bold: true, size: 32, color: accent })]
+        }),
+        new TableOfContents('Table of Contents', { hyperlink: true, headingStyleRange: '1-2' }),
+        ...body
+      ]
+    }]
+  })
+
+  return new Uint8Array(await (await Packer.toBlob(document)).arrayBuffer())
+}
@@ -0,0 +1,144 @@
+// =====================================================
+// Edge Function: export-report
+// File: supabase/functions/export-report/index.ts
+// =====================================================
+//
+// Renders a report's completed sections as a Word document or PDF with the
+// report's letterhead (or the user's default one) and stores it in the
+// reports bucket next to the markdown. Passing letterhead_id switches the
+// report to that letterhead first; null goes back to the default.
+//
+// Request body: { report_generation_id, format: 'docx' | 'pdf', letterhead_id? }
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { loadReportDocument } from './document.ts'
+import { renderDocx } from './docx.ts'
+import { renderPdf } from './pdf.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const CONTENT_TYPES = {
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  pdf: 'application/pdf'
+}
+
+type ExportFormat = keyof typeof CONTENT_TYPES
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    const { report_generation_id, format, letterhead_id } = await req.json()
+
+    if (!report_generation_id || !(format in CONTENT_TYPES)) {
+      throw new Error('Missing required parameters: report_generation_id, format (docx or pdf)')
+    }
+
+    // Get user ID from auth header
+    const authHeader = req.headers.get('authorization')
+    const token = authHeader?.replace('Bearer ', '')
+    const { data: { user }, error: userError } = await supabase.auth.getUser(token!)
+
+    if (userError || !user) throw new Error('Unauthorized')
+
+    const { data: reportGen, error: reportError } = await supabase
+      .from('report_generations')
+      .select('id, user_id, notebook_id, title, topic, address, status, completed_at, letterhead_id')
+      .eq('id', report_generation_id)
+      .eq('user_id', user.id)
+      .single()
+
+    if (reportError) throw reportError
+    if (reportGen.status !== 'completed') throw new Error('Only completed reports can be exported')
+
+    if (letterhead_id !== undefined && letterhead_id !== reportGen.letterhead_id) {
+      if (letterhead_id) {
+        const { data: letterhead } = await supabase
+          .from('report_letterheads')
+          .select('id')
+          .eq('id', letterhead_id)
+          .eq('user_id', user.id)
+          .maybeSingle()
+
+        if (!letterhead) throw new Error('Letterhead not found')
+      }
+
+      const { error: letterheadError } = await supabase
+        .from('report_generations')
+        .update({ letterhead_id })
+        .eq('id', reportGen.id)
+
+      if (letterheadError) throw letterheadError
+      reportGen.letterhead_id = letterhead_id
+    }
+
+    console.log(`Exporting report ${reportGen.id} as ${format}`)
+
+    const document = await loadReportDocument(supabase, reportGen)
+    const bytes = format === 'docx' ? await renderDocx(document) : await renderPdf(document)
+
+    // Stored under the user's folder so the reports bucket policies let them download it
+    const exportFormat = format as ExportFormat
+    const filePath = `${user.id}/${reportGen.id}.${exportFormat}`
+    const { error: uploadError } = await supabase.storage
+      .from('reports')
+      .upload(filePath, new Blob([bytes], { type: CONTENT_TYPES[exportFormat] }), {
+        contentType: CONTENT_TYPES[exportFormat],
+        upsert: true
+      })
+
+    if (uploadError) throw uploadError
+
+    // Merged on the server, alongside other formats' exports and the usage
+    // the report pipeline records
+    const { error: metadataError } = await supabase.rpc('merge_report_metadata', {
+      target_report_id: reportGen.id,
+      patch: {
+        exports: {
+          [exportFormat]: { file_path: filePath, file_size: bytes.length, exported_at: new Date().toISOString() }
+        }
+      }
+    })
+
+    if (metadataError) throw metadataError
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        report_generation_id: reportGen.id,
+        format: exportFormat,
+        file_path: filePath,
+        file_size: bytes.length
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200,
+      }
+    )
+
+  } catch (error) {
+    console.error('Error exporting report:', error)
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error.message
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: error.message === 'Unauthorized' ? 401 : 500,
+      }
+    )
+  }
+})
@@ -0,0 +1,387 @@
+// Renders a ReportDocument as an A4 PDF: cover page, letterhead, headers and
+// footers with page numbers, a table of contents with page references, and
+// numbered headings
+
+import { PDFDocument, PDFFont, PDFImage, PDFPage, StandardFonts, rgb } from 'https://esm.sh/pdf-lib@1.17.1'
+import { Block, ReportDocument, Run } from './document.ts'
+
+const PAGE_WIDTH = 595.28
+const PAGE_HEIGHT = 841.89
+const MARGIN = 56
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2
+const BODY_TOP = PAGE_HEIGHT - MARGIN - 24
+const BODY_BOTTOM = MARGIN + 24
+const BODY_SIZE = 10.5
+const LINE_GAP = 1.45
+const TOC_LINE_HEIGHT = 18
+
+const GREY = rgb(0.4, 0.4, 0.4)
+const BLACK = rgb(0.1, 0.1, 0.1)
+const LIGHT_GREY = rgb(0.93, 0.93, 0.93)
+const CELL_PADDING = 4
+
+interface Fonts {
+  regular: PDFFont
+  bold: PDFFont
+  italic: PDFFont
+  boldItalic: PDFFont
+}
+
+interface Segment {
+  text: string
+  font: PDFFont
+}
+
+// ASCII for typography and symbols outside Latin-1 that planning reports use
+// (setback and height limits, areas, ratios)
+const ASCII_SUBSTITUTES: Record<string, string> = {
+  '‘': "'", '’': "'", '‚': "'", '′': "'",
+  '“': '"', '”': '"', '„': '"', '″': '"',
+  '‐': '-', '‑': '-', '‒': '-', '–': '-', '—': '-', '−': '-',
+  '…': '...', '•': '-', '●': '-', '◦': '-', '▪': '-',
+  '≤': '<=', '≥': '>=', '≠': '!=', '≈': '~', '∼': '~',
+  '→': '->', '←': '<-', '↔': '<->', '⇒': '=>',
+  '√': 'sqrt', '∞': 'infinity', '∆': 'delta', 'Δ': 'delta', '✓': 'yes', '✔': 'yes', '✗': 'no', '✘': 'no',
+  '⁰': '^0', '⁴': '^4', '⁵': '^5', '⁶': '^6', '⁷': '^7', '⁸': '^8', '⁹': '^9',
+  '₀': '0', '₁': '1', '₂': '2', '₃': '3', '₄': '4', '₅': '5', '₆': '6', '₇': '7', '₈': '8', '₉': '9',
+  '€': 'EUR', '™': '(TM)'
+}
+
+// The standard fonts only cover WinAnsi. Latin-1 (°, ², ±, ×, ½, ...) is drawn
+// as is and the rest is spelt out in ASCII; anything unknown shows as "?" so
+// the export neither fails nor silently loses a character
+function sanitize(text: string) {
+  return text.replace(
+    /[^\x20-\x7E\xA0-\xFF]/gu,
+    char => ASCII_SUBSTITUTES[char] ?? (/\s/.test(char) ? ' ' : '?')
+  )
+}
+
+function hexColor(hex: string) {
+  const value = parseInt(hex.replace('#', ''), 16)
+  return rgb(((value >> 16) & 255) / 255, ((value >> 8) & 255) / 255, (value & 255) / 255)
+}
+
+function runFont(fonts: Fonts, run: Run) {
+  if (run.bold && run.italic) return fonts.boldItalic
+  if (run.bold) return fonts.bold
+  if (run.italic) return fonts.italic
+  return fonts.regular
+}
+
+// Greedy word wrap across runs of different fonts
+function wrapRuns(runs: Run[], fonts: Fonts, size: number, width: number): Segment[][] {
+  const lines: Segment[][] = [[]]
+  let lineWidth = 0
+
+  for (const run of runs) {
+    const font = runFont(fonts, run)
+    for (const word of sanitize(run.text).split(/(\s+)/)) {
+      if (!word) continue
+      const isSpace = /^\s+$/.test(word)
+      const text = isSpace ? ' ' : word
+      const wordWidth = font.widthOfTextAtSize(text, size)
+
+      if (!isSpace && lineWidth + wordWidth > width && lineWidth > 0) {
+        lines.push([])
+        lineWidth = 0
+      }
+      if (isSpace && lineWidth === 0) continue
+
+      lines[lines.length - 1].push({ text, font })
+      lineWidth += wordWidth
+    }
+  }
+
+  return lines.filter(line => line.length > 0)
+}
+
+class PdfWriter {
+  pages: PDFPage[] = []
+  y = BODY_TOP
+
+  constructor(private pdf: PDFDocument, private fonts: Fonts) {}
+
+  get page() {
+    return this.pages[this.pages.length - 1]
+  }
+
+  addPage() {
+    this.pages.push(this.pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]))
+    this.y = BODY_TOP
+    return this.page
+  }
+
+  ensureSpace(height: number) {
+    if (this.y - height < BODY_BOTTOM) this.addPage()
+  }
+
+  gap(height: number) {
+    this.y -= height
+  }
+
+  lines(runs: Run[], options: { size?: number; indent?: number; color?: ReturnType<typeof rgb> } = {}) {
+    const size = options.size ?? BODY_SIZE
+    const indent = options.indent ?? 0
+    const lineHeight = size * LINE_GAP
+
+    for (const line of wrapRuns(runs, this.fonts, size, CONTENT_WIDTH - indent)) {
+      this.ensureSpace(lineHeight)
+      this.y -= lineHeight
+      let x = MARGIN + indent
+      for (const segment of line) {
+        this.page.drawText(segment.text, { x, y: this.y, size, font: segment.font, color: options.color ?? BLACK })
+        x += segment.font.widthOfTextAtSize(segment.text, size)
+      }
+    }
+  }
+
+  // Equal-width columns with a shaded header row; a row is kept on one page
+  table(rows: Run[][][]) {
+    const size = BODY_SIZE - 1
+    const lineHeight = size * LINE_GAP
+    const columnWidth = CONTENT_WIDTH / rows[0].length
+
+    rows.forEach((row, index) => {
+      const cells = row.map(cell =>
+        wrapRuns(index === 0 ? cell.map(run => ({ ...run, bold: true })) : cell, this.fonts, size, columnWidth - CELL_PADDING * 2)
+      )
+      const height = Math.max(1, ...cells.map(lines => lines.length)) * lineHeight + CELL_PADDING * 2
+      this.ensureSpace(height)
+      const top = this.y
+
+      cells.forEach((lines, column) => {
+        const x = MARGIN + column * columnWidth
+        this.page.drawRectangle({
+          x,
+          y: top - height,
+          width: columnWidth,
+          height,
+          borderColor: GREY,
+          borderWidth: 0.5,
+          color: index === 0 ? LIGHT_GREY : undefined
+        })
+        lines.forEach((line, lineIndex) => {
+          let textX = x + CELL_PADDING
+          const y = top - CELL_PADDING - lineIndex * lineHeight - size
+          for (const segment of line) {
+            this.page.drawText(segment.text, { x: textX, y, size, font: segment.font, color: BLACK })
+            textX += segment.font.widthOfTextAtSize(segment.text, size)
+          }
+        })
+      })
+
+      this.y = top - height
+    })
+  }
+
+  block(block: Block) {
+    switch (block.type) {
+      case 'heading':
+        this.gap(6)
+        this.ensureSpace(BODY_SIZE * 4)
+        this.lines([{ text: block.text, bold: true }], { size: BODY_SIZE + 1 })
+        this.gap(2)
+        break
+      case 'bullet':
+      case 'numbered': {
+        const marker = block.type === 'bullet' ? '-' : block.marker
+        this.ensureSpace(BODY_SIZE * LINE_GAP)
+        this.page.drawText(marker, {
+          x: MARGIN + 8,
+          y: this.y - BODY_SIZE * LINE_GAP,
+          size: BODY_SIZE,
+          font: this.fonts.regular,
+          color: BLACK
+        })
+        this.lines(block.runs, { indent: 30 })
+        this.gap(2)
+        break
+      }
+      case 'table':
+        this.gap(4)
+        this.table(block.rows)
+        this.gap(BODY_SIZE * 0.8)
+        break
+      default:
+        this.lines(block.runs)
+        this.gap(BODY_SIZE * 0.8)
+    }
+  }
+}
+
+function drawLetterhead(page: PDFPage, doc: ReportDocument, fonts: Fonts, logo: PDFImage | null, top: number) {
+  const accent = hexColor(doc.letterhead.accent_color)
+  let y = top
+
+  if (logo) {
+    const scaled = logo.scaleToFit(160, 60)
+    y -= scaled.height
+    page.drawImage(logo, { x: MARGIN, y, width: scaled.width, height: scaled.height })
+    y -= 12
+  }
+  if (doc.letterhead.organisation_name) {
+    y -= 16
+    page.drawText(sanitize(doc.letterhead.organisation_name), { x: MARGIN, y, size: 14, font: fonts.bold, color: accent })
+  }
+  for (const line of [doc.letterhead.address, doc.letterhead.contact_details]) {
+    if (!line) continue
+    y -= 13
+    page.drawText(sanitize(line), { x: MARGIN, y, size: 9, font: fonts.regular, color: GREY })
+  }
+
+  return y
+}
+
+function drawCover(writer: PdfWriter, doc: ReportDocument, fonts: Fonts, logo: PDFImage | null) {
+  const page = writer.addPage()
+  const accent = hexColor(doc.letterhead.accent_color)
+  drawLetterhead(page, doc, fonts, logo, PAGE_HEIGHT - MARGIN)
+
+  writer.y = PAGE_HEIGHT * 0.6
+  writer.lines([{ text: doc.title, bold: true }], { size: 26, color: accent })
+  writer.gap(8)
+  page.drawLine({
+    start: { x: MARGIN, y: writer.y },
+    end: { x: PAGE_WIDTH - MARGIN, y: writer.y },
+    thickness: 1.5,
+    color: accent
+  })
+  writer.gap(8)
+  writer.lines([{ text: doc.topic }], { size: 14, color: GREY })
+  writer.gap(24)
+
+  const details = [
+    doc.address && `Site: ${doc.address}`,
+    doc.councilArea && `Council: ${doc.councilArea}`,
+    doc.clientName && `Prepared for: ${doc.clientName}`,
+    doc.letterhead.organisation_name && `Prepared by: ${doc.letterhead.organisation_name}`,
+    `Date: ${doc.date}`
+  ].filter(Boolean) as string[]
+  for (const line of details) writer.lines([{ text: line }], { size: 11 })
+
+  if (doc.letterhead.cover_note) {
+    writer.y = Math.min(writer.y - 24, MARGIN + 120)
+    writer.lines([{ text: doc.letterhead.cover_note, italic: true }], { size: 9, color: GREY })
+  }
+}
+
+function drawToc(pages: PDFPage[], top: number, doc: ReportDocument, fonts: Fonts, headingPages: number[]) {
+  const accent = hexColor(doc.letterhead.accent_color)
+  let pageIndex = 0
+  let y = top
+
+  pages[0].drawText('Table of Contents', { x: MARGIN, y: y - 20, size: 18, font: fonts.bold, color: accent })
+  y -= 44
+
+  doc.sections.forEach((section, index) => {
+    if (y - TOC_LINE_HEIGHT < BODY_BOTTOM) {
+      pageIndex++
+      y = BODY_TOP
+    }
+    y -= TOC_LINE_HEIGHT
+
+    const page = pages[pageIndex]
+    const font = section.level === 1 ? fonts.bold : fonts.regular
+    const indent = section.level === 1 ? 0 : 18
+    const pageLabel = `${headingPages[index]}`
+    const labelWidth = font.widthOfTextAtSize(pageLabel, BODY_SIZE)
+
+    let title = sanitize(`${section.number}  ${section.title}`)
+    while (title.length > 4 && font.widthOfTextAtSize(title, BODY_SIZE) > CONTENT_WIDTH - indent - labelWidth - 24) {
+      title = `${title.slice(0, -4)}...`
+    }
+
+    page.drawText(title, { x: MARGIN + indent, y, size: BODY_SIZE, font, color: BLACK })
+    page.drawText(pageLabel, { x: PAGE_WIDTH - MARGIN - labelWidth, y, size: BODY_SIZE, font, color: BLACK })
+  })
+}
+
+function tocPageCount(doc: ReportDocument, top: number) {
+  const firstPage = Math.floor((top - 44 - BODY_BOTTOM) / TOC_LINE_HEIGHT)
+  const otherPages = Math.floor((BODY_TOP - BODY_BOTTOM) / TOC_LINE_HEIGHT)
+  if (doc.sections.length <= firstPage) return 1
+  return 1 + Math.ceil((doc.sections.length - firstPage) / otherPages)
+}
+
+export async function renderPdf(doc: ReportDocument): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create()
+  pdf.setTitle(sanitize(doc.title))
+  pdf.setSubject(sanitize(doc.topic))
+  pdf.setCreator(sanitize(doc.letterhead.organisation_name || 'Town Planner'))
+
+  const fonts: Fonts = {
+    regular: await pdf.embedFont(StandardFonts.Helvetica),
+    bold: await pdf.embedFont(StandardFonts.HelveticaBold),
+    italic: await pdf.embedFont(StandardFonts.HelveticaOblique),
+    boldItalic: await pdf.embedFont(StandardFonts.HelveticaBoldOblique)
+  }
+
+  let logo: PDFImage | null = null
+  if (doc.letterhead.logo) {
+    try {
+      logo = doc.letterhead.logo.type === 'png'
+        ? await pdf.embedPng(doc.letterhead.logo.bytes)
+        : await pdf.embedJpg(doc.letterhead.logo.bytes)
+    } catch (error) {
+      console.error('Failed to embed letterhead logo:', error)
+    }
+  }
+
+  const writer = new PdfWriter(pdf, fonts)
+  if (doc.letterhead.include_cover_page) drawCover(writer, doc, fonts, logo)
+  const firstNumberedPage = writer.pages.length
+
+  // Reserve the contents pages up front; their page references are only
+  // known once the body has been laid out
+  const tocStart = writer.pages.length
+  writer.addPage()
+  // Without a cover page the letterhead sits above the contents
+  const tocTop = doc.letterhead.include_cover_page
+    ? BODY_TOP
+    : drawLetterhead(writer.page, doc, fonts, logo, BODY_TOP) - 16
+  for (let i = 1; i < tocPageCount(doc, tocTop); i++) writer.addPage()
+  const tocPages = writer.pages.slice(tocStart)
+
+  const accent = hexColor(doc.letterhead.accent_color)
+  const headingPages: number[] = []
+  doc.sections.forEach(section => {
+    if (section.level === 1) {
+      writer.addPage()
+    } else {
+      writer.gap(10)
+      writer.ensureSpace(60)
+    }
+    headingPages.push(writer.pages.length - firstNumberedPage)
+    writer.lines([{ text: `${section.number}  ${section.title}`, bold: true }], {
+      size: section.level === 1 ? 16 : 13,
+      color: accent
+    })
+    writer.gap(8)
+    section.blocks.forEach(block => writer.block(block))
+  })
+
+  drawToc(tocPages, tocTop, doc, fonts, headingPages)
+
+  // Headers and footers on every page after the cover
+  const headerText = sanitize(doc.letterhead.header_text || [doc.letterhead.organisation_name, doc.title].filter(Boolean).join(' | '))
+  const footerText = sanitize(doc.letterhead.footer_text || doc.date)
+  const numbered = writer.pages.slice(firstNumberedPage)
+  numbered.forEach((page, index) => {
+    const headerWidth = fonts.regular.widthOfTextAtSize(headerText, 8)
+    page.drawText(headerText, { x: PAGE_WIDTH - MARGIN - headerWidth, y: PAGE_HEIGHT - MARGIN + 4, size: 8, font: fonts.regular, color: GREY })
+    page.drawLine({
+      start: { x: MARGIN, y: PAGE_HEIGHT - MARGIN },
+      end: { x: PAGE_WIDTH - MARGIN, y: PAGE_HEIGHT - MARGIN },
+      thickness: 0.75,
+      color: accent
+    })
+
+    const pageLabel = `Page ${index + 1} of ${numbered.length}`
+    const labelWidth = fonts.regular.widthOfTextAtSize(pageLabel, 8)
+    page.drawText(footerText, { x: MARGIN, y: MARGIN - 12, size: 8, font: fonts.regular, color: GREY })
+    page.drawText(pageLabel, { x: PAGE_WIDTH - MARGIN - labelWidth, y: MARGIN - 12, size: 8, font: fonts.regular, color: GREY })
+  })
+
+  return await pdf.save()
+}
@@ -5,12 +5,40 @@
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { createUsageTracker, generateEmbedding, getEmbeddingModelId, getProviderFromModelId } from '../_shared/llm.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
+// Embedded chunks in the notebook sharing content with the given chunks, by
+// content hash
+async function findEmbeddedChunks(
+  supabase: ReturnType<typeof createClient>,
+  chunks: { id: string; notebook_id: string; content_hash: string | null }[],
+  embeddingModel: string
+): Promise<Map<string, string>> {
+  const embedded = new Map<string, string>()
+  const hashes = [...new Set(chunks.map(chunk => chunk.content_hash).filter(Boolean))] as string[]
+  if (hashes.length === 0) return embedded
+
+  const { data, error } = await supabase
+    .from('document_chunks')
+    .select('id, content_hash')
+    .eq('notebook_id', chunks[0].notebook_id)
+    .eq('embedding_generated', true)
+    .eq('embedding_model', embeddingModel)
+    .in('content_hash', hashes)
+
+  if (error) throw error
+  for (const row of (data || []) as { id: string; content_hash: string }[]) {
+    if (!embedded.has(row.content_hash)) embedded.set(row.content_hash, row.id)
+  }
+
+  return embedded
+}
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response('ok', { headers: corsHeaders })
@@ -26,31 +54,80 @@ serve(async (req) => {
       chunk_ids,
       notebook_id,
       source_id,
-      embedding_provider = 'ollama'
+      embedding_provider: requestedProvider = 'ollama'
     } = await req.json()
 
     if (!chunk_ids || !Array.isArray(chunk_ids)) {
       throw new Error('chunk_ids array is required')
     }
 
-    console.log(`Generating embeddings for ${chunk_ids.length} chunks using ${embedding_provider}`)
+    // A notebook's vectors all come from one model, so once it has embeddings
+    // new chunks are embedded with that model whatever the caller asked for.
+    // The exception is a re-embedding job writing its pending model.
+    let embedding_provider = requestedProvider
+    let isPendingModel = false
+    if (notebook_id) {
+      const { data: notebook } = await supabase
+        .from('notebooks')
+        .select('embedding_model, pending_embedding_model')
+        .eq('id', notebook_id)
+        .single()
+
+      const requestedModel = getEmbeddingModelId(requestedProvider)
+      if (notebook?.pending_embedding_model === requestedModel) {
+        isPendingModel = notebook.embedding_model !== requestedModel
+      } else if (notebook?.embedding_model && notebook.embedding_model !== requestedModel) {
+        embedding_provider = getProviderFromModelId(notebook.embedding_model)
+        console.warn(`Notebook ${notebook_id} uses ${notebook.embedding_model}; ignoring requested provider ${requestedProvider}`)
+      }
+    }
+
+    const embeddingModel = getEmbeddingModelId(embedding_provider)
 
-    // Get chunks
+    console.log(`Generating embeddings for ${chunk_ids.length} chunks using ${embeddingModel}`)
+
+    // Get chunks; headings are only titles and are never embedded
     const { data: chunks, error: chunksError } = await supabase
       .from('document_chunks')
       .select('*')
       .in('id', chunk_ids)
+      .neq('chunk_type', 'heading')
 
     if (chunksError) throw chunksError
 
     let successCount = 0
     let errorCount = 0
+    let reusedCount = 0
+    const usage = createUsageTracker()
+
+    // Chunk with vectors from this model, by content hash: passages repeated
+    // within an upload, or already embedded elsewhere in the notebook, take
+    // the vectors of the first copy instead of being embedded again. Pending
+    // model vectors are left out, as copying would also carry the old model's
+    const embeddedByHash = isPendingModel
+      ? null
+      : await findEmbeddedChunks(supabase, chunks, embeddingModel)
 
     // Process each chunk
     for (const chunk of chunks) {
       try {
+        const originalId = chunk.content_hash ? embeddedByHash?.get(chunk.content_hash) : undefined
+        if (originalId) {
+          const { data: copied, error: copyError } = await supabase.rpc('copy_chunk_embeddings', {
+            from_chunk_id: originalId,
+            to_chunk_id: chunk.id
+          })
+          if (copyError) console.error(`Failed to reuse embeddings for chunk ${chunk.id}:`, copyError)
+          if (copied > 0) {
+            reusedCount++
+            successCount++
+            continue
+          }
+        }
+
         // Generate embedding
-        const embedding = await generateEmbedding(chunk.content, embedding_provider)
+        const { embedding, usage: embeddingUsage } = await generateEmbedding(chunk.content, embedding_provider)
+        usage.add(embeddingUsage)
         
         // Store embedding
         const { error: embedError } = await supabase
@@ -59,25 +136,32 @@ serve(async (req) => {
             chunk_id: chunk.id,
             notebook_id: chunk.notebook_id,
             embedding: `[${embedding.join(',')}]`,
-            embedding_model: `${embedding_provider}-${getModelName(embedding_provider)}`,
+            embedding_model: embeddingModel,
             embedding_dimension: embedding.length,
             metadata: {
               section_title: chunk.section_title,
               chunk_type: chunk.chunk_type
             }
-          })
+          }, { onConflict: 'chunk_id,embedding_model' })
 
         if (embedError) throw embedError
 
-        // Update chunk status
-        await supabase
-          .from('document_chunks')
-          .update({
-            embedding_generated: true,
-            embedding_model: `${embedding_provider}-${getModelName(embedding_provider)}`,
-            embedding_generated_at: new Date().toISOString()
-          })
-          .eq('id', chunk.id)
+        // Update chunk status (the pending model only becomes the chunk's
+        // model when the re-embedding job switches the notebook over)
+        if (!isPendingModel) {
+          await supabase
+            .from('document_chunks')
+            .update({
+              embedding_generated: true,
+              embedding_model: embeddingModel,
+              embedding_generated_at: new Date().toISOString()
+            })
+            .eq('id', chunk.id)
+
+          if (chunk.content_hash && !embeddedByHash?.has(chunk.content_hash)) {
+            embeddedByHash?.set(chunk.content_hash, chunk.id)
+          }
+        }
 
         successCount++
       } catch (error) {
@@ -101,8 +185,11 @@ serve(async (req) => {
         success: true,
         chunks_processed: chunks.length,
         embeddings_generated: successCount,
+        embeddings_reused: reusedCount,
         errors: errorCount,
-        embedding_provider
+        embedding_provider,
+        embedding_model: embeddingModel,
+        usage: usage.total
       }),
       {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -125,67 +212,3 @@ serve(async (req) => {
     )
   }
 })
-
-function getModelName(provider: string): string {
-  switch (provider) {
-    case 'ollama': return 'nomic-embed-text'
-    case 'openai': return 'text-embedding-3-small'
-    case 'gemini': return 'embedding-001'
-    default: return 'unknown'
-  }
-}
-
-// Reuse the generateEmbedding function from batch-vector-search
-async function generateEmbedding(text: string, provider: string = 'ollama') {
-  // Implementation same as in batch-vector-search
-  switch (provider) {
-    case 'ollama':
-      const ollamaUrl = `${Deno.env.get('OLLAMA_BASE_URL') || 'http://localhost:11434'}/api/embeddings`
-      const ollamaResponse = await fetch(ollamaUrl, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          model: 'nomic-embed-text:latest',
-          prompt: text
-        })
-      })
-      if (!ollamaResponse.ok) throw new Error('Ollama embedding failed')
-      const ollamaData = await ollamaResponse.json()
-      return ollamaData.embedding
-
-    case 'openai':
-      const openaiResponse = await fetch('https://api.openai.com/v1/embeddings', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${Deno.env.get('OPENAI_API_KEY')}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          model: 'text-embedding-3-small',
-          input: text
-        })
-      })
-      if (!openaiResponse.ok) throw new Error('OpenAI embedding failed')
-      const openaiData = await openaiResponse.json()
-      return openaiData.data[0].embedding
-
-    case 'gemini':
-      const geminiResponse = await fetch(
-        `https://generativelanguage.googleapis.com/v1beta/models/embedding-001:embedContent?key=${Deno.env.get('GEMINI_API_KEY')}`,
-        {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            model: 'models/embedding-001',
-            content: { parts: [{ text }] }
-          })
-        }
-      )
-      if (!geminiResponse.ok) throw new Error('Gemini embedding failed')
-      const geminiData = await geminiResponse.json()
-      return geminiData.embedding.values
-
-    default:
-      throw new Error(`Unsupported embedding provider: ${provider}`)
-  }
-}
\ No newline at end of file
@@ -11,6 +11,31 @@ const corsHeaders = {
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
+// Fills {topic}, {address} and required input keys in a template's query
+function fillQuery(query: string, values: Record<string, string>) {
+  return query
+    .replace(/\{(\w+)\}/g, (_, key) => values[key] ?? '')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+interface SectionSettings {
+  instructions?: string
+  target_words?: number
+  format?: string
+  depends_on?: string[]
+}
+
+// Writing settings process-report-sections reads from each section's metadata
+function sectionSettings(section: SectionSettings): SectionSettings {
+  return {
+    ...(section.instructions && { instructions: section.instructions }),
+    ...(section.target_words && { target_words: section.target_words }),
+    ...(section.format && { format: section.format }),
+    ...(section.depends_on?.length && { depends_on: section.depends_on })
+  }
+}
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response('ok', { headers: corsHeaders })
@@ -30,7 +55,10 @@ serve(async (req) => {
       additional_context,
       llm_provider = 'ollama',
       llm_config = {},
-      embedding_provider = 'ollama'
+      embedding_provider = 'ollama',
+      search_mode = 'vector',
+      letterhead_id = null,
+      inputs = {}
     } = await req.json()
 
     if (!notebook_id || !template_id || !topic) {
@@ -46,6 +74,24 @@ serve(async (req) => {
     
     if (userError || !user) throw new Error('Unauthorized')
 
+    // Get report template
+    const { data: template, error: templateError } = await supabase
+      .from('report_templates')
+      .select('*')
+      .eq('id', template_id)
+      .single()
+
+    if (templateError) throw templateError
+    // Users can generate from the built-in templates and their own
+    if (template.created_by && template.created_by !== user.id) throw new Error('Template not found')
+
+    // The template's required inputs must all be filled in
+    const requiredInputs: { key: string; label: string }[] = template.structure.required_inputs || []
+    const missingInputs = requiredInputs.filter(input => !String(inputs[input.key] ?? '').trim())
+    if (missingInputs.length) {
+      throw new Error(`Missing required inputs: ${missingInputs.map(input => input.label).join(', ')}`)
+    }
+
     // Create report generation record
     const { data: reportGeneration, error: reportError } = await supabase
       .from('report_generations')
@@ -60,34 +106,39 @@ serve(async (req) => {
         llm_provider,
         llm_model: llm_config.model,
         llm_config,
+        letterhead_id,
         status: 'processing',
-        started_at: new Date().toISOString()
+        started_at: new Date().toISOString(),
+        metadata: {
+          embedding_provider,
+          search_mode,
+          inputs: requiredInputs.map(input => ({ key: input.key, label: input.label, value: String(inputs[input.key]).trim() }))
+        }
       })
       .select()
       .single()
 
     if (reportError) throw reportError
 
-    // Get report template
-    const { data: template, error: templateError } = await supabase
-      .from('report_templates')
-      .select('*')
-      .eq('id', template_id)
-      .single()
-
-    if (templateError) throw templateError
-
     const templateStructure = template.structure.sections
+    const queryValues: Record<string, string> = {
+      topic,
+      address: address ?? '',
+      ...Object.fromEntries(requiredInputs.map(input => [input.key, String(inputs[input.key]).trim()]))
+    }
 
-    // Generate queries for each section
+    // Generate queries for each section, using the template's own query where it has one
     const queries = []
     for (const section of templateStructure) {
       // Main section query
       queries.push({
         section_name: section.name,
         subsection_name: null,
-        query: `${section.title} for ${topic}${address ? ` at ${address}` : ''}${additional_context ? `. Context: ${additional_context}` : ''}`,
-        section_order: section.order * 10
+        query: section.query
+          ? fillQuery(section.query, queryValues)
+          : `${section.title} for ${topic}${address ? ` at ${address}` : ''}${additional_context ? `. Context: ${additional_context}` : ''}`,
+        section_order: section.order * 10,
+        metadata: sectionSettings(section)
       })
 
       // Subsection queries
@@ -96,8 +147,11 @@ serve(async (req) => {
           queries.push({
             section_name: section.name,
             subsection_name: subsection.name,
-            query: `${subsection.title} (under ${section.title}) for ${topic}${address ? ` at ${address}` : ''}`,
-            section_order: section.order * 10 + index + 1
+            query: subsection.query
+              ? fillQuery(subsection.query, queryValues)
+              : `${subsection.title} (under ${section.title}) for ${topic}${address ? ` at ${address}` : ''}`,
+            section_order: section.order * 10 + index + 1,
+            metadata: sectionSettings(subsection)
           })
         })
       }
@@ -113,11 +167,12 @@ serve(async (req) => {
           subsection_name: query.subsection_name,
           query_used: query.query,
           section_order: query.section_order,
+          metadata: query.metadata,
           status: 'pending'
         })
     }
 
-    // Trigger report processing
+    // Trigger report processing; it reads the LLM and search settings from the report
     const processingUrl = `${Deno.env.get('SUPABASE_URL')}/functions/v1/process-report-sections`
     
     fetch(processingUrl, {
@@ -127,11 +182,7 @@ serve(async (req) => {
         'Content-Type': 'application/json',
       },
       body: JSON.stringify({
-        report_generation_id: reportGeneration.id,
-        queries,
-        llm_provider,
-        llm_config,
-        embedding_provider
+        report_generation_id: reportGeneration.id
       })
     }).catch(error => {
       console.error('Failed to trigger report processing:', error)
@@ -0,0 +1,549 @@
+// =====================================================
+// Edge Function: process-jobs
+// File: supabase/functions/process-jobs/index.ts
+// =====================================================
+//
+// Runs the document processing queue in processing_jobs:
+//   pdf_processing        extract, chunk and store an uploaded source
+//                         (process-pdf-with-metadata), then queue the two below
+//   embedding_generation  embed the source's chunks in batches (generate-embeddings)
+//   metadata_extraction   discover the source's planning metadata
+// Jobs are claimed atomically, so overlapping invocations never run the same
+// job. A failed attempt is retried with exponential backoff until max_retries
+// is used up. Each invocation runs one job, then hands off to the next
+// invocation while jobs are due.
+//
+// Request bodies:
+//   { source_id, ... }  queue (or re-run) processing of a source; needs the user's token
+//   { job_id }          run that job if it's due
+//   {}                  run the next due job, e.g. from a scheduled call
+//   { delay_ms }        wait, then run the next due job (wakes the queue for retries)
+// All but the first are the queue's own hand-offs and need the service role key.
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { getProviderFromModelId } from '../_shared/llm.ts'
+import { extractDocumentMetadata } from '../_shared/metadata.ts'
+import { functionUrl, recordJobStep, serviceHeaders } from '../_shared/jobs.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const JOB_TYPES = ['pdf_processing', 'embedding_generation', 'metadata_extraction']
+const EMBEDDING_BATCH_SIZE = 50
+// Embedding stops after this long and the job carries on in a new invocation
+const EMBEDDING_TIME_BUDGET_MS = 60_000
+// Retries due later than this are left for the next scheduled call
+const MAX_WAKE_DELAY_MS = 120_000
+const METADATA_EXCERPT_LENGTH = 4000
+
+interface JobConfig {
+  file_path?: string
+  llm_provider?: string
+  llm_config?: Record<string, unknown>
+  embedding_provider?: string
+}
+
+interface ProcessingJob {
+  id: string
+  job_type: string
+  status: string
+  source_id: string | null
+  notebook_id: string | null
+  user_id: string | null
+  retry_count: number
+  max_retries: number
+  config: JobConfig
+}
+
+// 'continue' puts the job back in the queue to pick up where it stopped
+type JobOutcome = { status: 'completed' | 'continue'; result: Record<string, unknown> }
+
+function sleep(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+// Hand off to a fresh invocation without waiting for it
+function kick(body: Record<string, unknown>) {
+  fetch(functionUrl('process-jobs'), {
+    method: 'POST',
+    headers: serviceHeaders(),
+    body: JSON.stringify(body)
+  }).catch(error => {
+    console.error('Failed to continue processing queue:', error)
+  })
+}
+
+// Running the queue is left to the function's own hand-offs and scheduled calls
+function assertServiceRole(req: Request) {
+  const token = req.headers.get('authorization')?.replace('Bearer ', '')
+  if (!token || token !== Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')) throw new Error('Unauthorized')
+}
+
+// Queue processing of an uploaded source. Re-running a source clears what an
+// earlier run left behind, so nothing needs uploading again.
+async function enqueueSourceProcessing(
+  supabase: SupabaseClient,
+  sourceId: string,
+  userId: string,
+  config: JobConfig
+): Promise<ProcessingJob> {
+  const { data: source, error: sourceError } = await supabase
+    .from('sources')
+    .select('id, notebook_id, file_url')
+    .eq('id', sourceId)
+    .eq('user_id', userId)
+    .single()
+
+  if (sourceError || !source) throw new Error(`Source ${sourceId} not found`)
+
+  const { data: activeJobs } = await supabase
+    .from('processing_jobs')
+    .select('*')
+    .eq('source_id', sourceId)
+    .in('job_type', JOB_TYPES)
+    .in('status', ['pending', 'processing'])
+
+  const running = ((activeJobs || []) as ProcessingJob[]).find(job => job.job_type === 'pdf_processing')
+  if (running) return running
+
+  if (activeJobs?.length) {
+    await supabase
+      .from('processing_jobs')
+      .update({ status: 'cancelled', current_step: 'Cancelled', completed_at: new Date().toISOString() })
+      .in('id', activeJobs.map(job => job.id))
+  }
+
+  await clearSourceOutput(supabase, sourceId)
+
+  await supabase
+    .from('sources')
+    .update({
+      processing_status: 'pending',
+      processing_error: null,
+      processing_started_at: null,
+      processing_completed_at: null,
+      chunk_count: 0,
+      embedding_count: 0,
+      metadata_extracted: false
+    })
+    .eq('id', sourceId)
+
+  const { data: job, error: jobError } = await supabase
+    .from('processing_jobs')
+    .insert({
+      job_type: 'pdf_processing',
+      status: 'pending',
+      source_id: sourceId,
+      notebook_id: source.notebook_id,
+      user_id: userId,
+      config: { ...config, file_path: source.file_url },
+      current_step: 'Queued'
+    })
+    .select()
+    .single()
+
+  if (jobError) throw jobError
+  return job as ProcessingJob
+}
+
+// Drop what an earlier run or attempt stored for the source (embeddings go
+// with their chunks), so it's stored afresh rather than twice
+async function clearSourceOutput(supabase: SupabaseClient, sourceId: string) {
+  const { error: chunksError } = await supabase.from('document_chunks').delete().eq('source_id', sourceId)
+  if (chunksError) throw chunksError
+  const { error: metadataError } = await supabase.from('pdf_metadata').delete().eq('source_id', sourceId)
+  if (metadataError) throw metadataError
+}
+
+async function queueFollowUpJobs(supabase: SupabaseClient, job: ProcessingJob) {
+  const { error } = await supabase
+    .from('processing_jobs')
+    .insert(['embedding_generation', 'metadata_extraction'].map(jobType => ({
+      job_type: jobType,
+      status: 'pending',
+      source_id: job.source_id,
+      notebook_id: job.notebook_id,
+      user_id: job.user_id,
+      config: job.config,
+      current_step: 'Queued'
+    })))
+
+  if (error) throw error
+}
+
+async function runPdfProcessing(supabase: SupabaseClient, job: ProcessingJob): Promise<JobOutcome> {
+  // A retried or reclaimed attempt starts from nothing
+  await clearSourceOutput(supabase, job.source_id!)
+
+  const response = await fetch(functionUrl('process-pdf-with-metadata'), {
+    method: 'POST',
+    headers: serviceHeaders(),
+    body: JSON.stringify({
+      source_id: job.source_id,
+      file_path: job.config.file_path,
+      notebook_id: job.notebook_id,
+      llm_provider: job.config.llm_provider ?? 'ollama',
+      llm_config: job.config.llm_config ?? {},
+      job_id: job.id
+    })
+  })
+
+  const result = await response.json().catch(() => null)
+  if (!response.ok || !result?.success) {
+    throw new Error(result?.error || `Document processing failed (${response.status})`)
+  }
+
+  if (result.chunks_created > 0) {
+    await queueFollowUpJobs(supabase, job)
+  }
+
+  return {
+    status: 'completed',
+    result: {
+      chunks_created: result.chunks_created,
+      duplicate_chunks_reused: result.duplicate_chunks_reused,
+      page_count: result.page_count,
+      extraction_method: result.extraction_method
+    }
+  }
+}
+
+// Heading chunks are only titles and are never embedded
+async function countUnembedded(supabase: SupabaseClient, sourceId: string) {
+  const { count } = await supabase
+    .from('document_chunks')
+    .select('id', { count: 'exact', head: true })
+    .eq('source_id', sourceId)
+    .neq('chunk_type', 'heading')
+    .eq('embedding_generated', false)
+  return count || 0
+}
+
+async function runEmbeddingGeneration(supabase: SupabaseClient, job: ProcessingJob): Promise<JobOutcome> {
+  const startedAt = Date.now()
+
+  // Embed with the notebook's model once it has one, so the chunks are
+  // searchable alongside the rest of the notebook
+  const { data: notebook } = await supabase
+    .from('notebooks')
+    .select('embedding_model')
+    .eq('id', job.notebook_id)
+    .single()
+
+  const embeddingProvider = notebook?.embedding_model
+    ? getProviderFromModelId(notebook.embedding_model)
+    : job.config.embedding_provider ?? 'ollama'
+
+  const { count: total } = await supabase
+    .from('document_chunks')
+    .select('id', { count: 'exact', head: true })
+    .eq('source_id', job.source_id)
+    .neq('chunk_type', 'heading')
+
+  let remaining = await countUnembedded(supabase, job.source_id!)
+  let embeddingModel: string | null = notebook?.embedding_model ?? null
+
+  while (remaining > 0 && Date.now() - startedAt < EMBEDDING_TIME_BUDGET_MS) {
+    const { data: chunks, error: chunksError } = await supabase
+      .from('document_chunks')
+      .select('id')
+      .eq('source_id', job.source_id)
+      .neq('chunk_type', 'heading')
+      .eq('embedding_generated', false)
+      .order('chunk_index', { ascending: true })
+      .limit(EMBEDDING_BATCH_SIZE)
+
+    if (chunksError) throw chunksError
+
+    const response = await fetch(functionUrl('generate-embeddings'), {
+      method: 'POST',
+      headers: serviceHeaders(),
+      body: JSON.stringify({
+        chunk_ids: (chunks || []).map(chunk => chunk.id),
+        notebook_id: job.notebook_id,
+        embedding_provider: embeddingProvider
+      })
+    })
+
+    const result = response.ok ? await response.json() : null
+
+    // A batch that makes no progress counts as a failed attempt
+    if (!result?.embeddings_generated) {
+      throw new Error(result?.error || `Embedding batch failed (${response.status})`)
+    }
+
+    embeddingModel = result.embedding_model
+    remaining = await countUnembedded(supabase, job.source_id!)
+    const embedded = (total || 0) - remaining
+
+    await recordJobStep(
+      supabase,
+      job.id,
+      `Embedded ${embedded} of ${total} chunks`,
+      total ? Math.min(99, Math.round((embedded / total) * 100)) : 99
+    )
+  }
+
+  const embedded = (total || 0) - remaining
+
+  await supabase
+    .from('sources')
+    .update({
+      embedding_count: embedded,
+      // Clear the note an earlier failed attempt left
+      ...(remaining === 0 ? { processing_error: null } : {})
+    })
+    .eq('id', job.source_id)
+
+  return {
+    status: remaining > 0 ? 'continue' : 'completed',
+    result: { embedded, total, embedding_model: embeddingModel }
+  }
+}
+
+async function runMetadataExtraction(supabase: SupabaseClient, job: ProcessingJob): Promise<JobOutcome> {
+  const { data: chunks, error: chunksError } = await supabase
+    .from('document_chunks')
+    .select('content')
+    .eq('source_id', job.source_id)
+    .order('chunk_index', { ascending: true })
+    .limit(20)
+
+  if (chunksError) throw chunksError
+
+  // The opening of the document, where the planning details usually are
+  let excerpt = ''
+  for (const chunk of chunks || []) {
+    if (excerpt.length >= METADATA_EXCERPT_LENGTH) break
+    excerpt += `${chunk.content}\n\n`
+  }
+
+  if (!excerpt.trim()) {
+    return { status: 'completed', result: { discovered_fields: 0 } }
+  }
+
+  await recordJobStep(supabase, job.id, 'Discovering metadata', 30)
+
+  // A retried attempt replaces the record an earlier one left
+  await supabase.from('pdf_metadata').delete().eq('source_id', job.source_id)
+
+  const { pdfMetadataId, discoveredFields } = await extractDocumentMetadata(
+    supabase,
+    job.source_id!,
+    job.notebook_id!,
+    excerpt,
+    job.config.llm_provider ?? 'ollama'
+  )
+
+  const { data: source } = await supabase
+    .from('sources')
+    .select('extracted_metadata')
+    .eq('id', job.source_id)
+    .single()
+
+  await supabase
+    .from('sources')
+    .update({
+      metadata_extracted: true,
+      extracted_metadata: { ...(source?.extracted_metadata || {}), discovered_fields: discoveredFields }
+    })
+    .eq('id', job.source_id)
+
+  return {
+    status: 'completed',
+    result: { pdf_metadata_id: pdfMetadataId, discovered_fields: discoveredFields }
+  }
+}
+
+// Record a failed attempt; the job is rescheduled with backoff or, out of
+// retries, failed along with the source it couldn't process
+async function handleFailure(supabase: SupabaseClient, job: ProcessingJob, error: Error) {
+  console.error(`Job ${job.id} (${job.job_type}) failed:`, error)
+
+  const { data, error: retryError } = await supabase.rpc('retry_processing_job', {
+    target_job_id: job.id,
+    failure: error.message
+  })
+
+  if (retryError) throw retryError
+
+  const updated = ((data || []) as ProcessingJob[])[0]
+  const failed = !updated || updated.status === 'failed'
+
+  if (job.job_type === 'metadata_extraction' || !job.source_id) return failed ? 'failed' : 'retrying'
+
+  const attempt = updated?.retry_count ?? job.retry_count + 1
+  const message = job.job_type === 'embedding_generation' ? `Embedding failed: ${error.message}` : error.message
+
+  await supabase
+    .from('sources')
+    .update(failed
+      ? { processing_status: 'failed', processing_error: message }
+      : {
+        processing_error: `Attempt ${attempt} failed, retrying: ${message}`,
+        ...(job.job_type === 'pdf_processing' ? { processing_status: 'pending' } : {})
+      })
+    .eq('id', job.source_id)
+
+  return failed ? 'failed' : 'retrying'
+}
+
+async function runJob(supabase: SupabaseClient, job: ProcessingJob) {
+  try {
+    const outcome = job.job_type === 'pdf_processing'
+      ? await runPdfProcessing(supabase, job)
+      : job.job_type === 'embedding_generation'
+        ? await runEmbeddingGeneration(supabase, job)
+        : await runMetadataExtraction(supabase, job)
+
+    if (outcome.status === 'continue') {
+      await supabase
+        .from('processing_jobs')
+        .update({ status: 'pending', scheduled_at: new Date().toISOString(), result: outcome.result })
+        .eq('id', job.id)
+      return 'continuing'
+    }
+
+    await recordJobStep(supabase, job.id, 'Completed', 100)
+    await supabase
+      .from('processing_jobs')
+      .update({
+        status: 'completed',
+        completed_at: new Date().toISOString(),
+        error_message: null,
+        result: outcome.result
+      })
+      .eq('id', job.id)
+
+    return 'completed'
+  } catch (error) {
+    return await handleFailure(supabase, job, error)
+  }
+}
+
+// Keep the queue moving: run the next job now if it's due, or wake up for a
+// retry that's due soon
+async function scheduleNext(supabase: SupabaseClient) {
+  const { data: next } = await supabase
+    .from('processing_jobs')
+    .select('scheduled_at')
+    .in('job_type', JOB_TYPES)
+    .eq('status', 'pending')
+    .order('scheduled_at', { ascending: true })
+    .limit(1)
+    .maybeSingle()
+
+  if (!next) return
+
+  const delay = new Date(next.scheduled_at).getTime() - Date.now()
+  if (delay <= 0) kick({})
+  else if (delay <= MAX_WAKE_DELAY_MS) kick({ delay_ms: delay })
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    const {
+      source_id,
+      job_id,
+      delay_ms,
+      llm_provider = 'ollama',
+      llm_config = {},
+      embedding_provider = 'ollama'
+    } = await req.json().catch(() => ({}))
+
+    if (!source_id) assertServiceRole(req)
+
+    if (delay_ms) {
+      await sleep(Math.min(delay_ms, MAX_WAKE_DELAY_MS))
+      kick({})
+
+      return new Response(
+        JSON.stringify({ success: true, status: 'woken' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 200 }
+      )
+    }
+
+    if (source_id) {
+      const authHeader = req.headers.get('authorization')
+      const token = authHeader?.replace('Bearer ', '')
+      const { data: { user }, error: userError } = await supabase.auth.getUser(token!)
+
+      if (userError || !user) throw new Error('Unauthorized')
+
+      const job = await enqueueSourceProcessing(supabase, source_id, user.id, {
+        llm_provider,
+        llm_config,
+        embedding_provider
+      })
+
+      // Processing can take minutes; the caller follows the job instead
+      kick({ job_id: job.id })
+
+      return new Response(
+        JSON.stringify({ success: true, job_id: job.id, status: job.status }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 200 }
+      )
+    }
+
+    const { data: claimed, error: claimError } = await supabase.rpc('claim_processing_job', {
+      job_types: JOB_TYPES,
+      target_job_id: job_id ?? null
+    })
+
+    if (claimError) throw claimError
+
+    const job = ((claimed || []) as ProcessingJob[])[0]
+
+    if (!job) {
+      // The requested job was taken by another invocation or isn't due yet
+      if (job_id) await scheduleNext(supabase)
+
+      return new Response(
+        JSON.stringify({ success: true, job_id: null, status: 'idle' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 200 }
+      )
+    }
+
+    const status = await runJob(supabase, job)
+    await scheduleNext(supabase)
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        job_id: job.id,
+        job_type: job.job_type,
+        status
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200,
+      }
+    )
+
+  } catch (error) {
+    console.error('Error processing jobs:', error)
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error.message
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: error.message === 'Unauthorized' ? 401 : 500,
+      }
+    )
+  }
+})
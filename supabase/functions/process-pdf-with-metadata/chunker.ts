@@ -0,0 +1,245 @@
+// supabase/functions/process-pdf-with-metadata/chunker.ts
+import { PAGE_MARKER_PATTERN } from './extractors/types.ts'
+
+export type ChunkType = 'text' | 'table' | 'list' | 'heading' | 'caption'
+
+export interface DocumentChunk {
+  content: string
+  chunk_index: number
+  start_page: number | null
+  end_page: number | null
+  section_title: string | null
+  subsection_title: string | null
+  hierarchy_level: number
+  chunk_type: ChunkType
+  // chunk_index of the heading chunk this chunk belongs to
+  parent_index: number | null
+  metadata: {
+    word_count: number
+    char_count: number
+    heading_path: string[]
+  }
+}
+
+interface Heading {
+  level: number
+  title: string
+  chunkIndex: number
+}
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.+?)\s*#*$/
+const TABLE_SEPARATOR_PATTERN = /^\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?$/
+const LIST_ITEM_PATTERN = /^(\s*)([-*+•]|\d+[.)])\s+/
+const CAPTION_PATTERN = /^(\*[^*].*\*|_[^_].*_|(Figure|Fig\.|Table|Map|Plate|Diagram)\s+\d+[A-Za-z0-9.-]*\b.*)$/
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length
+}
+
+// Pipe tables: every line has a cell separator, either with a markdown
+// separator row or as plain pipe-delimited text of two or more rows
+function isTable(lines: string[]): boolean {
+  if (lines.length < 2 || !lines.every(line => line.includes('|'))) return false
+  return TABLE_SEPARATOR_PATTERN.test(lines[1]) || lines.every(line => line.trim().startsWith('|'))
+}
+
+function classifyBlock(block: string): ChunkType {
+  const lines = block.split('\n').map(line => line.trim()).filter(Boolean)
+  if (isTable(lines)) return 'table'
+  if (LIST_ITEM_PATTERN.test(block) && block.split('\n').every(line => !line.trim() || LIST_ITEM_PATTERN.test(line) || /^\s/.test(line))) {
+    return 'list'
+  }
+  if (lines.length === 1 && lines[0].length <= 300 && CAPTION_PATTERN.test(lines[0])) return 'caption'
+  return 'text'
+}
+
+// Pack pieces into groups no longer than maxChunkSize (always at least one
+// piece per group) and render each group with the given prefix lines
+function packPieces(pieces: string[], prefix: string[], maxChunkSize: number): string[] {
+  const prefixLength = prefix.reduce((total, line) => total + line.length + 1, 0)
+  const groups: string[] = []
+  let current: string[] = []
+  let currentLength = prefixLength
+
+  for (const piece of pieces) {
+    if (current.length > 0 && currentLength + piece.length + 1 > maxChunkSize) {
+      groups.push([...prefix, ...current].join('\n'))
+      current = []
+      currentLength = prefixLength
+    }
+    current.push(piece)
+    currentLength += piece.length + 1
+  }
+  if (current.length > 0) groups.push([...prefix, ...current].join('\n'))
+  return groups
+}
+
+// Keep a table whole when it fits; otherwise split between rows and repeat
+// the header (and separator) row at the top of every part
+function splitTable(block: string, maxChunkSize: number): string[] {
+  if (block.length <= maxChunkSize) return [block]
+
+  const lines = block.split('\n').map(line => line.trim()).filter(Boolean)
+  const headerLength = TABLE_SEPARATOR_PATTERN.test(lines[1]) ? 2 : 1
+  return packPieces(lines.slice(headerLength), lines.slice(0, headerLength), maxChunkSize)
+}
+
+// Split an oversized list between items, keeping continuation lines with their item
+function splitList(block: string, maxChunkSize: number): string[] {
+  if (block.length <= maxChunkSize) return [block]
+
+  const items: string[] = []
+  for (const line of block.split('\n')) {
+    if (!line.trim()) continue
+    if (LIST_ITEM_PATTERN.test(line) || items.length === 0) {
+      items.push(line)
+    } else {
+      items[items.length - 1] += `\n${line}`
+    }
+  }
+  return packPieces(items, [], maxChunkSize)
+}
+
+// Break a single oversized paragraph on sentence boundaries
+function splitLongParagraph(paragraph: string, maxChunkSize: number): string[] {
+  if (paragraph.length <= maxChunkSize) return [paragraph]
+
+  const parts: string[] = []
+  let current = ''
+  for (const sentence of paragraph.split(/(?<=[.!?])\s+/)) {
+    if (current && current.length + sentence.length + 1 > maxChunkSize) {
+      parts.push(current)
+      current = ''
+    }
+    current += (current ? ' ' : '') + sentence
+  }
+  if (current) parts.push(current)
+  return parts
+}
+
+// Split page-marked markdown into chunks that follow the heading hierarchy.
+// Headings become their own chunks and parent every chunk beneath them (they
+// carry structure only and are never embedded or retrieved); body
+// chunks never cross a heading and record the pages they span. Tables, lists
+// and captions are kept out of prose chunks and typed accordingly.
+export function chunkDocument(markdown: string, maxChunkSize: number = 1500): DocumentChunk[] {
+  const chunks: DocumentChunk[] = []
+  const headingStack: Heading[] = []
+
+  let page: number | null = null
+  let buffer: string[] = []
+  let bufferStartPage: number | null = null
+  let bufferEndPage: number | null = null
+
+  const headingPath = () => headingStack.map(heading => heading.title)
+
+  const pushChunk = (content: string, chunkType: ChunkType, startPage: number | null, endPage: number | null, level: number) => {
+    const parent = chunkType === 'heading'
+      ? headingStack[headingStack.length - 2]
+      : headingStack[headingStack.length - 1]
+
+    chunks.push({
+      content,
+      chunk_index: chunks.length,
+      start_page: startPage,
+      end_page: endPage,
+      section_title: headingStack[0]?.title ?? null,
+      subsection_title: headingStack.length > 1 ? headingStack[headingStack.length - 1].title : null,
+      hierarchy_level: level,
+      chunk_type: chunkType,
+      parent_index: parent ? parent.chunkIndex : null,
+      metadata: {
+        word_count: countWords(content),
+        char_count: content.length,
+        heading_path: headingPath()
+      }
+    })
+  }
+
+  const bodyLevel = () => (headingStack.length > 0 ? headingStack[headingStack.length - 1].level : 0) + 1
+
+  const flushBuffer = () => {
+    if (buffer.length === 0) return
+    pushChunk(buffer.join('\n\n'), 'text', bufferStartPage, bufferEndPage, bodyLevel())
+    buffer = []
+    bufferStartPage = null
+    bufferEndPage = null
+  }
+
+  const appendText = (paragraph: string) => {
+    for (const part of splitLongParagraph(paragraph, maxChunkSize)) {
+      const bufferLength = buffer.reduce((total, text) => total + text.length + 2, 0)
+      if (buffer.length > 0 && bufferLength + part.length > maxChunkSize) {
+        flushBuffer()
+      }
+      if (buffer.length === 0) bufferStartPage = page
+      buffer.push(part)
+      bufferEndPage = page
+    }
+  }
+
+  const appendStructured = (block: string, chunkType: ChunkType) => {
+    flushBuffer()
+    const parts = chunkType === 'table'
+      ? splitTable(block, maxChunkSize)
+      : chunkType === 'list'
+        ? splitList(block, maxChunkSize)
+        : [block]
+    for (const part of parts) {
+      pushChunk(part, chunkType, page, page, bodyLevel())
+    }
+  }
+
+  const appendBlock = (block: string) => {
+    const chunkType = classifyBlock(block)
+    if (chunkType === 'text') {
+      appendText(block)
+    } else {
+      appendStructured(block, chunkType)
+    }
+  }
+
+  const openHeading = (level: number, title: string) => {
+    flushBuffer()
+    while (headingStack.length > 0 && headingStack[headingStack.length - 1].level >= level) {
+      headingStack.pop()
+    }
+    headingStack.push({ level, title, chunkIndex: chunks.length })
+    pushChunk(`${'#'.repeat(level)} ${title}`, 'heading', page, page, level)
+  }
+
+  for (const block of markdown.split(/\n\s*\n/)) {
+    const trimmed = block.trim()
+    if (!trimmed) continue
+
+    const pageMatch = trimmed.match(PAGE_MARKER_PATTERN)
+    if (pageMatch) {
+      page = Number(pageMatch[1])
+      continue
+    }
+
+    // A heading line may be followed directly by its first paragraph
+    const [firstLine, ...rest] = trimmed.split('\n')
+    const headingMatch = firstLine.match(HEADING_PATTERN)
+    if (headingMatch) {
+      openHeading(headingMatch[1].length, headingMatch[2].trim())
+      const remainder = rest.join('\n').trim()
+      if (remainder) appendBlock(remainder)
+      continue
+    }
+
+    appendBlock(trimmed)
+  }
+
+  flushBuffer()
+  return chunks
+}
+
+// Hash of the whitespace-normalised content, used to store identical passages once
+export async function hashChunkContent(content: string): Promise<string> {
+  const normalized = content.replace(/\s+/g, ' ').trim().toLowerCase()
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(normalized))
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('')
+}
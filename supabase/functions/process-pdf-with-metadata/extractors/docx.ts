@@ -0,0 +1,108 @@
+// supabase/functions/process-pdf-with-metadata/extractors/docx.ts
+import { unzipSync, strFromU8 } from 'https://esm.sh/fflate@0.8.2'
+import { ExtractedDocument, pageMarker } from './types.ts'
+import { decodeEntities, markdownTable } from './markdown.ts'
+
+// Body-level blocks in document order: whole tables first so their inner
+// paragraphs are not picked up as standalone paragraphs
+const BLOCK_PATTERN = /<w:tbl>[\s\S]*?<\/w:tbl>|<w:p[ >][\s\S]*?<\/w:p>/g
+
+const PAGE_BREAK_PATTERN = /<w:br [^>]*w:type="page"[^>]*\/>|<w:lastRenderedPageBreak\/>/g
+
+function paragraphText(paragraphXml: string): string {
+  const runs = paragraphXml.match(/<w:t(?: [^>]*)?>[^<]*<\/w:t>|<w:tab\/>|<w:br(?: [^>]*)?\/>/g) || []
+  return decodeEntities(
+    runs
+      .map(run => {
+        if (run.startsWith('<w:tab')) return ' '
+        if (run.startsWith('<w:br')) return ' '
+        return run.replace(/<[^>]+>/g, '')
+      })
+      .join('')
+  )
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+// Map Word paragraph styles onto markdown block syntax
+function paragraphPrefix(paragraphXml: string): string {
+  const style = paragraphXml.match(/<w:pStyle w:val="([^"]+)"/)?.[1] || ''
+
+  if (/^Title$/i.test(style)) return '# '
+  const headingLevel = style.match(/^Heading(\d)$/i)?.[1]
+  if (headingLevel) return `${'#'.repeat(Math.min(Number(headingLevel), 6))} `
+  if (/^Caption$/i.test(style)) return '*'
+  if (paragraphXml.includes('<w:numPr>') || /^List/i.test(style)) return '- '
+  return ''
+}
+
+function tableToMarkdown(tableXml: string): string {
+  const rows = [...tableXml.matchAll(/<w:tr[ >][\s\S]*?<\/w:tr>/g)].map(([rowXml]) =>
+    [...rowXml.matchAll(/<w:tc>[\s\S]*?<\/w:tc>/g)].map(([cellXml]) =>
+      [...cellXml.matchAll(/<w:p[ >][\s\S]*?<\/w:p>/g)]
+        .map(([paragraphXml]) => paragraphText(paragraphXml))
+        .filter(Boolean)
+        .join(' ')
+    )
+  )
+  return markdownTable(rows)
+}
+
+// Word stores the page count computed at last save in the extended properties
+function declaredPageCount(files: Record<string, Uint8Array>): number | null {
+  const appXml = files['docProps/app.xml']
+  if (!appXml) return null
+  const pages = strFromU8(appXml).match(/<Pages>(\d+)<\/Pages>/)?.[1]
+  return pages ? Number(pages) : null
+}
+
+// Extract headings, paragraphs, lists and tables from a .docx package
+export function extractDocx(bytes: Uint8Array): ExtractedDocument {
+  const files = unzipSync(bytes, {
+    filter: file => file.name === 'word/document.xml' || file.name === 'docProps/app.xml'
+  })
+
+  const documentXml = files['word/document.xml']
+  if (!documentXml) {
+    throw new Error('Invalid DOCX file: word/document.xml not found')
+  }
+
+  const xml = strFromU8(documentXml)
+
+  // Page markers are only meaningful when Word recorded where pages break
+  const hasPageBreaks = xml.search(PAGE_BREAK_PATTERN) !== -1
+  let page = 1
+  const blocks: string[] = hasPageBreaks ? [pageMarker(page)] : []
+
+  for (const [blockXml] of xml.matchAll(BLOCK_PATTERN)) {
+    if (blockXml.startsWith('<w:tbl>')) {
+      const table = tableToMarkdown(blockXml)
+      if (table) blocks.push(table)
+      continue
+    }
+
+    const text = paragraphText(blockXml)
+    if (text) {
+      const prefix = paragraphPrefix(blockXml)
+      blocks.push(prefix === '*' ? `*${text}*` : `${prefix}${text}`)
+    }
+
+    if (hasPageBreaks) {
+      const breaks = blockXml.match(PAGE_BREAK_PATTERN)?.length || 0
+      for (let i = 0; i < breaks; i++) {
+        blocks.push(pageMarker(++page))
+      }
+    }
+  }
+
+  // Consecutive list items belong to one list block
+  const markdown = blocks
+    .join('\n\n')
+    .replace(/^(- .*)\n\n(?=- )/gm, '$1\n')
+
+  return {
+    markdown,
+    pageCount: hasPageBreaks ? page : declaredPageCount(files),
+    method: 'docx'
+  }
+}
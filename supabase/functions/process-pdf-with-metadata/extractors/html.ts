@@ -0,0 +1,59 @@
+// supabase/functions/process-pdf-with-metadata/extractors/html.ts
+import { ExtractedDocument } from './types.ts'
+import { decodeEntities, markdownTable } from './markdown.ts'
+
+// Strip tags from a fragment and collapse its whitespace to a single line
+function inlineText(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/<br\s*\/?>/gi, ' ')
+      .replace(/<(strong|b)\b[^>]*>([\s\S]*?)<\/\1>/gi, '**$2**')
+      .replace(/<(em|i)\b[^>]*>([\s\S]*?)<\/\1>/gi, '*$2*')
+      .replace(/<[^>]+>/g, '')
+  )
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+function convertTable(tableHtml: string): string {
+  const rows = [...tableHtml.matchAll(/<tr\b[^>]*>([\s\S]*?)<\/tr>/gi)].map(([, rowHtml]) =>
+    [...rowHtml.matchAll(/<t[hd]\b[^>]*>([\s\S]*?)<\/t[hd]>/gi)].map(([, cellHtml]) => inlineText(cellHtml))
+  )
+  return `\n\n${markdownTable(rows)}\n\n`
+}
+
+// Convert an HTML document (e.g. a saved council web page) to markdown
+export function extractHtml(bytes: Uint8Array): ExtractedDocument {
+  let html = new TextDecoder('utf-8').decode(bytes)
+
+  // Only the body carries content; scripts, styles and navigation are noise
+  const bodyMatch = html.match(/<body\b[^>]*>([\s\S]*)<\/body>/i)
+  if (bodyMatch) html = bodyMatch[1]
+
+  html = html
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<(script|style|noscript|svg|nav|header|footer|form)\b[\s\S]*?<\/\1>/gi, '')
+    .replace(/<table\b[^>]*>[\s\S]*?<\/table>/gi, table => convertTable(table))
+    .replace(/<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1>/gi, (_, level: string, text: string) =>
+      `\n\n${'#'.repeat(Number(level))} ${inlineText(text)}\n\n`
+    )
+    .replace(/<li\b[^>]*>([\s\S]*?)<\/li>/gi, (_, text: string) => `\n- ${inlineText(text)}\n`)
+    .replace(/<figcaption\b[^>]*>([\s\S]*?)<\/figcaption>/gi, (_, text: string) => `\n\n*${inlineText(text)}*\n\n`)
+    .replace(/<(p|div|section|article|blockquote|ul|ol|dl|pre)\b[^>]*>/gi, '\n\n')
+    .replace(/<\/(p|div|section|article|blockquote|ul|ol|dl|pre)>/gi, '\n\n')
+    .replace(/<br\s*\/?>/gi, '\n')
+
+  // Whatever tags remain are inline; tables were already converted above
+  const markdown = html
+    .split('\n')
+    .map(line => (line.startsWith('|') ? line : inlineText(line)))
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+
+  return {
+    markdown,
+    pageCount: null,
+    method: 'html'
+  }
+}
@@ -0,0 +1,63 @@
+// supabase/functions/process-pdf-with-metadata/extractors/index.ts
+import { ExtractedDocument } from './types.ts'
+import { extractPdf } from './pdf.ts'
+import { extractDocx } from './docx.ts'
+import { extractHtml } from './html.ts'
+import { extractMarkdown, extractPlainText } from './text.ts'
+
+export type { ExtractedDocument } from './types.ts'
+export { pageMarker, PAGE_MARKER_PATTERN } from './types.ts'
+
+export type DocumentFormat = 'pdf' | 'docx' | 'html' | 'text' | 'markdown'
+
+const MIME_FORMATS: Record<string, DocumentFormat> = {
+  'application/pdf': 'pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+  'text/html': 'html',
+  'application/xhtml+xml': 'html',
+  'text/plain': 'text',
+  'text/markdown': 'markdown',
+  'text/x-markdown': 'markdown'
+}
+
+const EXTENSION_FORMATS: Record<string, DocumentFormat> = {
+  pdf: 'pdf',
+  docx: 'docx',
+  html: 'html',
+  htm: 'html',
+  txt: 'text',
+  md: 'markdown',
+  markdown: 'markdown'
+}
+
+// Resolve the format from the stored MIME type, falling back to the file
+// extension because browsers often report text files as '' or octet-stream
+export function detectFormat(mimeType: string | null, fileName: string | null): DocumentFormat {
+  const normalizedMime = (mimeType || '').split(';')[0].trim().toLowerCase()
+  if (MIME_FORMATS[normalizedMime]) return MIME_FORMATS[normalizedMime]
+
+  const extension = (fileName || '').split('.').pop()?.toLowerCase() || ''
+  if (EXTENSION_FORMATS[extension]) return EXTENSION_FORMATS[extension]
+
+  if (extension === 'doc' || normalizedMime === 'application/msword') {
+    throw new Error('Legacy .doc files are not supported. Please save the document as .docx and upload it again.')
+  }
+
+  throw new Error(`Unsupported document format: ${mimeType || extension || 'unknown'}`)
+}
+
+// Convert a stored source file into page-marked markdown
+export async function extractDocument(bytes: Uint8Array, format: DocumentFormat): Promise<ExtractedDocument> {
+  switch (format) {
+    case 'pdf':
+      return await extractPdf(bytes)
+    case 'docx':
+      return extractDocx(bytes)
+    case 'html':
+      return extractHtml(bytes)
+    case 'markdown':
+      return extractMarkdown(bytes)
+    case 'text':
+      return extractPlainText(bytes)
+  }
+}
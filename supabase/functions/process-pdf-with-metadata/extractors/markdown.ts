@@ -0,0 +1,54 @@
+// supabase/functions/process-pdf-with-metadata/extractors/markdown.ts
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  ndash: '–',
+  mdash: '—',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+  hellip: '…',
+  sect: '§',
+  deg: '°',
+  sup2: '²'
+}
+
+// Decode the XML/HTML entities that show up in Word and web documents
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z0-9]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const codePoint = entity[1].toLowerCase() === 'x'
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10)
+      return Number.isFinite(codePoint) ? String.fromCodePoint(codePoint) : match
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match
+  })
+}
+
+// Render rows of cell text as a pipe table, treating the first row as the header
+export function markdownTable(rows: string[][]): string {
+  const nonEmpty = rows.filter(row => row.some(cell => cell.trim()))
+  if (nonEmpty.length === 0) return ''
+
+  const columnCount = Math.max(...nonEmpty.map(row => row.length))
+  const formatRow = (row: string[]) => {
+    const cells = Array.from({ length: columnCount }, (_, i) =>
+      (row[i] || '').replace(/\|/g, '\\|').replace(/\s+/g, ' ').trim()
+    )
+    return `| ${cells.join(' | ')} |`
+  }
+
+  const [header, ...body] = nonEmpty
+  return [
+    formatRow(header),
+    `| ${Array.from({ length: columnCount }, () => '---').join(' | ')} |`,
+    ...body.map(formatRow)
+  ].join('\n')
+}
@@ -0,0 +1,129 @@
+// supabase/functions/process-pdf-with-metadata/extractors/pdf.ts
+import { getDocumentProxy } from 'https://esm.sh/unpdf@0.12.1'
+import { ExtractedDocument, pageMarker } from './types.ts'
+
+interface PdfTextItem {
+  str: string
+  transform: number[]
+  height: number
+  hasEOL?: boolean
+}
+
+interface PdfLine {
+  text: string
+  y: number
+  fontSize: number
+}
+
+// Group the positioned text runs of a page into visual lines (top to bottom)
+function groupIntoLines(items: PdfTextItem[]): PdfLine[] {
+  const lines: PdfLine[] = []
+  let current: PdfLine | null = null
+
+  for (const item of items) {
+    const y = item.transform[5]
+    const fontSize = Math.round(item.height || Math.hypot(item.transform[2], item.transform[3]))
+
+    // A new line starts when the baseline moves by more than half a glyph height
+    if (!current || Math.abs(current.y - y) > Math.max(fontSize, 1) / 2) {
+      if (current && current.text.trim()) lines.push(current)
+      current = { text: '', y, fontSize }
+    }
+
+    current.text += item.str
+    current.fontSize = Math.max(current.fontSize, fontSize)
+
+    if (item.hasEOL) {
+      if (current.text.trim()) lines.push(current)
+      current = null
+    }
+  }
+
+  if (current && current.text.trim()) lines.push(current)
+
+  return lines.map(line => ({ ...line, text: line.text.replace(/\s+/g, ' ').trim() }))
+}
+
+// The most common font size (weighted by characters) is treated as body text
+function detectBodyFontSize(pages: PdfLine[][]): number {
+  const weights = new Map<number, number>()
+  for (const lines of pages) {
+    for (const line of lines) {
+      weights.set(line.fontSize, (weights.get(line.fontSize) || 0) + line.text.length)
+    }
+  }
+
+  let bodySize = 0
+  let bestWeight = -1
+  for (const [size, weight] of weights) {
+    if (weight > bestWeight) {
+      bodySize = size
+      bestWeight = weight
+    }
+  }
+  return bodySize || 10
+}
+
+// Render one page of lines as markdown, promoting large short lines to headings
+function pageToMarkdown(lines: PdfLine[], bodyFontSize: number): string {
+  const blocks: string[] = []
+  let paragraph: string[] = []
+  let previous: PdfLine | null = null
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push(paragraph.join(' ').replace(/([a-z])- ([a-z])/g, '$1$2'))
+      paragraph = []
+    }
+  }
+
+  for (const line of lines) {
+    const ratio = line.fontSize / bodyFontSize
+    const isHeading = ratio >= 1.2 && line.text.length <= 120 && !/[.,;:]$/.test(line.text)
+
+    if (isHeading) {
+      flushParagraph()
+      blocks.push(`${ratio >= 1.6 ? '#' : '##'} ${line.text}`)
+      previous = line
+      continue
+    }
+
+    // A vertical gap noticeably larger than the line height ends the paragraph
+    const gap = previous ? Math.abs(previous.y - line.y) : 0
+    if (previous && gap > line.fontSize * 1.8) {
+      flushParagraph()
+    }
+
+    paragraph.push(line.text)
+    previous = line
+  }
+
+  flushParagraph()
+  return blocks.join('\n\n')
+}
+
+// Extract text page by page from a PDF without any external parsing service
+export async function extractPdf(bytes: Uint8Array): Promise<ExtractedDocument> {
+  const pdf = await getDocumentProxy(bytes)
+  const pages: PdfLine[][] = []
+
+  for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+    const page = await pdf.getPage(pageNumber)
+    const textContent = await page.getTextContent()
+    const items = (textContent.items as unknown[]).filter(
+      (item): item is PdfTextItem => typeof (item as PdfTextItem).str === 'string'
+    )
+    pages.push(groupIntoLines(items))
+  }
+
+  const bodyFontSize = detectBodyFontSize(pages)
+  const markdown = pages
+    .map((lines, index) => `${pageMarker(index + 1)}\n\n${pageToMarkdown(lines, bodyFontSize)}`)
+    .join('\n\n')
+
+  return {
+    markdown,
+    pageCount: pdf.numPages,
+    method: 'pdfjs'
+  }
+}
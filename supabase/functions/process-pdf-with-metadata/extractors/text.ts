@@ -0,0 +1,34 @@
+// supabase/functions/process-pdf-with-metadata/extractors/text.ts
+import { ExtractedDocument } from './types.ts'
+
+function decodeText(bytes: Uint8Array): string {
+  return new TextDecoder('utf-8')
+    .decode(bytes)
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n?/g, '\n')
+}
+
+// Markdown is already in the format the chunker consumes
+export function extractMarkdown(bytes: Uint8Array): ExtractedDocument {
+  return {
+    markdown: decodeText(bytes).trim(),
+    pageCount: null,
+    method: 'markdown'
+  }
+}
+
+// Plain text keeps its paragraphs; stray leading '#' would otherwise read as headings
+export function extractPlainText(bytes: Uint8Array): ExtractedDocument {
+  const markdown = decodeText(bytes)
+    .split('\n')
+    .map(line => line.replace(/\s+$/, '').replace(/^(\s*)#/, '$1\\#'))
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+
+  return {
+    markdown,
+    pageCount: null,
+    method: 'plain_text'
+  }
+}
@@ -0,0 +1,16 @@
+// supabase/functions/process-pdf-with-metadata/extractors/types.ts
+
+// Result of turning an uploaded file into the markdown the chunker consumes
+export interface ExtractedDocument {
+  markdown: string
+  pageCount: number | null
+  method: string
+}
+
+// Page boundaries are kept in the markdown as HTML comments so they survive
+// any markdown processing but never show up as chunk text
+export function pageMarker(pageNumber: number): string {
+  return `<!-- page: ${pageNumber} -->`
+}
+
+export const PAGE_MARKER_PATTERN = /^<!-- page: (\d+) -->$/
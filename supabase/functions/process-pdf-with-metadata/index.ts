@@ -1,6 +1,10 @@
 // supabase/functions/process-pdf-with-metadata/index.ts
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { detectFormat, extractDocument } from './extractors/index.ts'
+import { chunkDocument, hashChunkContent } from './chunker.ts'
+import { extractDocumentMetadata } from '../_shared/metadata.ts'
+import { recordJobStep } from '../_shared/jobs.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -17,216 +21,40 @@ function validateEnvironment() {
   }
 }
 
-// LLM Provider configurations with validation
-const LLM_PROVIDERS = {
-  ollama: {
-    embedModel: 'nomic-embed-text:latest',
-    chatModel: 'qwen3:8b-q4_K_M',
-    baseUrl: () => Deno.env.get('OLLAMA_BASE_URL') || 'http://localhost:11434',
-    isAvailable: () => !!Deno.env.get('OLLAMA_BASE_URL')
-  },
-  openai: {
-    embedModel: 'text-embedding-3-small',
-    chatModel: 'gpt-4',
-    apiKey: () => Deno.env.get('OPENAI_API_KEY'),
-    isAvailable: () => !!Deno.env.get('OPENAI_API_KEY')
-  },
-  gemini: {
-    embedModel: 'embedding-001',
-    chatModel: 'gemini-pro',
-    apiKey: () => Deno.env.get('GEMINI_API_KEY'),
-    isAvailable: () => !!Deno.env.get('GEMINI_API_KEY')
-  },
-  llamacloud: {
-    apiKey: () => Deno.env.get('LLAMACLOUD_API_KEY'),
-    isAvailable: () => !!Deno.env.get('LLAMACLOUD_API_KEY')
-  }
+// Document parsing service (chat and embedding providers live in _shared/llm.ts)
+const LLAMACLOUD = {
+  apiKey: () => Deno.env.get('LLAMACLOUD_API_KEY'),
+  isAvailable: () => !!Deno.env.get('LLAMACLOUD_API_KEY')
 }
 
-// Generate content using selected LLM with fallbacks
-async function generateContent(prompt: string, provider: string = 'ollama', options: any = {}) {
-  // Check if provider is available, fallback to available ones
-  if (!LLM_PROVIDERS[provider]?.isAvailable()) {
-    console.warn(`Provider ${provider} not available, trying fallbacks...`)
-    
-    // Try fallback providers
-    const fallbacks = ['ollama', 'openai', 'gemini']
-    for (const fallback of fallbacks) {
-      if (LLM_PROVIDERS[fallback]?.isAvailable()) {
-        console.log(`Using fallback provider: ${fallback}`)
-        provider = fallback
-        break
-      }
-    }
-    
-    if (!LLM_PROVIDERS[provider]?.isAvailable()) {
-      throw new Error('No LLM providers available. Please configure at least one provider.')
+// Chunks already in the notebook with one of the given content hashes, by
+// hash. An embedded chunk is preferred, as its vectors can be reused.
+async function findExistingChunks(
+  supabase: ReturnType<typeof createClient>,
+  notebookId: string,
+  hashes: string[]
+): Promise<Map<string, string>> {
+  const existing = new Map<string, string>()
+  const embedded = new Set<string>()
+  const uniqueHashes = [...new Set(hashes)]
+
+  // Batched to keep the filter within URL length limits
+  for (let i = 0; i < uniqueHashes.length; i += 100) {
+    const { data, error } = await supabase
+      .from('document_chunks')
+      .select('id, content_hash, embedding_generated')
+      .eq('notebook_id', notebookId)
+      .in('content_hash', uniqueHashes.slice(i, i + 100))
+
+    if (error) throw error
+    for (const row of (data || []) as { id: string; content_hash: string; embedding_generated: boolean | null }[]) {
+      if (embedded.has(row.content_hash)) continue
+      existing.set(row.content_hash, row.id)
+      if (row.embedding_generated) embedded.add(row.content_hash)
     }
   }
 
-  try {
-    switch (provider) {
-      case 'ollama':
-        const ollamaResponse = await fetch(`${LLM_PROVIDERS.ollama.baseUrl()}/api/generate`, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            model: options.model || LLM_PROVIDERS.ollama.chatModel,
-            prompt: prompt,
-            stream: false,
-            options: {
-              temperature: options.temperature || 0.1,
-              top_p: 0.9,
-            }
-          })
-        })
-        if (!ollamaResponse.ok) throw new Error(`Ollama API error: ${ollamaResponse.status}`)
-        const ollamaData = await ollamaResponse.json()
-        return ollamaData.response
-
-      case 'openai':
-        const openaiResponse = await fetch('https://api.openai.com/v1/chat/completions', {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${LLM_PROVIDERS.openai.apiKey()}`,
-            'Content-Type': 'application/json'
-          },
-          body: JSON.stringify({
-            model: options.model || LLM_PROVIDERS.openai.chatModel,
-            messages: [{ role: 'user', content: prompt }],
-            temperature: options.temperature || 0.1,
-          })
-        })
-        if (!openaiResponse.ok) throw new Error(`OpenAI API error: ${openaiResponse.status}`)
-        const openaiData = await openaiResponse.json()
-        return openaiData.choices[0].message.content
-
-      case 'gemini':
-        const geminiResponse = await fetch(
-          `https://generativelanguage.googleapis.com/v1beta/models/${options.model || LLM_PROVIDERS.gemini.chatModel}:generateContent?key=${LLM_PROVIDERS.gemini.apiKey()}`,
-          {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({
-              contents: [{ parts: [{ text: prompt }] }],
-              generationConfig: {
-                temperature: options.temperature || 0.1,
-                topP: 0.9,
-              }
-            })
-          }
-        )
-        if (!geminiResponse.ok) throw new Error(`Gemini API error: ${geminiResponse.status}`)
-        const geminiData = await geminiResponse.json()
-        return geminiData.candidates[0].content.parts[0].text
-
-      default:
-        throw new Error(`Unsupported LLM provider: ${provider}`)
-    }
-  } catch (error) {
-    console.error(`Error with provider ${provider}:`, error)
-    throw error
-  }
-}
-
-// Simplified metadata discovery with fallback
-async function discoverMetadataFields(content: string, existingSchema: any[], llmProvider: string) {
-  try {
-    const prompt = `Extract key metadata from this document. Return a simple JSON object:
-
-Document excerpt:
-${content.substring(0, 4000)}
-
-Return ONLY this JSON structure:
-{
-  "discovered_fields": [
-    {
-      "field_name": "client_name",
-      "value": "extracted value",
-      "confidence": 0.8
-    }
-  ]
-}`
-
-    const response = await generateContent(prompt, llmProvider, { temperature: 0.1 })
-    
-    // Try to parse JSON response
-    const jsonMatch = response.match(/\{[\s\S]*\}/)
-    if (jsonMatch) {
-      return JSON.parse(jsonMatch[0])
-    }
-    
-    // Fallback if JSON parsing fails
-    return {
-      discovered_fields: [
-        {
-          field_name: "document_title",
-          value: "Processed Document",
-          confidence: 0.5
-        }
-      ]
-    }
-  } catch (error) {
-    console.error('Metadata discovery failed:', error)
-    // Return minimal fallback
-    return {
-      discovered_fields: [
-        {
-          field_name: "document_title", 
-          value: "Document",
-          confidence: 0.3
-        }
-      ]
-    }
-  }
-}
-
-// Simplified semantic chunking
-function performSemanticChunking(content: string, maxChunkSize: number = 1500) {
-  const chunks = []
-  
-  // Split by paragraphs first
-  const paragraphs = content.split(/\n\s*\n/).filter(p => p.trim().length > 20)
-  
-  let currentChunk = ''
-  let chunkIndex = 0
-  
-  for (const paragraph of paragraphs) {
-    if (currentChunk.length + paragraph.length > maxChunkSize && currentChunk.length > 0) {
-      // Save current chunk
-      chunks.push({
-        content: currentChunk.trim(),
-        section_title: 'Document Section',
-        chunk_type: 'text',
-        chunk_index: chunkIndex++,
-        metadata: {
-          word_count: currentChunk.split(/\s+/).length,
-          char_count: currentChunk.length
-        }
-      })
-      
-      // Start new chunk
-      currentChunk = paragraph
-    } else {
-      currentChunk += (currentChunk ? '\n\n' : '') + paragraph
-    }
-  }
-  
-  // Don't forget the last chunk
-  if (currentChunk.trim()) {
-    chunks.push({
-      content: currentChunk.trim(),
-      section_title: 'Document Section',
-      chunk_type: 'text',
-      chunk_index: chunkIndex++,
-      metadata: {
-        word_count: currentChunk.split(/\s+/).length,
-        char_count: currentChunk.length
-      }
-    })
-  }
-  
-  return chunks
+  return existing
 }
 
 serve(async (req) => {
@@ -234,6 +62,9 @@ serve(async (req) => {
     return new Response('ok', { headers: corsHeaders })
   }
 
+  // Kept outside the try block so failures can be recorded against the source
+  let sourceId: string | null = null
+
   try {
     // Validate environment first
     validateEnvironment()
@@ -248,31 +79,54 @@ serve(async (req) => {
       file_path, 
       notebook_id,
       llm_provider = 'ollama', // Default to ollama as it's most likely to be available
-      llm_config = {}
+      llm_config = {},
+      // Set when run by process-jobs, which records each step against the job
+      job_id = null
     } = await req.json()
 
     if (!source_id || !file_path || !notebook_id) {
       throw new Error('Missing required parameters: source_id, file_path, notebook_id')
     }
 
-    console.log(`Processing PDF ${source_id} with ${llm_provider}`)
+    sourceId = source_id
+
+    // The stored MIME type decides which extractor handles the file
+    const { data: source, error: sourceError } = await supabase
+      .from('sources')
+      .select('mime_type, file_name')
+      .eq('id', source_id)
+      .single()
+
+    if (sourceError || !source) {
+      throw new Error(`Source ${source_id} not found`)
+    }
+
+    const format = detectFormat(source.mime_type, source.file_name || file_path)
+
+    console.log(`Processing ${format} document ${source_id} with ${llm_provider}`)
 
     // Update processing status
     await supabase
       .from('sources')
       .update({ 
         processing_status: 'processing',
-        processed_at: new Date().toISOString()
+        processing_started_at: new Date().toISOString(),
+        processing_error: null
       })
       .eq('id', source_id)
 
+    await recordJobStep(supabase, job_id, `Extracting text from ${format}`, 10)
+
     // Get file from storage
     let parsedContent = ''
     let parseMetadata = {}
+    let pageCount: number | null = null
+    let extractionMethod = 'llamacloud'
 
-    try {
-      // Try LlamaCloud first if available
-      if (llm_provider === 'llamacloud' && LLM_PROVIDERS.llamacloud.isAvailable()) {
+    // Try LlamaCloud first if available (it only adds value for paginated formats)
+    const llamaCloudFormat = format === 'pdf' || format === 'docx'
+    if (llamaCloudFormat && llm_provider === 'llamacloud' && LLAMACLOUD.isAvailable()) {
+      try {
         const { data: signedUrlData, error: signedUrlError } = await supabase.storage
           .from('sources')
           .createSignedUrl(file_path, 60 * 60) // 1 hour expiry
@@ -282,7 +136,7 @@ serve(async (req) => {
         const llamaResponse = await fetch('https://api.llamaindex.ai/api/parsing/upload', {
           method: 'POST',
           headers: {
-            'Authorization': `Bearer ${LLM_PROVIDERS.llamacloud.apiKey()}`,
+            'Authorization': `Bearer ${LLAMACLOUD.apiKey()}`,
             'Content-Type': 'application/json',
           },
           body: JSON.stringify({
@@ -302,7 +156,7 @@ serve(async (req) => {
           while (attempts < 30) { // 5 minutes max
             const statusResponse = await fetch(`https://api.llamaindex.ai/api/parsing/job/${jobId}`, {
               headers: {
-                'Authorization': `Bearer ${LLM_PROVIDERS.llamacloud.apiKey()}`,
+                'Authorization': `Bearer ${LLAMACLOUD.apiKey()}`,
               }
             })
 
@@ -322,89 +176,62 @@ serve(async (req) => {
             await new Promise(resolve => setTimeout(resolve, 10000)) // 10 seconds
           }
         }
+      } catch (llamaError) {
+        console.error('LlamaCloud parsing failed, falling back to local extraction:', llamaError)
       }
-      
-      // Fallback to basic text extraction
-      if (!parsedContent) {
-        console.log('Using fallback text extraction')
-        parsedContent = `# Document Content
-
-This document has been processed using basic text extraction.
-
-## Content
-The document content would be extracted here using a PDF parsing library.
-For better results, configure LlamaCloud API key.
-
-## Metadata
-- File: ${file_path}
-- Processed: ${new Date().toISOString()}
-- Method: Fallback extraction`
-      }
-    } catch (parseError) {
-      console.error('PDF parsing error:', parseError)
-      // Use fallback content
-      parsedContent = `# Document Processing Error
-
-An error occurred while processing this document: ${parseError.message}
-
-## Fallback Content
-The document has been uploaded but could not be fully processed.
-Please check your API configuration and try again.`
     }
 
-    // Get existing metadata schema
-    const { data: metadataSchema } = await supabase
-      .from('metadata_schema')
-      .select('*')
-      .order('occurrence_count', { ascending: false })
+    // Fall back to extracting the text ourselves from the stored file
+    if (!parsedContent) {
+      console.log(`Using built-in ${format} text extraction`)
 
-    // Discover metadata fields with error handling
-    let discoveryResult
-    try {
-      discoveryResult = await discoverMetadataFields(
-        parsedContent,
-        metadataSchema || [],
-        llm_provider
-      )
-    } catch (metadataError) {
-      console.error('Metadata discovery failed:', metadataError)
-      discoveryResult = {
-        discovered_fields: [
-          {
-            field_name: "document_title",
-            value: "Processed Document",
-            confidence: 0.5
-          }
-        ]
+      const { data: fileData, error: downloadError } = await supabase.storage
+        .from('sources')
+        .download(file_path)
+
+      if (downloadError || !fileData) {
+        throw new Error(`Failed to download ${file_path}: ${downloadError?.message || 'file not found'}`)
       }
-    }
 
-    // Create PDF metadata record
-    const { data: pdfMetadata, error: pdfMetadataError } = await supabase
-      .from('pdf_metadata')
-      .insert({
-        source_id,
-        notebook_id,
-        extraction_method: 'ai',
-        extraction_model: llm_provider,
-        confidence_score: 0.7,
-        raw_metadata: discoveryResult
-      })
-      .select()
-      .single()
+      const extracted = await extractDocument(new Uint8Array(await fileData.arrayBuffer()), format)
+      parsedContent = extracted.markdown
+      pageCount = extracted.pageCount
+      extractionMethod = extracted.method
+    }
 
-    if (pdfMetadataError) {
-      console.error('PDF metadata creation failed:', pdfMetadataError)
-      // Continue without metadata
+    // Scanned PDFs have no text layer - fail loudly instead of embedding junk
+    if (!parsedContent.replace(/<!--[\s\S]*?-->/g, '').trim()) {
+      throw new Error(
+        format === 'pdf'
+          ? 'No extractable text found in document. It may be a scanned image; configure LLAMACLOUD_API_KEY for OCR.'
+          : 'No extractable text found in document.'
+      )
     }
 
-    // Perform semantic chunking
-    const chunks = performSemanticChunking(parsedContent)
+    // Queued processing leaves this to a separate metadata_extraction job
+    const metadata = job_id
+      ? null
+      : await extractDocumentMetadata(supabase, source_id, notebook_id, parsedContent, llm_provider)
+
+    // Chunk along headings and page boundaries
+    const chunks = chunkDocument(parsedContent)
     console.log(`Created ${chunks.length} chunks`)
 
-    // Store chunks in database
+    await recordJobStep(supabase, job_id, `Storing ${chunks.length} chunks`, 50)
+
+    // Identical passages (e.g. the same clause in two uploaded documents) are
+    // stored for each document but embedded once per notebook: a copy takes
+    // the vectors of the chunk already there
+    const chunkHashes = await Promise.all(chunks.map(chunk => hashChunkContent(chunk.content)))
+    const existingChunks = await findExistingChunks(supabase, notebook_id, chunkHashes)
+    let duplicateChunks = 0
+
+    // Store chunks in order so heading chunks exist before their children
     const chunkRecords = []
+    const chunkIdsByIndex = new Map<number, string>()
     for (const chunk of chunks) {
+      const contentHash = chunkHashes[chunk.chunk_index]
+
       try {
         const { data: chunkRecord } = await supabase
           .from('document_chunks')
@@ -412,11 +239,17 @@ Please check your API configuration and try again.`
             source_id,
             notebook_id,
             content: chunk.content,
+            content_hash: contentHash,
             chunk_index: chunk.chunk_index,
+            start_page: chunk.start_page,
+            end_page: chunk.end_page,
             section_title: chunk.section_title,
+            subsection_title: chunk.subsection_title,
+            hierarchy_level: chunk.hierarchy_level,
             chunk_type: chunk.chunk_type,
-            word_count: chunk.metadata?.word_count,
-            char_count: chunk.metadata?.char_count,
+            parent_chunk_id: chunk.parent_index !== null ? chunkIdsByIndex.get(chunk.parent_index) ?? null : null,
+            word_count: chunk.metadata.word_count,
+            char_count: chunk.metadata.char_count,
             metadata: chunk.metadata
           })
           .select()
@@ -424,6 +257,19 @@ Please check your API configuration and try again.`
 
         if (chunkRecord) {
           chunkRecords.push(chunkRecord)
+          chunkIdsByIndex.set(chunk.chunk_index, chunkRecord.id)
+
+          const originalId = existingChunks.get(contentHash)
+          if (originalId) {
+            // Nothing is copied when the original has no vectors yet; the
+            // chunk is then embedded like any other
+            const { data: copied, error: copyError } = await supabase.rpc('copy_chunk_embeddings', {
+              from_chunk_id: originalId,
+              to_chunk_id: chunkRecord.id
+            })
+            if (copyError) console.error('Failed to reuse embeddings for duplicate chunk:', copyError)
+            else if (copied > 0) duplicateChunks++
+          }
         }
       } catch (chunkError) {
         console.error('Failed to store chunk:', chunkError)
@@ -436,19 +282,26 @@ Please check your API configuration and try again.`
       .from('sources')
       .update({
         processing_status: 'completed',
-        processed_at: new Date().toISOString(),
-        metadata_extracted: true,
+        processing_completed_at: new Date().toISOString(),
+        metadata_extracted: !!metadata,
         chunk_count: chunkRecords.length,
+        page_count: pageCount,
         extracted_metadata: {
-          discovered_fields: discoveryResult.discovered_fields?.length || 0,
-          processing_method: llm_provider
+          discovered_fields: metadata?.discoveredFields ?? 0,
+          processing_method: llm_provider,
+          extraction_method: extractionMethod,
+          document_format: format,
+          duplicate_chunks_reused: duplicateChunks
         }
       })
       .eq('id', source_id)
 
-    // Try to trigger embedding generation (optional)
+    await recordJobStep(supabase, job_id, `Stored ${chunkRecords.length} chunks`, 90)
+
+    // Try to trigger embedding generation (optional; queued processing
+    // follows up with its own embedding_generation job)
     try {
-      if (Deno.env.get('N8N_WEBHOOK_BASE_URL') && chunkRecords.length > 0) {
+      if (!job_id && Deno.env.get('N8N_WEBHOOK_BASE_URL') && chunkRecords.length > 0) {
         fetch(`${Deno.env.get('N8N_WEBHOOK_BASE_URL')}/webhook/generate-embeddings`, {
           method: 'POST',
           headers: {
@@ -458,7 +311,7 @@ Please check your API configuration and try again.`
           body: JSON.stringify({
             source_id,
             notebook_id,
-            chunk_ids: chunkRecords.map(c => c.id),
+            chunk_ids: chunkRecords.filter(c => c.chunk_type !== 'heading').map(c => c.id),
             llm_provider: llm_config.embedding_provider || llm_provider
           })
         }).catch(console.error)
@@ -472,11 +325,14 @@ Please check your API configuration and try again.`
       JSON.stringify({
         success: true,
         source_id,
-        pdf_metadata_id: pdfMetadata?.id,
+        pdf_metadata_id: metadata?.pdfMetadataId ?? null,
         chunks_created: chunkRecords.length,
-        metadata_discovered: discoveryResult.discovered_fields?.length || 0,
-        message: 'PDF processed successfully',
-        processing_method: llm_provider
+        duplicate_chunks_reused: duplicateChunks,
+        metadata_discovered: metadata?.discoveredFields ?? 0,
+        message: 'Document processed successfully',
+        processing_method: llm_provider,
+        extraction_method: extractionMethod,
+        page_count: pageCount
       }),
       {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -485,12 +341,11 @@ Please check your API configuration and try again.`
     )
 
   } catch (error) {
-    console.error('Error processing PDF:', error)
+    console.error('Error processing document:', error)
     
     // Try to update source with error status
     try {
-      const { source_id } = await req.json()
-      if (source_id) {
+      if (sourceId) {
         const supabase = createClient(
           Deno.env.get('SUPABASE_URL') ?? '',
           Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
@@ -500,10 +355,10 @@ Please check your API configuration and try again.`
           .from('sources')
           .update({
             processing_status: 'failed',
-            processed_at: new Date().toISOString(),
-            error_message: error.message
+            processing_completed_at: new Date().toISOString(),
+            processing_error: error.message
           })
-          .eq('id', source_id)
+          .eq('id', sourceId)
       }
     } catch (updateError) {
       console.error('Failed to update source status:', updateError)
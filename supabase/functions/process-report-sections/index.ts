@@ -2,174 +2,200 @@
 // Edge Function 4: process-report-sections
 // File: supabase/functions/process-report-sections/index.ts
 // =====================================================
+//
+// Generates a report's pending report_sections a few at a time, handing off
+// to a fresh invocation until none are left, then assembles the report. A
+// report that timed out, was cancelled or has failed sections is picked up
+// again with { retry_failed: true }, which re-queues only the sections that
+// didn't complete (and is refused while a run is still active). A finished report can have one section redrafted with
+// { section_id, guidance? }, or be reassembled after sections were edited by
+// hand with { reassemble: true }.
+//
+// Request body: { report_generation_id, retry_failed?, section_id?, guidance?, reassemble? }
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { createUsageTracker, generateText, TokenUsage } from '../_shared/llm.ts'
+import { functionUrl, serviceHeaders } from '../_shared/jobs.ts'
+import { formatReference, loadReferences, numberCitations, Reference, stripCitations } from '../_shared/citations.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
-// Multi-LLM content generation
-async function generateSectionContent(prompt: string, provider: string, config: any = {}) {
-  switch (provider) {
-    case 'ollama':
-      const ollamaResponse = await fetch(
-        `${Deno.env.get('OLLAMA_BASE_URL') || 'http://localhost:11434'}/api/generate`,
-        {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            model: config.model || 'qwen3:8b-q4_K_M',
-            prompt: prompt,
-            stream: false,
-            options: {
-              temperature: config.temperature || 0.3,
-              top_p: 0.9,
-              num_predict: config.max_tokens || 2000
-            }
-          })
-        }
-      )
-      if (!ollamaResponse.ok) throw new Error('Ollama generation failed')
-      const ollamaData = await ollamaResponse.json()
-      return ollamaData.response
+const SYSTEM_PROMPT = 'You are a professional town planning consultant writing detailed, accurate reports.'
 
-    case 'openai':
-      const openaiResponse = await fetch('https://api.openai.com/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${Deno.env.get('OPENAI_API_KEY')}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          model: config.model || 'gpt-4',
-          messages: [
-            {
-              role: 'system',
-              content: 'You are a professional town planning consultant writing detailed, accurate reports.'
-            },
-            { role: 'user', content: prompt }
-          ],
-          temperature: config.temperature || 0.3,
-          max_tokens: config.max_tokens || 2000
-        })
-      })
-      if (!openaiResponse.ok) throw new Error('OpenAI generation failed')
-      const openaiData = await openaiResponse.json()
-      return openaiData.choices[0].message.content
-
-    case 'gemini':
-      const geminiResponse = await fetch(
-        `https://generativelanguage.googleapis.com/v1beta/models/${config.model || 'gemini-pro'}:generateContent?key=${Deno.env.get('GEMINI_API_KEY')}`,
-        {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            contents: [{
-              parts: [{
-                text: prompt
-              }]
-            }],
-            generationConfig: {
-              temperature: config.temperature || 0.3,
-              topP: 0.9,
-              maxOutputTokens: config.max_tokens || 2000
-            }
-          })
-        }
-      )
-      if (!geminiResponse.ok) throw new Error('Gemini generation failed')
-      const geminiData = await geminiResponse.json()
-      return geminiData.candidates[0].content.parts[0].text
+// Sections generated per invocation, and the time after which the rest are
+// left for the next one
+const SECTIONS_PER_RUN = 5
+const TIME_BUDGET_MS = 90_000
 
-    default:
-      throw new Error(`Unsupported LLM provider: ${provider}`)
-  }
+// A report still being generated that hasn't been updated for this long has
+// lost its invocation: longer than a run's budget plus the section in flight
+const STALLED_AFTER_MS = 5 * 60_000
+
+// Sections a resume re-queues
+const RETRYABLE_SECTION_STATUSES = ['failed', 'skipped', 'processing']
+
+// How much of the sections a section depends on goes into its prompt
+const DEPENDENCY_CONTEXT_CHARS = 12_000
+
+// In depends_on, every section that doesn't itself depend on all the others
+const ALL_SECTIONS = '*'
+
+const FORMAT_INSTRUCTIONS: Record<string, string> = {
+  prose: 'Use proper formatting with paragraphs',
+  table: 'Present the substance as a Markdown table with a header row (e.g. Control | Requirement | Source), introduced by one or two sentences; put citations inside the table cells',
+  bullets: 'Present the content as a Markdown bulleted list, introduced by one or two sentences'
 }
 
-serve(async (req) => {
-  if (req.method === 'OPTIONS') {
-    return new Response('ok', { headers: corsHeaders })
-  }
+interface ReportGeneration {
+  id: string
+  user_id: string
+  notebook_id: string
+  title: string
+  topic: string
+  address: string | null
+  additional_context: string | null
+  status: string
+  llm_provider: string
+  llm_config: Record<string, unknown> | null
+  metadata: Record<string, unknown> | null
+}
 
-  try {
-    const supabase = createClient(
-      Deno.env.get('SUPABASE_URL') ?? '',
-      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
-    )
+interface ReportSection {
+  id: string
+  section_name: string
+  subsection_name: string | null
+  section_order: number
+  query_used: string
+  status: string
+  generated_content: string | null
+  // The user's own text, which replaces the AI draft in the report
+  edited_content: string | null
+  chunks_retrieved: string[] | null
+  error_message: string | null
+  metadata: Record<string, unknown> | null
+}
 
-    const { 
-      report_generation_id, 
-      queries,
-      llm_provider = 'ollama',
-      llm_config = {},
-      embedding_provider = 'ollama'
-    } = await req.json()
+// Template settings generate-report copied into the section's metadata
+interface SectionSettings {
+  instructions?: string
+  target_words?: number
+  format?: string
+  depends_on?: string[]
+  // The user's direction for the latest redraft of the section
+  guidance?: string
+}
 
-    if (!report_generation_id || !queries) {
-      throw new Error('Missing required parameters')
-    }
+interface SearchMatch {
+  chunk_id: string
+  content: string
+  similarity?: number
+  location?: string
+}
 
-    console.log(`Processing ${queries.length} report sections with ${llm_provider}`)
+// Hand off to a fresh invocation without waiting for it
+function continueProcessing(reportGenerationId: string) {
+  fetch(functionUrl('process-report-sections'), {
+    method: 'POST',
+    headers: serviceHeaders(),
+    body: JSON.stringify({ report_generation_id: reportGenerationId })
+  }).catch(error => {
+    console.error('Failed to continue report processing:', error)
+  })
+}
 
-    // Get report generation details
-    const { data: reportGen, error: reportError } = await supabase
-      .from('report_generations')
-      .select('*')
-      .eq('id', report_generation_id)
-      .single()
+// The pipeline calls with the service role key; users may only resume their own reports
+async function assertCanRun(req: Request, supabase: SupabaseClient, reportGen: ReportGeneration) {
+  const token = req.headers.get('authorization')?.replace('Bearer ', '')
+  if (token === Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')) return
 
-    if (reportError) throw reportError
+  const { data: { user }, error: userError } = await supabase.auth.getUser(token!)
+  if (userError || !user || user.id !== reportGen.user_id) throw new Error('Unauthorized')
+}
 
-    // Perform batch vector search for all queries
-    const searchUrl = `${Deno.env.get('SUPABASE_URL')}/functions/v1/batch-vector-search`
-    const searchResponse = await fetch(searchUrl, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        queries: queries.map((q: any) => q.query),
-        notebook_id: reportGen.notebook_id,
-        top_k: 5,
-        similarity_threshold: 0.7,
-        embedding_provider
-      })
-    })
+// Merged on the server, so keys written elsewhere (e.g. exports) are kept
+async function mergeReportMetadata(supabase: SupabaseClient, reportGenerationId: string, patch: Record<string, unknown>) {
+  const { error } = await supabase.rpc('merge_report_metadata', {
+    target_report_id: reportGenerationId,
+    patch
+  })
 
-    if (!searchResponse.ok) throw new Error('Batch vector search failed')
-    const searchData = await searchResponse.json()
+  if (error) throw error
+}
 
-    // Process each section
-    let completedSections = 0
-    const totalSections = queries.length
-    const generatedSections = []
+async function isCancelled(supabase: SupabaseClient, reportGenerationId: string) {
+  const { data } = await supabase
+    .from('report_generations')
+    .select('status')
+    .eq('id', reportGenerationId)
+    .single()
 
-    for (let i = 0; i < queries.length; i++) {
-      const query = queries[i]
-      const searchResult = searchData.results[i]
+  return data?.status === 'cancelled'
+}
 
-      try {
-        // Update section status
-        await supabase
-          .from('report_sections')
-          .update({ 
-            status: 'processing',
-            started_at: new Date().toISOString(),
-            chunks_retrieved: searchResult.results?.map((r: any) => r.chunk_id) || []
-          })
-          .eq('report_generation_id', report_generation_id)
-          .eq('section_name', query.section_name)
-          .eq('subsection_name', query.subsection_name)
+// Answers to the template's required inputs, given when the report was requested
+function reportInputs(reportGen: ReportGeneration) {
+  return (reportGen.metadata?.inputs as { key: string; label: string; value: string }[] | undefined) || []
+}
 
-        // Prepare context from search results
-        const context = searchResult.results?.map((r: any) => r.content).join('\n\n---\n\n') || ''
-        
-        // Generate content
-        const prompt = `You are a professional town planning consultant writing a section of a planning report.
+function sectionSettings(section: ReportSection) {
+  return (section.metadata || {}) as SectionSettings
+}
+
+function sectionContent(section: ReportSection) {
+  return section.edited_content ?? section.generated_content
+}
+
+function sectionLabel(section: ReportSection) {
+  return `${section.section_name}${section.subsection_name ? ` - ${section.subsection_name}` : ''}`
+}
+
+// The sections this one is written after: the top-level sections it names,
+// with their subsections, or for ALL_SECTIONS every section that doesn't
+// itself depend on all the others
+function dependenciesOf(section: ReportSection, sections: ReportSection[]) {
+  const dependsOn = sectionSettings(section).depends_on || []
+  if (!dependsOn.length) return []
+
+  const onAll = new Set(
+    sections.filter(other => sectionSettings(other).depends_on?.includes(ALL_SECTIONS)).map(other => other.section_name)
+  )
+  return sections.filter(other =>
+    other.section_name !== section.section_name &&
+    (dependsOn.includes(other.section_name) || (dependsOn.includes(ALL_SECTIONS) && !onAll.has(other.section_name)))
+  )
+}
+
+function isWaiting(section: ReportSection) {
+  return section.status === 'pending' || section.status === 'processing'
+}
+
+async function generateSection(
+  reportGen: ReportGeneration,
+  section: ReportSection,
+  matches: SearchMatch[],
+  dependencies: ReportSection[]
+) {
+  const settings = sectionSettings(section)
+
+  // Number the excerpts so the section can cite them; [n] is the excerpt's
+  // position in chunks_retrieved
+  const context = matches
+    .map((r, i) => `[${i + 1}]${r.location ? ` ${r.location}` : ''}\n${r.content}`)
+    .join('\n\n---\n\n')
+
+  // Sections already written that this one builds on, without their own
+  // citation markers, which would clash with the excerpt numbers
+  const written = dependencies.filter(dependency => dependency.status === 'completed' && sectionContent(dependency))
+  const perSection = Math.floor(DEPENDENCY_CONTEXT_CHARS / Math.max(written.length, 1))
+  const writtenSections = written
+    .map(dependency => `### ${sectionLabel(dependency)}\n${stripCitations(sectionContent(dependency)!).slice(0, perSection)}`)
+    .join('\n\n')
+
+  const prompt = `You are a professional town planning consultant writing a section of a planning report.
 
 Context from knowledge base:
 ${context || 'No specific context available. Use your general knowledge.'}
@@ -178,67 +204,303 @@ Report Details:
 - Topic: ${reportGen.topic}
 ${reportGen.address ? `- Address: ${reportGen.address}` : ''}
 ${reportGen.additional_context ? `- Additional Context: ${reportGen.additional_context}` : ''}
+${reportInputs(reportGen).map(input => `- ${input.label}: ${input.value}`).join('\n')}
 
-Section: ${query.section_name}${query.subsection_name ? ` - ${query.subsection_name}` : ''}
-
+${writtenSections ? `Sections of this report already written, which this section should draw on and stay consistent with:\n${writtenSections}\n` : ''}
+Section: ${sectionLabel(section)}
+${settings.instructions ? `\nInstructions for this section:\n${settings.instructions}\n` : ''}${settings.guidance ? `\nThe user asked for this draft to take into account:\n${settings.guidance}\n` : ''}
 Write a professional, detailed section for this planning report. The content should be:
 - Technically accurate and well-structured
 - Based on the provided context where relevant
 - Professional in tone and language
-- Comprehensive and detailed (aim for 300-500 words)
+- Comprehensive and detailed (aim for ${settings.target_words ? `about ${settings.target_words}` : '300-500'} words)
 - Include specific references to planning controls, regulations, or requirements where applicable
-- Use proper formatting with paragraphs
+- Cite the excerpts you rely on with their number in square brackets straight after the statement they support, e.g. "The maximum building height is 9 m [2]." or "[1, 3]" for several
+- Only cite the numbered excerpts above, and don't add a references list; one is compiled for the whole report
+- ${FORMAT_INSTRUCTIONS[settings.format || 'prose'] || FORMAT_INSTRUCTIONS.prose}
 
 Write the section content now:`
 
-        const generatedContent = await generateSectionContent(prompt, llm_provider, llm_config)
+  return await generateText(prompt, reportGen.llm_provider, { ...reportGen.llm_config, system: SYSTEM_PROMPT })
+}
 
-        // Store generated content
-        const { error: updateError } = await supabase
-          .from('report_sections')
-          .update({
-            status: 'completed',
-            generated_content: generatedContent,
-            word_count: generatedContent.split(/\s+/).length,
-            completed_at: new Date().toISOString()
-          })
-          .eq('report_generation_id', report_generation_id)
-          .eq('section_name', query.section_name)
-          .eq('subsection_name', query.subsection_name)
+function assembleMarkdown(reportGen: ReportGeneration, sections: ReportSection[], references: Reference[]) {
+  let finalReport = `# ${reportGen.title}\n\n`
+  if (reportGen.address) {
+    finalReport += `**Property Address:** ${reportGen.address}\n\n`
+  }
+  finalReport += `**Date:** ${new Date().toLocaleDateString()}\n\n`
+  finalReport += `---\n\n`
+
+  // Add table of contents
+  finalReport += `## Table of Contents\n\n`
+  let tocNumber = 1
+  sections.forEach(section => {
+    if (section.generated_content) {
+      if (!section.subsection_name) {
+        finalReport += `${tocNumber}. ${section.section_name}\n`
+        tocNumber++
+      } else {
+        finalReport += `   - ${section.subsection_name}\n`
+      }
+    }
+  })
+  finalReport += `\n---\n\n`
+
+  // Add sections
+  sections.forEach(section => {
+    if (section.generated_content) {
+      if (!section.subsection_name) {
+        finalReport += `## ${section.section_name}\n\n`
+      } else {
+        finalReport += `### ${section.subsection_name}\n\n`
+      }
+      finalReport += `${section.generated_content}\n\n`
+    }
+  })
 
-        if (updateError) throw updateError
+  if (references.length) {
+    finalReport += `---\n\n## References\n\n`
+    references.forEach(reference => {
+      finalReport += `${reference.number}. ${formatReference(reference)}\n`
+    })
+  }
 
-        generatedSections.push({
-          ...query,
-          content: generatedContent
-        })
+  return finalReport
+}
 
-        completedSections++
+// Save the assembled report and finish it, unless it was cancelled meanwhile
+async function completeReport(supabase: SupabaseClient, reportGen: ReportGeneration, usage: TokenUsage) {
+  const { data: sections, error: sectionsError } = await supabase
+    .from('report_sections')
+    .select('*')
+    .eq('report_generation_id', reportGen.id)
+    .order('section_order')
 
-        // Update progress
-        const progress = Math.round((completedSections / totalSections) * 100)
-        await supabase
-          .from('report_generations')
-          .update({ progress })
-          .eq('id', report_generation_id)
+  if (sectionsError) throw sectionsError
 
-      } catch (sectionError) {
-        console.error(`Error processing section ${query.section_name}:`, sectionError)
-        
-        await supabase
+  // Hand-edited sections go into the report as edited
+  const completed = (sections || [])
+    .filter(section => section.status === 'completed')
+    .map(section => ({ ...section, generated_content: sectionContent(section) }))
+  const failed = (sections || []).filter(section => section.status === 'failed')
+
+  if (completed.length === 0) {
+    await supabase
+      .from('report_generations')
+      .update({
+        status: 'failed',
+        error_message: failed[0]?.error_message || 'No sections could be generated',
+        completed_at: new Date().toISOString()
+      })
+      .eq('id', reportGen.id)
+      .neq('status', 'cancelled')
+    await mergeReportMetadata(supabase, reportGen.id, { usage })
+
+    return { fileName: null, completed: 0, failed: failed.length }
+  }
+
+  // Section citations are renumbered across the report, with one reference per cited excerpt
+  const { contents, citedChunkIds } = numberCitations(completed)
+  const references = await loadReferences(supabase, citedChunkIds)
+  const finalReport = assembleMarkdown(
+    reportGen,
+    completed.map((section, i) => ({ ...section, generated_content: contents[i] })),
+    references
+  )
+
+  // Save report under the user's folder, which the reports bucket policies require
+  const fileName = `${reportGen.user_id}/${reportGen.id}.md`
+  const fileBlob = new Blob([finalReport], { type: 'text/markdown' })
+
+  const { error: uploadError } = await supabase.storage
+    .from('reports')
+    .upload(fileName, fileBlob, {
+      contentType: 'text/markdown',
+      upsert: true
+    })
+
+  // Without the file the report isn't finished; it fails and can be resumed
+  if (uploadError) throw new Error(`Failed to save the report: ${uploadError.message}`)
+
+  // Failed sections are left out; they can be regenerated without redoing the rest
+  await supabase
+    .from('report_generations')
+    .update({
+      status: 'completed',
+      progress: 100,
+      error_message: failed.length ? `${failed.length} of ${sections!.length} sections failed` : null,
+      generated_content: finalReport,
+      file_path: fileName,
+      file_format: 'markdown',
+      file_size: fileBlob.size,
+      completed_at: new Date().toISOString()
+    })
+    .eq('id', reportGen.id)
+    .neq('status', 'cancelled')
+  await mergeReportMetadata(supabase, reportGen.id, { usage })
+
+  return { fileName, completed: completed.length, failed: failed.length }
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  const startedAt = Date.now()
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  )
+  let reportGenerationId: string | null = null
+
+  try {
+    const { report_generation_id, retry_failed = false, section_id, guidance, reassemble = false } = await req.json()
+
+    if (!report_generation_id) {
+      throw new Error('Missing required parameters')
+    }
+    reportGenerationId = report_generation_id
+
+    // Get report generation details
+    const { data: reportGen, error: reportError } = await supabase
+      .from('report_generations')
+      .select('*')
+      .eq('id', report_generation_id)
+      .single()
+
+    if (reportError) throw reportError
+
+    await assertCanRun(req, supabase, reportGen)
+
+    if (retry_failed) {
+      if (reportGen.status === 'completed') {
+        const { count: unfinished, error: unfinishedError } = await supabase
           .from('report_sections')
-          .update({
-            status: 'failed',
-            error_message: sectionError.message,
-            completed_at: new Date().toISOString()
-          })
+          .select('id', { count: 'exact', head: true })
           .eq('report_generation_id', report_generation_id)
-          .eq('section_name', query.section_name)
-          .eq('subsection_name', query.subsection_name)
+          .in('status', RETRYABLE_SECTION_STATUSES)
+
+        if (unfinishedError) throw unfinishedError
+        if (!unfinished) throw new Error('There are no failed sections to regenerate')
+      }
+
+      // Only a run that has stopped can be resumed; re-queueing the sections
+      // of a live one would start a second run alongside it. Claiming the
+      // report in one update keeps two resumes from both getting through
+      const stalledBefore = new Date(Date.now() - STALLED_AFTER_MS).toISOString()
+      const { data: claimed, error: claimError } = await supabase
+        .from('report_generations')
+        .update({ status: 'processing', error_message: null, completed_at: null })
+        .eq('id', report_generation_id)
+        .or(`status.in.(completed,failed,cancelled),updated_at.lt."${stalledBefore}"`)
+        .select('id')
+
+      if (claimError) throw claimError
+
+      if (!claimed?.length) {
+        return new Response(
+          JSON.stringify({ success: false, error: 'Report is still being generated' }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 409 }
+        )
       }
+
+      // Re-queue whatever didn't complete; finished sections are kept
+      const { data: requeued, error: requeueError } = await supabase
+        .from('report_sections')
+        .update({ status: 'pending', error_message: null, started_at: null, completed_at: null })
+        .eq('report_generation_id', report_generation_id)
+        .in('status', RETRYABLE_SECTION_STATUSES)
+        .select('id')
+
+      if (requeueError) throw requeueError
+
+      // Answer the user straight away and generate in the background
+      continueProcessing(report_generation_id)
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          report_generation_id,
+          status: 'processing',
+          sections_requeued: requeued?.length ?? 0
+        }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 200 }
+      )
     }
 
-    // Assemble final report
+    if (section_id || reassemble) {
+      if (reportGen.status !== 'completed') {
+        throw new Error('Only a finished report can be edited')
+      }
+
+      const usage = createUsageTracker()
+      if (reportGen.metadata?.usage) usage.add(reportGen.metadata.usage as TokenUsage)
+
+      if (reassemble) {
+        const result = await completeReport(supabase, reportGen, usage.total)
+
+        return new Response(
+          JSON.stringify({ success: true, report_generation_id, status: 'completed', file_path: result.fileName }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 200 }
+        )
+      }
+
+      const { data: section, error: sectionError } = await supabase
+        .from('report_sections')
+        .select('id, metadata')
+        .eq('id', section_id)
+        .eq('report_generation_id', report_generation_id)
+        .single()
+
+      if (sectionError) throw new Error('Section not found')
+
+      // The redraft replaces any hand edits; the guidance is kept with the section
+      const { guidance: _previousGuidance, ...metadata } = (section.metadata || {}) as Record<string, unknown>
+      const { error: requeueError } = await supabase
+        .from('report_sections')
+        .update({
+          status: 'pending',
+          error_message: null,
+          started_at: null,
+          completed_at: null,
+          edited_content: null,
+          edited_at: null,
+          metadata: guidance?.trim() ? { ...metadata, guidance: guidance.trim() } : metadata
+        })
+        .eq('id', section.id)
+
+      if (requeueError) throw requeueError
+
+      await supabase
+        .from('report_generations')
+        .update({ status: 'processing', error_message: null, completed_at: null })
+        .eq('id', report_generation_id)
+
+      continueProcessing(report_generation_id)
+
+      return new Response(
+        JSON.stringify({ success: true, report_generation_id, status: 'processing', section_id }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 200 }
+      )
+    }
+
+    if (reportGen.status !== 'processing') {
+      // Cancelled, or already finished by an earlier invocation
+      return new Response(
+        JSON.stringify({ success: true, report_generation_id, status: reportGen.status }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 200 }
+      )
+    }
+
+    const embeddingProvider = reportGen.metadata?.embedding_provider || 'ollama'
+    const searchMode = reportGen.metadata?.search_mode || 'vector'
+
+    // Token usage is carried over from earlier invocations
+    const usage = createUsageTracker()
+    if (reportGen.metadata?.usage) usage.add(reportGen.metadata.usage as TokenUsage)
+
     const { data: sections, error: sectionsError } = await supabase
       .from('report_sections')
       .select('*')
@@ -247,78 +509,143 @@ Write the section content now:`
 
     if (sectionsError) throw sectionsError
 
-    // Create markdown report
-    let finalReport = `# ${reportGen.title}\n\n`
-    if (reportGen.address) {
-      finalReport += `**Property Address:** ${reportGen.address}\n\n`
-    }
-    finalReport += `**Date:** ${new Date().toLocaleDateString()}\n\n`
-    finalReport += `---\n\n`
-
-    // Add table of contents
-    finalReport += `## Table of Contents\n\n`
-    let tocNumber = 1
-    sections?.forEach(section => {
-      if (section.generated_content) {
-        if (!section.subsection_name) {
-          finalReport += `${tocNumber}. ${section.section_name}\n`
-          tocNumber++
-        } else {
-          finalReport += `   - ${section.subsection_name}\n`
+    const totalSections = sections.length
+    let doneSections = sections.filter(section => section.status === 'completed' || section.status === 'failed').length
+    // Sections wait for the ones they depend on. If none are ready (a
+    // dependency cycle the template editor should have caught) they are
+    // written anyway so the report can't stall.
+    const waiting = sections.filter(section => section.status === 'pending')
+    const ready = waiting.filter(section => !dependenciesOf(section, sections).some(isWaiting))
+    const pending = (ready.length ? ready : waiting).slice(0, SECTIONS_PER_RUN)
+
+    console.log(`Processing ${pending.length} report sections with ${reportGen.llm_provider}`)
+
+    if (pending.length) {
+      // Perform batch vector search for this run's sections
+      const searchResponse = await fetch(functionUrl('batch-vector-search'), {
+        method: 'POST',
+        headers: serviceHeaders(),
+        body: JSON.stringify({
+          queries: pending.map(section => section.query_used),
+          notebook_id: reportGen.notebook_id,
+          top_k: 5,
+          similarity_threshold: 0.7,
+          embedding_provider: embeddingProvider,
+          search_mode: searchMode
+        })
+      })
+
+      if (!searchResponse.ok) throw new Error('Batch vector search failed')
+      const searchData = await searchResponse.json()
+
+      for (let i = 0; i < pending.length; i++) {
+        if (Date.now() - startedAt > TIME_BUDGET_MS) break
+        if (await isCancelled(supabase, report_generation_id)) {
+          return new Response(
+            JSON.stringify({ success: true, report_generation_id, status: 'cancelled' }),
+            { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 200 }
+          )
         }
-      }
-    })
-    finalReport += `\n---\n\n`
-
-    // Add sections
-    sections?.forEach(section => {
-      if (section.generated_content) {
-        if (!section.subsection_name) {
-          finalReport += `## ${section.section_name}\n\n`
-        } else {
-          finalReport += `### ${section.subsection_name}\n\n`
+
+        const section = pending[i]
+        const matches: SearchMatch[] = searchData.results[i]?.results || []
+
+        try {
+          // Update section status
+          await supabase
+            .from('report_sections')
+            .update({
+              status: 'processing',
+              started_at: new Date().toISOString(),
+              chunks_retrieved: matches.map(r => r.chunk_id),
+              retrieval_scores: matches.map(r => r.similarity ?? 0)
+            })
+            .eq('id', section.id)
+
+          const generation = await generateSection(reportGen, section, matches, dependenciesOf(section, sections))
+          const generatedContent = generation.content
+          usage.add(generation.usage)
+
+          // Store generated content
+          const { error: updateError } = await supabase
+            .from('report_sections')
+            .update({
+              status: 'completed',
+              generated_content: generatedContent,
+              word_count: generatedContent.split(/\s+/).length,
+              error_message: null,
+              completed_at: new Date().toISOString(),
+              metadata: {
+                ...section.metadata,
+                llm_provider: generation.provider,
+                llm_model: generation.model,
+                usage: generation.usage
+              }
+            })
+            .eq('id', section.id)
+
+          if (updateError) throw updateError
+        } catch (sectionError) {
+          console.error(`Error processing section ${section.section_name}:`, sectionError)
+
+          await supabase
+            .from('report_sections')
+            .update({
+              status: 'failed',
+              error_message: sectionError.message,
+              completed_at: new Date().toISOString()
+            })
+            .eq('id', section.id)
         }
-        finalReport += `${section.generated_content}\n\n`
+
+        doneSections++
+        await supabase
+          .from('report_generations')
+          .update({ progress: Math.round((doneSections / totalSections) * 100) })
+          .eq('id', report_generation_id)
+          .eq('status', 'processing')
       }
-    })
+    }
 
-    // Save report
-    const fileName = `reports/${reportGen.user_id}/${report_generation_id}.md`
-    const fileBlob = new Blob([finalReport], { type: 'text/markdown' })
-    
-    const { error: uploadError } = await supabase.storage
-      .from('reports')
-      .upload(fileName, fileBlob, {
-        contentType: 'text/markdown',
-        upsert: true
-      })
+    const { count: remaining, error: remainingError } = await supabase
+      .from('report_sections')
+      .select('id', { count: 'exact', head: true })
+      .eq('report_generation_id', report_generation_id)
+      .eq('status', 'pending')
+
+    if (remainingError) throw remainingError
+
+    if (remaining) {
+      await mergeReportMetadata(supabase, report_generation_id, { usage: usage.total })
 
-    if (uploadError) {
-      console.error('Upload error:', uploadError)
+      continueProcessing(report_generation_id)
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          report_generation_id,
+          status: 'processing',
+          sections_completed: doneSections,
+          total_sections: totalSections
+        }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 200 }
+      )
     }
 
-    // Update report generation record
-    await supabase
-      .from('report_generations')
-      .update({
-        status: 'completed',
-        progress: 100,
-        generated_content: finalReport,
-        file_path: fileName,
-        file_format: 'markdown',
-        file_size: fileBlob.size,
-        completed_at: new Date().toISOString()
-      })
-      .eq('id', report_generation_id)
+    // Assemble final report
+    const result = await completeReport(supabase, reportGen, usage.total)
 
     return new Response(
       JSON.stringify({
         success: true,
         report_generation_id,
-        file_path: fileName,
-        sections_completed: completedSections,
+        status: result.completed ? 'completed' : 'failed',
+        file_path: result.fileName,
+        sections_completed: result.completed,
+        sections_failed: result.failed,
         total_sections: totalSections,
-        download_url: `/storage/v1/object/reports/${fileName}`
+        usage: usage.total,
+        download_url: result.fileName ? `/storage/v1/object/reports/${result.fileName}` : null
       }),
       {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -328,27 +655,20 @@ Write the section content now:`
 
   } catch (error) {
     console.error('Error processing report sections:', error)
-    
-    // Mark report as failed
-    if (req.body) {
-      const { report_generation_id } = JSON.parse(await req.text())
-      if (report_generation_id) {
-        const supabase = createClient(
-          Deno.env.get('SUPABASE_URL') ?? '',
-          Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
-        )
-        
-        await supabase
-          .from('report_generations')
-          .update({
-            status: 'failed',
-            error_message: error.message,
-            completed_at: new Date().toISOString()
-          })
-          .eq('id', report_generation_id)
-      }
+
+    // Mark report as failed; it can be resumed from its unfinished sections
+    if (reportGenerationId && error.message !== 'Unauthorized') {
+      await supabase
+        .from('report_generations')
+        .update({
+          status: 'failed',
+          error_message: error.message,
+          completed_at: new Date().toISOString()
+        })
+        .eq('id', reportGenerationId)
+        .eq('status', 'processing')
     }
-    
+
     return new Response(
       JSON.stringify({
         success: false,
@@ -356,9 +676,8 @@ Write the section content now:`
       }),
       {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 500,
+        status: error.message === 'Unauthorized' ? 401 : 500,
       }
     )
   }
 })
-
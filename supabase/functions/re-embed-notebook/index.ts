@@ -0,0 +1,416 @@
+// =====================================================
+// Edge Function: re-embed-notebook
+// File: supabase/functions/re-embed-notebook/index.ts
+// =====================================================
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { getEmbeddingModelId } from '../_shared/llm.ts'
+import { functionUrl, serviceHeaders } from '../_shared/jobs.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const BATCH_SIZE = 50
+// A batch normally finishes well within this; a running job with no update
+// for longer has lost its chain and can be resumed
+const STALLED_AFTER_MS = 2 * 60_000
+// Longest wait for a retry's backoff, kept short of looking stalled
+const MAX_RETRY_WAIT_MS = 90_000
+const ALREADY_RUNNING = 'Re-embedding is already running for this notebook'
+
+interface ReEmbeddingJob {
+  id: string
+  notebook_id: string
+  user_id: string
+  status: string
+  retry_count: number
+  max_retries: number
+  scheduled_at: string
+  config: {
+    embedding_provider: string
+    target_model: string
+    previous_model: string | null
+  }
+}
+
+async function countChunks(supabase: SupabaseClient, notebookId: string) {
+  const { count } = await supabase
+    .from('document_chunks')
+    .select('id', { count: 'exact', head: true })
+    .eq('notebook_id', notebookId)
+  return count || 0
+}
+
+async function countEmbedded(supabase: SupabaseClient, notebookId: string, model: string) {
+  const { count } = await supabase
+    .from('chunk_embeddings')
+    .select('id', { count: 'exact', head: true })
+    .eq('notebook_id', notebookId)
+    .eq('embedding_model', model)
+  return count || 0
+}
+
+function sleep(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+// A job is continued by the hand-off between batches, which uses the service
+// role key, or resumed by the user who started it. Returns whether the caller
+// is the hand-off.
+async function assertCanRun(req: Request, supabase: SupabaseClient, job: ReEmbeddingJob): Promise<boolean> {
+  const token = req.headers.get('authorization')?.replace('Bearer ', '')
+  if (token === Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')) return true
+  const { data: { user }, error: userError } = await supabase.auth.getUser(token!)
+  if (userError || !user || user.id !== job.user_id) throw new Error('Unauthorized')
+  return false
+}
+
+// Take over a failed job, or one whose chain stopped, for a new chain of
+// batches. A job updated recently still has a chain running, so null is
+// returned and it's left alone; the claim is a single update, so two resumes
+// can't both get through. A failed job gets a fresh set of retries.
+async function resumeJob(supabase: SupabaseClient, job: ReEmbeddingJob): Promise<ReEmbeddingJob | null> {
+  const stalledBefore = new Date(Date.now() - STALLED_AFTER_MS).toISOString()
+
+  const { data, error } = await supabase
+    .from('processing_jobs')
+    .update({
+      status: 'processing',
+      retry_count: job.status === 'failed' ? 0 : job.retry_count,
+      error_message: null,
+      completed_at: null,
+      scheduled_at: new Date().toISOString()
+    })
+    .eq('id', job.id)
+    .or(`status.eq.failed,updated_at.lt."${stalledBefore}"`)
+    .select()
+
+  if (error) throw error
+  return ((data || []) as ReEmbeddingJob[])[0] ?? null
+}
+
+// Create a job for the notebook, or pick up the one already running for the
+// same model. A running job for a different model is cancelled.
+async function startJob(
+  supabase: SupabaseClient,
+  notebookId: string,
+  embeddingProvider: string,
+  userId: string
+): Promise<ReEmbeddingJob | null> {
+  const targetModel = getEmbeddingModelId(embeddingProvider)
+
+  const { data: notebook, error: notebookError } = await supabase
+    .from('notebooks')
+    .select('id, embedding_model, pending_embedding_model')
+    .eq('id', notebookId)
+    .eq('user_id', userId)
+    .single()
+
+  if (notebookError || !notebook) throw new Error(`Notebook ${notebookId} not found`)
+
+  if (notebook.embedding_model === targetModel && !notebook.pending_embedding_model) {
+    return null
+  }
+
+  const { data: activeJobs } = await supabase
+    .from('processing_jobs')
+    .select('*')
+    .eq('notebook_id', notebookId)
+    .eq('job_type', 're_embedding')
+    .in('status', ['pending', 'processing'])
+
+  for (const job of (activeJobs || []) as ReEmbeddingJob[]) {
+    if (job.config?.target_model === targetModel) {
+      const resumed = await resumeJob(supabase, job)
+      if (!resumed) throw new Error(ALREADY_RUNNING)
+      return resumed
+    }
+
+    await supabase
+      .from('processing_jobs')
+      .update({ status: 'cancelled', completed_at: new Date().toISOString() })
+      .eq('id', job.id)
+
+    // Vectors written for the abandoned model are never going to be used
+    await supabase
+      .from('chunk_embeddings')
+      .delete()
+      .eq('notebook_id', notebookId)
+      .eq('embedding_model', job.config.target_model)
+  }
+
+  // Switching back to the active model just abandons the pending one
+  if (notebook.embedding_model === targetModel) {
+    await supabase
+      .from('notebooks')
+      .update({ pending_embedding_model: null })
+      .eq('id', notebookId)
+    return null
+  }
+
+  await supabase
+    .from('notebooks')
+    .update({ pending_embedding_model: targetModel })
+    .eq('id', notebookId)
+
+  const { data: job, error: jobError } = await supabase
+    .from('processing_jobs')
+    .insert({
+      job_type: 're_embedding',
+      status: 'processing',
+      notebook_id: notebookId,
+      user_id: userId,
+      config: {
+        embedding_provider: embeddingProvider,
+        target_model: targetModel,
+        previous_model: notebook.embedding_model
+      },
+      progress: 0,
+      total_steps: await countChunks(supabase, notebookId),
+      current_step: 'Queued',
+      started_at: new Date().toISOString()
+    })
+    .select()
+    .single()
+
+  if (jobError) throw jobError
+  return job as ReEmbeddingJob
+}
+
+// Make the new vectors live and drop the old ones in one pass. Returns false
+// without switching over when chunks added since the last batch still need
+// a vector.
+async function completeJob(supabase: SupabaseClient, job: ReEmbeddingJob, total: number): Promise<boolean> {
+  const { target_model: targetModel } = job.config
+
+  const { data: missing, error: missingError } = await supabase.rpc('chunks_missing_embedding', {
+    target_notebook_id: job.notebook_id,
+    target_model: targetModel,
+    batch_size: 1
+  })
+
+  if (missingError) throw missingError
+  if ((missing || []).length > 0) return false
+
+  await supabase
+    .from('notebooks')
+    .update({ embedding_model: targetModel, pending_embedding_model: null })
+    .eq('id', job.notebook_id)
+
+  await supabase
+    .from('chunk_embeddings')
+    .delete()
+    .eq('notebook_id', job.notebook_id)
+    .neq('embedding_model', targetModel)
+
+  const { data: embedded, error: markError } = await supabase.rpc('mark_chunks_embedded', {
+    target_notebook_id: job.notebook_id,
+    target_model: targetModel
+  })
+
+  if (markError) throw markError
+
+  await supabase
+    .from('processing_jobs')
+    .update({
+      status: 'completed',
+      progress: 100,
+      current_step: `Re-embedded ${embedded} chunks with ${targetModel}`,
+      completed_at: new Date().toISOString(),
+      result: { embedded, total, embedding_model: targetModel }
+    })
+    .eq('id', job.id)
+
+  return true
+}
+
+// Embed one batch of chunks that don't have a vector for the target model yet
+// and return the job's resulting status. A failed batch is retried with
+// backoff ('retrying') until the job is out of retries.
+async function processBatch(
+  supabase: SupabaseClient,
+  job: ReEmbeddingJob
+): Promise<'processing' | 'retrying' | 'completed' | 'failed'> {
+  const { target_model: targetModel, embedding_provider: embeddingProvider } = job.config
+
+  const { data: missing, error: missingError } = await supabase.rpc('chunks_missing_embedding', {
+    target_notebook_id: job.notebook_id,
+    target_model: targetModel,
+    batch_size: BATCH_SIZE
+  })
+
+  if (missingError) throw missingError
+
+  const total = await countChunks(supabase, job.notebook_id)
+  const chunkIds = ((missing || []) as { chunk_id: string }[]).map(row => row.chunk_id)
+
+  if (chunkIds.length === 0) {
+    return await completeJob(supabase, job, total) ? 'completed' : 'processing'
+  }
+
+  const response = await fetch(functionUrl('generate-embeddings'), {
+    method: 'POST',
+    headers: serviceHeaders(),
+    body: JSON.stringify({
+      chunk_ids: chunkIds,
+      notebook_id: job.notebook_id,
+      embedding_provider: embeddingProvider
+    })
+  })
+
+  const result = response.ok ? await response.json() : null
+  const embedded = await countEmbedded(supabase, job.notebook_id, targetModel)
+
+  // A batch that makes no progress counts as a failed attempt
+  if (!result?.embeddings_generated) {
+    const { data: retried, error: retryError } = await supabase.rpc('retry_processing_job', {
+      target_job_id: job.id,
+      failure: result?.error || `Embedding batch failed (${response.status})`
+    })
+
+    if (retryError) throw retryError
+
+    const updated = ((retried || []) as ReEmbeddingJob[])[0]
+    return !updated || updated.status === 'failed' ? 'failed' : 'retrying'
+  }
+
+  await supabase
+    .from('processing_jobs')
+    .update({
+      progress: total > 0 ? Math.min(99, Math.round((embedded / total) * 100)) : 99,
+      total_steps: total,
+      current_step: `Embedded ${embedded} of ${total} chunks`,
+      retry_count: 0,
+      error_message: null,
+      result: { embedded, total, embedding_model: targetModel }
+    })
+    .eq('id', job.id)
+
+  return 'processing'
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    // Start with { notebook_id, embedding_provider }; continue or resume with { job_id }
+    const { notebook_id, embedding_provider, job_id } = await req.json()
+
+    let job: ReEmbeddingJob | null = null
+
+    if (job_id) {
+      const { data, error } = await supabase
+        .from('processing_jobs')
+        .select('*')
+        .eq('id', job_id)
+        .eq('job_type', 're_embedding')
+        .single()
+
+      if (error || !data) throw new Error(`Re-embedding job ${job_id} not found`)
+      job = data as ReEmbeddingJob
+      const isHandOff = await assertCanRun(req, supabase, job)
+
+      if (!isHandOff && ['pending', 'processing', 'failed'].includes(job.status)) {
+        job = await resumeJob(supabase, job)
+        if (!job) throw new Error(ALREADY_RUNNING)
+      } else if (isHandOff && job.status === 'pending') {
+        // A failed batch's retry: wait out its backoff before trying again
+        const wait = new Date(job.scheduled_at).getTime() - Date.now()
+        if (wait > 0) await sleep(Math.min(wait, MAX_RETRY_WAIT_MS))
+
+        // Unless it was cancelled or taken over meanwhile
+        const { data: running, error: runError } = await supabase
+          .from('processing_jobs')
+          .update({ status: 'processing', current_step: `Retrying batch (attempt ${job.retry_count + 1})` })
+          .eq('id', job.id)
+          .eq('status', 'pending')
+          .select('id')
+
+        if (runError) throw runError
+        if (!running?.length) {
+          return new Response(
+            JSON.stringify({ success: true, job_id: job.id, message: 'Job is no longer waiting to retry' }),
+            { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 200 }
+          )
+        }
+        job = { ...job, status: 'processing' }
+      }
+    } else {
+      if (!notebook_id || !embedding_provider) {
+        throw new Error('Missing required parameters: notebook_id, embedding_provider')
+      }
+
+      const authHeader = req.headers.get('authorization')
+      const token = authHeader?.replace('Bearer ', '')
+      const { data: { user }, error: userError } = await supabase.auth.getUser(token!)
+
+      if (userError || !user) throw new Error('Unauthorized')
+
+      job = await startJob(supabase, notebook_id, embedding_provider, user.id)
+    }
+
+    if (!job) {
+      return new Response(
+        JSON.stringify({ success: true, job_id: null, message: 'Notebook already uses this embedding model' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 200 }
+      )
+    }
+
+    if (job.status !== 'processing' && job.status !== 'pending') {
+      return new Response(
+        JSON.stringify({ success: true, job_id: job.id, status: job.status }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 200 }
+      )
+    }
+
+    const status = await processBatch(supabase, job)
+
+    // Each invocation handles one batch, then hands off to the next one, which
+    // waits out the backoff first when the batch is to be retried
+    if (status === 'processing' || status === 'retrying') {
+      fetch(functionUrl('re-embed-notebook'), {
+        method: 'POST',
+        headers: serviceHeaders(),
+        body: JSON.stringify({ job_id: job.id })
+      }).catch(error => {
+        console.error('Failed to continue re-embedding job:', error)
+      })
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        job_id: job.id,
+        status
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200,
+      }
+    )
+
+  } catch (error) {
+    console.error('Error re-embedding notebook:', error)
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error.message
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: error.message === 'Unauthorized' ? 401 : error.message === ALREADY_RUNNING ? 409 : 500,
+      }
+    )
+  }
+})
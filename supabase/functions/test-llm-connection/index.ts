@@ -0,0 +1,87 @@
+// =====================================================
+// Edge Function: test-llm-connection
+// File: supabase/functions/test-llm-connection/index.ts
+// =====================================================
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { chat, getProviderUnavailableReason } from '../_shared/llm.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const TEST_TIMEOUT_MS = 20_000
+
+function jsonResponse(body: Record<string, unknown>, status = 200) {
+  return new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  })
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    // Tests reach out to other servers, so only signed-in users may run them
+    const token = req.headers.get('authorization')?.replace('Bearer ', '')
+    const { data: { user }, error: userError } = await supabase.auth.getUser(token!)
+    if (userError || !user) {
+      return jsonResponse({ success: false, error: 'Unauthorized' }, 401)
+    }
+
+    const { provider, model, base_url } = await req.json()
+
+    if (!provider) {
+      throw new Error('Missing required parameter: provider')
+    }
+
+    // Report configuration problems as a failed test rather than an error
+    const unavailableReason = getProviderUnavailableReason(provider, { base_url })
+    if (unavailableReason) {
+      return jsonResponse({ success: false, provider, error: unavailableReason })
+    }
+
+    const startedAt = Date.now()
+
+    // One short completion against exactly this provider: no retries, no fallback
+    const result = await chat(
+      [{ role: 'user', content: 'Reply with the single word OK.' }],
+      provider,
+      {
+        model: model || undefined,
+        base_url,
+        temperature: 0,
+        max_tokens: 16,
+        timeout_ms: TEST_TIMEOUT_MS,
+        retries: 0,
+        fallback: false
+      }
+    )
+
+    return jsonResponse({
+      success: true,
+      provider: result.provider,
+      model: result.model,
+      latency_ms: Date.now() - startedAt,
+      usage: result.usage
+    })
+
+  } catch (error) {
+    console.error('LLM connection test failed:', error)
+
+    return jsonResponse({
+      success: false,
+      error: error.message
+    })
+  }
+})
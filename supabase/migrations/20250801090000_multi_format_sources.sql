@@ -0,0 +1,19 @@
+/*
+  # Multi-format document sources
+
+  1. Storage Updates
+    - Allow HTML, plain text and Markdown uploads in the sources bucket
+    - Keep PDF and DOCX; legacy .doc stays allowed for existing objects but
+      is rejected by the ingest pipeline
+*/
+
+UPDATE storage.buckets
+SET allowed_mime_types = ARRAY[
+  'application/pdf',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'text/html',
+  'text/plain',
+  'text/markdown'
+]
+WHERE id = 'sources';
@@ -0,0 +1,15 @@
+/*
+  # Content-hash deduplication
+
+  1. Indexes
+    - Look up sources by file hash within a notebook at upload time
+    - Look up chunks by content hash within a notebook at chunk-insert time
+*/
+
+CREATE INDEX IF NOT EXISTS idx_sources_notebook_file_hash
+  ON sources(notebook_id, file_hash)
+  WHERE file_hash IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_chunks_notebook_content_hash
+  ON document_chunks(notebook_id, content_hash)
+  WHERE content_hash IS NOT NULL;
@@ -0,0 +1,87 @@
+/*
+  # Hybrid keyword + vector retrieval
+
+  1. Functions
+    - hybrid_search: fuses a full-text ranking (search_text tsvector, with
+      trigram word similarity for clause numbers and zone codes) and a cosine
+      ranking (chunk_embeddings) using reciprocal rank fusion
+    - Passing a NULL query_embedding runs keyword-only retrieval
+*/
+
+CREATE OR REPLACE FUNCTION hybrid_search(
+    query_text TEXT,
+    query_embedding vector(1536) DEFAULT NULL,
+    match_count INT DEFAULT 10,
+    filter_notebook_id UUID DEFAULT NULL,
+    filter_source_ids UUID[] DEFAULT NULL,
+    similarity_threshold FLOAT DEFAULT 0.5,
+    keyword_weight FLOAT DEFAULT 1.0,
+    semantic_weight FLOAT DEFAULT 1.0,
+    rrf_k INT DEFAULT 60
+)
+RETURNS TABLE (
+    chunk_id UUID,
+    content TEXT,
+    similarity FLOAT,
+    keyword_rank FLOAT,
+    rrf_score FLOAT,
+    metadata JSONB
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    RETURN QUERY
+    WITH semantic AS (
+        SELECT
+            ce.chunk_id AS id,
+            1 - (ce.embedding <=> query_embedding) AS score,
+            ROW_NUMBER() OVER (ORDER BY ce.embedding <=> query_embedding) AS rank_ix
+        FROM chunk_embeddings ce
+        JOIN document_chunks dc ON ce.chunk_id = dc.id
+        WHERE
+            query_embedding IS NOT NULL
+            AND (filter_notebook_id IS NULL OR ce.notebook_id = filter_notebook_id)
+            AND (filter_source_ids IS NULL OR dc.source_id = ANY(filter_source_ids))
+            AND (1 - (ce.embedding <=> query_embedding)) > similarity_threshold
+        ORDER BY ce.embedding <=> query_embedding
+        LIMIT match_count * 4
+    ),
+    keyword AS (
+        SELECT
+            dc.id,
+            ts_rank_cd(dc.search_text, websearch_to_tsquery('english', query_text), 32)
+                + word_similarity(query_text, dc.content) AS score,
+            ROW_NUMBER() OVER (
+                ORDER BY ts_rank_cd(dc.search_text, websearch_to_tsquery('english', query_text), 32)
+                    + word_similarity(query_text, dc.content) DESC
+            ) AS rank_ix
+        FROM document_chunks dc
+        WHERE
+            (filter_notebook_id IS NULL OR dc.notebook_id = filter_notebook_id)
+            AND (filter_source_ids IS NULL OR dc.source_id = ANY(filter_source_ids))
+            AND dc.chunk_type <> 'heading'
+            AND (
+                dc.search_text @@ websearch_to_tsquery('english', query_text)
+                OR query_text <% dc.content
+            )
+        ORDER BY score DESC
+        LIMIT match_count * 4
+    )
+    SELECT
+        dc.id AS chunk_id,
+        dc.content,
+        s.score AS similarity,
+        k.score::FLOAT AS keyword_rank,
+        (
+            COALESCE(semantic_weight / (rrf_k + s.rank_ix), 0.0)
+            + COALESCE(keyword_weight / (rrf_k + k.rank_ix), 0.0)
+        )::FLOAT AS rrf_score,
+        dc.metadata
+    FROM semantic s
+    FULL OUTER JOIN keyword k ON s.id = k.id
+    JOIN document_chunks dc ON dc.id = COALESCE(s.id, k.id)
+    -- Positional: rrf_score would be ambiguous with the output column
+    ORDER BY 5 DESC
+    LIMIT match_count;
+END;
+$$;
@@ -0,0 +1,255 @@
+/*
+  # Flexible embedding dimensions
+
+  1. Schema Updates
+    - chunk_embeddings.embedding becomes an untyped vector so 768-dimension
+      models (Ollama nomic-embed-text, Gemini embedding-001) can be stored
+      next to 1536-dimension ones (OpenAI text-embedding-3-small)
+    - embedding_dimension must match the stored vector
+    - notebooks.embedding_model records the single model a notebook's
+      retrieval runs against
+
+  2. Indexes
+    - One partial HNSW index per supported dimension, on the embedding cast
+      to that dimension
+
+  3. Integrity
+    - A trigger pins a notebook to the model of its first embedding and
+      rejects embeddings from any other model
+
+  4. Functions
+    - match_embeddings and hybrid_search take a vector of any dimension and
+      only compare against embeddings from the same model
+*/
+
+-- =====================================================
+-- SCHEMA
+-- =====================================================
+
+DROP INDEX IF EXISTS idx_embeddings_vector;
+
+ALTER TABLE chunk_embeddings ALTER COLUMN embedding TYPE vector;
+
+ALTER TABLE chunk_embeddings
+  ADD CONSTRAINT chunk_embeddings_dimension_check
+  CHECK (embedding IS NULL OR vector_dims(embedding) = embedding_dimension);
+
+ALTER TABLE notebooks ADD COLUMN IF NOT EXISTS embedding_model TEXT;
+
+-- Existing notebooks keep the model most of their embeddings were made with
+UPDATE notebooks n
+SET embedding_model = (
+  SELECT ce.embedding_model
+  FROM chunk_embeddings ce
+  WHERE ce.notebook_id = n.id
+  GROUP BY ce.embedding_model
+  ORDER BY COUNT(*) DESC
+  LIMIT 1
+)
+WHERE n.embedding_model IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_embeddings_notebook_model
+  ON chunk_embeddings(notebook_id, embedding_model);
+
+CREATE INDEX IF NOT EXISTS idx_embeddings_vector_768
+  ON chunk_embeddings USING hnsw ((embedding::vector(768)) vector_cosine_ops)
+  WHERE embedding_dimension = 768;
+
+CREATE INDEX IF NOT EXISTS idx_embeddings_vector_1024
+  ON chunk_embeddings USING hnsw ((embedding::vector(1024)) vector_cosine_ops)
+  WHERE embedding_dimension = 1024;
+
+CREATE INDEX IF NOT EXISTS idx_embeddings_vector_1536
+  ON chunk_embeddings USING hnsw ((embedding::vector(1536)) vector_cosine_ops)
+  WHERE embedding_dimension = 1536;
+
+-- =====================================================
+-- ONE MODEL PER NOTEBOOK
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION enforce_notebook_embedding_model()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    active_model TEXT;
+BEGIN
+    SELECT embedding_model INTO active_model
+    FROM notebooks
+    WHERE id = NEW.notebook_id
+    FOR UPDATE;
+
+    IF active_model IS NULL THEN
+        UPDATE notebooks SET embedding_model = NEW.embedding_model WHERE id = NEW.notebook_id;
+    ELSIF active_model <> NEW.embedding_model THEN
+        RAISE EXCEPTION 'Notebook % uses embedding model %, cannot store % embeddings',
+            NEW.notebook_id, active_model, NEW.embedding_model;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_notebook_embedding_model ON chunk_embeddings;
+CREATE TRIGGER enforce_notebook_embedding_model
+    BEFORE INSERT OR UPDATE OF embedding_model ON chunk_embeddings
+    FOR EACH ROW
+    WHEN (NEW.notebook_id IS NOT NULL)
+    EXECUTE FUNCTION enforce_notebook_embedding_model();
+
+-- =====================================================
+-- SEARCH FUNCTIONS
+-- =====================================================
+
+DROP FUNCTION IF EXISTS match_embeddings(vector, INT, UUID, UUID[], FLOAT);
+DROP FUNCTION IF EXISTS hybrid_search(TEXT, vector, INT, UUID, UUID[], FLOAT, FLOAT, FLOAT, INT);
+
+-- Resolve which model a search runs against: the explicit one, else the notebook's
+CREATE OR REPLACE FUNCTION resolve_embedding_model(
+    requested_model TEXT,
+    notebook UUID
+)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT COALESCE(requested_model, (SELECT embedding_model FROM notebooks WHERE id = notebook));
+$$;
+
+-- The dimension is inlined into the query so the planner can use the
+-- matching partial index; vectors of other models are never compared.
+CREATE OR REPLACE FUNCTION match_embeddings(
+    query_embedding vector,
+    match_count INT DEFAULT 10,
+    filter_notebook_id UUID DEFAULT NULL,
+    filter_source_ids UUID[] DEFAULT NULL,
+    similarity_threshold FLOAT DEFAULT 0.7,
+    filter_embedding_model TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+    chunk_id UUID,
+    content TEXT,
+    similarity FLOAT,
+    metadata JSONB
+)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    model TEXT := resolve_embedding_model(filter_embedding_model, filter_notebook_id);
+    dims INT := vector_dims(query_embedding);
+BEGIN
+    IF model IS NULL THEN
+        RETURN;
+    END IF;
+
+    RETURN QUERY EXECUTE format($query$
+        SELECT
+            dc.id AS chunk_id,
+            dc.content,
+            1 - (ce.embedding::vector(%1$s) <=> $1::vector(%1$s)) AS similarity,
+            dc.metadata
+        FROM chunk_embeddings ce
+        JOIN document_chunks dc ON ce.chunk_id = dc.id
+        WHERE
+            ce.embedding_dimension = %1$s
+            AND ce.embedding_model = $2
+            AND ($3::UUID IS NULL OR ce.notebook_id = $3)
+            AND ($4::UUID[] IS NULL OR dc.source_id = ANY($4))
+            AND (1 - (ce.embedding::vector(%1$s) <=> $1::vector(%1$s))) > $5
+        ORDER BY ce.embedding::vector(%1$s) <=> $1::vector(%1$s)
+        LIMIT $6
+    $query$, dims)
+    USING query_embedding, model, filter_notebook_id, filter_source_ids, similarity_threshold, match_count;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION hybrid_search(
+    query_text TEXT,
+    query_embedding vector DEFAULT NULL,
+    match_count INT DEFAULT 10,
+    filter_notebook_id UUID DEFAULT NULL,
+    filter_source_ids UUID[] DEFAULT NULL,
+    similarity_threshold FLOAT DEFAULT 0.5,
+    keyword_weight FLOAT DEFAULT 1.0,
+    semantic_weight FLOAT DEFAULT 1.0,
+    rrf_k INT DEFAULT 60,
+    filter_embedding_model TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+    chunk_id UUID,
+    content TEXT,
+    similarity FLOAT,
+    keyword_rank FLOAT,
+    rrf_score FLOAT,
+    metadata JSONB
+)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    model TEXT := resolve_embedding_model(filter_embedding_model, filter_notebook_id);
+    -- Without a usable embedding the semantic side is empty (keyword-only)
+    dims INT := CASE
+        WHEN query_embedding IS NULL OR model IS NULL THEN 1
+        ELSE vector_dims(query_embedding)
+    END;
+BEGIN
+    RETURN QUERY EXECUTE format($query$
+        WITH semantic AS (
+            SELECT
+                ce.chunk_id AS id,
+                1 - (ce.embedding::vector(%1$s) <=> $2::vector(%1$s)) AS score,
+                ROW_NUMBER() OVER (ORDER BY ce.embedding::vector(%1$s) <=> $2::vector(%1$s)) AS rank_ix
+            FROM chunk_embeddings ce
+            JOIN document_chunks dc ON ce.chunk_id = dc.id
+            WHERE
+                $2 IS NOT NULL
+                AND $3 IS NOT NULL
+                AND ce.embedding_dimension = %1$s
+                AND ce.embedding_model = $3
+                AND ($4::UUID IS NULL OR ce.notebook_id = $4)
+                AND ($5::UUID[] IS NULL OR dc.source_id = ANY($5))
+                AND (1 - (ce.embedding::vector(%1$s) <=> $2::vector(%1$s))) > $6
+            ORDER BY ce.embedding::vector(%1$s) <=> $2::vector(%1$s)
+            LIMIT $7 * 4
+        ),
+        keyword AS (
+            SELECT
+                dc.id,
+                ts_rank_cd(dc.search_text, websearch_to_tsquery('english', $1), 32)
+                    + word_similarity($1, dc.content) AS score,
+                ROW_NUMBER() OVER (
+                    ORDER BY ts_rank_cd(dc.search_text, websearch_to_tsquery('english', $1), 32)
+                        + word_similarity($1, dc.content) DESC
+                ) AS rank_ix
+            FROM document_chunks dc
+            WHERE
+                ($4::UUID IS NULL OR dc.notebook_id = $4)
+                AND ($5::UUID[] IS NULL OR dc.source_id = ANY($5))
+                AND dc.chunk_type <> 'heading'
+                AND (
+                    dc.search_text @@ websearch_to_tsquery('english', $1)
+                    OR $1 <%% dc.content
+                )
+            ORDER BY score DESC
+            LIMIT $7 * 4
+        )
+        SELECT
+            dc.id AS chunk_id,
+            dc.content,
+            s.score AS similarity,
+            k.score::FLOAT AS keyword_rank,
+            (
+                COALESCE($8 / ($10 + s.rank_ix), 0.0)
+                + COALESCE($9 / ($10 + k.rank_ix), 0.0)
+            )::FLOAT AS rrf_score,
+            dc.metadata
+        FROM semantic s
+        FULL OUTER JOIN keyword k ON s.id = k.id
+        JOIN document_chunks dc ON dc.id = COALESCE(s.id, k.id)
+        ORDER BY 5 DESC
+        LIMIT $7
+    $query$, dims)
+    USING query_text, query_embedding, model, filter_notebook_id, filter_source_ids,
+        similarity_threshold, match_count, semantic_weight, keyword_weight, rrf_k;
+END;
+$$;
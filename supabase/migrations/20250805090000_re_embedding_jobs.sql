@@ -0,0 +1,76 @@
+/*
+  # Re-embedding jobs
+
+  1. Schema Updates
+    - processing_jobs accepts the 're_embedding' job type
+    - notebooks.pending_embedding_model holds the model a running
+      re-embedding job is writing; retrieval keeps using embedding_model
+      until the job switches the notebook over
+
+  2. Integrity
+    - The one-model-per-notebook trigger also admits embeddings for the
+      pending model
+
+  3. Functions
+    - chunks_missing_embedding: next batch of chunks without an embedding
+      for a model, so a job can resume from wherever it stopped
+
+  4. Security
+    - Users can see their own processing jobs (for progress in the UI)
+*/
+
+ALTER TABLE processing_jobs DROP CONSTRAINT IF EXISTS processing_jobs_job_type_check;
+ALTER TABLE processing_jobs ADD CONSTRAINT processing_jobs_job_type_check
+  CHECK (job_type IN ('pdf_processing', 'embedding_generation', 'report_generation', 'metadata_extraction', 're_embedding'));
+
+ALTER TABLE notebooks ADD COLUMN IF NOT EXISTS pending_embedding_model TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_jobs_notebook_type ON processing_jobs(notebook_id, job_type, status);
+
+CREATE OR REPLACE FUNCTION enforce_notebook_embedding_model()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    active_model TEXT;
+    pending_model TEXT;
+BEGIN
+    SELECT embedding_model, pending_embedding_model INTO active_model, pending_model
+    FROM notebooks
+    WHERE id = NEW.notebook_id
+    FOR UPDATE;
+
+    IF active_model IS NULL THEN
+        UPDATE notebooks SET embedding_model = NEW.embedding_model WHERE id = NEW.notebook_id;
+    ELSIF active_model <> NEW.embedding_model AND NEW.embedding_model IS DISTINCT FROM pending_model THEN
+        RAISE EXCEPTION 'Notebook % uses embedding model %, cannot store % embeddings',
+            NEW.notebook_id, active_model, NEW.embedding_model;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION chunks_missing_embedding(
+    target_notebook_id UUID,
+    target_model TEXT,
+    batch_size INT DEFAULT 50
+)
+RETURNS TABLE (chunk_id UUID)
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT dc.id AS chunk_id
+    FROM document_chunks dc
+    WHERE dc.notebook_id = target_notebook_id
+      AND NOT EXISTS (
+          SELECT 1
+          FROM chunk_embeddings ce
+          WHERE ce.chunk_id = dc.id
+            AND ce.embedding_model = target_model
+      )
+    ORDER BY dc.created_at, dc.chunk_index
+    LIMIT batch_size;
+$$;
+
+CREATE POLICY "Users can view own processing jobs" ON processing_jobs FOR SELECT USING (auth.uid() = user_id);
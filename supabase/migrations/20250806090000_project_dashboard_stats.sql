@@ -0,0 +1,64 @@
+/*
+  # Project dashboard statistics
+
+  1. Views
+    - v_document_stats is rebuilt for the project overview page:
+      - source counts by processing_status
+      - embedded_chunk_count: chunks with an embedding for the notebook's
+        active embedding model, i.e. what retrieval can actually find
+      - totals are aggregated per table so joining chunks and embeddings no
+        longer multiplies total_file_size
+
+  2. Security
+    - The view runs with the caller's permissions (security_invoker), so
+      RLS limits it to the user's own notebooks instead of every user's
+*/
+
+DROP VIEW IF EXISTS v_document_stats;
+
+CREATE VIEW v_document_stats
+WITH (security_invoker = true)
+AS
+SELECT
+    n.id AS notebook_id,
+    n.name AS notebook_name,
+    COALESCE(s.source_count, 0) AS source_count,
+    COALESCE(c.chunk_count, 0) AS chunk_count,
+    COALESCE(e.embedding_count, 0) AS embedding_count,
+    COALESCE(s.total_file_size, 0) AS total_file_size,
+    s.last_upload,
+    COALESCE(s.pending_count, 0) AS pending_count,
+    COALESCE(s.processing_count, 0) AS processing_count,
+    COALESCE(s.completed_count, 0) AS completed_count,
+    COALESCE(s.failed_count, 0) AS failed_count,
+    COALESCE(s.cancelled_count, 0) AS cancelled_count,
+    COALESCE(e.embedded_chunk_count, 0) AS embedded_chunk_count,
+    n.embedding_model
+FROM notebooks n
+LEFT JOIN LATERAL (
+    SELECT
+        COUNT(*) AS source_count,
+        SUM(file_size) AS total_file_size,
+        MAX(created_at) AS last_upload,
+        COUNT(*) FILTER (WHERE processing_status = 'pending') AS pending_count,
+        COUNT(*) FILTER (WHERE processing_status = 'processing') AS processing_count,
+        COUNT(*) FILTER (WHERE processing_status = 'completed') AS completed_count,
+        COUNT(*) FILTER (WHERE processing_status = 'failed') AS failed_count,
+        COUNT(*) FILTER (WHERE processing_status = 'cancelled') AS cancelled_count
+    FROM sources
+    WHERE notebook_id = n.id
+) s ON TRUE
+LEFT JOIN LATERAL (
+    SELECT COUNT(*) AS chunk_count
+    FROM document_chunks
+    WHERE notebook_id = n.id
+) c ON TRUE
+LEFT JOIN LATERAL (
+    SELECT
+        COUNT(*) AS embedding_count,
+        COUNT(DISTINCT chunk_id) FILTER (WHERE embedding_model = n.embedding_model) AS embedded_chunk_count
+    FROM chunk_embeddings
+    WHERE notebook_id = n.id
+) e ON TRUE;
+
+GRANT SELECT ON v_document_stats TO authenticated;
@@ -0,0 +1,135 @@
+/*
+  # Processing job queue
+
+  1. Schema Updates
+    - processing_jobs.step_log records every step a job went through, across
+      retries, as [{ step, progress, at }]
+    - Index for picking the next due job
+
+  2. Functions (service role only)
+    - claim_processing_job: atomically take the next due pending job of the
+      given types (or a specific one). Jobs left 'processing' by a worker that
+      died are first put back as a failed attempt
+    - retry_processing_job: record a failed attempt and reschedule the job
+      with exponential backoff, or fail it once max_retries is used up
+    - record_processing_job_step: set the current step and progress and append
+      it to step_log
+
+  3. Realtime
+    - processing_jobs is published so the UI can follow job progress
+*/
+
+ALTER TABLE processing_jobs ADD COLUMN IF NOT EXISTS step_log JSONB DEFAULT '[]';
+
+CREATE INDEX IF NOT EXISTS idx_jobs_queue ON processing_jobs(status, scheduled_at);
+
+CREATE OR REPLACE FUNCTION claim_processing_job(
+    job_types TEXT[],
+    target_job_id UUID DEFAULT NULL,
+    stale_after INTERVAL DEFAULT INTERVAL '15 minutes'
+)
+RETURNS SETOF processing_jobs
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    -- Edge functions are stopped at their time limit, leaving the job behind
+    WITH stale AS (
+        UPDATE processing_jobs
+        SET status = CASE WHEN retry_count + 1 > max_retries THEN 'failed' ELSE 'pending' END,
+            retry_count = retry_count + 1,
+            error_message = 'Processing stopped responding',
+            current_step = CASE WHEN retry_count + 1 > max_retries THEN 'Failed' ELSE 'Waiting to retry' END,
+            completed_at = CASE WHEN retry_count + 1 > max_retries THEN NOW() END
+        WHERE job_type = ANY(job_types)
+          AND status = 'processing'
+          AND updated_at < NOW() - stale_after
+        RETURNING source_id, job_type, status
+    )
+    UPDATE sources s
+    SET processing_status = 'failed',
+        processing_error = 'Processing stopped responding'
+    FROM stale
+    WHERE s.id = stale.source_id
+      AND stale.job_type = 'pdf_processing'
+      AND stale.status = 'failed';
+
+    RETURN QUERY
+    UPDATE processing_jobs
+    SET status = 'processing',
+        started_at = NOW(),
+        completed_at = NULL,
+        current_step = 'Started'
+    WHERE id = (
+        SELECT id
+        FROM processing_jobs
+        WHERE job_type = ANY(job_types)
+          AND status = 'pending'
+          AND scheduled_at <= NOW()
+          AND (target_job_id IS NULL OR id = target_job_id)
+        ORDER BY scheduled_at
+        LIMIT 1
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING *;
+END;
+$$;
+
+-- Attempts are retried after base_delay, 3x base_delay, 9x base_delay, ...
+CREATE OR REPLACE FUNCTION retry_processing_job(
+    target_job_id UUID,
+    failure TEXT,
+    base_delay INTERVAL DEFAULT INTERVAL '10 seconds'
+)
+RETURNS SETOF processing_jobs
+LANGUAGE sql
+AS $$
+    UPDATE processing_jobs
+    SET retry_count = retry_count + 1,
+        status = CASE WHEN retry_count < max_retries THEN 'pending' ELSE 'failed' END,
+        scheduled_at = CASE
+            WHEN retry_count < max_retries THEN NOW() + base_delay * POWER(3, retry_count)
+            ELSE scheduled_at
+        END,
+        completed_at = CASE WHEN retry_count < max_retries THEN NULL ELSE NOW() END,
+        current_step = CASE WHEN retry_count < max_retries THEN 'Waiting to retry' ELSE 'Failed' END,
+        error_message = failure,
+        error_details = COALESCE(error_details, '[]'::jsonb) || jsonb_build_array(
+            jsonb_build_object('attempt', retry_count + 1, 'error', failure, 'at', NOW())
+        )
+    WHERE id = target_job_id
+    RETURNING *;
+$$;
+
+CREATE OR REPLACE FUNCTION record_processing_job_step(
+    target_job_id UUID,
+    step TEXT,
+    step_progress INT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE sql
+AS $$
+    UPDATE processing_jobs
+    SET current_step = step,
+        progress = COALESCE(step_progress, progress),
+        step_log = COALESCE(step_log, '[]'::jsonb) || jsonb_build_array(
+            jsonb_build_object('step', step, 'progress', COALESCE(step_progress, progress), 'at', NOW())
+        )
+    WHERE id = target_job_id;
+$$;
+
+-- Only edge functions (service role) run jobs
+REVOKE EXECUTE ON FUNCTION claim_processing_job(TEXT[], UUID, INTERVAL) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION retry_processing_job(UUID, TEXT, INTERVAL) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION record_processing_job_step(UUID, TEXT, INT) FROM PUBLIC, anon, authenticated;
+
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime')
+       AND NOT EXISTS (
+           SELECT 1 FROM pg_publication_tables
+           WHERE pubname = 'supabase_realtime' AND tablename = 'processing_jobs'
+       ) THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE processing_jobs;
+    END IF;
+END;
+$$;
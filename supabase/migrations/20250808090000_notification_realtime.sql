@@ -0,0 +1,27 @@
+/*
+  # Realtime for the notification center
+
+  1. Realtime
+    - sources and report_generations are published alongside processing_jobs
+      so the notification center hears about finished ingestions and reports
+    - Subscribers only receive rows their RLS policies let them read
+*/
+
+DO $$
+DECLARE
+    published_table TEXT;
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+        RETURN;
+    END IF;
+
+    FOREACH published_table IN ARRAY ARRAY['sources', 'report_generations'] LOOP
+        IF NOT EXISTS (
+            SELECT 1 FROM pg_publication_tables
+            WHERE pubname = 'supabase_realtime' AND tablename = published_table
+        ) THEN
+            EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE %I', published_table);
+        END IF;
+    END LOOP;
+END;
+$$;
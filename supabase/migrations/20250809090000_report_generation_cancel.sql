@@ -0,0 +1,43 @@
+/*
+  # Cancel report generation
+
+  1. Functions
+    - cancel_report_generation: lets a user stop their own pending or
+      processing report. Sections not yet started are marked 'skipped';
+      process-report-sections stops before its next section, and a cancelled
+      report can be resumed later from the sections that didn't complete
+
+  2. Security
+    - Users can't update report_generations directly, so the function runs as
+      its owner and checks the report belongs to the caller
+*/
+
+CREATE OR REPLACE FUNCTION cancel_report_generation(target_report_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    UPDATE report_generations
+    SET status = 'cancelled',
+        completed_at = NOW()
+    WHERE id = target_report_id
+      AND user_id = auth.uid()
+      AND status IN ('pending', 'processing');
+
+    IF NOT FOUND THEN
+        RETURN FALSE;
+    END IF;
+
+    UPDATE report_sections
+    SET status = 'skipped'
+    WHERE report_generation_id = target_report_id
+      AND status = 'pending';
+
+    RETURN TRUE;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION cancel_report_generation(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION cancel_report_generation(UUID) TO authenticated;
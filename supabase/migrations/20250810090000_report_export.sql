@@ -0,0 +1,69 @@
+/*
+  # Report export with letterheads
+
+  1. New Tables
+    - report_letterheads: a user's letterhead templates for exported reports
+      (organisation details, logo, accent colour, header and footer text and
+      whether to add a cover page). At most one per user is the default
+
+  2. Schema Updates
+    - report_generations.letterhead_id: the letterhead a report is exported
+      with; reports without one use the user's default
+    - report_generations.file_format is limited to the formats we produce
+
+  3. Storage
+    - The reports bucket also accepts PNG and JPEG letterhead logos, stored
+      under <user id>/letterheads/
+
+  4. Security
+    - Users manage only their own letterheads
+*/
+
+CREATE TABLE IF NOT EXISTS report_letterheads (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    -- Letterhead
+    organisation_name TEXT,
+    address TEXT,
+    contact_details TEXT,
+    logo_path TEXT,
+    accent_color TEXT DEFAULT '#1f3a5f' CHECK (accent_color ~ '^#[0-9a-fA-F]{6}$'),
+    -- Page furniture
+    header_text TEXT,
+    footer_text TEXT,
+    include_cover_page BOOLEAN DEFAULT TRUE,
+    cover_note TEXT,
+    is_default BOOLEAN DEFAULT FALSE,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_report_letterheads_default
+    ON report_letterheads(user_id) WHERE is_default;
+
+ALTER TABLE report_letterheads ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own letterheads" ON report_letterheads FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can create letterheads" ON report_letterheads FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update own letterheads" ON report_letterheads FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete own letterheads" ON report_letterheads FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_report_letterheads_updated_at BEFORE UPDATE ON report_letterheads FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE report_generations
+    ADD COLUMN IF NOT EXISTS letterhead_id UUID REFERENCES report_letterheads(id) ON DELETE SET NULL;
+
+ALTER TABLE report_generations DROP CONSTRAINT IF EXISTS report_generations_file_format_check;
+ALTER TABLE report_generations
+    ADD CONSTRAINT report_generations_file_format_check CHECK (file_format IN ('markdown', 'docx', 'pdf'));
+
+UPDATE storage.buckets
+SET allowed_mime_types = ARRAY[
+    'text/markdown',
+    'application/pdf',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'image/png',
+    'image/jpeg'
+]
+WHERE id = 'reports';
@@ -0,0 +1,105 @@
+/*
+  # Editable, versioned report templates
+
+  1. Schema Updates
+    - report_templates.display_name: the name shown to users (backfilled from name)
+    - report_templates.family_id: shared by every version of a template; the
+      id of its first version
+    - report_templates.version_number: 1 for a new or cloned template, going
+      up by one with each saved edit. Only the latest version is is_active,
+      so reports keep pointing at the exact version they were generated from
+    - report_templates.cloned_from_id: the version a template was copied from
+
+  2. Functions
+    - save_report_template_version: saves an edit of one of the caller's
+      templates as the next version of its family and retires the previous one
+
+  3. Security
+    - Everyone can read the built-in templates (created_by is null); users
+      read, create and update only their own. Built-in templates are cloned
+      rather than edited
+*/
+
+ALTER TABLE report_templates ADD COLUMN IF NOT EXISTS display_name TEXT;
+ALTER TABLE report_templates ADD COLUMN IF NOT EXISTS family_id UUID;
+ALTER TABLE report_templates ADD COLUMN IF NOT EXISTS version_number INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE report_templates
+    ADD COLUMN IF NOT EXISTS cloned_from_id UUID REFERENCES report_templates(id) ON DELETE SET NULL;
+
+UPDATE report_templates SET display_name = name WHERE display_name IS NULL;
+UPDATE report_templates SET family_id = id WHERE family_id IS NULL;
+
+CREATE OR REPLACE FUNCTION set_report_template_family()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    NEW.family_id := COALESCE(NEW.family_id, NEW.id);
+    NEW.display_name := COALESCE(NEW.display_name, NEW.name);
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_report_template_family ON report_templates;
+CREATE TRIGGER set_report_template_family BEFORE INSERT ON report_templates FOR EACH ROW EXECUTE FUNCTION set_report_template_family();
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_report_templates_active_version
+    ON report_templates(family_id) WHERE is_active;
+
+CREATE INDEX IF NOT EXISTS idx_report_templates_family
+    ON report_templates(family_id, version_number DESC);
+
+ALTER TABLE report_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view built-in and own templates" ON report_templates FOR SELECT
+    USING (created_by IS NULL OR auth.uid() = created_by);
+CREATE POLICY "Users can create templates" ON report_templates FOR INSERT WITH CHECK (auth.uid() = created_by);
+CREATE POLICY "Users can update own templates" ON report_templates FOR UPDATE USING (auth.uid() = created_by);
+
+-- Runs with the caller's rights, so the policies above decide what can be edited
+CREATE OR REPLACE FUNCTION save_report_template_version(
+    base_template_id UUID,
+    new_display_name TEXT,
+    new_description TEXT,
+    new_category TEXT,
+    new_structure JSONB
+)
+RETURNS report_templates
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    base report_templates;
+    saved report_templates;
+BEGIN
+    SELECT * INTO base
+    FROM report_templates
+    WHERE id = base_template_id
+      AND created_by = auth.uid()
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Template not found';
+    END IF;
+
+    UPDATE report_templates
+    SET is_active = FALSE
+    WHERE family_id = base.family_id
+      AND is_active;
+
+    INSERT INTO report_templates (
+        name, display_name, description, category, structure, default_config,
+        created_by, family_id, version_number, cloned_from_id, is_active
+    )
+    SELECT
+        new_display_name, new_display_name, new_description, new_category, new_structure, base.default_config,
+        auth.uid(), base.family_id, MAX(version_number) + 1, base.cloned_from_id, TRUE
+    FROM report_templates
+    WHERE family_id = base.family_id
+    RETURNING * INTO saved;
+
+    RETURN saved;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION save_report_template_version(UUID, TEXT, TEXT, TEXT, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION save_report_template_version(UUID, TEXT, TEXT, TEXT, JSONB) TO authenticated;
@@ -0,0 +1,66 @@
+/*
+  # Per-section writing settings for the built-in templates
+
+  1. Data Updates
+    - Template sections can carry their own retrieval query, writing
+      instructions, output format (prose, table or bullets), target length
+      and the sections they are written after (depends_on; "*" for all
+      the others). generate-report copies them into report_sections.metadata
+    - Heritage Impact Statement: the Executive Summary is written last from
+      the rest of the report, and the Conclusion follows the impact assessment
+    - Planning Proposal Report: Planning Controls is a table of the LEP and
+      DCP controls, and the Conclusion follows the assessment sections
+*/
+
+-- Merges settings into one section (or one of its subsections) of a built-in template
+CREATE FUNCTION pg_temp.merge_template_section(
+    template_name TEXT,
+    target_section TEXT,
+    target_subsection TEXT,
+    settings JSONB
+)
+RETURNS VOID
+LANGUAGE sql
+AS $$
+    UPDATE report_templates
+    SET structure = jsonb_set(structure, '{sections}', (
+        SELECT jsonb_agg(
+            CASE
+                WHEN section->>'name' <> target_section THEN section
+                WHEN target_subsection IS NULL THEN section || settings
+                ELSE jsonb_set(section, '{subsections}', (
+                    SELECT jsonb_agg(
+                        CASE WHEN subsection->>'name' = target_subsection THEN subsection || settings ELSE subsection END
+                        ORDER BY sub_position
+                    )
+                    FROM jsonb_array_elements(section->'subsections') WITH ORDINALITY AS subsections(subsection, sub_position)
+                ))
+            END
+            ORDER BY position
+        )
+        FROM jsonb_array_elements(structure->'sections') WITH ORDINALITY AS sections(section, position)
+    ))
+    WHERE name = template_name
+      AND created_by IS NULL;
+$$;
+
+SELECT pg_temp.merge_template_section('Heritage Impact Statement', 'Executive Summary', NULL, '{
+  "depends_on": ["*"],
+  "target_words": 250,
+  "instructions": "Summarise the rest of the report: the item''s heritage significance, the proposed works, their impact and the recommendation. Do not introduce anything the other sections do not cover."
+}'::jsonb);
+
+SELECT pg_temp.merge_template_section('Heritage Impact Statement', 'Conclusion', NULL, '{
+  "depends_on": ["Heritage Impact"],
+  "instructions": "Draw the conclusion from the assessment of heritage impact and list any recommended conditions."
+}'::jsonb);
+
+SELECT pg_temp.merge_template_section('Planning Proposal Report', 'Site Analysis', 'Planning Controls', '{
+  "format": "table",
+  "query": "{address} zoning, LEP and DCP planning controls: height of buildings, floor space ratio, minimum lot size, setbacks, heritage and other mapped controls",
+  "instructions": "Tabulate each control that applies to the site, with the instrument and clause it comes from. Leave a cell as \"Not identified\" rather than guessing a value."
+}'::jsonb);
+
+SELECT pg_temp.merge_template_section('Planning Proposal Report', 'Conclusion', NULL, '{
+  "depends_on": ["Planning Assessment", "Environmental Impact"]
+}'::jsonb);
@@ -0,0 +1,45 @@
+/*
+  # Hand edits to report sections
+
+  1. Schema Updates
+    - report_sections.edited_content: the user's own text for a section, kept
+      alongside the AI draft in generated_content so the two can be compared.
+      Reports are assembled and exported from it where there is one
+    - report_sections.edited_at: when the section was last edited
+
+  2. Functions
+    - save_report_section_edit: saves the caller's edit of a completed section
+      of one of their completed reports; NULL discards the edit and goes back
+      to the AI draft
+
+  3. Security
+    - Sections are only changed through the function, which runs as its owner
+      and checks the report belongs to the caller
+*/
+
+ALTER TABLE report_sections ADD COLUMN IF NOT EXISTS edited_content TEXT;
+ALTER TABLE report_sections ADD COLUMN IF NOT EXISTS edited_at TIMESTAMPTZ;
+
+CREATE OR REPLACE FUNCTION save_report_section_edit(target_section_id UUID, new_content TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    UPDATE report_sections
+    SET edited_content = new_content,
+        edited_at = CASE WHEN new_content IS NULL THEN NULL ELSE NOW() END
+    FROM report_generations
+    WHERE report_sections.id = target_section_id
+      AND report_generations.id = report_sections.report_generation_id
+      AND report_generations.user_id = auth.uid()
+      AND report_generations.status = 'completed'
+      AND report_sections.status = 'completed';
+
+    RETURN FOUND;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION save_report_section_edit(UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION save_report_section_edit(UUID, TEXT) TO authenticated;
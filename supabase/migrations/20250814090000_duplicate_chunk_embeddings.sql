@@ -0,0 +1,50 @@
+/*
+  # Shared embeddings for duplicate chunks
+
+  1. Functions
+    - copy_chunk_embeddings: gives a newly stored chunk the vectors of an
+      existing chunk in the same notebook with identical content, so a
+      passage repeated across documents is kept in each of them but only
+      embedded once. The chunk is marked embedded when the original is
+*/
+
+CREATE OR REPLACE FUNCTION copy_chunk_embeddings(from_chunk_id UUID, to_chunk_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    copied INTEGER;
+BEGIN
+    INSERT INTO chunk_embeddings (chunk_id, notebook_id, embedding, embedding_model, embedding_dimension, metadata)
+    SELECT target.id,
+           target.notebook_id,
+           ce.embedding,
+           ce.embedding_model,
+           ce.embedding_dimension,
+           jsonb_build_object('section_title', target.section_title, 'chunk_type', target.chunk_type)
+    FROM chunk_embeddings ce
+    JOIN document_chunks target ON target.id = to_chunk_id
+    WHERE ce.chunk_id = from_chunk_id
+      AND ce.notebook_id = target.notebook_id
+    ON CONFLICT (chunk_id, embedding_model) DO NOTHING;
+
+    GET DIAGNOSTICS copied = ROW_COUNT;
+
+    UPDATE document_chunks target
+    SET embedding_generated = TRUE,
+        embedding_model = original.embedding_model,
+        embedding_generated_at = NOW()
+    FROM document_chunks original
+    WHERE target.id = to_chunk_id
+      AND original.id = from_chunk_id
+      AND original.embedding_generated
+      AND EXISTS (
+          SELECT 1
+          FROM chunk_embeddings ce
+          WHERE ce.chunk_id = target.id
+            AND ce.embedding_model = original.embedding_model
+      );
+
+    RETURN copied;
+END;
+$$;
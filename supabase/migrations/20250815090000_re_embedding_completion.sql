@@ -0,0 +1,47 @@
+/*
+  # Re-embedding completion
+
+  1. Functions
+    - mark_chunks_embedded: records which of a notebook's chunks have a
+      vector for a model once a re-embedding job switches the notebook to
+      it. Chunks without one are left for the embedding queue to pick up
+      rather than being reported as embedded
+*/
+
+CREATE OR REPLACE FUNCTION mark_chunks_embedded(target_notebook_id UUID, target_model TEXT)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    embedded INTEGER;
+BEGIN
+    UPDATE document_chunks dc
+    SET embedding_generated = TRUE,
+        embedding_model = target_model,
+        embedding_generated_at = NOW()
+    WHERE dc.notebook_id = target_notebook_id
+      AND EXISTS (
+          SELECT 1
+          FROM chunk_embeddings ce
+          WHERE ce.chunk_id = dc.id
+            AND ce.embedding_model = target_model
+      );
+
+    GET DIAGNOSTICS embedded = ROW_COUNT;
+
+    UPDATE document_chunks dc
+    SET embedding_generated = FALSE,
+        embedding_model = NULL,
+        embedding_generated_at = NULL
+    WHERE dc.notebook_id = target_notebook_id
+      AND dc.embedding_generated
+      AND NOT EXISTS (
+          SELECT 1
+          FROM chunk_embeddings ce
+          WHERE ce.chunk_id = dc.id
+            AND ce.embedding_model = target_model
+      );
+
+    RETURN embedded;
+END;
+$$;
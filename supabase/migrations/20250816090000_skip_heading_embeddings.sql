@@ -0,0 +1,187 @@
+/*
+  # No embeddings for heading chunks
+
+  1. Data Updates
+    - Heading chunks hold nothing but a title and only anchor the document
+      hierarchy (parent_chunk_id). Their existing embeddings are removed so
+      bare titles stop taking retrieval slots and showing up as citations
+
+  2. Functions
+    - match_embeddings and the semantic side of hybrid_search skip heading
+      chunks, as the keyword side already does
+    - chunks_missing_embedding no longer offers heading chunks to
+      re-embedding jobs
+*/
+
+DELETE FROM chunk_embeddings ce
+USING document_chunks dc
+WHERE dc.id = ce.chunk_id
+  AND dc.chunk_type = 'heading';
+
+UPDATE document_chunks
+SET embedding_generated = FALSE,
+    embedding_model = NULL,
+    embedding_generated_at = NULL
+WHERE chunk_type = 'heading'
+  AND embedding_generated;
+
+CREATE OR REPLACE FUNCTION match_embeddings(
+    query_embedding vector,
+    match_count INT DEFAULT 10,
+    filter_notebook_id UUID DEFAULT NULL,
+    filter_source_ids UUID[] DEFAULT NULL,
+    similarity_threshold FLOAT DEFAULT 0.7,
+    filter_embedding_model TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+    chunk_id UUID,
+    content TEXT,
+    similarity FLOAT,
+    metadata JSONB
+)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    model TEXT := resolve_embedding_model(filter_embedding_model, filter_notebook_id);
+    dims INT := vector_dims(query_embedding);
+BEGIN
+    IF model IS NULL THEN
+        RETURN;
+    END IF;
+
+    RETURN QUERY EXECUTE format($query$
+        SELECT
+            dc.id AS chunk_id,
+            dc.content,
+            1 - (ce.embedding::vector(%1$s) <=> $1::vector(%1$s)) AS similarity,
+            dc.metadata
+        FROM chunk_embeddings ce
+        JOIN document_chunks dc ON ce.chunk_id = dc.id
+        WHERE
+            ce.embedding_dimension = %1$s
+            AND ce.embedding_model = $2
+            AND ($3::UUID IS NULL OR ce.notebook_id = $3)
+            AND ($4::UUID[] IS NULL OR dc.source_id = ANY($4))
+            AND dc.chunk_type <> 'heading'
+            AND (1 - (ce.embedding::vector(%1$s) <=> $1::vector(%1$s))) > $5
+        ORDER BY ce.embedding::vector(%1$s) <=> $1::vector(%1$s)
+        LIMIT $6
+    $query$, dims)
+    USING query_embedding, model, filter_notebook_id, filter_source_ids, similarity_threshold, match_count;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION hybrid_search(
+    query_text TEXT,
+    query_embedding vector DEFAULT NULL,
+    match_count INT DEFAULT 10,
+    filter_notebook_id UUID DEFAULT NULL,
+    filter_source_ids UUID[] DEFAULT NULL,
+    similarity_threshold FLOAT DEFAULT 0.5,
+    keyword_weight FLOAT DEFAULT 1.0,
+    semantic_weight FLOAT DEFAULT 1.0,
+    rrf_k INT DEFAULT 60,
+    filter_embedding_model TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+    chunk_id UUID,
+    content TEXT,
+    similarity FLOAT,
+    keyword_rank FLOAT,
+    rrf_score FLOAT,
+    metadata JSONB
+)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    model TEXT := resolve_embedding_model(filter_embedding_model, filter_notebook_id);
+    -- Without a usable embedding the semantic side is empty (keyword-only)
+    dims INT := CASE
+        WHEN query_embedding IS NULL OR model IS NULL THEN 1
+        ELSE vector_dims(query_embedding)
+    END;
+BEGIN
+    RETURN QUERY EXECUTE format($query$
+        WITH semantic AS (
+            SELECT
+                ce.chunk_id AS id,
+                1 - (ce.embedding::vector(%1$s) <=> $2::vector(%1$s)) AS score,
+                ROW_NUMBER() OVER (ORDER BY ce.embedding::vector(%1$s) <=> $2::vector(%1$s)) AS rank_ix
+            FROM chunk_embeddings ce
+            JOIN document_chunks dc ON ce.chunk_id = dc.id
+            WHERE
+                $2 IS NOT NULL
+                AND $3 IS NOT NULL
+                AND ce.embedding_dimension = %1$s
+                AND ce.embedding_model = $3
+                AND ($4::UUID IS NULL OR ce.notebook_id = $4)
+                AND ($5::UUID[] IS NULL OR dc.source_id = ANY($5))
+                AND dc.chunk_type <> 'heading'
+                AND (1 - (ce.embedding::vector(%1$s) <=> $2::vector(%1$s))) > $6
+            ORDER BY ce.embedding::vector(%1$s) <=> $2::vector(%1$s)
+            LIMIT $7 * 4
+        ),
+        keyword AS (
+            SELECT
+                dc.id,
+                ts_rank_cd(dc.search_text, websearch_to_tsquery('english', $1), 32)
+                    + word_similarity($1, dc.content) AS score,
+                ROW_NUMBER() OVER (
+                    ORDER BY ts_rank_cd(dc.search_text, websearch_to_tsquery('english', $1), 32)
+                        + word_similarity($1, dc.content) DESC
+                ) AS rank_ix
+            FROM document_chunks dc
+            WHERE
+                ($4::UUID IS NULL OR dc.notebook_id = $4)
+                AND ($5::UUID[] IS NULL OR dc.source_id = ANY($5))
+                AND dc.chunk_type <> 'heading'
+                AND (
+                    dc.search_text @@ websearch_to_tsquery('english', $1)
+                    OR $1 <%% dc.content
+                )
+            ORDER BY score DESC
+            LIMIT $7 * 4
+        )
+        SELECT
+            dc.id AS chunk_id,
+            dc.content,
+            s.score AS similarity,
+            k.score::FLOAT AS keyword_rank,
+            (
+                COALESCE($8 / ($10 + s.rank_ix), 0.0)
+                + COALESCE($9 / ($10 + k.rank_ix), 0.0)
+            )::FLOAT AS rrf_score,
+            dc.metadata
+        FROM semantic s
+        FULL OUTER JOIN keyword k ON s.id = k.id
+        JOIN document_chunks dc ON dc.id = COALESCE(s.id, k.id)
+        ORDER BY 5 DESC
+        LIMIT $7
+    $query$, dims)
+    USING query_text, query_embedding, model, filter_notebook_id, filter_source_ids,
+        similarity_threshold, match_count, semantic_weight, keyword_weight, rrf_k;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION chunks_missing_embedding(
+    target_notebook_id UUID,
+    target_model TEXT,
+    batch_size INT DEFAULT 50
+)
+RETURNS TABLE (chunk_id UUID)
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT dc.id AS chunk_id
+    FROM document_chunks dc
+    WHERE dc.notebook_id = target_notebook_id
+      AND dc.chunk_type <> 'heading'
+      AND NOT EXISTS (
+          SELECT 1
+          FROM chunk_embeddings ce
+          WHERE ce.chunk_id = dc.id
+            AND ce.embedding_model = target_model
+      )
+    ORDER BY dc.created_at, dc.chunk_index
+    LIMIT batch_size;
+$$;
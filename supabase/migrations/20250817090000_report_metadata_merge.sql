@@ -0,0 +1,38 @@
+/*
+  # Merged updates to report metadata
+
+  1. Functions
+    - merge_report_metadata: merges keys into a report's metadata in one
+      statement, so the report pipeline recording token usage and an export
+      recording its file don't overwrite each other's keys. An object value
+      is merged into the object already under its key (e.g. one format under
+      exports); anything else replaces it
+
+  2. Security
+    - Called by edge functions with the service role only
+*/
+
+CREATE OR REPLACE FUNCTION merge_report_metadata(target_report_id UUID, patch JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    UPDATE report_generations
+    SET metadata = COALESCE(metadata, '{}'::jsonb) || (
+        SELECT COALESCE(jsonb_object_agg(
+            entry.key,
+            CASE
+                WHEN jsonb_typeof(entry.value) = 'object'
+                 AND jsonb_typeof(report_generations.metadata -> entry.key) = 'object'
+                THEN (report_generations.metadata -> entry.key) || entry.value
+                ELSE entry.value
+            END
+        ), '{}'::jsonb)
+        FROM jsonb_each(patch) AS entry
+    )
+    WHERE id = target_report_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION merge_report_metadata(UUID, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION merge_report_metadata(UUID, JSONB) TO service_role;